@@ -69,6 +69,42 @@ CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- ======================================
+-- Column: exclusion_rules
+-- Purpose: 使用者排除的動作與條件 (課表生成時一律不安排)
+-- 格式: { "exerciseIds": ["burpee-001"], "tags": ["impact:高"] }
+-- ======================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS exclusion_rules JSONB NOT NULL DEFAULT '{"exerciseIds": [], "tags": []}'::jsonb;
+
+-- ======================================
+-- Column: equipment_profiles
+-- Purpose: 使用者命名的器材組合 (例如住家、辦公室、飯店)，預設組合用於設定畫面與快速開始
+-- 格式: { "profiles": [{ "id": "...", "name": "住家", "equipment": ["bodyweight", "dumbbell"] }], "defaultProfileId": "..." }
+-- ======================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS equipment_profiles JSONB NOT NULL DEFAULT '{"profiles": [], "defaultProfileId": null}'::jsonb;
+
+-- ======================================
+-- Column: program_enrollment
+-- Purpose: 目前參加的訓練計畫與進度 (NULL 表示未參加)
+-- 格式: { "programId": "beginner-foundation", "startedAt": "...", "completedSessions": 4, "lastCompletedAt": "..." }
+-- ======================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS program_enrollment JSONB;
+
+-- ======================================
+-- Column: reminder_schedule
+-- Purpose: 訓練提醒排程 (星期與時間)，由 Service Worker 以通知提醒
+-- 格式: { "enabled": true, "days": [1, 3, 5], "time": "19:00" }  (days: 0 = 週日)
+-- ======================================
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS reminder_schedule JSONB NOT NULL DEFAULT '{"enabled": false, "days": [1, 3, 5], "time": "19:00"}'::jsonb;
+
 -- ======================================
 -- 建立索引 (加速查詢)
 -- ======================================
@@ -0,0 +1,81 @@
+-- ======================================
+-- Virtual Coach App - Planned Workouts Schema
+-- ======================================
+-- Table: planned_workouts
+-- Purpose: 儲存使用者在日曆上排定的未來訓練，完成訓練後由紀錄滿足
+-- ======================================
+
+-- 建立 planned_workouts 資料表
+CREATE TABLE IF NOT EXISTS planned_workouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- 使用者關聯 (連結至 Supabase Auth)
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 排定日期 (使用者本地日期)
+  date DATE NOT NULL,
+
+  -- 目標與預計時長 (選用範本時沿用範本的設定)
+  goal TEXT NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+
+  -- 使用的範本 (範本刪除後保留名稱供顯示)
+  template_id UUID REFERENCES workout_templates(id) ON DELETE SET NULL,
+  template_name TEXT,
+
+  -- 滿足此排程的訓練紀錄 (NULL 表示尚未完成)
+  completed_log_id UUID REFERENCES workout_logs(id) ON DELETE SET NULL,
+
+  -- 中繼資料
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 建立索引（加速查詢）
+CREATE INDEX IF NOT EXISTS idx_planned_workouts_user_date ON planned_workouts (user_id, date);
+
+-- ======================================
+-- Row Level Security (RLS) 政策
+-- ======================================
+
+-- 啟用 RLS
+ALTER TABLE planned_workouts ENABLE ROW LEVEL SECURITY;
+
+-- 使用者只能讀取自己的排程
+CREATE POLICY "Users can read own planned workouts"
+ON planned_workouts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- 使用者只能新增自己的排程
+CREATE POLICY "Users can insert own planned workouts"
+ON planned_workouts
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- 使用者只能更新自己的排程
+CREATE POLICY "Users can update own planned workouts"
+ON planned_workouts
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 使用者只能刪除自己的排程
+CREATE POLICY "Users can delete own planned workouts"
+ON planned_workouts
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- ======================================
+-- 驗證資料表建立
+-- ======================================
+SELECT
+  column_name,
+  data_type,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'planned_workouts'
+ORDER BY ordinal_position;
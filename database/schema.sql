@@ -23,6 +23,53 @@ CREATE TABLE IF NOT EXISTS exercises (
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- 動作時長上下限 (生成器調整時長時使用，可為空)
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS min_duration_seconds INTEGER CHECK (min_duration_seconds > 0);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS max_duration_seconds INTEGER CHECK (max_duration_seconds >= min_duration_seconds);
+
+-- 次數制處方 (肌力目標以「組數 × 次數」安排，可為空)
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS default_reps INTEGER CHECK (default_reps > 0);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS default_sets INTEGER CHECK (default_sets > 0);
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS tempo TEXT;
+
+-- 結構化動作資料 (取代 tags 的 key:value 標籤；器材、難度、目標沿用既有欄位)
+-- equipment 為全部需具備的器材，equipment_any 為擇一即可的器材 (例如啞鈴或壺鈴)
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS equipment_any TEXT[];
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS exercise_type TEXT CHECK (exercise_type IN ('strength', 'cardio', 'hiit', 'core', 'warmup', 'mobility', 'stretch'));
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS muscle_groups TEXT[];
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS impact TEXT CHECK (impact IN ('low', 'high'));
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS intensity TEXT CHECK (intensity IN ('low', 'high'));
+
+-- ======================================
+-- Table: exercise_relations
+-- Purpose: 動作之間的變化關係 (進階 / 退階 / 替代)，供生成器、回饋進程與播放器「換動作」使用
+-- 方向: relation_type 描述 exercise_id 相對於 related_exercise_id 的關係
+--   regression_of  → 較簡單的版本 (例如跪姿伏地挺身 regression_of 標準伏地挺身)
+--   progression_of → 較難的版本
+--   alternative_to → 同難度的替代動作 (雙向)
+-- ======================================
+
+CREATE TABLE IF NOT EXISTS exercise_relations (
+  exercise_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  related_exercise_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  relation_type VARCHAR(20) NOT NULL CHECK (relation_type IN ('regression_of', 'progression_of', 'alternative_to')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (exercise_id, related_exercise_id, relation_type),
+  CHECK (exercise_id <> related_exercise_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_relations_related ON exercise_relations (related_exercise_id);
+
+-- 與 exercises 相同：訪客與會員皆可讀取
+ALTER TABLE exercise_relations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read exercise relations" ON exercise_relations;
+CREATE POLICY "Allow public read exercise relations"
+  ON exercise_relations
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
 -- 建立更新時間觸發器函式
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
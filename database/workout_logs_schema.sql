@@ -21,11 +21,13 @@ CREATE TABLE IF NOT EXISTS workout_logs (
   
   -- 當次訓練設定 (JSONB 格式儲存彈性資料)
   settings JSONB NOT NULL DEFAULT '{}'::JSONB,
-  -- 預期格式: { "goal": "增肌", "difficulty": "intermediate", "equipment": ["徒手"] }
+  -- 預期格式: { "goal": "muscle", "difficulty": "intermediate", "equipment": ["bodyweight"], "plannedDuration": 30, "format": "circuit", "rounds": 3, "seed": 42 }
   
   -- 訓練動作陣列 (JSONB 格式儲存詳細資料)
   exercises JSONB NOT NULL DEFAULT '[]'::JSONB,
-  -- 預期格式: [{ "name": "深蹲", "duration": 45, "feedback": "just_right", "completed": true }]
+  -- 預期格式: [{ "name": "深蹲", "exerciseId": "sq-001", "plannedDuration": 45, "actualDuration": 45, "feedback": "just_right", "completed": true,
+  --              "phase": "main", "round": 1, "totalRounds": 3, "restAfterSeconds": 15 }]
+  -- phase / round / restAfterSeconds 用於「重做一次」還原課表
   
   -- 訓練後回饋
   rating INTEGER CHECK (rating >= 1 AND rating <= 5),
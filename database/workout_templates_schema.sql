@@ -0,0 +1,86 @@
+-- ======================================
+-- Virtual Coach App - Workout Templates Schema
+-- ======================================
+-- Table: workout_templates
+-- Purpose: 儲存使用者自訂的課表範本 (不經生成器直接開始訓練)
+-- ======================================
+
+-- 建立 workout_templates 資料表
+CREATE TABLE IF NOT EXISTS workout_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- 使用者關聯 (連結至 Supabase Auth)
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 範本名稱
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+
+  -- 建立範本時的訓練設定 (格式同 workout_logs.settings)
+  settings JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+  -- 課表動作陣列 (不含實際執行結果)
+  exercises JSONB NOT NULL DEFAULT '[]'::JSONB,
+  -- 預期格式: [{ "name": "深蹲", "exerciseId": "sq-001", "plannedDuration": 45, "phase": "main", "restAfterSeconds": 30 }]
+  -- 次數制動作另有 targetReps / targetSets，回合制另有 format / round / totalRounds
+
+  -- 中繼資料
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 建立更新時間觸發器
+DROP TRIGGER IF EXISTS update_workout_templates_updated_at ON workout_templates;
+CREATE TRIGGER update_workout_templates_updated_at
+BEFORE UPDATE ON workout_templates
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- 建立索引（加速查詢）
+CREATE INDEX IF NOT EXISTS idx_workout_templates_user_updated ON workout_templates (user_id, updated_at DESC);
+
+-- ======================================
+-- Row Level Security (RLS) 政策
+-- ======================================
+
+-- 啟用 RLS
+ALTER TABLE workout_templates ENABLE ROW LEVEL SECURITY;
+
+-- 使用者只能讀取自己的範本
+CREATE POLICY "Users can read own workout templates"
+ON workout_templates
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- 使用者只能新增自己的範本
+CREATE POLICY "Users can insert own workout templates"
+ON workout_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- 使用者只能更新自己的範本
+CREATE POLICY "Users can update own workout templates"
+ON workout_templates
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 使用者只能刪除自己的範本
+CREATE POLICY "Users can delete own workout templates"
+ON workout_templates
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- ======================================
+-- 驗證資料表建立
+-- ======================================
+SELECT
+  column_name,
+  data_type,
+  is_nullable
+FROM information_schema.columns
+WHERE table_name = 'workout_templates'
+ORDER BY ordinal_position;
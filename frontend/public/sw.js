@@ -0,0 +1,232 @@
+/**
+ * Service Worker (離線快取與訓練提醒)
+ *
+ * 離線快取 (Offline Caching)：
+ * - 安裝時預先快取 App Shell (index.html、manifest、圖示與 build 產生的 precache-manifest.json 所列檔案)
+ * - 頁面導覽：網路優先，離線時回傳快取的 index.html
+ * - build 產物 (/assets/，檔名含 hash)：快取優先
+ * - 動作庫 (Supabase exercises / exercise_relations 查詢)：網路優先，離線時使用上次的回應
+ * - CDN (Tailwind、字型、import map 套件)：先回傳快取，背景更新
+ * - 動作示範媒體：快取優先；載入動作庫後頁面會以 CACHE_MEDIA 訊息要求預先快取
+ *
+ * 訓練提醒 (Workout Reminders)：
+ * 頁面以 postMessage 傳入接下來的提醒時間 (由 features/reminders 計算)，
+ * 此處只負責在時間到時顯示通知，點擊通知後開啟或切換至應用程式。
+ * 支援 Notification Triggers 的瀏覽器會交由系統排程 (關閉分頁後仍會提醒)；
+ * 其他瀏覽器以計時器排程，Service Worker 被系統終止後會在下次開啟應用程式時重新排程。
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `vca-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `vca-runtime-${CACHE_VERSION}`;
+const MEDIA_CACHE = `vca-media-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, RUNTIME_CACHE, MEDIA_CACHE];
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/logo.png'];
+const PRECACHE_MANIFEST_URL = '/precache-manifest.json';
+
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+const CATALOG_PATHS = ['/rest/v1/exercises', '/rest/v1/exercise_relations'];
+
+const REMINDER_TAG_PREFIX = 'workout-reminder-';
+
+/** @type {number[]} */
+let reminderTimers = [];
+
+/**
+ * 讀取 build 產生的預先快取清單 (開發模式沒有此檔案)
+ * @returns {Promise<string[]>}
+ */
+async function getBuildAssets() {
+  try {
+    const response = await fetch(PRECACHE_MANIFEST_URL, { cache: 'no-store' });
+    return response.ok ? await response.json() : [];
+  } catch {
+    return [];
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const urls = [...SHELL_URLS, ...(await getBuildAssets())];
+      // 個別快取，單一檔案失敗不影響安裝
+      await Promise.all(urls.map(url => cache.add(url).catch(() => undefined)));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter(key => key.startsWith('vca-') && !CACHES.includes(key)).map(key => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+/**
+ * 快取優先
+ * @param {Request} request
+ * @param {string} cacheName
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * 網路優先，失敗時使用快取
+ * @param {Request} request
+ * @param {string} cacheName
+ * @param {string} [fallbackUrl] - 沒有快取時改用的網址
+ */
+async function networkFirst(request, cacheName, fallbackUrl) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * 先回傳快取，同時在背景更新
+ * @param {FetchEvent} event
+ * @param {string} cacheName
+ */
+async function staleWhileRevalidate(event, cacheName) {
+  const cached = await caches.match(event.request);
+  const update = fetch(event.request)
+    .then(async response => {
+      if (response.ok || response.type === 'opaque') {
+        const cache = await caches.open(cacheName);
+        await cache.put(event.request, response.clone());
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(update.catch(() => undefined));
+    return cached;
+  }
+  return update;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const isSameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+  } else if (isSameOrigin && (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname))) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (CATALOG_PATHS.some(path => url.pathname === path)) {
+    event.respondWith(networkFirst(request, RUNTIME_CACHE));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, RUNTIME_CACHE));
+  } else if (!isSameOrigin && (request.destination === 'image' || request.destination === 'video')) {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+  }
+});
+
+/**
+ * 預先快取媒體 (已快取的略過，單一檔案失敗不影響其他)
+ * @param {string[]} urls
+ */
+async function cacheMedia(urls) {
+  const cache = await caches.open(MEDIA_CACHE);
+  await Promise.all(urls.map(async url => {
+    if (await cache.match(url)) return;
+    try {
+      const response = await fetch(url, { mode: 'no-cors' });
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    } catch {
+      // 離線或網址失效時略過，下次載入動作庫時會再嘗試
+    }
+  }));
+}
+
+/**
+ * 取消所有已排程的提醒
+ */
+async function clearReminders() {
+  reminderTimers.forEach(timer => clearTimeout(timer));
+  reminderTimers = [];
+
+  const pending = await self.registration.getNotifications({ includeTriggered: false }).catch(() => []);
+  pending
+    .filter(notification => notification.tag.startsWith(REMINDER_TAG_PREFIX))
+    .forEach(notification => notification.close());
+}
+
+/**
+ * 排程提醒
+ * @param {number[]} times - 提醒時間 (epoch 毫秒)
+ * @param {{ title: string, body: string }} content - 通知內容
+ */
+async function scheduleReminders(times, content) {
+  await clearReminders();
+
+  const options = time => ({
+    body: content.body,
+    icon: '/logo.png',
+    badge: '/logo.png',
+    tag: `${REMINDER_TAG_PREFIX}${time}`,
+    data: { url: self.registration.scope },
+  });
+
+  if ('showTrigger' in Notification.prototype && 'TimestampTrigger' in self) {
+    await Promise.all(times.map(time =>
+      self.registration.showNotification(content.title, { ...options(time), showTrigger: new self.TimestampTrigger(time) })
+    ));
+    return;
+  }
+
+  reminderTimers = times.map(time =>
+    setTimeout(() => self.registration.showNotification(content.title, options(time)), Math.max(0, time - Date.now()))
+  );
+}
+
+self.addEventListener('message', event => {
+  const { type, times, title, body } = event.data || {};
+
+  if (type === 'SCHEDULE_REMINDERS') {
+    event.waitUntil(scheduleReminders(times || [], { title, body }));
+  } else if (type === 'CLEAR_REMINDERS') {
+    event.waitUntil(clearReminders());
+  } else if (type === 'CACHE_MEDIA') {
+    event.waitUntil(cacheMedia(event.data.urls || []));
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(item => item.url.startsWith(url));
+      return client ? client.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { AppScreen, UserPreferences, PlanItem } from './types/app';
+import { ProgressionAdjustment } from './types/feedback';
 import { SetupScreen } from './components/setup/SetupScreen';
 import { PlanOverviewScreen } from './components/plan/PlanOverviewScreen';
 import { PlayerScreen } from './components/player/PlayerScreen';
@@ -15,6 +16,23 @@ import { ToastContainer } from './components/ui/Toast';
 import { ErrorBoundary } from './components/ui/ErrorBoundary';
 import { Dumbbell, User, LogIn, Loader2, LayoutDashboard } from 'lucide-react';
 import { generateAIWorkoutPlan } from './services/aiGeneratorService';
+import { getProgressionProfile } from './services/progressionService';
+import { getAllExercises } from './services/exerciseService';
+import { getEquipmentProfiles, getExclusionRules, getReminderSchedule } from './services/profileSettingsService';
+import { applyReminderSchedule } from './services/reminderService';
+import { swapExerciseInPlan } from './features/generator/relations';
+import { rebuildPlanFromLog, regeneratePlanFromSeed } from './features/generator/replay';
+import { filterAdjustmentsByPlan } from './features/generator/progression';
+import { getDefaultEquipmentProfile } from './features/generator/equipmentProfiles';
+import { isEquipmentAvailable } from './features/exercises/metadata';
+import { isExcluded } from './features/generator/exclusions';
+import { WORKOUT_CHECKPOINT_VERSION, describeCheckpoint } from './features/session/checkpoint';
+import { clearWorkoutCheckpoint, loadWorkoutCheckpoint, saveWorkoutCheckpoint } from './utils/workoutCheckpoint';
+import { Exercise } from './types/db';
+import { PlannedExerciseEntry, WorkoutLog, WorkoutSettings, settingsToPreferences } from './types/workoutLog';
+import { WorkoutTemplate } from './types/workoutTemplate';
+import { ProgramSession } from './types/program';
+import { PlayerProgress, WorkoutResult } from './types/session';
 import { AuthProvider, useAuth } from './features/auth/AuthContext';
 import { useToast, useConfirmDialog } from './hooks/useDialog';
 import { useRouter, getBackScreen } from './hooks/useRouter';
@@ -180,9 +198,12 @@ const AppContent = () => {
     
     const [preferences, setPreferences] = useState<UserPreferences | null>(null);
     const [workoutPlan, setWorkoutPlan] = useState<PlanItem[]>([]);
+    const [planSeed, setPlanSeed] = useState<number | undefined>(undefined); // 課表亂數種子 (寫入紀錄以便重現)
+    const [planAdjustments, setPlanAdjustments] = useState<ProgressionAdjustment[]>([]); // 依過往回饋所做的調整
     const [workoutStartedAt, setWorkoutStartedAt] = useState<string>('');
-    const [completedExerciseCount, setCompletedExerciseCount] = useState<number>(0); // 追蹤完成的動作數
-    const [actualDurationSeconds, setActualDurationSeconds] = useState<number>(0); // 追蹤實際訓練秒數
+    const [workoutResult, setWorkoutResult] = useState<WorkoutResult | null>(null); // 完成數量、實際秒數與逐項執行紀錄
+    const [resumeProgress, setResumeProgress] = useState<PlayerProgress | undefined>(undefined); // 從檢查點繼續的播放器進度
+    const resumeCheckedRef = useRef(false);
     const { user, enterGuestMode, isVerifying, verificationSuccess, clearVerificationStatus, isLoading } = useAuth();
     
     // Custom dialog hooks
@@ -205,19 +226,78 @@ const AppContent = () => {
         }
     }, [isLoading, user, currentScreen, navigate]);
 
+    // 每次開啟應用程式或切換帳號時重新排程訓練提醒 (Service Worker 可能已被系統終止)
+    useEffect(() => {
+        if (isLoading) return;
+        getReminderSchedule(user?.id ?? null)
+            .then(schedule => applyReminderSchedule(schedule))
+            .catch(error => console.error('排程訓練提醒失敗', error));
+    }, [isLoading, user?.id]);
+
+    // 啟動時檢查未完成的訓練 (當機或關閉分頁)，詢問是否從中斷處繼續
+    useEffect(() => {
+        if (isLoading || resumeCheckedRef.current) return;
+        resumeCheckedRef.current = true;
+
+        const checkpoint = loadWorkoutCheckpoint();
+        if (!checkpoint) return;
+
+        const wasOnWorkout = currentScreen === 'workout';
+        confirm(
+            '繼續未完成的訓練',
+            `上次的訓練尚未結束（${describeCheckpoint(checkpoint)}），要從中斷的地方繼續嗎？`,
+            { confirmText: '繼續訓練', cancelText: '放棄' }
+        ).then(confirmed => {
+            if (!confirmed) {
+                clearWorkoutCheckpoint();
+                // 重新整理時停在訓練畫面，但已沒有課表可播放
+                if (wasOnWorkout) navigate(user ? 'dashboard' : 'home', { replace: true });
+                return;
+            }
+            setPreferences(checkpoint.preferences);
+            setWorkoutPlan(checkpoint.plan);
+            setPlanSeed(checkpoint.planSeed);
+            setPlanAdjustments(checkpoint.planAdjustments);
+            setWorkoutStartedAt(checkpoint.startedAt);
+            setResumeProgress(checkpoint.progress);
+            navigate('workout', { replace: true });
+        });
+    }, [isLoading, confirm, navigate]);
+
+    // 播放器每次進度變化時寫入檢查點 (換動作後的課表一併保存)
+    const handlePlayerProgress = useCallback((progress: PlayerProgress) => {
+        if (!preferences) return;
+        saveWorkoutCheckpoint({
+            version: WORKOUT_CHECKPOINT_VERSION,
+            startedAt: workoutStartedAt || new Date().toISOString(),
+            plan: workoutPlan,
+            preferences,
+            planSeed,
+            planAdjustments,
+            progress,
+        });
+    }, [preferences, workoutStartedAt, workoutPlan, planSeed, planAdjustments]);
+
     // 如果正在驗證中，顯示載入畫面
     if (isVerifying) {
         return <VerifyingScreen />;
     }
 
-    const handleSetupComplete = async (prefs: UserPreferences) => {
-        setPreferences(prefs);
+    // 生成課表：先進入生成畫面，偏好設定的讀取與生成失敗時一併回到首頁
+    const generatePlan = async (loadPreferences: () => Promise<UserPreferences>) => {
         navigate('generating', { replace: true });
 
         try {
+            const prefs = await loadPreferences();
+            setPreferences(prefs);
             await new Promise(resolve => setTimeout(resolve, 1500));
-            const plan = await generateAIWorkoutPlan(prefs);
-            setWorkoutPlan(plan);
+            // 讀取過往回饋，讓課表依「太簡單 / 太難」調整
+            const progression = await getProgressionProfile(user?.id ?? null);
+            const plan = await generateAIWorkoutPlan(prefs, { progression });
+            setWorkoutPlan(plan.items);
+            // 只有能以相同設定與種子重現的課表才記錄種子 (AI 課表或依回饋調整過的課表不記錄)
+            setPlanSeed(plan.reproducible ? plan.seed : undefined);
+            setPlanAdjustments(plan.adjustments);
             navigate('overview', { replace: true });
         } catch (error) {
             console.error("生成失敗", error);
@@ -226,26 +306,116 @@ const AppContent = () => {
         }
     };
 
+    const handleSetupComplete = (prefs: UserPreferences) => generatePlan(async () => prefs);
+
+    // 快速開始：沿用上次的設定重新生成 (有預設器材組合時改用該組合)
+    const handleQuickStart = (settings: WorkoutSettings) => generatePlan(async () => {
+        const userId = user?.id ?? null;
+        const [exclusions, equipmentProfiles] = await Promise.all([
+            getExclusionRules(userId),
+            getEquipmentProfiles(userId),
+        ]);
+        const defaultProfile = getDefaultEquipmentProfile(equipmentProfiles);
+        return {
+            ...settingsToPreferences(settings),
+            ...(defaultProfile && { equipment: defaultProfile.equipment }),
+            exclusions,
+        };
+    });
+
+    // 訓練計畫：以計畫當天的設定生成，器材沿用預設組合 (沒有時為徒手)
+    const handleStartProgramSession = ({ programId, week, day, preferences: sessionPrefs }: ProgramSession) =>
+        generatePlan(async () => {
+            const userId = user?.id ?? null;
+            const [exclusions, equipmentProfiles] = await Promise.all([
+                getExclusionRules(userId),
+                getEquipmentProfiles(userId),
+            ]);
+            return {
+                ...sessionPrefs,
+                equipment: getDefaultEquipmentProfile(equipmentProfiles)?.equipment ?? ['bodyweight'],
+                exclusions,
+                program: { programId, week, day },
+            };
+        });
+
+    // 還原已記錄的課表 (訓練紀錄或範本)：有種子時以生成器重現，否則依紀錄重建
+    const startRecordedPlan = async (
+        settings: WorkoutSettings,
+        entries: PlannedExerciseEntry[],
+        source: string,
+        replace = false
+    ) => {
+        try {
+            const exclusions = await getExclusionRules(user?.id ?? null);
+            const regenerated = await regeneratePlanFromSeed(settings, entries, exclusions);
+            const { items, missing } = regenerated
+                ? { items: regenerated.items, missing: [] }
+                : rebuildPlanFromLog(entries, await getAllExercises());
+            if (items.length === 0) {
+                toast.error(`這筆${source}的動作已無法取得，請重新設定課表。`);
+                return;
+            }
+            if (missing.length > 0) {
+                toast.warning(`已略過 ${missing.length} 個找不到的動作：${missing.join('、')}`);
+            }
+
+            setPreferences({ ...settingsToPreferences(settings), exclusions });
+            setWorkoutPlan(items);
+            setPlanSeed(regenerated ? settings.seed : undefined);
+            setPlanAdjustments([]);
+            navigate('overview', { replace });
+        } catch (error) {
+            console.error('還原課表失敗', error);
+            toast.error('抱歉，還原課表時發生錯誤，請稍後再試。');
+        }
+    };
+
+    // 重做一次：從紀錄還原完全相同的課表
+    const handleRepeatWorkout = (log: WorkoutLog) => startRecordedPlan(log.settings, log.exercises, '紀錄');
+
+    // 使用範本：略過設定與生成 (取代設定畫面的歷史紀錄)
+    const handleTemplateSelect = (template: WorkoutTemplate) =>
+        startRecordedPlan(template.settings, template.exercises, '範本', true);
+
+    // 播放中換動作 (此動作後續的回合一併替換)
+    const handleSwapExercise = (index: number, exercise: Exercise) => {
+        setWorkoutPlan(prev => swapExerciseInPlan(prev, index, exercise));
+        // 換過動作的課表無法再以種子重現
+        setPlanSeed(undefined);
+    };
+
+    // 總覽畫面編輯課表 (編輯後無法再以種子重現；移除的動作不再顯示回饋調整說明)
+    const handlePlanChange = (plan: PlanItem[]) => {
+        setWorkoutPlan(plan);
+        setPlanSeed(undefined);
+        setPlanAdjustments(prev => filterAdjustmentsByPlan(prev, plan));
+    };
+
+    // 換動作候選需符合目前的器材與排除條件
+    const isExerciseAllowed = (exercise: Exercise) =>
+        !preferences || (isEquipmentAvailable(exercise, preferences.equipment) && !isExcluded(exercise, preferences.exclusions));
+
     // 處理中途離開訓練
-    const handleExitWorkout = async (completedIndex: number, elapsedSeconds: number) => {
+    const handleExitWorkout = async (result: WorkoutResult) => {
         const confirmed = await confirm(
             '結束訓練',
             '確定要結束目前的訓練嗎？系統會儲存您已完成的進度。',
             { confirmVariant: 'danger', confirmText: '結束訓練', cancelText: '繼續訓練' }
         );
         if (confirmed) {
+            clearWorkoutCheckpoint();
             // 儲存實際進度
-            setCompletedExerciseCount(completedIndex);
-            setActualDurationSeconds(elapsedSeconds);
+            setWorkoutResult(result);
             // 導向完成頁面，讓用戶看到已完成的訓練數據
             navigate('completed', { replace: true });
         }
     };
 
     // 處理訓練完成
-    const handleWorkoutFinish = (completedIndex: number, elapsedSeconds: number) => {
-        setCompletedExerciseCount(completedIndex);
-        setActualDurationSeconds(elapsedSeconds);
+    const handleWorkoutFinish = (result: WorkoutResult) => {
+        clearWorkoutCheckpoint();
+        setWorkoutResult(result);
         navigate('completed', { replace: true });
     };
 
@@ -288,6 +458,8 @@ const AppContent = () => {
                 {currentScreen === 'dashboard' && (
                     <DashboardScreen
                         onStartWorkout={() => navigate('setup')}
+                        onQuickStart={handleQuickStart}
+                        onStartProgramSession={handleStartProgramSession}
                         onViewHistory={() => navigate('history')}
                         onViewProfile={() => navigate('profile')}
                     />
@@ -323,6 +495,7 @@ const AppContent = () => {
                     <HistoryScreen
                         onBack={() => handleBack()}
                         onStartWorkout={() => navigate('setup')}
+                        onRepeatWorkout={handleRepeatWorkout}
                     />
                 )}
 
@@ -330,6 +503,7 @@ const AppContent = () => {
                     <SetupScreen
                         onComplete={handleSetupComplete}
                         onBack={() => handleBack()}
+                        onTemplateSelect={handleTemplateSelect}
                     />
                 )}
 
@@ -341,11 +515,15 @@ const AppContent = () => {
                     <PlanOverviewScreen
                         plan={workoutPlan}
                         preferences={preferences}
+                        adjustments={planAdjustments}
                         onStart={() => {
                             setWorkoutStartedAt(new Date().toISOString());
+                            setResumeProgress(undefined);
                             navigate('workout', { replace: true });
                         }}
                         onBack={() => navigate('setup')}
+                        onPlanChange={handlePlanChange}
+                        isExerciseAllowed={isExerciseAllowed}
                     />
                 )}
 
@@ -354,19 +532,22 @@ const AppContent = () => {
                         plan={workoutPlan}
                         onComplete={handleWorkoutFinish}
                         onExit={handleExitWorkout}
+                        onSwapExercise={handleSwapExercise}
+                        isExerciseAllowed={isExerciseAllowed}
+                        initialProgress={resumeProgress}
+                        onProgress={handlePlayerProgress}
                     />
                 )}
 
-                {currentScreen === 'completed' && preferences && (
+                {currentScreen === 'completed' && preferences && workoutResult && (
                     <CompletedScreen
-                        durationMinutes={preferences.durationMinutes}
                         plan={workoutPlan}
                         preferences={preferences}
                         startedAt={workoutStartedAt || new Date().toISOString()}
                         onHome={handleWorkoutComplete}
                         onHistory={() => navigate('history')}
-                        completedExerciseCount={completedExerciseCount}
-                        actualDurationSeconds={actualDurationSeconds}
+                        result={workoutResult}
+                        planSeed={planSeed}
                     />
                 )}
             </main>
@@ -8,7 +8,24 @@ import { Button } from '@/components/ui/Button';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { updateProfile, signOut } from '@/services/authService';
 import { getWorkoutStats } from '@/services/workoutLogService';
+import {
+    getEquipmentProfiles,
+    getExclusionRules,
+    getReminderSchedule,
+    saveEquipmentProfiles,
+    saveExclusionRules,
+    saveReminderSchedule,
+} from '@/services/profileSettingsService';
+import { applyReminderSchedule, getReminderPermission, requestReminderPermission } from '@/services/reminderService';
+import { ExclusionEditor } from '@/components/setup/ExclusionEditor';
+import { EquipmentProfileEditor } from '@/components/setup/EquipmentProfileEditor';
+import { ReminderEditor } from '@/components/auth/ReminderEditor';
+import { EMPTY_EXCLUSIONS } from '@/features/generator/exclusions';
+import { EMPTY_EQUIPMENT_PROFILES } from '@/features/generator/equipmentProfiles';
+import { DEFAULT_REMINDER_SCHEDULE, describeReminderSchedule, getNextReminderTime } from '@/features/reminders/reminders';
+import { EQUIPMENT_OPTIONS } from '@/features/exercises/metadata';
 import { WorkoutStats } from '@/types/workoutLog';
+import { EquipmentProfileSettings, ExclusionRules, ReminderSchedule } from '@/types/app';
 import { useAuth } from '@/features/auth/AuthContext';
 import { 
   User, 
@@ -26,7 +43,10 @@ import {
   ChevronRight,
   Award,
   TrendingUp,
-  Settings
+  Settings,
+  Ban,
+  Package,
+  Bell
 } from 'lucide-react';
 
 interface ProfileScreenProps {
@@ -45,10 +65,22 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onHistoryC
     const [showLogoutDialog, setShowLogoutDialog] = useState(false);
     const [stats, setStats] = useState<WorkoutStats | null>(null);
     const [isLoadingStats, setIsLoadingStats] = useState(true);
+    const [exclusions, setExclusions] = useState<ExclusionRules>(EMPTY_EXCLUSIONS);
+    const [isSavingExclusions, setIsSavingExclusions] = useState(false);
+    const [exclusionMessage, setExclusionMessage] = useState('');
+    const [equipmentProfiles, setEquipmentProfiles] = useState<EquipmentProfileSettings>(EMPTY_EQUIPMENT_PROFILES);
+    const [profileEquipment, setProfileEquipment] = useState<string[]>(['bodyweight']);
+    const [equipmentProfileMessage, setEquipmentProfileMessage] = useState('');
+    const [reminder, setReminder] = useState<ReminderSchedule>(DEFAULT_REMINDER_SCHEDULE);
+    const [isSavingReminder, setIsSavingReminder] = useState(false);
+    const [reminderMessage, setReminderMessage] = useState('');
 
     useEffect(() => {
         if (user) {
             loadStats();
+            getExclusionRules(user.id).then(setExclusions);
+            getEquipmentProfiles(user.id).then(setEquipmentProfiles);
+            getReminderSchedule(user.id).then(setReminder);
         }
     }, [user]);
 
@@ -105,6 +137,48 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onHistoryC
         }
     };
 
+    // 器材組合異動時立即儲存
+    const handleEquipmentProfilesChange = async (settings: EquipmentProfileSettings) => {
+        setEquipmentProfiles(settings);
+        const saved = await saveEquipmentProfiles(user.id, settings);
+        setEquipmentProfileMessage(saved ? '器材組合已儲存' : '儲存失敗，請稍後再試');
+        setTimeout(() => setEquipmentProfileMessage(''), 3000);
+    };
+
+    const toggleProfileEquipment = (id: string) => {
+        if (id === 'bodyweight') return;
+        setProfileEquipment(prev => (prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]));
+    };
+
+    const handleSaveExclusions = async () => {
+        setIsSavingExclusions(true);
+        const saved = await saveExclusionRules(user.id, exclusions);
+        setIsSavingExclusions(false);
+        setExclusionMessage(saved ? '排除條件已儲存' : '儲存失敗，請稍後再試');
+        setTimeout(() => setExclusionMessage(''), 3000);
+    };
+
+    // 儲存提醒排程：啟用時先請求通知權限，再交給 Service Worker 排程
+    const handleSaveReminder = async () => {
+        setIsSavingReminder(true);
+        const permitted = !reminder.enabled || await requestReminderPermission();
+        const saved = await saveReminderSchedule(user.id, reminder);
+        if (saved) await applyReminderSchedule(reminder);
+        setIsSavingReminder(false);
+
+        const next = getNextReminderTime(reminder);
+        if (!saved) {
+            setReminderMessage('儲存失敗，請稍後再試');
+        } else if (!permitted) {
+            setReminderMessage('已儲存，但瀏覽器未允許通知，請在瀏覽器設定中開啟通知權限');
+        } else {
+            setReminderMessage(next
+                ? `已儲存，下次提醒：${next.toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', weekday: 'short', hour: '2-digit', minute: '2-digit' })}`
+                : '訓練提醒已關閉');
+        }
+        setTimeout(() => setReminderMessage(''), 5000);
+    };
+
     const handleCancelEdit = () => {
         setIsEditing(false);
         setDisplayName(user.display_name || '');
@@ -251,6 +325,97 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ onBack, onHistoryC
                         </div>
                     </div>
 
+                    {/* 排除條件 */}
+                    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+                        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                                <Ban size={18} className="text-gray-500" />
+                                <h3 className="font-semibold text-gray-800">避開的動作</h3>
+                            </div>
+                            <Button onClick={handleSaveExclusions} disabled={isSavingExclusions} size="sm" className="gap-1.5">
+                                <Check size={16} />
+                                {isSavingExclusions ? '儲存中...' : '儲存'}
+                            </Button>
+                        </div>
+                        <div className="p-6">
+                            <p className="text-sm text-gray-500 mb-4">生成課表時不會安排這些動作 (含暖身與緩和)。</p>
+                            <ExclusionEditor value={exclusions} onChange={setExclusions} />
+                            {exclusionMessage && (
+                                <p className="text-sm text-gray-600 mt-4">{exclusionMessage}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* 器材組合 */}
+                    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+                        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+                            <Package size={18} className="text-gray-500" />
+                            <h3 className="font-semibold text-gray-800">器材組合</h3>
+                        </div>
+                        <div className="p-6 space-y-4">
+                            <p className="text-sm text-gray-500">為不同訓練地點儲存器材，設定課表時一鍵套用；預設組合會自動選取。</p>
+                            <div className="flex flex-wrap gap-2">
+                                {EQUIPMENT_OPTIONS.map(option => {
+                                    const selected = profileEquipment.includes(option.id);
+                                    return (
+                                        <button
+                                            key={option.id}
+                                            type="button"
+                                            onClick={() => toggleProfileEquipment(option.id)}
+                                            className={`inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-all border-2 ${
+                                                selected
+                                                    ? 'border-brand-dark bg-brand-dark/5 text-brand-dark'
+                                                    : 'border-transparent bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                            }`}
+                                        >
+                                            {selected && <Check size={14} strokeWidth={3} />}
+                                            {option.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            <EquipmentProfileEditor
+                                value={equipmentProfiles}
+                                onChange={handleEquipmentProfilesChange}
+                                equipment={profileEquipment}
+                                onSelect={profile => setProfileEquipment(profile.equipment)}
+                            />
+                            {equipmentProfileMessage && (
+                                <p className="text-sm text-gray-600">{equipmentProfileMessage}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* 訓練提醒 */}
+                    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
+                        <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                                <Bell size={18} className="text-gray-500" />
+                                <h3 className="font-semibold text-gray-800">訓練提醒</h3>
+                            </div>
+                            <Button
+                                onClick={handleSaveReminder}
+                                disabled={isSavingReminder || getReminderPermission() === 'unsupported'}
+                                size="sm"
+                                className="gap-1.5"
+                            >
+                                <Check size={16} />
+                                {isSavingReminder ? '儲存中...' : '儲存'}
+                            </Button>
+                        </div>
+                        <div className="p-6">
+                            <p className="text-sm text-gray-500 mb-4">
+                                {getReminderPermission() === 'unsupported'
+                                    ? '此瀏覽器不支援通知，無法設定訓練提醒。'
+                                    : `在選擇的日子提醒你訓練 (目前：${describeReminderSchedule(reminder)})。`}
+                            </p>
+                            <ReminderEditor value={reminder} onChange={setReminder} />
+                            {reminderMessage && (
+                                <p className="text-sm text-gray-600 mt-4">{reminderMessage}</p>
+                            )}
+                        </div>
+                    </div>
+
                     {/* 快速操作 */}
                     <div className="bg-white rounded-2xl border border-gray-200 shadow-sm overflow-hidden">
                         <div className="px-6 py-4 border-b border-gray-100">
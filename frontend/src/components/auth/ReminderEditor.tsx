@@ -0,0 +1,72 @@
+import React from 'react';
+import { ReminderSchedule } from '../../types/app';
+import { WEEKDAY_LABELS } from '../../features/reminders/reminders';
+import { Check } from 'lucide-react';
+
+interface ReminderEditorProps {
+  value: ReminderSchedule;
+  onChange: (schedule: ReminderSchedule) => void;
+}
+
+/** 星期顯示順序 (週一起) */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * 訓練提醒編輯器 (Reminder Editor)
+ * 開關提醒、選擇星期與時間
+ */
+export const ReminderEditor: React.FC<ReminderEditorProps> = ({ value, onChange }) => {
+  const toggleDay = (day: number) =>
+    onChange({
+      ...value,
+      days: value.days.includes(day)
+        ? value.days.filter(d => d !== day)
+        : [...value.days, day].sort((a, b) => a - b),
+    });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+          className="w-4 h-4 accent-brand-dark"
+        />
+        <span className="text-sm font-medium text-gray-700">啟用訓練提醒</span>
+      </label>
+
+      <div className={`space-y-4 ${value.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_ORDER.map(day => {
+            const selected = value.days.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-all border-2 ${
+                  selected
+                    ? 'border-brand-dark bg-brand-dark/5 text-brand-dark'
+                    : 'border-transparent bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {selected && <Check size={14} strokeWidth={3} />}
+                週{WEEKDAY_LABELS[day]}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">提醒時間</span>
+          <input
+            type="time"
+            value={value.time}
+            onChange={e => e.target.value && onChange({ ...value, time: e.target.value })}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-dark/20 focus:border-brand-dark"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -9,7 +9,16 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../../features/auth/AuthContext';
 import { getDashboardData, getMonthCalendarData, DashboardData, CalendarWorkoutDay } from '../../services/dashboardService';
+import { WorkoutSettings } from '../../types/workoutLog';
+import { ProgramSession } from '../../types/program';
+import { getGoalLabel } from '../../features/exercises/metadata';
+import { WORKOUT_FORMAT_LABELS } from '../../features/generator/formats';
 import { Button } from '../ui/Button';
+import { ProgramCard } from './ProgramCard';
+import { PlannedDayPanel } from './PlannedDayPanel';
+import { PlannedWorkout, PlannedWorkoutStatus } from '../../types/plannedWorkout';
+import { getPlannedWorkoutStatus, toDateKey } from '../../features/planner/planner';
+import { getMonthPlannedWorkouts } from '../../services/plannedWorkoutService';
 import { 
   Activity, 
   Clock, 
@@ -27,12 +36,17 @@ import {
   Zap,
   Sparkles,
   Award,
-  ArrowRight
+  ArrowRight,
+  RotateCcw
 } from 'lucide-react';
 
 interface DashboardScreenProps {
   /** 開始訓練回調 */
   onStartWorkout: () => void;
+  /** 以上次設定快速開始 (略過設定步驟) */
+  onQuickStart?: (settings: WorkoutSettings) => void;
+  /** 開始訓練計畫的下一次課表 */
+  onStartProgramSession?: (session: ProgramSession) => void;
   /** 查看歷史紀錄回調 */
   onViewHistory: () => void;
   /** 查看個人資料回調 */
@@ -122,9 +136,36 @@ const MiniStatCard: React.FC<{
   </div>
 );
 
+/**
+ * 日曆格子資料
+ */
+interface CalendarDay {
+  date: number | null;
+  /** 日期鍵值 (YYYY-MM-DD，空白格為空字串) */
+  dateKey: string;
+  hasWorkout: boolean;
+  minutes: number;
+  workoutCount: number;
+  /** 當天的排程 */
+  plans: PlannedWorkout[];
+}
+
+/** 排程狀態標記顏色 */
+const PLAN_STATUS_DOT: Record<PlannedWorkoutStatus, string> = {
+  planned: 'bg-blue-500',
+  completed: 'bg-green-500',
+  missed: 'bg-gray-300',
+};
+
+const PLAN_STATUS_LABELS: Record<PlannedWorkoutStatus, string> = {
+  planned: '已排程',
+  completed: '已完成',
+  missed: '未完成',
+};
+
 /**
  * 日曆組件 - 增強版
- * 功能：月份切換、訓練日標記、今日高亮、訓練時長視覺化、tooltip 詳情
+ * 功能：月份切換、訓練日標記、今日高亮、訓練時長視覺化、tooltip 詳情、排程 (已排程 / 已完成 / 未完成)
  */
 const WorkoutCalendar: React.FC<{
   userId: string | null;
@@ -133,7 +174,8 @@ const WorkoutCalendar: React.FC<{
   const [currentDate, setCurrentDate] = useState(new Date());
   const [monthData, setMonthData] = useState<CalendarWorkoutDay[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedDay, setSelectedDay] = useState<{ date: number; minutes: number; count: number } | null>(null);
+  const [plans, setPlans] = useState<PlannedWorkout[]>([]);
+  const [selectedDate, setSelectedDate] = useState<number | null>(null);
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
@@ -158,19 +200,23 @@ const WorkoutCalendar: React.FC<{
       loadMonthData();
     }
     // 切換月份時清除選中的日期
-    setSelectedDay(null);
+    setSelectedDate(null);
   }, [year, month, userId, calendarData]);
 
+  useEffect(() => {
+    getMonthPlannedWorkouts(userId, year, month + 1).then(setPlans);
+  }, [year, month, userId]);
+
   const calendarDays = useMemo(() => {
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
     const startPadding = firstDay.getDay();
     const totalDays = lastDay.getDate();
 
-    const days: { date: number | null; hasWorkout: boolean; minutes: number; workoutCount: number }[] = [];
+    const days: CalendarDay[] = [];
 
     for (let i = 0; i < startPadding; i++) {
-      days.push({ date: null, hasWorkout: false, minutes: 0, workoutCount: 0 });
+      days.push({ date: null, dateKey: '', hasWorkout: false, minutes: 0, workoutCount: 0, plans: [] });
     }
 
     for (let d = 1; d <= totalDays; d++) {
@@ -178,14 +224,16 @@ const WorkoutCalendar: React.FC<{
       const workout = monthData.find(w => w.date === dateStr);
       days.push({
         date: d,
+        dateKey: dateStr,
         hasWorkout: !!workout,
         minutes: workout?.totalMinutes || 0,
         workoutCount: workout?.workoutCount || 0,
+        plans: plans.filter(plan => plan.date === dateStr),
       });
     }
 
     return days;
-  }, [year, month, monthData]);
+  }, [year, month, monthData, plans]);
 
   // 計算訓練強度等級 (用於顏色深淺)
   const getIntensityLevel = (minutes: number): number => {
@@ -220,15 +268,20 @@ const WorkoutCalendar: React.FC<{
 
   const workoutDaysCount = calendarDays.filter(d => d.hasWorkout).length;
   const totalMinutes = calendarDays.reduce((sum, d) => sum + d.minutes, 0);
+  const completedPlansCount = plans.filter(plan => plan.completed_log_id).length;
+  const todayKey = toDateKey(today);
+  const selectedDay = calendarDays.find(d => d.date !== null && d.date === selectedDate) ?? null;
 
-  // 處理日期點擊
-  const handleDayClick = (day: { date: number | null; hasWorkout: boolean; minutes: number; workoutCount: number }) => {
+  // 處理日期點擊：有訓練、有排程或可排程 (今天之後) 的日期顯示詳情
+  const handleDayClick = (day: CalendarDay) => {
     if (day.date === null) return;
-    if (day.hasWorkout) {
-      setSelectedDay({ date: day.date, minutes: day.minutes, count: day.workoutCount });
-    } else {
-      setSelectedDay(null);
-    }
+    const hasDetail = day.hasWorkout || day.plans.length > 0 || day.dateKey >= todayKey;
+    setSelectedDate(hasDetail && day.date !== selectedDate ? day.date : null);
+  };
+
+  // 單日排程變更後更新整月排程
+  const handlePlansChange = (dateKey: string, dayPlans: PlannedWorkout[]) => {
+    setPlans(prev => [...prev.filter(plan => plan.date !== dateKey), ...dayPlans]);
   };
 
   return (
@@ -247,6 +300,9 @@ const WorkoutCalendar: React.FC<{
             {totalMinutes > 0 && (
               <p className="text-xs text-green-600 font-medium">共 {totalMinutes} 分鐘</p>
             )}
+            {plans.length > 0 && (
+              <p className="text-xs text-blue-600 font-medium">排程 {completedPlansCount} / {plans.length} 完成</p>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -294,7 +350,9 @@ const WorkoutCalendar: React.FC<{
           <div className="grid grid-cols-7 gap-1">
             {calendarDays.map((day, idx) => {
               const intensity = getIntensityLevel(day.minutes);
-              const isSelected = selectedDay?.date === day.date;
+              const isSelected = selectedDate === day.date;
+              const planStatuses = day.plans.map(plan => getPlannedWorkoutStatus(plan, today));
+              const hasPendingPlan = planStatuses.includes('planned');
               
               return (
                 <div
@@ -305,6 +363,7 @@ const WorkoutCalendar: React.FC<{
                     ${day.date === null ? '' : 'cursor-pointer hover:ring-2 hover:ring-brand-light/50'}
                     ${isToday(day.date) ? 'bg-brand-dark text-white font-bold ring-2 ring-brand-dark' : ''}
                     ${day.hasWorkout && !isToday(day.date) ? intensityColors[intensity] : ''}
+                    ${hasPendingPlan && !day.hasWorkout && !isToday(day.date) ? 'border-2 border-dashed border-blue-300 text-blue-700' : ''}
                     ${isSelected ? 'ring-2 ring-brand-dark scale-105' : ''}
                   `}
                 >
@@ -321,6 +380,13 @@ const WorkoutCalendar: React.FC<{
                           ))}
                         </div>
                       )}
+                      {planStatuses.length > 0 && (
+                        <div className="absolute top-1 right-1 flex gap-0.5">
+                          {planStatuses.slice(0, 3).map((status, i) => (
+                            <div key={i} className={`w-1.5 h-1.5 rounded-full ${PLAN_STATUS_DOT[status]}`} />
+                          ))}
+                        </div>
+                      )}
                     </>
                   )}
                 </div>
@@ -341,22 +407,40 @@ const WorkoutCalendar: React.FC<{
                       {month + 1}月{selectedDay.date}日
                     </p>
                     <p className="text-xs text-gray-500">
-                      {selectedDay.count} 次訓練 · {selectedDay.minutes} 分鐘
+                      {selectedDay.hasWorkout
+                        ? `${selectedDay.workoutCount} 次訓練 · ${selectedDay.minutes} 分鐘`
+                        : '尚無訓練'}
                     </p>
                   </div>
                 </div>
                 <button 
-                  onClick={() => setSelectedDay(null)}
+                  onClick={() => setSelectedDate(null)}
                   className="p-1 hover:bg-gray-200 rounded-full transition-colors"
                 >
                   <span className="text-gray-400 text-sm">✕</span>
                 </button>
               </div>
+              <div className="mt-3">
+                <PlannedDayPanel
+                  key={selectedDay.dateKey}
+                  userId={userId}
+                  date={selectedDay.dateKey}
+                  plans={selectedDay.plans}
+                  canPlan={selectedDay.dateKey >= todayKey}
+                  onChange={dayPlans => handlePlansChange(selectedDay.dateKey, dayPlans)}
+                />
+              </div>
             </div>
           )}
 
           {/* 圖例 */}
           <div className="mt-4 flex items-center justify-end gap-2 text-xs text-gray-500">
+            {(['planned', 'completed', 'missed'] as const).map(status => (
+              <span key={status} className="flex items-center gap-1 mr-2">
+                <span className={`w-1.5 h-1.5 rounded-full ${PLAN_STATUS_DOT[status]}`} />
+                {PLAN_STATUS_LABELS[status]}
+              </span>
+            ))}
             <span>少</span>
             {[1, 2, 3, 4].map(level => (
               <div 
@@ -510,6 +594,8 @@ const RecentWorkouts: React.FC<{
  */
 export const DashboardScreen: React.FC<DashboardScreenProps> = ({
   onStartWorkout,
+  onQuickStart,
+  onStartProgramSession,
   onViewHistory,
   onViewProfile,
 }) => {
@@ -572,7 +658,7 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
     );
   }
 
-  const { stats, calendarData, tagDistribution, recentWorkouts } = dashboardData;
+  const { stats, calendarData, tagDistribution, recentWorkouts, lastSettings } = dashboardData;
 
   // 計算週目標進度 (假設每週目標 5 次)
   const weeklyGoal = 5;
@@ -669,10 +755,27 @@ export const DashboardScreen: React.FC<DashboardScreenProps> = ({
               <Play className="w-5 h-5" />
               開始訓練
             </Button>
+
+            {/* 快速開始：沿用上次的設定重新生成 */}
+            {onQuickStart && lastSettings && (
+              <button
+                onClick={() => onQuickStart(lastSettings)}
+                className="w-full lg:w-auto flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span className="font-semibold">快速開始</span>
+                <span className="text-white/60">
+                  {getGoalLabel(lastSettings.goal)} · {lastSettings.plannedDuration} 分鐘 · {WORKOUT_FORMAT_LABELS[lastSettings.format ?? 'straight']}
+                </span>
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* ===== 訓練計畫 ===== */}
+      {onStartProgramSession && <ProgramCard onStartSession={onStartProgramSession} />}
+
       {/* ===== 統計概覽 - 統一柔和色調 ===== */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
         <MiniStatCard
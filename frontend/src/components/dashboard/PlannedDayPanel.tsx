@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { PlannedWorkout } from '../../types/plannedWorkout';
+import { WorkoutTemplate } from '../../types/workoutTemplate';
+import { getPlannedWorkoutStatus } from '../../features/planner/planner';
+import { getGoalLabel } from '../../features/exercises/metadata';
+import { estimatePlannedMinutes } from '../../features/generator/plannedEntries';
+import { createPlannedWorkout, deletePlannedWorkout } from '../../services/plannedWorkoutService';
+import { getWorkoutTemplates } from '../../services/workoutTemplateService';
+import { Button } from '../ui/Button';
+import { CalendarPlus, CheckCircle2, Circle, XCircle, X } from 'lucide-react';
+
+interface PlannedDayPanelProps {
+  userId: string | null;
+  /** 日期 (YYYY-MM-DD) */
+  date: string;
+  /** 當天的排程 */
+  plans: PlannedWorkout[];
+  /** 是否可新增排程 (今天或之後) */
+  canPlan: boolean;
+  /** 排程新增或刪除後回調 */
+  onChange: (plans: PlannedWorkout[]) => void;
+}
+
+const GOAL_OPTIONS = ['muscle', 'fat-loss', 'tone'];
+const DURATION_OPTIONS = [15, 30, 45, 60];
+
+const STATUS_STYLES = {
+  completed: { icon: <CheckCircle2 className="w-4 h-4 text-green-500" />, label: '已完成' },
+  planned: { icon: <Circle className="w-4 h-4 text-blue-500" />, label: '已排程' },
+  missed: { icon: <XCircle className="w-4 h-4 text-gray-400" />, label: '未完成' },
+};
+
+/**
+ * 單日排程面板 (Planned Day Panel)
+ * 列出當天的排程與完成狀態，今天或之後的日期可新增排程 (目標 / 時長或範本)
+ */
+export const PlannedDayPanel: React.FC<PlannedDayPanelProps> = ({ userId, date, plans, canPlan, onChange }) => {
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [goal, setGoal] = useState(GOAL_OPTIONS[0]);
+  const [duration, setDuration] = useState(DURATION_OPTIONS[1]);
+  const [templateId, setTemplateId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (canPlan) getWorkoutTemplates(userId).then(setTemplates);
+  }, [userId, canPlan]);
+
+  const handleAdd = async () => {
+    const template = templates.find(item => item.id === templateId);
+    setIsSaving(true);
+    const created = await createPlannedWorkout(userId, template
+      ? {
+          date,
+          goal: template.settings.goal,
+          duration_minutes: estimatePlannedMinutes(template.exercises),
+          template_id: template.id,
+          template_name: template.name,
+        }
+      : { date, goal, duration_minutes: duration });
+    setIsSaving(false);
+    if (created) onChange([...plans, created]);
+  };
+
+  const handleDelete = async (plan: PlannedWorkout) => {
+    if (await deletePlannedWorkout(plan.id, userId)) {
+      onChange(plans.filter(item => item.id !== plan.id));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {plans.length > 0 && (
+        <ul className="space-y-2">
+          {plans.map(plan => {
+            const status = STATUS_STYLES[getPlannedWorkoutStatus(plan)];
+            return (
+              <li key={plan.id} className="flex items-center gap-2 text-sm">
+                {status.icon}
+                <span className="flex-1 min-w-0 truncate text-gray-700">
+                  {plan.template_name ?? getGoalLabel(plan.goal)} · {plan.duration_minutes} 分鐘
+                </span>
+                <span className="text-xs text-gray-400">{status.label}</span>
+                {!plan.completed_log_id && (
+                  <button
+                    onClick={() => handleDelete(plan)}
+                    className="p-1 rounded-full text-gray-300 hover:text-red-500 transition-colors"
+                    title="刪除排程"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canPlan && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={templateId}
+            onChange={e => setTemplateId(e.target.value)}
+            className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white"
+          >
+            <option value="">自訂目標</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>範本：{template.name}</option>
+            ))}
+          </select>
+          {!templateId && (
+            <>
+              <select
+                value={goal}
+                onChange={e => setGoal(e.target.value)}
+                className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white"
+              >
+                {GOAL_OPTIONS.map(id => <option key={id} value={id}>{getGoalLabel(id)}</option>)}
+              </select>
+              <select
+                value={duration}
+                onChange={e => setDuration(Number(e.target.value))}
+                className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm bg-white"
+              >
+                {DURATION_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} 分鐘</option>)}
+              </select>
+            </>
+          )}
+          <Button size="sm" onClick={handleAdd} disabled={isSaving} className="gap-1.5">
+            <CalendarPlus className="w-4 h-4" />
+            排入日曆
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ProgramDefinition, ProgramEnrollment, ProgramSession } from '../../types/program';
+import { getProgramProgress } from '../../features/programs/programs';
+import { getGoalLabel } from '../../features/exercises/metadata';
+import { getProgramEnrollment } from '../../services/profileSettingsService';
+import { enrollInProgram, getPrograms, leaveProgram } from '../../services/programService';
+import { useAuth } from '../../features/auth/AuthContext';
+import { Button } from '../ui/Button';
+import { Award, CalendarRange, LogOut, Play } from 'lucide-react';
+
+interface ProgramCardProps {
+  /** 開始計畫中的下一次課表 */
+  onStartSession: (session: ProgramSession) => void;
+}
+
+/**
+ * 是否為今天 (本地時區)
+ */
+const isToday = (iso: string | null): boolean =>
+  !!iso && new Date(iso).toDateString() === new Date().toDateString();
+
+/**
+ * 訓練計畫卡片 (Program Card)
+ * 已參加時顯示目前進度與今日課表；未參加時列出可參加的計畫
+ */
+export const ProgramCard: React.FC<ProgramCardProps> = ({ onStartSession }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [programs, setPrograms] = useState<ProgramDefinition[]>([]);
+  const [enrollment, setEnrollment] = useState<ProgramEnrollment | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getPrograms(), getProgramEnrollment(userId)]).then(([definitions, current]) => {
+      setPrograms(definitions);
+      setEnrollment(current);
+      setIsLoaded(true);
+    });
+  }, [userId]);
+
+  const handleEnroll = async (programId: string) => {
+    const created = await enrollInProgram(userId, programId);
+    if (created) setEnrollment(created);
+  };
+
+  const handleLeave = async () => {
+    if (await leaveProgram(userId)) setEnrollment(null);
+  };
+
+  const program = enrollment ? programs.find(item => item.id === enrollment.programId) : undefined;
+
+  if (!isLoaded || programs.length === 0) return null;
+
+  // 已參加：顯示進度與今日課表
+  if (enrollment && program) {
+    const progress = getProgramProgress(program, enrollment);
+    const percent = Math.round((progress.completedSessions / progress.totalSessions) * 100);
+    const session = progress.nextSession;
+
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="min-w-0">
+            <h3 className="font-bold text-gray-800 flex items-center gap-2">
+              <CalendarRange className="w-5 h-5 text-brand-dark" />
+              {program.name}
+            </h3>
+            {session ? (
+              <p className="text-sm text-gray-600 mt-1">
+                第 {session.week} 週・第 {session.day} 天 —{' '}
+                {isToday(enrollment.lastCompletedAt) ? '今日已完成，下次課表：' : '今日課表：'}
+                <span className="font-semibold text-gray-800">{session.title}</span>
+              </p>
+            ) : (
+              <p className="text-sm text-green-600 mt-1 flex items-center gap-1">
+                <Award className="w-4 h-4" />
+                恭喜完成整個計畫！
+              </p>
+            )}
+          </div>
+          <button
+            onClick={handleLeave}
+            className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+            title={session ? '退出計畫' : '結束計畫'}
+          >
+            <LogOut className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4">
+          <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 rounded-full transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {progress.completedSessions} / {progress.totalSessions} 堂
+          </span>
+        </div>
+
+        {session && (
+          <Button onClick={() => onStartSession(session)} className="gap-2">
+            <Play className="w-4 h-4" />
+            開始第 {session.week} 週第 {session.day} 天
+            <span className="text-white/70 font-normal">
+              · {getGoalLabel(session.preferences.goal)} {session.preferences.durationMinutes} 分鐘
+            </span>
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  // 未參加：列出計畫
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <h3 className="font-bold text-gray-800 flex items-center gap-2 mb-1">
+        <CalendarRange className="w-5 h-5 text-brand-dark" />
+        訓練計畫
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">跟著多週計畫訓練，每次自動安排當天的課表。</p>
+      <div className="grid gap-3 md:grid-cols-3">
+        {programs.map(item => (
+          <div key={item.id} className="rounded-xl border-2 border-gray-200 p-4 flex flex-col">
+            <p className="font-bold text-gray-800">{item.name}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {item.weeks} 週 · 每週 {item.days.length} 天 · {getGoalLabel(item.defaults.goal)}
+            </p>
+            <p className="text-sm text-gray-600 mt-2 flex-1">{item.description}</p>
+            <Button variant="outline" size="sm" onClick={() => handleEnroll(item.id)} className="mt-3">
+              加入計畫
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
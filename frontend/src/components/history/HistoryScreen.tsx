@@ -14,7 +14,8 @@ import {
   Flame,
   Award,
   PlayCircle,
-  AlertCircle
+  AlertCircle,
+  RotateCcw
 } from 'lucide-react';
 import { useAuth } from '../../features/auth/AuthContext';
 import { getWorkoutLogs, getWorkoutStats, deleteWorkoutLog, getWorkoutLogById } from '../../services/workoutLogService';
@@ -23,13 +24,15 @@ import { WorkoutLogListItem, WorkoutStats, WorkoutLog } from '../../types/workou
 interface HistoryScreenProps {
   onBack: () => void;
   onStartWorkout?: () => void;
+  /** 依紀錄重做一次 (還原完全相同的課表) */
+  onRepeatWorkout?: (log: WorkoutLog) => void;
 }
 
 /**
  * 歷史紀錄頁面 (History Screen)
  * Phase 2: 資料持久化模組 - 桌面端優化版本
  */
-export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onStartWorkout }) => {
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onStartWorkout, onRepeatWorkout }) => {
   const { user } = useAuth();
   const [logs, setLogs] = useState<WorkoutLogListItem[]>([]);
   const [stats, setStats] = useState<WorkoutStats | null>(null);
@@ -43,6 +46,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onStartWor
     logId: null,
   });
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [repeatingId, setRepeatingId] = useState<string | null>(null);
 
   // 載入資料 - 加入超時處理
   useEffect(() => {
@@ -99,6 +103,24 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onStartWor
     }
   };
 
+  // 重做一次 (需要完整的動作紀錄)
+  const handleRepeatClick = async (logId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!onRepeatWorkout) return;
+
+    setRepeatingId(logId);
+    try {
+      const details = expandedLogId === logId && expandedLogDetails
+        ? expandedLogDetails
+        : await getWorkoutLogById(logId, user?.id || null);
+      if (details) onRepeatWorkout(details);
+    } catch (error) {
+      console.error('載入紀錄失敗:', error);
+    } finally {
+      setRepeatingId(null);
+    }
+  };
+
   // 確認刪除
   const handleDeleteClick = (logId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -299,6 +321,8 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onStartWor
                 onToggleExpand={() => handleToggleExpand(log.id)}
                 onDelete={(e) => handleDeleteClick(log.id, e)}
                 isDeleting={deletingId === log.id}
+                onRepeat={onRepeatWorkout ? (e) => handleRepeatClick(log.id, e) : undefined}
+                isRepeating={repeatingId === log.id}
               />
             ))
           )}
@@ -386,6 +410,8 @@ const WorkoutLogRow = ({
   onToggleExpand,
   onDelete,
   isDeleting,
+  onRepeat,
+  isRepeating,
 }: {
   log: WorkoutLogListItem;
   isExpanded: boolean;
@@ -398,6 +424,8 @@ const WorkoutLogRow = ({
   onToggleExpand: () => void;
   onDelete: (e: React.MouseEvent) => void;
   isDeleting: boolean;
+  onRepeat?: (e: React.MouseEvent) => void;
+  isRepeating: boolean;
 }) => {
   const goalInfo = goalDisplayMap[log.goal] || { label: log.goal, color: 'bg-gray-100 text-gray-700' };
 
@@ -449,6 +477,16 @@ const WorkoutLogRow = ({
 
         {/* 操作 */}
         <div className="flex items-center gap-2 flex-shrink-0">
+          {onRepeat && (
+            <button
+              onClick={onRepeat}
+              disabled={isRepeating}
+              className="p-2 text-gray-400 hover:text-brand-dark hover:bg-brand-light/30 rounded-lg transition-all disabled:opacity-50"
+              title="重做一次"
+            >
+              <RotateCcw size={16} className={isRepeating ? 'animate-spin' : ''} />
+            </button>
+          )}
           <button
             onClick={onDelete}
             disabled={isDeleting}
@@ -1,41 +1,166 @@
 
 import React, { useState } from 'react';
-import { PlanItem, UserPreferences } from '../../types/app';
+import { PlanItem, PlanPhase, UserPreferences } from '../../types/app';
+import { ProgressionAdjustment } from '../../types/feedback';
 import { Button } from '../ui/Button';
-import { Play, Clock, Dumbbell, ChevronLeft, List, ChevronDown, ChevronUp, Zap, Layers } from 'lucide-react';
+import { PLAN_PHASE_LABELS } from '../../features/generator/phases';
+import { formatRepPrescription, isRepBasedItem } from '../../features/generator/reps';
+import { DIFFICULTY_LABELS, EXERCISE_TYPE_LABELS, getExerciseMetadata } from '../../features/exercises/metadata';
+import { sumDuration } from '../../features/generator/fitting';
+import { isPhaseOnlyExercise } from '../../features/generator/phases';
+import {
+  EDIT_DURATION_BOUNDS,
+  EDIT_REPS_BOUNDS,
+  EDIT_REST_BOUNDS,
+  addExerciseToPlan,
+  findSwapCandidates,
+  movePlanBlock,
+  removePlanBlock,
+  replaceBlockExercise,
+  setBlockDuration,
+  setBlockReps,
+  setBlockRest,
+  toPlanBlocks,
+} from '../../features/generator/planEditing';
+import { getAllExercises } from '../../services/exerciseService';
+import { SaveTemplateButton } from '../templates/SaveTemplateButton';
+import { Exercise } from '../../types/db';
+import {
+  Play, ChevronLeft, List, ChevronDown, ChevronUp, Zap, Layers, TrendingUp,
+  Pencil, Check, GripVertical, ArrowUp, ArrowDown, Trash2, Shuffle, Plus, Minus, X, Search,
+} from 'lucide-react';
+
+/** 時長與休息每次調整的秒數 */
+const DURATION_STEP = 5;
+
+/**
+ * 數值調整器 (編輯模式使用)
+ */
+const Stepper: React.FC<{
+  value: string;
+  label: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+  canDecrease: boolean;
+  canIncrease: boolean;
+}> = ({ value, label, onDecrease, onIncrease, canDecrease, canIncrease }) => (
+  <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50" onClick={e => e.stopPropagation()}>
+    <div className="flex items-center gap-1">
+      <button
+        type="button"
+        onClick={onDecrease}
+        disabled={!canDecrease}
+        className="p-1 rounded-md text-gray-500 hover:bg-gray-200 disabled:opacity-30 transition-colors"
+        aria-label={`減少${label}`}
+      >
+        <Minus size={14} />
+      </button>
+      <span className="min-w-[3rem] text-center text-base font-bold text-brand-mid">{value}</span>
+      <button
+        type="button"
+        onClick={onIncrease}
+        disabled={!canIncrease}
+        className="p-1 rounded-md text-gray-500 hover:bg-gray-200 disabled:opacity-30 transition-colors"
+        aria-label={`增加${label}`}
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+    <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium mt-1">{label}</span>
+  </div>
+);
 
 interface PlanOverviewScreenProps {
   plan: PlanItem[];
   preferences: UserPreferences | null;
+  /** 依過往回饋所做的調整 (顯示於清單上方) */
+  adjustments?: ProgressionAdjustment[];
   onStart: () => void;
   onBack: () => void;
+
+  /** 編輯課表 (未提供時為唯讀) */
+  onPlanChange?: (plan: PlanItem[]) => void;
+
+  /** 換動作與新增動作的候選篩選 (器材與排除條件) */
+  isExerciseAllowed?: (exercise: Exercise) => boolean;
 }
 
+/**
+ * 動作選擇面板的狀態
+ * - swap: 替換第 index 個動作
+ * - add: 從動作庫新增
+ */
+type PickerState = { mode: 'swap'; index: number } | { mode: 'add' };
+
 export const PlanOverviewScreen: React.FC<PlanOverviewScreenProps> = ({ 
   plan, 
   preferences, 
+  adjustments = [],
   onStart, 
-  onBack 
+  onBack,
+  onPlanChange,
+  isExerciseAllowed = () => true,
 }) => {
   // 狀態：控制哪一張卡片被展開 (儲存 index)
   // 修改：預設為 null (全部折疊)，而非 0 (展開第一項)
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
 
+  // 編輯模式狀態
+  const [isEditing, setIsEditing] = useState(false);
+  const [catalog, setCatalog] = useState<Exercise[] | null>(null);
+  const [picker, setPicker] = useState<PickerState | null>(null);
+  const [search, setSearch] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
   // 資料處理：將 [運動, 休息, 運動, 休息] 的平鋪陣列，轉換為 [運動+休息] 的整合物件
-  const exercisesWithRest = plan.reduce((acc: any[], item, index) => {
-    if (item.type === 'exercise') {
-      // 找下一個項目看是否為休息
-      const nextItem = plan[index + 1];
-      const restDuration = (nextItem && nextItem.type === 'rest') ? nextItem.duration : 0;
-      
-      acc.push({
-        ...item,
-        restDuration, // 將休息時間整合進來
-        originalIndex: index // 保留原始索引以便對應
-      });
+  const exercisesWithRest = toPlanBlocks(plan).map(block => ({
+    ...block.exercise,
+    restDuration: block.rest?.duration ?? 0, // 將休息時間整合進來
+  }));
+  const totalSeconds = sumDuration(plan);
+  const targetMinutes = preferences?.durationMinutes;
+
+  const updatePlan = (next: PlanItem[]) => {
+    if (next.length === 0) return; // 至少保留一個動作
+    setExpandedIndex(null);
+    onPlanChange?.(next);
+  };
+
+  const startEditing = async () => {
+    setIsEditing(true);
+    if (!catalog) {
+      setCatalog((await getAllExercises()).filter(isExerciseAllowed));
     }
-    return acc;
-  }, []);
+  };
+
+  const openPicker = (state: PickerState) => {
+    setSearch('');
+    setPicker(state);
+  };
+
+  const choosePickerExercise = (exercise: Exercise) => {
+    if (!picker) return;
+    updatePlan(picker.mode === 'swap'
+      ? replaceBlockExercise(plan, picker.index, exercise)
+      : addExerciseToPlan(plan, exercise, preferences));
+    setPicker(null);
+  };
+
+  // 面板候選：換動作時依相似度排序，新增時列出主訓練可用的動作
+  const pickerOptions = !picker || !catalog ? [] : (
+    picker.mode === 'swap'
+      ? findSwapCandidates(exercisesWithRest[picker.index], catalog)
+      : catalog.filter(exercise => !isPhaseOnlyExercise(exercise))
+  ).filter(exercise => exercise.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) updatePlan(movePlanBlock(plan, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  // 課表含暖身/緩和時才顯示階段分段標題
+  const hasPhases = exercisesWithRest.some(item => item.phase && item.phase !== 'main');
+  const getPhase = (item: PlanItem): PlanPhase => item.phase ?? 'main';
 
   const toggleExpand = (index: number) => {
     setExpandedIndex(expandedIndex === index ? null : index);
@@ -47,10 +172,18 @@ export const PlanOverviewScreen: React.FC<PlanOverviewScreenProps> = ({
     return `${seconds}秒`;
   };
 
-  // 解析標籤 (取得難度與部位)
-  const getTagsInfo = (tags: string[] = []) => {
-    const difficulty = tags.find(t => t.startsWith('difficulty:'))?.split(':')[1] || '一般';
-    const type = tags.find(t => t.startsWith('type:'))?.split(':')[1] || '綜合';
+  // 格式化總時長 (秒 -> 「X 分 Y 秒」)
+  const formatTotal = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return rest > 0 ? `${minutes} 分 ${rest} 秒` : `${minutes} 分鐘`;
+  };
+
+  // 取得難度與類型名稱
+  const getExerciseInfo = (exercise?: Exercise) => {
+    const metadata = exercise ? getExerciseMetadata(exercise) : null;
+    const difficulty = metadata?.difficulty ? DIFFICULTY_LABELS[metadata.difficulty] : '一般';
+    const type = metadata?.exercise_type ? EXERCISE_TYPE_LABELS[metadata.exercise_type] : '綜合';
     return { difficulty, type };
   };
 
@@ -69,150 +202,346 @@ export const PlanOverviewScreen: React.FC<PlanOverviewScreenProps> = ({
               訓練菜單
             </h2>
             <p className="text-gray-500 text-sm mt-1">
-              {exercisesWithRest.length} 個動作 • 預計 {preferences?.durationMinutes} 分鐘
+              {exercisesWithRest.length} 個動作 • 預計 {formatTotal(totalSeconds)}
+              {targetMinutes !== undefined && Math.abs(totalSeconds - targetMinutes * 60) >= 60 && (
+                <span className="text-amber-600"> (目標 {targetMinutes} 分鐘)</span>
+              )}
             </p>
           </div>
+          <div className="flex items-center gap-2">
+            <SaveTemplateButton plan={plan} preferences={preferences} />
+            {onPlanChange && (
+              <Button
+                variant={isEditing ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+                className="gap-1.5"
+              >
+                {isEditing ? <Check size={16} /> : <Pencil size={16} />}
+                {isEditing ? '完成編輯' : '編輯課表'}
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
+      {/* 回饋調整說明 */}
+      {adjustments.length > 0 && (
+        <div className="mx-1 mb-4 p-4 rounded-2xl bg-brand-light/20 border border-brand-light">
+          <h3 className="text-sm font-bold text-brand-dark flex items-center gap-2 mb-2">
+            <TrendingUp size={16} />
+            根據你的回饋調整了課表
+          </h3>
+          <ul className="space-y-1">
+            {adjustments.map(adjustment => (
+              <li key={adjustment.exerciseId} className="text-sm text-gray-600">
+                • {adjustment.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* 課表清單 (Accordion Style) */}
       <div className="px-1 space-y-3">
         {exercisesWithRest.map((item, idx) => {
           const isExpanded = expandedIndex === idx;
-          const { difficulty, type } = getTagsInfo(item.exercise?.tags);
+          const { difficulty, type } = getExerciseInfo(item.exercise);
+          const phase = getPhase(item);
+          const showPhaseHeader = hasPhases && (idx === 0 || getPhase(exercisesWithRest[idx - 1]) !== phase);
 
           return (
-            <div 
-              key={idx}
-              onClick={() => toggleExpand(idx)}
-              className={`
-                bg-white rounded-2xl transition-all duration-300 overflow-hidden border cursor-pointer
-                ${isExpanded 
-                  ? 'border-brand-mid shadow-md ring-1 ring-brand-mid/20' 
-                  : 'border-transparent shadow-sm hover:border-brand-light'}
-              `}
-            >
-              {/* 卡片頭部 (常駐顯示) */}
-              <div className="p-5">
-                <div className="flex justify-between items-start mb-4">
-                  <div className="flex items-center gap-4">
-                    {/* 圓形序號 */}
-                    <div className="w-10 h-10 rounded-full bg-brand-mid text-white flex items-center justify-center text-lg font-bold shadow-sm">
-                      {idx + 1}
-                    </div>
+            <React.Fragment key={idx}>
+              {showPhaseHeader && (
+                <h3 className="text-xs font-bold text-brand-dark uppercase tracking-wider px-2 pt-2">
+                  {PLAN_PHASE_LABELS[phase]}
+                </h3>
+              )}
+              <div 
+                onClick={() => toggleExpand(idx)}
+                draggable={isEditing}
+                onDragStart={() => setDragIndex(idx)}
+                onDragOver={e => isEditing && e.preventDefault()}
+                onDrop={() => handleDrop(idx)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`
+                  bg-white rounded-2xl transition-all duration-300 overflow-hidden border cursor-pointer
+                  ${isExpanded 
+                    ? 'border-brand-mid shadow-md ring-1 ring-brand-mid/20' 
+                    : 'border-transparent shadow-sm hover:border-brand-light'}
+                  ${dragIndex === idx ? 'opacity-50' : ''}
+                `}
+              >
+                {/* 卡片頭部 (常駐顯示) */}
+                <div className="p-5">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex items-center gap-4">
+                      {isEditing && (
+                        <GripVertical size={18} className="-mr-2 text-gray-300 cursor-grab" aria-hidden />
+                      )}
+                      {/* 圓形序號 */}
+                      <div className="w-10 h-10 rounded-full bg-brand-mid text-white flex items-center justify-center text-lg font-bold shadow-sm">
+                        {idx + 1}
+                      </div>
                     
-                    {/* 標題 */}
-                    <div>
-                      <h3 className="text-lg font-bold text-gray-800 leading-tight">
-                        {item.title}
-                      </h3>
-                      <div className="text-xs text-gray-400 mt-0.5 font-medium">
-                        {item.exercise?.name.split(' (')[1]?.replace(')', '') || 'Bodyweight'}
+                      {/* 標題 */}
+                      <div>
+                        <h3 className="text-lg font-bold text-gray-800 leading-tight">
+                          {item.title}
+                        </h3>
+                        <div className="text-xs text-gray-400 mt-0.5 font-medium">
+                          {item.exercise?.name.split(' (')[1]?.replace(')', '') || 'Bodyweight'}
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  {/* 展開箭頭 */}
-                  <div className={`text-gray-400 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`}>
-                    {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+                    {isEditing ? (
+                      /* 編輯操作 */
+                      <div className="flex items-center gap-0.5 text-gray-400" onClick={e => e.stopPropagation()}>
+                        <button
+                          type="button"
+                          onClick={() => updatePlan(movePlanBlock(plan, idx, idx - 1))}
+                          disabled={idx === 0}
+                          className="p-1.5 rounded-lg hover:text-brand-dark hover:bg-gray-100 disabled:opacity-30 transition-colors"
+                          title="上移"
+                        >
+                          <ArrowUp size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updatePlan(movePlanBlock(plan, idx, idx + 1))}
+                          disabled={idx === exercisesWithRest.length - 1}
+                          className="p-1.5 rounded-lg hover:text-brand-dark hover:bg-gray-100 disabled:opacity-30 transition-colors"
+                          title="下移"
+                        >
+                          <ArrowDown size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => openPicker({ mode: 'swap', index: idx })}
+                          className="p-1.5 rounded-lg hover:text-brand-dark hover:bg-gray-100 transition-colors"
+                          title="換動作"
+                        >
+                          <Shuffle size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => updatePlan(removePlanBlock(plan, idx))}
+                          disabled={exercisesWithRest.length === 1}
+                          className="p-1.5 rounded-lg hover:text-red-500 hover:bg-red-50 disabled:opacity-30 transition-colors"
+                          title="移除"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ) : (
+                      /* 展開箭頭 */
+                      <div className={`text-gray-400 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`}>
+                        {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+                      </div>
+                    )}
                   </div>
-                </div>
 
-                {/* 關鍵數據三欄 (仿照圖二設計) */}
-                <div className="grid grid-cols-3 gap-4 mt-2">
-                  {/* 時間 */}
-                  <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
-                    <span className="text-xl font-bold text-brand-mid">
-                      {formatTimeSimple(item.duration)}
-                    </span>
-                    <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium mt-1">
-                      訓練時間
-                    </span>
-                  </div>
+                  {/* 關鍵數據三欄 (仿照圖二設計) */}
+                  <div className="grid grid-cols-3 gap-4 mt-2">
+                    {/* 時間 (次數制顯示組數 × 次數) */}
+                    {isEditing ? (
+                      isRepBasedItem(item) ? (
+                        <Stepper
+                          value={`${item.sets ?? 1}×${item.reps}`}
+                          label="組 × 次"
+                          onDecrease={() => updatePlan(setBlockReps(plan, idx, item.reps! - 1))}
+                          onIncrease={() => updatePlan(setBlockReps(plan, idx, item.reps! + 1))}
+                          canDecrease={item.reps! > EDIT_REPS_BOUNDS.min}
+                          canIncrease={item.reps! < EDIT_REPS_BOUNDS.max}
+                        />
+                      ) : (
+                        <Stepper
+                          value={`${item.duration}s`}
+                          label="訓練時間"
+                          onDecrease={() => updatePlan(setBlockDuration(plan, idx, item.duration - DURATION_STEP))}
+                          onIncrease={() => updatePlan(setBlockDuration(plan, idx, item.duration + DURATION_STEP))}
+                          canDecrease={item.duration > EDIT_DURATION_BOUNDS.min}
+                          canIncrease={item.duration < EDIT_DURATION_BOUNDS.max}
+                        />
+                      )
+                    ) : (
+                    <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
+                      <span className="text-xl font-bold text-brand-mid">
+                        {isRepBasedItem(item) ? formatRepPrescription(item) : formatTimeSimple(item.duration)}
+                      </span>
+                      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium mt-1">
+                        {isRepBasedItem(item) ? `約 ${formatTimeSimple(item.duration)}` : '訓練時間'}
+                      </span>
+                    </div>
+                    )}
 
-                  {/* 強度/標籤 */}
-                  <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
-                    <span className="text-base font-bold text-gray-700 flex items-center gap-1">
-                      {difficulty}
-                    </span>
-                    <div className="flex items-center gap-1 mt-1">
-                      <span className={`w-2 h-2 rounded-full ${difficulty === '高階' ? 'bg-red-400' : difficulty === '中階' ? 'bg-yellow-400' : 'bg-green-400'}`}></span>
-                      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium">
-                        難度
+                    {/* 強度/標籤 */}
+                    <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
+                      <span className="text-base font-bold text-gray-700 flex items-center gap-1">
+                        {difficulty}
                       </span>
+                      <div className="flex items-center gap-1 mt-1">
+                        <span className={`w-2 h-2 rounded-full ${difficulty === '高階' ? 'bg-red-400' : difficulty === '中階' ? 'bg-yellow-400' : 'bg-green-400'}`}></span>
+                        <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium">
+                          難度
+                        </span>
+                      </div>
                     </div>
-                  </div>
 
-                  {/* 休息 */}
-                  <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
-                    <span className="text-xl font-bold text-brand-mid">
-                      {item.restDuration}s
-                    </span>
-                    <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium mt-1">
-                      休息
-                    </span>
+                    {/* 休息 (最後一個動作後沒有休息) */}
+                    {isEditing && idx < exercisesWithRest.length - 1 ? (
+                      <Stepper
+                        value={`${item.restDuration}s`}
+                        label="休息"
+                        onDecrease={() => updatePlan(setBlockRest(plan, idx, item.restDuration - DURATION_STEP))}
+                        onIncrease={() => updatePlan(setBlockRest(plan, idx, item.restDuration + DURATION_STEP))}
+                        canDecrease={item.restDuration > EDIT_REST_BOUNDS.min}
+                        canIncrease={item.restDuration < EDIT_REST_BOUNDS.max}
+                      />
+                    ) : (
+                    <div className="flex flex-col items-center justify-center p-2 rounded-lg bg-gray-50">
+                      <span className="text-xl font-bold text-brand-mid">
+                        {item.restDuration}s
+                      </span>
+                      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium mt-1">
+                        休息
+                      </span>
+                    </div>
+                    )}
                   </div>
-                </div>
                 
-                {/* 標籤列 (僅在未展開時顯示簡易版，或者一直顯示) */}
-                <div className="flex gap-2 mt-4">
-                   <span className="px-2 py-0.5 bg-brand-light/20 border border-brand-light text-brand-dark text-[10px] font-bold rounded">
-                      {type}
-                   </span>
-                   {item.duration >= 45 && (
-                     <span className="px-2 py-0.5 bg-orange-100 border border-orange-200 text-orange-700 text-[10px] font-bold rounded">
-                        耐力
+                  {/* 標籤列 (僅在未展開時顯示簡易版，或者一直顯示) */}
+                  <div className="flex gap-2 mt-4">
+                     {phase !== 'main' && (
+                       <span className="px-2 py-0.5 bg-sky-100 border border-sky-200 text-sky-700 text-[10px] font-bold rounded">
+                          {PLAN_PHASE_LABELS[phase]}
+                       </span>
+                     )}
+                     <span className="px-2 py-0.5 bg-brand-light/20 border border-brand-light text-brand-dark text-[10px] font-bold rounded">
+                        {type}
                      </span>
-                   )}
+                     {item.duration >= 45 && (
+                       <span className="px-2 py-0.5 bg-orange-100 border border-orange-200 text-orange-700 text-[10px] font-bold rounded">
+                          耐力
+                       </span>
+                     )}
+                  </div>
                 </div>
-              </div>
-
-              {/* 展開區域 (詳細資訊) - 使用 grid 動畫實現更流暢的展開效果 */}
-              <div 
-                className={`
-                  grid transition-all duration-300 ease-out
-                  ${isExpanded ? 'grid-rows-[1fr]' : 'grid-rows-[0fr]'}
-                `}
-              >
-                <div className="overflow-hidden">
-                  <div className={`
-                    bg-brand-light/10 border-t border-brand-light/30 p-5 space-y-4
-                    transition-opacity duration-200
-                    ${isExpanded ? 'opacity-100' : 'opacity-0'}
-                  `}>
-                    {/* 說明 */}
-                    <div className="space-y-2">
-                      <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1">
-                        <List size={12} /> 運動說明
-                      </h4>
-                      <p className="text-sm text-gray-700 leading-relaxed">
-                        {item.exercise?.description}
-                      </p>
-                    </div>
 
-                    {/* 目標與部位 */}
-                    <div className="grid grid-cols-2 gap-4 pt-2">
-                      <div>
-                        <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1 mb-1">
-                          <Layers size={12} /> 目標肌群
+                {/* 展開區域 (詳細資訊) - 使用 grid 動畫實現更流暢的展開效果 */}
+                <div 
+                  className={`
+                    grid transition-all duration-300 ease-out
+                    ${isExpanded ? 'grid-rows-[1fr]' : 'grid-rows-[0fr]'}
+                  `}
+                >
+                  <div className="overflow-hidden">
+                    <div className={`
+                      bg-brand-light/10 border-t border-brand-light/30 p-5 space-y-4
+                      transition-opacity duration-200
+                      ${isExpanded ? 'opacity-100' : 'opacity-0'}
+                    `}>
+                      {/* 說明 */}
+                      <div className="space-y-2">
+                        <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1">
+                          <List size={12} /> 運動說明
                         </h4>
-                        <p className="text-sm text-gray-600">{type}</p>
+                        <p className="text-sm text-gray-700 leading-relaxed">
+                          {item.exercise?.description}
+                        </p>
                       </div>
-                      <div>
-                        <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1 mb-1">
-                          <Zap size={12} /> 建議
-                        </h4>
-                        <p className="text-sm text-gray-600">保持呼吸，核心收緊</p>
+
+                      {/* 目標與部位 */}
+                      <div className="grid grid-cols-2 gap-4 pt-2">
+                        <div>
+                          <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1 mb-1">
+                            <Layers size={12} /> 目標肌群
+                          </h4>
+                          <p className="text-sm text-gray-600">{type}</p>
+                        </div>
+                        <div>
+                          <h4 className="text-xs font-bold text-brand-dark uppercase tracking-wider flex items-center gap-1 mb-1">
+                            <Zap size={12} /> 建議
+                          </h4>
+                          <p className="text-sm text-gray-600">保持呼吸，核心收緊</p>
+                        </div>
                       </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </div>
+            </React.Fragment>
           );
         })}
+
+        {/* 從動作庫新增 */}
+        {isEditing && (
+          <button
+            type="button"
+            onClick={() => openPicker({ mode: 'add' })}
+            className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl border-2 border-dashed border-gray-300 text-gray-500 font-bold hover:border-brand-mid hover:text-brand-dark transition-colors"
+          >
+            <Plus size={18} />
+            從動作庫新增
+          </button>
+        )}
       </div>
 
+      {/* 動作選擇面板 (換動作 / 新增) */}
+      {picker && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40 flex items-end sm:items-center justify-center p-4" onClick={() => setPicker(null)}>
+          <div
+            className="w-full max-w-md max-h-[80vh] flex flex-col bg-white rounded-2xl shadow-xl p-5 space-y-4"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-brand-dark">
+                {picker.mode === 'swap' ? `替換「${exercisesWithRest[picker.index]?.title}」` : '從動作庫新增'}
+              </h3>
+              <button
+                onClick={() => setPicker(null)}
+                className="text-gray-400 hover:text-gray-700 transition-colors"
+                aria-label="關閉"
+              >
+                <X size={18} />
+              </button>
+            </div>
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="搜尋動作"
+                className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-dark/20 focus:border-brand-dark"
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {!catalog ? (
+                <p className="text-sm text-gray-400">載入動作中...</p>
+              ) : pickerOptions.length === 0 ? (
+                <p className="text-sm text-gray-400">
+                  {picker.mode === 'swap' ? '沒有相同器材與難度的替代動作。' : '沒有符合的動作。'}
+                </p>
+              ) : pickerOptions.map(exercise => {
+                const { difficulty, type } = getExerciseInfo(exercise);
+                return (
+                  <button
+                    key={exercise.id}
+                    onClick={() => choosePickerExercise(exercise)}
+                    className="w-full flex items-center justify-between px-4 py-3 rounded-xl bg-gray-50 border border-gray-100 hover:border-brand-light hover:bg-brand-light/10 transition-colors text-left"
+                  >
+                    <span className="text-sm font-medium text-gray-800">{exercise.name}</span>
+                    <span className="text-xs text-gray-400 shrink-0 ml-2">{type} • {difficulty}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 底部固定按鈕 */}
       <div className="fixed bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-white via-white/95 to-white/0 z-10 pointer-events-none">
         <div className="max-w-2xl mx-auto pointer-events-auto">
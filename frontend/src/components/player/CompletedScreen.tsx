@@ -16,6 +16,8 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../features/auth/AuthContext';
 import { createWorkoutLog, updateWorkoutLog } from '../../services/workoutLogService';
+import { recordProgramSession } from '../../services/programService';
+import { satisfyPlannedWorkout } from '../../services/plannedWorkoutService';
 import { 
   WorkoutLog, 
   CreateWorkoutLogInput, 
@@ -23,19 +25,20 @@ import {
   preferencesToSettings 
 } from '../../types/workoutLog';
 import { UserPreferences, PlanItem } from '../../types/app';
+import { WorkoutResult } from '../../types/session';
+import { buildExerciseLogEntries } from '../../features/player/records';
+import { SaveTemplateButton } from '../templates/SaveTemplateButton';
 
 interface CompletedScreenProps {
-  durationMinutes: number;
   preferences: UserPreferences;
   plan: PlanItem[];
-  exerciseFeedback?: Map<string, 'too_easy' | 'just_right' | 'too_hard'>;
   startedAt: string;
   onHome: () => void;
   onHistory: () => void;
-  /** 實際完成的動作數量（中途離開時可能少於 plan 中的總數） */
-  completedExerciseCount?: number;
-  /** 實際訓練秒數（精確追蹤時間） */
-  actualDurationSeconds?: number;
+  /** 播放器結果（完成數量、實際秒數與逐項執行紀錄，中途離開時可能少於 plan 中的總數） */
+  result: WorkoutResult;
+  /** 生成課表時的亂數種子（寫入訓練紀錄以便重現） */
+  planSeed?: number;
 }
 
 /**
@@ -115,14 +118,10 @@ const StatCard: React.FC<{
  * 動作完成列表組件
  */
 const ExerciseCompletionList: React.FC<{
-  plan: PlanItem[];
-  exerciseFeedback?: Map<string, 'too_easy' | 'just_right' | 'too_hard'>;
-  completedCount?: number;
-}> = ({ plan, exerciseFeedback, completedCount }) => {
-  const exercises = plan.filter(item => item.type === 'exercise');
-  const actualCompleted = completedCount !== undefined ? completedCount : exercises.length;
-  
-  if (exercises.length === 0) return null;
+  entries: ExerciseLogEntry[];
+  completedCount: number;
+}> = ({ entries, completedCount }) => {
+  if (entries.length === 0) return null;
 
   const getFeedbackLabel = (feedback: string | undefined) => {
     switch (feedback) {
@@ -137,22 +136,23 @@ const ExerciseCompletionList: React.FC<{
     <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
       <h4 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
         <Dumbbell className="w-4 h-4 text-brand-dark" />
-        動作列表 ({actualCompleted}/{exercises.length} 已完成)
+        動作列表 ({completedCount}/{entries.length} 已完成)
       </h4>
       <div className="space-y-2 max-h-48 overflow-y-auto">
-        {exercises.map((item, idx) => {
-          const isCompleted = idx < actualCompleted;
-          const feedback = exerciseFeedback?.get(item.exercise?.id || '');
-          const feedbackInfo = getFeedbackLabel(feedback);
+        {entries.map((entry, idx) => {
+          const isCompleted = entry.completed;
+          const feedbackInfo = getFeedbackLabel(entry.feedback ?? undefined);
           
           return (
             <div key={idx} className={`flex items-center justify-between py-2 border-b border-gray-50 last:border-0 ${!isCompleted ? 'opacity-50' : ''}`}>
               <div className="flex items-center gap-2">
                 <CheckCircle className={`w-4 h-4 ${isCompleted ? 'text-green-500' : 'text-gray-300'}`} />
-                <span className={`text-sm ${isCompleted ? 'text-gray-700' : 'text-gray-400 line-through'}`}>{item.title}</span>
+                <span className={`text-sm ${isCompleted ? 'text-gray-700' : 'text-gray-400 line-through'}`}>{entry.name}</span>
               </div>
               <div className="flex items-center gap-2">
-                <span className="text-xs text-gray-400">{item.duration}秒</span>
+                <span className="text-xs text-gray-400">
+                  {entry.skipped ? '已跳過' : entry.actualDuration > 0 ? `${entry.actualDuration}秒` : `${entry.plannedDuration}秒`}
+                </span>
                 {isCompleted && feedbackInfo && (
                   <span className={`text-xs px-2 py-0.5 rounded-full ${feedbackInfo.color}`}>
                     {feedbackInfo.text}
@@ -172,15 +172,13 @@ const ExerciseCompletionList: React.FC<{
  * Phase 2 更新: 支援訓練紀錄儲存與回饋評分、統計圖表視覺化
  */
 export const CompletedScreen: React.FC<CompletedScreenProps> = ({ 
-  durationMinutes, 
   preferences,
   plan,
-  exerciseFeedback,
   startedAt,
   onHome,
   onHistory,
-  completedExerciseCount,
-  actualDurationSeconds,
+  result,
+  planSeed,
 }) => {
   const { user } = useAuth();
   const [rating, setRating] = useState<number>(0);
@@ -191,6 +189,10 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
   const [hoverRating, setHoverRating] = useState<number>(0);
   const hasSavedRef = useRef(false); // 防止重複儲存
 
+  // 動作執行紀錄 (以播放器逐項紀錄為準，跳過的動作不論位置都記為未完成)
+  // 同時記錄階段、回合與之後的休息，讓「重做一次」能還原課表
+  const exerciseLogs = useMemo(() => buildExerciseLogEntries(plan, result), [plan, result]);
+
   // 自動儲存訓練紀錄 (不含評分) - 只執行一次
   // 加入依賴以確保 props 已完全傳入
   useEffect(() => {
@@ -202,34 +204,16 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
     hasSavedRef.current = true;
     
     const saveLog = async () => {
-      // 取得所有動作
-      const allExercises = plan.filter(item => item.type === 'exercise');
-      
-      // 根據實際完成數量決定記錄哪些動作
-      const actualCompleted = completedExerciseCount !== undefined 
-        ? completedExerciseCount 
-        : allExercises.length;
-      
-      // 建立動作執行紀錄
-      const exerciseLogs: ExerciseLogEntry[] = allExercises.map((item, index) => ({
-        name: item.title,
-        exerciseId: item.exercise?.id,
-        plannedDuration: item.duration,
-        actualDuration: index < actualCompleted ? item.duration : 0,
-        completed: index < actualCompleted,
-        feedback: exerciseFeedback?.get(item.exercise?.id || '') || null,
-      }));
+      const actualCompleted = result.completedExercises;
 
       // 使用實際訓練時間
-      const actualMinutes = actualDurationSeconds !== undefined 
-        ? Math.round(actualDurationSeconds / 60) 
-        : durationMinutes;
+      const actualMinutes = Math.round(result.elapsedSeconds / 60);
 
       const input: CreateWorkoutLogInput = {
         started_at: startedAt,
         completed_at: new Date().toISOString(),
         duration_minutes: actualMinutes > 0 ? actualMinutes : 1, // 至少 1 分鐘
-        settings: preferencesToSettings(preferences),
+        settings: preferencesToSettings(preferences, planSeed),
         exercises: exerciseLogs,
         rating: null,
         notes: null,
@@ -242,6 +226,11 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
           setSavedLogId(log.id);
           setIsSaved(true);
           console.log('訓練紀錄儲存成功:', log.id);
+          // 推進訓練計畫進度，並滿足日曆上當天的排程
+          await Promise.all([
+            recordProgramSession(user?.id || null, log),
+            satisfyPlannedWorkout(user?.id || null, log),
+          ]);
         }
       } catch (error) {
         console.error('儲存訓練紀錄失敗:', error);
@@ -249,7 +238,7 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
     };
 
     saveLog();
-  }, [plan, completedExerciseCount, actualDurationSeconds, preferences, startedAt, user?.id, durationMinutes, exerciseFeedback]);
+  }, [plan, result, exerciseLogs, preferences, planSeed, startedAt, user?.id]);
 
   // 儲存評分與備註
   const handleSaveRating = async () => {
@@ -277,22 +266,16 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
 
   // 計算訓練統計數據
   const stats = useMemo(() => {
-    const allExercises = plan.filter(item => item.type === 'exercise');
-    const totalExercises = allExercises.length;
-    
-    // 使用實際完成數量（若有傳入），否則預設為全部完成
-    const actualCompleted = completedExerciseCount !== undefined 
-      ? completedExerciseCount 
-      : totalExercises;
+    const totalExercises = exerciseLogs.length;
+    const actualCompleted = result.completedExercises;
     
     // 計算已完成動作的預定總秒數
-    const completedExercises = allExercises.slice(0, actualCompleted);
-    const plannedSeconds = completedExercises.reduce((sum, item) => sum + (item.duration || 0), 0);
+    const plannedSeconds = exerciseLogs
+      .filter(entry => entry.completed)
+      .reduce((sum, entry) => sum + (entry.plannedDuration || 0), 0);
     
-    // 使用實際訓練秒數（若有傳入），否則使用計劃時間
-    const actualSeconds = actualDurationSeconds !== undefined 
-      ? actualDurationSeconds 
-      : plannedSeconds;
+    // 實際訓練秒數 (暫停不計)
+    const actualSeconds = result.elapsedSeconds;
     
     // 轉換為分鐘顯示
     const actualMinutes = Math.round(actualSeconds / 60);
@@ -304,7 +287,7 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
     
     // 計算回饋分佈
     let tooEasy = 0, justRight = 0, tooHard = 0;
-    exerciseFeedback?.forEach((feedback) => {
+    exerciseLogs.forEach(({ feedback }) => {
       if (feedback === 'too_easy') tooEasy++;
       else if (feedback === 'just_right') justRight++;
       else if (feedback === 'too_hard') tooHard++;
@@ -327,7 +310,7 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
       completionRate,
       isPartialComplete: actualCompleted < totalExercises,
     };
-  }, [plan, durationMinutes, exerciseFeedback, completedExerciseCount, actualDurationSeconds]);
+  }, [exerciseLogs, result]);
 
   // 計算回饋分佈百分比（用於圖表）
   const feedbackTotal = stats.feedbackDistribution.tooEasy + stats.feedbackDistribution.justRight + stats.feedbackDistribution.tooHard;
@@ -450,8 +433,7 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
 
         {/* ===== 完成動作列表 ===== */}
         <ExerciseCompletionList 
-          plan={plan} 
-          exerciseFeedback={exerciseFeedback} 
+          entries={exerciseLogs} 
           completedCount={stats.actualCompleted} 
         />
 
@@ -523,6 +505,9 @@ export const CompletedScreen: React.FC<CompletedScreenProps> = ({
             <History size={20} /> 查看紀錄
           </Button>
         </div>
+        <div className="flex justify-center mt-3">
+          <SaveTemplateButton plan={plan} preferences={preferences} />
+        </div>
       </div>
     </div>
   );
@@ -1,27 +1,89 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { PlanItem } from '../../types/app';
-import { Play, Pause, SkipForward, X, Volume2, VolumeX, Info, ChevronRight } from 'lucide-react';
+import { PlayerProgress, WorkoutResult } from '../../types/session';
+import { ExerciseFeedback } from '../../types/workoutLog';
+import { Exercise } from '../../types/db';
+import { Play, Pause, SkipForward, SkipBack, RotateCcw, X, Volume2, VolumeX, Info, ChevronRight, Minus, Plus, Check, ArrowLeftRight } from 'lucide-react';
 import { useWakeLock } from '../../hooks/useWakeLock';
+import { usePlayerEngine } from '../../hooks/usePlayerEngine';
+import { useMediaSession } from '../../hooks/useMediaSession';
 import { playShortBeep, playLongBeep } from '../../utils/audio';
+import { PLAN_PHASE_LABELS } from '../../features/generator/phases';
+import { WORKOUT_FORMAT_LABELS, getFormatCue, getRoundLabel } from '../../features/generator/formats';
+import { formatRepPrescription, isRepBasedItem } from '../../features/generator/reps';
+import { ExerciseVariants } from '../../features/generator/relations';
+import { getExerciseVariants } from '../../services/exerciseService';
+import { PLAYER_TIME_STEP_SECONDS } from '../../features/player/engine';
+import { getNowPlayingInfo } from '../../features/player/nowPlaying';
 
 interface PlayerScreenProps {
   plan: PlanItem[];
-  onComplete: (completedIndex: number, elapsedSeconds: number) => void;
-  onExit: (completedIndex: number, elapsedSeconds: number) => void;
+  /** 完成最後一個項目時回調 (完成的項目、實際秒數、次數制各組次數等) */
+  onComplete: (result: WorkoutResult) => void;
+  /** 中途離開時回調 (目前為止的訓練結果) */
+  onExit: (result: WorkoutResult) => void;
+  /** 換動作：以較簡單 / 較難 / 替代動作取代目前項目 (未提供時不顯示換動作按鈕) */
+  onSwapExercise?: (index: number, exercise: Exercise) => void;
+  /** 換動作候選的篩選條件 (例如器材與排除條件) */
+  isExerciseAllowed?: (exercise: Exercise) => boolean;
+  /** 從檢查點繼續：回到相同項目與剩餘時間 (以暫停狀態開始) */
+  initialProgress?: PlayerProgress;
+  /** 進度變化時回調 (用於寫入檢查點) */
+  onProgress?: (progress: PlayerProgress) => void;
 }
 
+const FEEDBACK_OPTIONS: { value: Exclude<ExerciseFeedback, null>; label: string }[] = [
+  { value: 'too_easy', label: '太簡單' },
+  { value: 'just_right', label: '剛剛好' },
+  { value: 'too_hard', label: '太難' },
+];
+
+const SWAP_GROUPS: { key: keyof ExerciseVariants; label: string }[] = [
+  { key: 'easier', label: '較簡單' },
+  { key: 'alternatives', label: '替代動作' },
+  { key: 'harder', label: '較難' },
+];
+
 /**
  * 訓練播放器組件 (Workout Player Component)
  * 負責顯示訓練影片、計時、語音提示與使用者互動
  */
-export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, onExit }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(plan[0].duration);
-  const [isPaused, setIsPaused] = useState(false);
+export const PlayerScreen: React.FC<PlayerScreenProps> = ({
+  plan,
+  onComplete,
+  onExit,
+  onSwapExercise,
+  isExerciseAllowed,
+  initialProgress,
+  onProgress,
+}) => {
+  const {
+    currentIndex,
+    isPaused,
+    timeLeft,
+    setRestLeft,
+    setIndex,
+    repCount,
+    finishedItems,
+    feedback,
+    canAdjustTime,
+    getResult,
+    togglePause: togglePlayerPause,
+    pause,
+    resume,
+    skipItem: skipPlayerItem,
+    previousItem: previousPlayerItem,
+    restartItem: restartPlayerItem,
+    adjustTime,
+    completeSet: completePlayerSet,
+    skipSetRest,
+    setRepCount,
+    setFeedback,
+  } = usePlayerEngine(plan, { initialProgress, onFinish: onComplete, onProgress });
   const [soundEnabled, setSoundEnabled] = useState(true);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0); // 追蹤實際訓練秒數
-  const [completedExercises, setCompletedExercises] = useState(0); // 追蹤完成的運動數量（不含跳過）
-  const [skippedExercises, setSkippedExercises] = useState<Set<number>>(new Set()); // 追蹤被跳過的動作索引
+  // 換動作面板：開啟時暫停並載入變化動作
+  const [swapOptions, setSwapOptions] = useState<ExerciseVariants | null>(null);
+  const [swapFailed, setSwapFailed] = useState(false);
 
   // 計算 plan 中的運動總數（不含休息）
   const totalExercises = plan.filter(item => item.type === 'exercise').length;
@@ -31,7 +93,15 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
 
   const currentItem = plan[currentIndex];
   const nextItem = plan[currentIndex + 1];
-  const timerRef = useRef<number | null>(null);
+  // 休息時詢問剛才動作的難度
+  const feedbackIndex = currentItem.type === 'rest' && plan[currentIndex - 1]?.type === 'exercise' ? currentIndex - 1 : null;
+  // 回合制形式 (Circuit / Tabata / EMOM / AMRAP) 的回合數與提示
+  const roundLabel = getRoundLabel(currentItem);
+  const formatCue = getFormatCue(currentItem, plan[currentIndex - 1]);
+  const isRepItem = isRepBasedItem(currentItem);
+  const totalSets = currentItem.sets ?? 1;
+  const lastSetIndexRef = useRef(setIndex);
+  const lastFinishedItemsRef = useRef(finishedItems);
 
   // 語音合成 (TTS)
   const speak = useCallback((text: string) => {
@@ -47,73 +117,111 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
   // 切換暫停狀態
   const togglePause = useCallback((e?: React.MouseEvent) => {
     e?.stopPropagation();
-    setIsPaused(prev => !prev);
-  }, []);
+    togglePlayerPause();
+  }, [togglePlayerPause]);
 
   // 跳過當前項目（跳過的動作不算完成）
   const skipItem = useCallback((e?: React.MouseEvent) => {
     e?.stopPropagation();
-    
-    // 如果當前是運動項目，標記為已跳過
-    if (currentItem.type === 'exercise') {
-      setSkippedExercises(prev => new Set(prev).add(currentIndex));
-    }
-    
-    if (currentIndex < plan.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-    } else {
-      // 訓練結束，傳遞完成的運動數量
-      onComplete(completedExercises, elapsedSeconds);
+    skipPlayerItem();
+  }, [skipPlayerItem]);
+
+  // 回到上一個項目
+  const previousItem = useCallback((e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    previousPlayerItem();
+  }, [previousPlayerItem]);
+
+  // 重新開始目前項目
+  const restartItem = useCallback((e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    restartPlayerItem();
+  }, [restartPlayerItem]);
+
+  // 鎖定畫面與耳機按鍵 (暫停 / 繼續 / 下一個 / 上一個)
+  useMediaSession({
+    info: getNowPlayingInfo(plan, currentIndex),
+    isPlaying: !isPaused,
+    handlers: {
+      play: resume,
+      pause,
+      nexttrack: skipPlayerItem,
+      ...(currentIndex > 0 && { previoustrack: previousPlayerItem }),
+    },
+  });
+
+  // 開啟換動作面板
+  const openSwap = useCallback(async (e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    if (!currentItem.exercise) return;
+    pause();
+    try {
+      setSwapOptions(await getExerciseVariants(currentItem.exercise.id, isExerciseAllowed));
+      setSwapFailed(false);
+    } catch (error) {
+      // 仍開啟面板顯示錯誤，關閉後照常繼續訓練
+      console.error('取得換動作候選失敗', error);
+      setSwapOptions({ easier: [], harder: [], alternatives: [] });
+      setSwapFailed(true);
     }
-  }, [currentIndex, plan.length, onComplete, elapsedSeconds, completedExercises, currentItem.type]);
+  }, [currentItem.exercise, isExerciseAllowed, pause]);
 
-  // 初始化目前動作
+  const closeSwap = useCallback(() => {
+    setSwapOptions(null);
+    setSwapFailed(false);
+    resume();
+  }, [resume]);
+
+  const chooseSwap = useCallback((exercise: Exercise) => {
+    onSwapExercise?.(currentIndex, exercise);
+    closeSwap();
+  }, [onSwapExercise, currentIndex, closeSwap]);
+
+  // 完成一組 (次數制)：記錄次數，最後一組完成後進入下一個項目
+  const completeSet = useCallback((e?: React.MouseEvent) => {
+    e?.stopPropagation();
+    completePlayerSet();
+  }, [completePlayerSet]);
+
+  // 進入新項目時的語音提示
   useEffect(() => {
-    setTimeLeft(currentItem.duration);
-    if (currentItem.type === 'exercise') {
+    if (formatCue) {
+      speak(formatCue);
+    } else if (isRepBasedItem(currentItem)) {
+      speak(`準備，${currentItem.title}，${formatRepPrescription(currentItem)}`);
+    } else if (currentItem.type === 'exercise') {
       speak(`準備，${currentItem.title}`);
     } else {
       speak('休息一下');
     }
-  }, [currentIndex, currentItem, speak]);
+  }, [currentIndex, currentItem, formatCue, speak]);
 
-  // 計時器與音效邏輯
+  // 次數制：完成一組後提示組間休息或下一組
   useEffect(() => {
-    if (isPaused) return;
+    if (setIndex > lastSetIndexRef.current) {
+      const rest = currentItem.setRestSeconds ?? 0;
+      speak(rest > 0 ? `組間休息 ${rest} 秒` : `第 ${setIndex + 1} 組`);
+    }
+    lastSetIndexRef.current = setIndex;
+  }, [setIndex, currentItem, speak]);
 
-    if (timeLeft > 0) {
-      timerRef.current = window.setTimeout(() => {
-        setTimeLeft(prev => prev - 1);
-        setElapsedSeconds(prev => prev + 1); // 追蹤實際訓練秒數
-      }, 1000);
+  // 項目正常結束 (時間到或完成最後一組) 時播放結束音效
+  useEffect(() => {
+    if (finishedItems > lastFinishedItemsRef.current && soundEnabled) playLongBeep();
+    lastFinishedItemsRef.current = finishedItems;
+  }, [finishedItems, soundEnabled]);
 
-      if (soundEnabled && timeLeft <= 3) {
-        playShortBeep();
-      }
-    } else {
-      // 時間到，動作完成
-      if (soundEnabled) playLongBeep();
-      
-      // 如果當前是運動項目且未被跳過，增加完成計數
-      if (currentItem.type === 'exercise' && !skippedExercises.has(currentIndex)) {
-        setCompletedExercises(prev => prev + 1);
-      }
-      
-      if (currentIndex < plan.length - 1) {
-        setCurrentIndex(prev => prev + 1);
-      } else {
-        // 訓練結束，傳遞完成的運動數量（+1 因為當前這個也完成了）
-        const finalCompleted = currentItem.type === 'exercise' && !skippedExercises.has(currentIndex)
-          ? completedExercises + 1
-          : completedExercises;
-        onComplete(finalCompleted, elapsedSeconds);
-      }
-    }
+  // 倒數最後 3 秒提示音
+  useEffect(() => {
+    if (isPaused || !soundEnabled) return;
+    if (!isRepItem && timeLeft > 0 && timeLeft <= 3) playShortBeep();
+  }, [timeLeft, isPaused, isRepItem, soundEnabled]);
 
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-    };
-  }, [timeLeft, isPaused, currentIndex, plan.length, onComplete, soundEnabled, currentItem.type, skippedExercises, completedExercises, elapsedSeconds]);
+  useEffect(() => {
+    if (isPaused || !isRepItem) return;
+    if (setRestLeft > 0 && setRestLeft <= 3 && soundEnabled) playShortBeep();
+    if (setRestLeft === 1) speak(`開始第 ${setIndex + 1} 組`);
+  }, [setRestLeft, isPaused, isRepItem, setIndex, soundEnabled, speak]);
 
   // 鍵盤快捷鍵支援
   useEffect(() => {
@@ -123,15 +231,19 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
         togglePause();
       } else if (e.code === 'ArrowRight') {
         skipItem();
+      } else if (e.code === 'ArrowLeft') {
+        previousItem();
+      } else if (e.code === 'Enter') {
+        completeSet();
       } else if (e.code === 'Escape') {
-        // 中途離開時傳遞已完成的運動數量
-        onExit(completedExercises, elapsedSeconds);
+        // 中途離開時傳遞目前為止的訓練結果
+        onExit(getResult());
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [togglePause, skipItem, onExit, completedExercises, elapsedSeconds]);
+  }, [togglePause, skipItem, previousItem, completeSet, onExit, getResult]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -158,6 +270,11 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
            <span className="text-xs font-medium text-white/90 tracking-wide">
             {currentIndex + 1} <span className="text-gray-500 mx-1">/</span> {plan.length}
           </span>
+          {roundLabel && currentItem.format && (
+            <span className="text-xs font-bold text-brand-light tracking-wide mt-0.5">
+              {WORKOUT_FORMAT_LABELS[currentItem.format]} · {roundLabel}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-2 pointer-events-auto">
@@ -169,7 +286,7 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
             {soundEnabled ? <Volume2 size={16} className="text-brand-light" /> : <VolumeX size={16} className="text-gray-400" />}
           </button>
           <button 
-            onClick={(e) => { e.stopPropagation(); onExit(completedExercises, elapsedSeconds); }} 
+            onClick={(e) => { e.stopPropagation(); onExit(getResult()); }} 
             className="w-9 h-9 rounded-full bg-black/20 hover:bg-red-500/20 flex items-center justify-center transition-colors border border-white/10 backdrop-blur-md group"
             aria-label="退出訓練"
           >
@@ -191,11 +308,17 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
           >
             {currentItem.type === 'exercise' && currentItem.exercise ? (
                <div className="w-full h-full flex items-center justify-center bg-black">
-                  <img 
-                    src={currentItem.exercise.video_url} 
-                    alt={currentItem.title} 
-                    className="w-full h-full object-contain opacity-90"
-                  />
+                  {currentItem.exercise.video_url ? (
+                    <img 
+                      src={currentItem.exercise.video_url} 
+                      alt={currentItem.title} 
+                      className="w-full h-full object-contain opacity-90"
+                    />
+                  ) : (
+                    <span className="text-gray-500 text-2xl font-bold tracking-wide px-6 text-center">
+                      {currentItem.title}
+                    </span>
+                  )}
                </div>
             ) : (
               <div className="w-full h-full flex flex-col items-center justify-center gap-8 bg-neutral-900">
@@ -206,11 +329,76 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
                    </div>
                 </div>
                 <p className="text-gray-400 text-sm tracking-[0.2em] uppercase">Take a breath</p>
+
+                {/* 剛才動作的難度回饋 (寫入訓練紀錄) */}
+                {feedbackIndex !== null && (
+                  <div className="flex flex-col items-center gap-3" onClick={(e) => e.stopPropagation()}>
+                    <p className="text-gray-300 text-sm">剛才的「{plan[feedbackIndex].title}」感覺如何？</p>
+                    <div className="flex gap-2">
+                      {FEEDBACK_OPTIONS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => setFeedback(feedbackIndex, option.value)}
+                          className={`px-4 py-2 rounded-full text-sm border transition-colors ${
+                            feedback[feedbackIndex] === option.value
+                              ? 'bg-brand-light text-brand-dark border-brand-light font-bold'
+                              : 'bg-white/5 text-gray-300 border-white/10 hover:bg-white/10'
+                          }`}
+                          aria-pressed={feedback[feedbackIndex] === option.value}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* 換動作面板 */}
+            {swapOptions && (
+              <div
+                className="absolute inset-0 bg-black/80 backdrop-blur-sm z-40 flex items-center justify-center p-6"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div className="w-full max-w-md bg-neutral-900 rounded-2xl border border-white/10 p-6 space-y-5">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-white">換動作</h3>
+                    <button
+                      onClick={closeSwap}
+                      className="text-gray-400 hover:text-white transition-colors"
+                      aria-label="關閉"
+                    >
+                      <X size={18} />
+                    </button>
+                  </div>
+                  {swapFailed ? (
+                    <p className="text-sm text-gray-400">無法載入可替換的動作，請稍後再試。</p>
+                  ) : SWAP_GROUPS.every(group => swapOptions[group.key].length === 0) ? (
+                    <p className="text-sm text-gray-400">這個動作目前沒有可替換的變化動作。</p>
+                  ) : SWAP_GROUPS.filter(group => swapOptions[group.key].length > 0).map(group => (
+                    <div key={group.key}>
+                      <p className="text-[10px] text-gray-500 uppercase tracking-wider font-bold mb-2">{group.label}</p>
+                      <div className="flex flex-col gap-2">
+                        {swapOptions[group.key].map(exercise => (
+                          <button
+                            key={exercise.id}
+                            onClick={() => chooseSwap(exercise)}
+                            className="flex items-center justify-between px-4 py-3 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 transition-colors text-left"
+                          >
+                            <span className="text-sm font-medium text-gray-200">{exercise.name}</span>
+                            <ChevronRight size={16} className="text-gray-600" />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
             {/* 暫停遮罩 */}
-            {isPaused && (
+            {isPaused && !swapOptions && (
               <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-30 flex flex-col items-center justify-center transition-all duration-300">
                 <div className="bg-black/40 p-6 rounded-full border border-white/10 backdrop-blur-md mb-4">
                   <Pause size={48} className="text-brand-light drop-shadow-[0_0_15px_rgba(212,235,133,0.5)]" />
@@ -239,7 +427,11 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
           
           {/* 上方資訊 */}
           <div className="flex flex-col gap-2 mt-2 lg:mt-8 text-center lg:text-left">
-            {currentItem.type === 'exercise' && (
+            {currentItem.phase && currentItem.phase !== 'main' ? (
+              <span className="text-sky-300 text-xs font-bold uppercase tracking-wider mb-1 opacity-80">
+                {PLAN_PHASE_LABELS[currentItem.phase]}
+              </span>
+            ) : currentItem.type === 'exercise' && (
               <span className="text-brand-light text-xs font-bold uppercase tracking-wider mb-1 opacity-80">
                 Current Exercise
               </span>
@@ -247,6 +439,9 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
             <h2 className="text-3xl lg:text-4xl font-bold text-white leading-tight line-clamp-2">
               {currentItem.title}
             </h2>
+            {formatCue && (
+              <p className="text-brand-light/90 text-sm font-medium">{formatCue}</p>
+            )}
             
             {/* 桌面版說明文字 */}
             {currentItem.type === 'exercise' && currentItem.exercise && (
@@ -262,7 +457,58 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
             )}
           </div>
 
-          {/* 中央計時器 */}
+          {/* 中央計時器 (次數制顯示組數與次數) */}
+          {isRepItem ? (
+          <div className="flex-1 flex flex-col items-center justify-center gap-4 py-6">
+            <p className="text-gray-400 text-xs uppercase tracking-[0.3em] font-medium">
+              第 {setIndex + 1} / {totalSets} 組{currentItem.tempo && ` · 節奏 ${currentItem.tempo}`}
+            </p>
+            {setRestLeft > 0 ? (
+              <>
+                <div className="font-mono font-bold leading-none tracking-tighter tabular-nums text-7xl lg:text-8xl text-white">
+                  {formatTime(setRestLeft)}
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); skipSetRest(); }}
+                  className="text-sm text-brand-light/80 hover:text-brand-light transition-colors"
+                >
+                  組間休息中，點此提前開始
+                </button>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center gap-6">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setRepCount(repCount - 1); }}
+                    className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center hover:bg-white/10 active:scale-95 transition-all"
+                    aria-label="減少次數"
+                  >
+                    <Minus size={20} />
+                  </button>
+                  <div className="font-mono font-bold leading-none tracking-tighter tabular-nums text-8xl lg:text-9xl text-white">
+                    {repCount}
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setRepCount(repCount + 1); }}
+                    className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center hover:bg-white/10 active:scale-95 transition-all"
+                    aria-label="增加次數"
+                  >
+                    <Plus size={20} />
+                  </button>
+                </div>
+                <p className="text-gray-600 text-xs uppercase tracking-[0.3em] font-medium">目標 {currentItem.reps} 下</p>
+                <button
+                  onClick={completeSet}
+                  className="flex items-center gap-2 px-6 py-3 rounded-full bg-brand-light text-brand-dark font-bold hover:scale-105 active:scale-95 transition-all"
+                  title="完成這組 (Enter)"
+                >
+                  <Check size={20} />
+                  完成這組
+                </button>
+              </>
+            )}
+          </div>
+          ) : (
           <div className="flex-1 flex flex-col items-center justify-center py-6">
             <div 
               className={`font-mono font-bold leading-none tracking-tighter transition-all duration-200 tabular-nums text-8xl lg:text-9xl cursor-pointer select-none
@@ -274,6 +520,35 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
             </div>
             <p className="text-gray-600 text-xs uppercase tracking-[0.3em] font-medium mt-3">Time Remaining</p>
           </div>
+          )}
+
+          {/* 時間調整 (計時項目或組間休息) 與重新開始 */}
+          <div className="flex justify-center items-center gap-3 mb-6">
+            <button
+              onClick={(e) => { e.stopPropagation(); adjustTime(-PLAYER_TIME_STEP_SECONDS); }}
+              disabled={!canAdjustTime}
+              className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none transition-colors tabular-nums"
+              aria-label={`減少 ${PLAYER_TIME_STEP_SECONDS} 秒`}
+            >
+              −{PLAYER_TIME_STEP_SECONDS} 秒
+            </button>
+            <button
+              onClick={restartItem}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 transition-colors"
+              title="重新開始此項目"
+            >
+              <RotateCcw size={14} />
+              重新開始
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); adjustTime(PLAYER_TIME_STEP_SECONDS); }}
+              disabled={!canAdjustTime}
+              className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-sm text-gray-300 hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none transition-colors tabular-nums"
+              aria-label={`增加 ${PLAYER_TIME_STEP_SECONDS} 秒`}
+            >
+              +{PLAYER_TIME_STEP_SECONDS} 秒
+            </button>
+          </div>
 
           {/* 底部控制區 */}
           <div className="flex flex-col gap-8 mb-6 lg:mb-10">
@@ -290,6 +565,16 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
 
             {/* 主要按鈕 */}
             <div className="flex justify-center items-center gap-8">
+              <button
+                onClick={previousItem}
+                disabled={currentIndex === 0}
+                className="w-14 h-14 rounded-full bg-white/5 text-white border border-white/10 flex items-center justify-center hover:bg-white/10 active:scale-95 transition-all disabled:opacity-30 disabled:pointer-events-none"
+                title="上一個 (Left Arrow)"
+                aria-label="回到上一個項目"
+              >
+                <SkipBack size={24} />
+              </button>
+
               <button 
                 onClick={togglePause}
                 className="w-20 h-20 rounded-full bg-brand-light text-brand-dark flex items-center justify-center hover:scale-105 active:scale-95 transition-all shadow-[0_0_25px_rgba(212,235,133,0.3)] hover:shadow-[0_0_35px_rgba(212,235,133,0.5)]"
@@ -299,6 +584,17 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({ plan, onComplete, on
                 {isPaused ? <Play size={36} fill="currentColor" className="ml-1" /> : <Pause size={36} fill="currentColor" />}
               </button>
               
+              {onSwapExercise && currentItem.type === 'exercise' && currentItem.exercise && (
+                <button
+                  onClick={openSwap}
+                  className="w-14 h-14 rounded-full bg-white/5 text-white border border-white/10 flex items-center justify-center hover:bg-white/10 active:scale-95 transition-all"
+                  title="換動作"
+                  aria-label="換動作"
+                >
+                  <ArrowLeftRight size={22} />
+                </button>
+              )}
+
               <button 
                 onClick={skipItem}
                 className="w-14 h-14 rounded-full bg-white/5 text-white border border-white/10 flex items-center justify-center hover:bg-white/10 active:scale-95 transition-all"
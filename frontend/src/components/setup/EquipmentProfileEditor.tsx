@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { EquipmentProfile, EquipmentProfileSettings } from '../../types/app';
+import {
+  EQUIPMENT_PROFILE_NAME_SUGGESTIONS,
+  findMatchingEquipmentProfile,
+  removeEquipmentProfile,
+  saveEquipmentProfile,
+  setDefaultEquipmentProfile,
+} from '../../features/generator/equipmentProfiles';
+import { getEquipmentLabel } from '../../features/exercises/metadata';
+import { Button } from '../ui/Button';
+import { Check, Plus, Star, X } from 'lucide-react';
+
+interface EquipmentProfileEditorProps {
+  value: EquipmentProfileSettings;
+  onChange: (settings: EquipmentProfileSettings) => void;
+
+  /** 目前勾選的器材，「儲存組合」時使用 */
+  equipment: string[];
+
+  /** 點選組合時套用 (未提供時組合僅供管理) */
+  onSelect?: (profile: EquipmentProfile) => void;
+}
+
+/**
+ * 器材組合編輯器 (Equipment Profile Editor)
+ * 用於設定畫面與個人檔案：一鍵套用、儲存目前器材、設為預設與刪除
+ */
+export const EquipmentProfileEditor: React.FC<EquipmentProfileEditorProps> = ({ value, onChange, equipment, onSelect }) => {
+  const [name, setName] = useState('');
+  const matching = findMatchingEquipmentProfile(value, equipment);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onChange(saveEquipmentProfile(value, name, equipment));
+    setName('');
+  };
+
+  const describe = (profile: EquipmentProfile) =>
+    profile.equipment.filter(id => id !== 'bodyweight').map(getEquipmentLabel).join('、') || '僅徒手';
+
+  return (
+    <div className="space-y-3">
+      {value.profiles.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {value.profiles.map(profile => {
+            const selected = matching?.id === profile.id;
+            const isDefault = value.defaultProfileId === profile.id;
+            return (
+              <div
+                key={profile.id}
+                className={`
+                  flex items-center gap-2 rounded-xl border-2 px-3 py-2 transition-all
+                  ${selected ? 'border-brand-dark bg-brand-dark/5' : 'border-gray-200 bg-white'}
+                `}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect?.(profile)}
+                  disabled={!onSelect}
+                  className="flex-1 min-w-0 text-left disabled:cursor-default"
+                >
+                  <span className="flex items-center gap-1.5 font-bold text-gray-800">
+                    {selected && <Check size={14} strokeWidth={3} className="text-brand-dark" />}
+                    {profile.name}
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">{describe(profile)}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(setDefaultEquipmentProfile(value, isDefault ? null : profile.id))}
+                  className={`p-1.5 rounded-lg transition-colors ${isDefault ? 'text-amber-500' : 'text-gray-300 hover:text-gray-500'}`}
+                  title={isDefault ? '取消預設' : '設為預設'}
+                >
+                  <Star size={16} fill={isDefault ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(removeEquipmentProfile(value, profile.id))}
+                  className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+                  title="刪除組合"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 儲存目前勾選的器材 */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          list="equipment-profile-names"
+          placeholder={`組合名稱，例如「${EQUIPMENT_PROFILE_NAME_SUGGESTIONS[0]}」`}
+          maxLength={20}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-dark/20 focus:border-brand-dark"
+        />
+        <datalist id="equipment-profile-names">
+          {EQUIPMENT_PROFILE_NAME_SUGGESTIONS.map(suggestion => <option key={suggestion} value={suggestion} />)}
+        </datalist>
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={!name.trim()} className="gap-1.5">
+          <Plus size={16} />
+          儲存目前器材
+        </Button>
+      </div>
+    </div>
+  );
+};
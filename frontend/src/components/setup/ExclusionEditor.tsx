@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { ExclusionRules } from '../../types/app';
+import { Exercise } from '../../types/db';
+import { getAllExercises } from '../../services/exerciseService';
+import { EMPTY_EXCLUSIONS, EXCLUSION_TAG_OPTIONS } from '../../features/generator/exclusions';
+import { isPhaseOnlyExercise } from '../../features/generator/phases';
+import { Check } from 'lucide-react';
+
+interface ExclusionEditorProps {
+  value?: ExclusionRules;
+  onChange: (rules: ExclusionRules) => void;
+}
+
+/**
+ * 排除條件編輯器 (Exclusion Editor)
+ * 用於設定畫面與個人檔案：勾選要避開的動作類型或個別動作
+ */
+export const ExclusionEditor: React.FC<ExclusionEditorProps> = ({ value = EMPTY_EXCLUSIONS, onChange }) => {
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+
+  useEffect(() => {
+    getAllExercises()
+      .then(all => setExercises(all.filter(ex => !isPhaseOnlyExercise(ex))))
+      .catch(err => console.error('載入動作列表失敗:', err));
+  }, []);
+
+  const toggle = (list: string[], item: string) =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const chipClass = (selected: boolean) => `
+    inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-all border-2
+    ${selected
+      ? 'border-red-400 bg-red-50 text-red-700'
+      : 'border-transparent bg-gray-100 text-gray-600 hover:bg-gray-200'}
+  `;
+
+  return (
+    <div className="space-y-4">
+      {/* 依類型排除 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {EXCLUSION_TAG_OPTIONS.map(option => {
+          const selected = value.tags.includes(option.tag);
+          return (
+            <button
+              key={option.tag}
+              type="button"
+              onClick={() => onChange({ ...value, tags: toggle(value.tags, option.tag) })}
+              className={`${chipClass(selected)} justify-start text-left`}
+            >
+              {selected && <Check size={14} strokeWidth={3} />}
+              <span>{option.label}</span>
+              <span className="text-xs font-normal text-gray-400">{option.desc}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* 依動作排除 */}
+      {exercises.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-2">個別動作</p>
+          <div className="flex flex-wrap gap-2">
+            {exercises.map(ex => {
+              const selected = value.exerciseIds.includes(ex.id);
+              return (
+                <button
+                  key={ex.id}
+                  type="button"
+                  onClick={() => onChange({ ...value, exerciseIds: toggle(value.exerciseIds, ex.id) })}
+                  className={chipClass(selected)}
+                >
+                  {selected && <Check size={14} strokeWidth={3} />}
+                  {ex.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,58 @@
-import React, { useState } from 'react';
-import { UserPreferences } from '../../types/app';
+import React, { useEffect, useState } from 'react';
+import { EquipmentProfile, EquipmentProfileSettings, UserPreferences, WorkoutFormat } from '../../types/app';
 import { Button } from '../ui/Button';
-import { Dumbbell, Clock, Target, Zap, ChevronRight, Check } from 'lucide-react';
+import { ExclusionEditor } from './ExclusionEditor';
+import { EquipmentProfileEditor } from './EquipmentProfileEditor';
+import { TemplatePicker } from '../templates/TemplatePicker';
+import { WorkoutTemplate } from '../../types/workoutTemplate';
+import { WORKOUT_FORMAT_CUES, WORKOUT_FORMAT_LABELS, DEFAULT_CIRCUIT_ROUNDS } from '../../features/generator/formats';
+import {
+  getEquipmentProfiles,
+  getExclusionRules,
+  saveEquipmentProfiles,
+  saveExclusionRules,
+} from '../../services/profileSettingsService';
+import { EMPTY_EQUIPMENT_PROFILES, getDefaultEquipmentProfile } from '../../features/generator/equipmentProfiles';
+import { useAuth } from '../../features/auth/AuthContext';
+import { DIFFICULTY_LABELS, EQUIPMENT_OPTIONS } from '../../features/exercises/metadata';
+import { Dumbbell, Clock, Target, Zap, ChevronRight, Check, Repeat, Ban } from 'lucide-react';
 
 interface SetupScreenProps {
   onComplete: (prefs: UserPreferences) => void;
   onBack: () => void;
+
+  /** 選用已儲存的範本 (未提供時不顯示範本) */
+  onTemplateSelect?: (template: WorkoutTemplate) => void;
 }
 
 type Section = 'goal' | 'equipment' | 'details';
 
-export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack }) => {
+export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack, onTemplateSelect }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
   // 表單狀態
   const [prefs, setPrefs] = useState<UserPreferences>({
     goal: '',
     equipment: ['bodyweight'], // 預設包含徒手
     durationMinutes: 15,
-    difficulty: 'beginner'
+    difficulty: 'beginner',
+    format: 'straight',
+    rounds: DEFAULT_CIRCUIT_ROUNDS
   });
 
+  const [equipmentProfiles, setEquipmentProfiles] = useState<EquipmentProfileSettings>(EMPTY_EQUIPMENT_PROFILES);
+
+  // 載入已儲存的排除條件與器材組合 (會員存於個人檔案，訪客存於本地)，並預先套用預設組合
+  useEffect(() => {
+    getExclusionRules(userId).then(exclusions => setPrefs(prev => ({ ...prev, exclusions })));
+    getEquipmentProfiles(userId).then(settings => {
+      setEquipmentProfiles(settings);
+      const defaultProfile = getDefaultEquipmentProfile(settings);
+      if (defaultProfile) setPrefs(prev => ({ ...prev, equipment: defaultProfile.equipment }));
+    });
+  }, [userId]);
+
   // UI 狀態：控制當前顯示的步驟（可選，這裡為了流暢體驗，我們做成單頁長滾動或分段顯示，這裡採用分段引導）
   const [step, setStep] = useState<Section>('goal');
 
@@ -29,21 +63,17 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
     { id: 'tone', label: '塑形', desc: '修飾線條與核心', icon: <Target className="w-6 h-6" /> },
   ];
 
-  const equipmentOpts = [
-    { id: 'bodyweight', label: '徒手 (無器材)', desc: '隨時隨地' },
-    { id: 'dumbbell', label: '啞鈴', desc: '加強負重' },
-    { id: 'band', label: '彈力帶', desc: '阻力訓練' },
-    { id: 'kettlebell', label: '壺鈴', desc: '爆發力' },
-  ];
-
   const durations = [15, 30, 45, 60];
   
   const difficulties = [
-    { id: 'beginner', label: '初階', desc: '剛開始運動' },
-    { id: 'intermediate', label: '中階', desc: '有運動習慣' },
-    { id: 'advanced', label: '高階', desc: '追求極限' },
+    { id: 'beginner', label: DIFFICULTY_LABELS.beginner, desc: '剛開始運動' },
+    { id: 'intermediate', label: DIFFICULTY_LABELS.intermediate, desc: '有運動習慣' },
+    { id: 'advanced', label: DIFFICULTY_LABELS.advanced, desc: '追求極限' },
   ] as const;
 
+  const formats: WorkoutFormat[] = ['straight', 'circuit', 'tabata', 'emom', 'amrap'];
+  const roundOptions = [2, 3, 4, 5];
+
   // 處理器材多選
   const toggleEquipment = (id: string) => {
     setPrefs(prev => {
@@ -58,10 +88,26 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
     });
   };
 
+  // 器材組合異動時立即儲存
+  const handleEquipmentProfilesChange = (settings: EquipmentProfileSettings) => {
+    setEquipmentProfiles(settings);
+    saveEquipmentProfiles(userId, settings);
+  };
+
+  // 一鍵套用器材組合並進入下一步
+  const handleSelectEquipmentProfile = (profile: EquipmentProfile) => {
+    setPrefs(prev => ({ ...prev, equipment: profile.equipment }));
+    setStep('details');
+  };
+
   const handleNext = () => {
     if (step === 'goal') setStep('equipment');
     else if (step === 'equipment') setStep('details');
-    else onComplete(prefs);
+    else {
+      // 排除條件跟著使用者保存，下次生成課表時沿用
+      if (prefs.exclusions) saveExclusionRules(userId, prefs.exclusions);
+      onComplete(prefs);
+    }
   };
 
   // 渲染選擇卡片
@@ -121,6 +167,7 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
             <h2 className="text-2xl font-bold text-brand-dark mb-2">您的主要目標是什麼？</h2>
             <p className="text-brand-gray">這將決定訓練的強度與組間休息時間。</p>
           </div>
+          {onTemplateSelect && <TemplatePicker onSelect={onTemplateSelect} />}
           <div className="grid gap-4">
             {goals.map(g => (
               <SelectionCard
@@ -153,8 +200,18 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
             <h2 className="text-2xl font-bold text-brand-dark mb-2">您有哪些器材？</h2>
             <p className="text-brand-gray">複選。我們會根據您擁有的器材安排動作。</p>
           </div>
+          <div className="bg-white rounded-xl border border-gray-200 p-4">
+            <h3 className="font-bold text-gray-700 mb-1">我的器材組合</h3>
+            <p className="text-sm text-gray-500 mb-3">點選組合即可套用；星號為預設組合。</p>
+            <EquipmentProfileEditor
+              value={equipmentProfiles}
+              onChange={handleEquipmentProfilesChange}
+              equipment={prefs.equipment}
+              onSelect={handleSelectEquipmentProfile}
+            />
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            {equipmentOpts.map(e => (
+            {EQUIPMENT_OPTIONS.map(e => (
               <SelectionCard
                 key={e.id}
                 selected={prefs.equipment.includes(e.id)}
@@ -171,7 +228,7 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
         </div>
       )}
 
-      {/* Step 3: Details (Duration & Difficulty) */}
+      {/* Step 3: Details (Duration, Difficulty, Format & Exclusions) */}
       {step === 'details' && (
         <div className="space-y-8">
           <div className="text-center mb-6">
@@ -230,6 +287,69 @@ export const SetupScreen: React.FC<SetupScreenProps> = ({ onComplete, onBack })
             </p>
           </div>
 
+          {/* Format */}
+          <div className="bg-white p-6 rounded-xl border border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <Repeat className="text-brand-dark" />
+              <h3 className="font-bold text-lg">訓練形式</h3>
+            </div>
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+              {formats.map(f => (
+                <button
+                  key={f}
+                  onClick={() => setPrefs({ ...prefs, format: f })}
+                  className={`
+                    py-3 px-2 rounded-lg text-sm font-medium transition-all border-2
+                    ${prefs.format === f
+                      ? 'border-brand-dark bg-brand-dark/5 text-brand-dark' 
+                      : 'border-transparent bg-gray-100 text-gray-600 hover:bg-gray-200'}
+                  `}
+                >
+                  {WORKOUT_FORMAT_LABELS[f]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-center mt-3 text-gray-500">
+              {WORKOUT_FORMAT_CUES[prefs.format ?? 'straight']}
+            </p>
+
+            {/* 循環訓練回合數 */}
+            {prefs.format === 'circuit' && (
+              <div className="mt-4 flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-600">回合數</span>
+                <div className="flex gap-2">
+                  {roundOptions.map(r => (
+                    <button
+                      key={r}
+                      onClick={() => setPrefs({ ...prefs, rounds: r })}
+                      className={`
+                        w-10 h-10 rounded-lg font-medium transition-all
+                        ${prefs.rounds === r
+                          ? 'bg-brand-dark text-brand-light shadow-md' 
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}
+                      `}
+                    >
+                      {r}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Exclusions */}
+          <div className="bg-white p-6 rounded-xl border border-gray-200">
+            <div className="flex items-center gap-2 mb-1">
+              <Ban className="text-brand-dark" />
+              <h3 className="font-bold text-lg">避開的動作</h3>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">受傷或環境限制時勾選，課表將不會安排這些動作。</p>
+            <ExclusionEditor
+              value={prefs.exclusions}
+              onChange={exclusions => setPrefs({ ...prefs, exclusions })}
+            />
+          </div>
+
           <div className="mt-8 flex justify-between">
             <Button variant="outline" onClick={() => setStep('equipment')}>上一步</Button>
             <Button 
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { PlanItem, UserPreferences } from '../../types/app';
+import { preferencesToSettings } from '../../types/workoutLog';
+import { toPlannedEntries } from '../../features/generator/plannedEntries';
+import { getGoalLabel } from '../../features/exercises/metadata';
+import { createWorkoutTemplate } from '../../services/workoutTemplateService';
+import { useAuth } from '../../features/auth/AuthContext';
+import { Button } from '../ui/Button';
+import { Bookmark, BookmarkCheck, Loader2, X } from 'lucide-react';
+
+interface SaveTemplateButtonProps {
+  plan: PlanItem[];
+  preferences: UserPreferences | null;
+  className?: string;
+}
+
+/** 範本名稱長度上限 (與資料表限制相同) */
+const MAX_NAME_LENGTH = 40;
+
+/**
+ * 存成範本按鈕 (Save As Template)
+ * 點擊後輸入名稱，將目前課表存成範本 (會員存於雲端，訪客存於本地)
+ */
+export const SaveTemplateButton: React.FC<SaveTemplateButtonProps> = ({ plan, preferences, className = '' }) => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedName, setSavedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = () => {
+    setName(preferences ? `${getGoalLabel(preferences.goal)} ${preferences.durationMinutes} 分鐘` : '');
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !preferences) return;
+
+    setIsSaving(true);
+    const template = await createWorkoutTemplate(user?.id ?? null, {
+      name,
+      settings: preferencesToSettings(preferences),
+      exercises: toPlannedEntries(plan),
+    });
+    setIsSaving(false);
+
+    if (template) {
+      setSavedName(template.name);
+      setIsOpen(false);
+    } else {
+      setError('儲存失敗，請稍後再試。');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={open}
+        disabled={!preferences || plan.length === 0}
+        className={`gap-1.5 ${className}`}
+        title={savedName ? `已存成範本「${savedName}」` : undefined}
+      >
+        {savedName ? <BookmarkCheck size={16} /> : <Bookmark size={16} />}
+        {savedName ? '已存成範本' : '存成範本'}
+      </Button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setIsOpen(false)}>
+          <div className="w-full max-w-sm bg-white rounded-2xl shadow-xl p-5 space-y-4" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-brand-dark">存成範本</h3>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="text-gray-400 hover:text-gray-700 transition-colors"
+                aria-label="關閉"
+              >
+                <X size={18} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-500">之後可在開始訓練時直接選用，不需重新生成。</p>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleSave()}
+              maxLength={MAX_NAME_LENGTH}
+              placeholder="範本名稱"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-dark/20 focus:border-brand-dark"
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsOpen(false)} fullWidth>取消</Button>
+              <Button onClick={handleSave} disabled={!name.trim() || isSaving} fullWidth className="gap-2">
+                {isSaving && <Loader2 size={16} className="animate-spin" />}
+                儲存
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
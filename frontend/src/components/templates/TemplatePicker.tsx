@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { WorkoutTemplate } from '../../types/workoutTemplate';
+import { getGoalLabel } from '../../features/exercises/metadata';
+import { WORKOUT_FORMAT_LABELS } from '../../features/generator/formats';
+import { estimatePlannedMinutes } from '../../features/generator/plannedEntries';
+import {
+  deleteWorkoutTemplate,
+  getWorkoutTemplates,
+  updateWorkoutTemplate,
+} from '../../services/workoutTemplateService';
+import { useAuth } from '../../features/auth/AuthContext';
+import { Bookmark, Check, ChevronRight, Pencil, X } from 'lucide-react';
+
+interface TemplatePickerProps {
+  /** 選擇範本 (直接開始，不經生成器) */
+  onSelect: (template: WorkoutTemplate) => void;
+}
+
+/**
+ * 課表範本選擇器 (Template Picker)
+ * 列出已儲存的範本，可直接選用、重新命名或刪除；沒有範本時不顯示
+ */
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ onSelect }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  useEffect(() => {
+    getWorkoutTemplates(userId).then(setTemplates);
+  }, [userId]);
+
+  const handleRename = async (template: WorkoutTemplate) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name || name === template.name) return;
+
+    const updated = await updateWorkoutTemplate(template.id, userId, { name });
+    if (updated) {
+      setTemplates(prev => prev.map(item => (item.id === template.id ? updated : item)));
+    }
+  };
+
+  const handleDelete = async (template: WorkoutTemplate) => {
+    if (await deleteWorkoutTemplate(template.id, userId)) {
+      setTemplates(prev => prev.filter(item => item.id !== template.id));
+    }
+  };
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <h3 className="font-bold text-gray-700 mb-1 flex items-center gap-2">
+        <Bookmark size={16} className="text-brand-dark" />
+        我的範本
+      </h3>
+      <p className="text-sm text-gray-500 mb-3">直接使用已儲存的課表，略過設定與生成。</p>
+      <div className="space-y-2">
+        {templates.map(template => (
+          <div
+            key={template.id}
+            className="flex items-center gap-2 rounded-xl border-2 border-gray-200 bg-white px-3 py-2 hover:border-brand-dark/50 transition-all"
+          >
+            {editingId === template.id ? (
+              <input
+                type="text"
+                value={editingName}
+                onChange={e => setEditingName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleRename(template)}
+                onBlur={() => handleRename(template)}
+                maxLength={40}
+                autoFocus
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-dark/20 focus:border-brand-dark"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => onSelect(template)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="block font-bold text-gray-800 truncate">{template.name}</span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {getGoalLabel(template.settings.goal)} · {WORKOUT_FORMAT_LABELS[template.settings.format ?? 'straight']} ·{' '}
+                  {template.exercises.length} 個動作 · 約 {estimatePlannedMinutes(template.exercises)} 分鐘
+                </span>
+              </button>
+            )}
+            {editingId === template.id ? (
+              <button
+                type="button"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => handleRename(template)}
+                className="p-1.5 rounded-lg text-brand-dark hover:bg-gray-100 transition-colors"
+                title="儲存名稱"
+              >
+                <Check size={16} />
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => { setEditingId(template.id); setEditingName(template.name); }}
+                  className="p-1.5 rounded-lg text-gray-300 hover:text-gray-500 transition-colors"
+                  title="重新命名"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template)}
+                  className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+                  title="刪除範本"
+                >
+                  <X size={16} />
+                </button>
+                <ChevronRight size={16} className="text-gray-300" />
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
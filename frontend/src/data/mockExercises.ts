@@ -1,12 +1,14 @@
 
 import { Exercise } from '../types/db';
+import { normalizeExercise } from '../features/exercises/metadata';
 
 /**
  * 模擬運動資料庫 (Mock Data)
  * 確保在無後端連線時，App 仍能正常展示核心功能。
  * 包含多樣化的動作以測試篩選邏輯。
+ * 以舊版標籤撰寫，匯出前正規化為結構化欄位。
  */
-export const MOCK_EXERCISES: Exercise[] = [
+const RAW_EXERCISES: Exercise[] = [
   // === 徒手 / 初階 ===
   {
     id: 'sq-001',
@@ -14,7 +16,8 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '雙腳與肩同寬，臀部向後坐，保持背部挺直。大腿與地面平行後站起。',
     video_url: 'https://media.giphy.com/media/1qfKN8Dt0CRdCRzs9q/giphy.gif', // 範例 GIF
     duration_seconds: 45,
-    tags: ['goal:增肌', 'goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:肌力']
+    default_reps: 15,
+    tags: ['goal:增肌', 'goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:肌力', 'muscle:下肢']
   },
   {
     id: 'pu-001',
@@ -22,7 +25,9 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '膝蓋著地，雙手撐地寬於肩。核心收緊，胸部貼近地面後推起。',
     video_url: 'https://media.giphy.com/media/S3n6idriKnbnm/giphy.gif',
     duration_seconds: 30,
-    tags: ['goal:增肌', 'goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:肌力']
+    default_reps: 10,
+    relations: [{ type: 'regression_of', exercise_id: 'pu-002' }],
+    tags: ['goal:增肌', 'goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:肌力', 'muscle:上肢']
   },
   {
     id: 'jj-001',
@@ -30,7 +35,7 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '雙腳跳開同時雙手舉高，跳回時雙手放下。保持輕盈節奏。',
     video_url: 'https://media.giphy.com/media/l3vR8IAtvPQuDgOHu/giphy.gif',
     duration_seconds: 60,
-    tags: ['goal:減脂', 'difficulty:初階', 'equipment:徒手', 'type:有氧']
+    tags: ['goal:減脂', 'difficulty:初階', 'equipment:徒手', 'type:有氧', 'muscle:全身', 'impact:高']
   },
   {
     id: 'plank-001',
@@ -38,7 +43,7 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '前臂撐地，身體呈一直線。收緊腹部與臀部，保持呼吸。',
     video_url: 'https://media.giphy.com/media/xT8qBff8cRRFfCF2qA/giphy.gif',
     duration_seconds: 30,
-    tags: ['goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:核心']
+    tags: ['goal:塑形', 'difficulty:初階', 'equipment:徒手', 'type:核心', 'muscle:核心']
   },
 
   // === 徒手 / 中高階 ===
@@ -48,7 +53,8 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '雙腳打直，身體呈直線。胸部貼近地面，手肘向後45度。',
     video_url: 'https://media.giphy.com/media/3o6Zt5Z2W4R6v4J6da/giphy.gif',
     duration_seconds: 40,
-    tags: ['goal:增肌', 'difficulty:中階', 'difficulty:高階', 'equipment:徒手', 'type:肌力']
+    default_reps: 12,
+    tags: ['goal:增肌', 'difficulty:中階', 'difficulty:高階', 'equipment:徒手', 'type:肌力', 'muscle:上肢']
   },
   {
     id: 'burpee-001',
@@ -56,7 +62,8 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '下蹲雙手撐地 -> 跳至棒式 -> 伏地挺身 -> 收腿 -> 垂直跳躍。',
     video_url: 'https://media.giphy.com/media/23hPPMRgPxbNefAGzL/giphy.gif',
     duration_seconds: 40,
-    tags: ['goal:減脂', 'goal:增肌', 'difficulty:高階', 'equipment:徒手', 'type:高強度']
+    relations: [{ type: 'progression_of', exercise_id: 'jj-001' }],
+    tags: ['goal:減脂', 'goal:增肌', 'difficulty:高階', 'equipment:徒手', 'type:高強度', 'muscle:全身', 'impact:高']
   },
   {
     id: 'lunge-001',
@@ -64,7 +71,9 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '單腳向前跨步下蹲，雙膝呈90度。後腿膝蓋不觸地，輪流換腳。',
     video_url: 'https://media.giphy.com/media/l3q2Q3sUEk1d40nKS/giphy.gif',
     duration_seconds: 45,
-    tags: ['goal:塑形', 'goal:增肌', 'difficulty:中階', 'equipment:徒手', 'type:肌力']
+    default_reps: 10,
+    relations: [{ type: 'progression_of', exercise_id: 'sq-001' }],
+    tags: ['goal:塑形', 'goal:增肌', 'difficulty:中階', 'equipment:徒手', 'type:肌力', 'muscle:下肢']
   },
 
   // === 啞鈴 (Dumbbell) ===
@@ -74,7 +83,9 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '手持啞鈴舉至肩部，向上推舉至手臂伸直，緩慢放下。',
     video_url: 'https://media.giphy.com/media/3o7TKy3K9wZ2p66vTy/giphy.gif',
     duration_seconds: 45,
-    tags: ['goal:增肌', 'difficulty:中階', 'equipment:啞鈴', 'type:肌力']
+    default_reps: 10,
+    tempo: '2-1-2',
+    tags: ['goal:增肌', 'difficulty:中階', 'equipment:啞鈴', 'type:肌力', 'muscle:上肢']
   },
   {
     id: 'db-row-001',
@@ -82,15 +93,42 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '一手支撐，另一手持啞鈴。背部挺直，將手肘向後拉起啞鈴。',
     video_url: 'https://media.giphy.com/media/3o7TKVpC5qJ7y3q7gA/giphy.gif',
     duration_seconds: 45,
-    tags: ['goal:增肌', 'goal:塑形', 'difficulty:中階', 'equipment:啞鈴', 'type:肌力']
+    default_reps: 10,
+    tempo: '2-1-2',
+    tags: ['goal:增肌', 'goal:塑形', 'difficulty:中階', 'equipment:啞鈴', 'type:肌力', 'muscle:上肢']
   },
   {
     id: 'db-goblet-001',
     name: '高腳杯深蹲 (Goblet Squat)',
-    description: '雙手捧住一個啞鈴置於胸前，進行深蹲動作。',
+    description: '雙手捧住一個啞鈴或壺鈴置於胸前，進行深蹲動作。',
     video_url: 'https://media.giphy.com/media/3o7TKM8v9v9q5z9q0U/giphy.gif',
     duration_seconds: 45,
-    tags: ['goal:增肌', 'difficulty:中階', 'equipment:啞鈴', 'type:肌力']
+    default_reps: 12,
+    tempo: '3-0-1',
+    relations: [{ type: 'progression_of', exercise_id: 'sq-001' }, { type: 'alternative_to', exercise_id: 'lunge-001' }],
+    tags: ['goal:增肌', 'difficulty:中階', 'equipment_any:啞鈴', 'equipment_any:壺鈴', 'type:肌力', 'muscle:下肢']
+  },
+  {
+    id: 'db-bench-press-001',
+    name: '啞鈴臥推 (Dumbbell Bench Press)',
+    description: '躺在訓練椅上，雙手持啞鈴於胸口兩側，向上推起至手臂伸直後緩慢放下。',
+    video_url: 'https://media.giphy.com/media/3o7TKPATxjC1zfIwW4/giphy.gif',
+    duration_seconds: 45,
+    default_reps: 10,
+    tempo: '2-1-1',
+    relations: [{ type: 'progression_of', exercise_id: 'db-press-001' }],
+    tags: ['goal:增肌', 'difficulty:中階', 'equipment:啞鈴', 'equipment:訓練椅', 'type:肌力', 'muscle:上肢']
+  },
+
+  // === 壺鈴 (Kettlebell) ===
+  {
+    id: 'kb-swing-001',
+    name: '壺鈴擺盪 (Kettlebell Swing)',
+    description: '雙腳略寬於肩，以髖關節發力將壺鈴擺至胸口高度，手臂保持放鬆。',
+    video_url: 'https://media.giphy.com/media/3o7TKUZfJKUKuSWgZG/giphy.gif',
+    duration_seconds: 40,
+    default_reps: 15,
+    tags: ['goal:減脂', 'goal:增肌', 'difficulty:中階', 'equipment:壺鈴', 'type:高強度', 'muscle:全身']
   },
 
   // === 彈力帶 (Band) ===
@@ -100,6 +138,116 @@ export const MOCK_EXERCISES: Exercise[] = [
     description: '將彈力帶拉向臉部，手肘向外打開，感受後肩收縮。',
     video_url: 'https://media.giphy.com/media/3o7TKsQ8f9q5z9q0U/giphy.gif',
     duration_seconds: 40,
-    tags: ['goal:塑形', 'difficulty:初階', 'equipment:彈力帶', 'type:肌力']
+    default_reps: 15,
+    relations: [{ type: 'alternative_to', exercise_id: 'db-row-001' }],
+    tags: ['goal:塑形', 'difficulty:初階', 'equipment:彈力帶', 'type:肌力', 'muscle:上肢']
+  },
+
+  // === 單槓 (Pull-up Bar) ===
+  {
+    id: 'pullup-001',
+    name: '引體向上 (Pull-up)',
+    description: '正手握住單槓，肩胛下壓後將身體拉起至下巴超過單槓，再緩慢放下。',
+    video_url: 'https://media.giphy.com/media/3o7TKNKOfKlIhbD3gY/giphy.gif',
+    duration_seconds: 40,
+    default_reps: 6,
+    tempo: '2-0-1',
+    relations: [{ type: 'alternative_to', exercise_id: 'db-row-001' }],
+    tags: ['goal:增肌', 'difficulty:高階', 'equipment:單槓', 'type:肌力', 'muscle:上肢']
+  },
+  {
+    id: 'hang-knee-001',
+    name: '懸吊抬膝 (Hanging Knee Raise)',
+    description: '雙手握住單槓懸吊，收緊腹部將膝蓋抬至胸前，避免身體擺盪。',
+    video_url: 'https://media.giphy.com/media/3o7TKDkDbIDJieKbVm/giphy.gif',
+    duration_seconds: 30,
+    default_reps: 10,
+    tags: ['goal:塑形', 'difficulty:中階', 'equipment:單槓', 'type:核心', 'muscle:核心']
+  },
+
+  // === 訓練椅 (Bench) ===
+  {
+    id: 'bench-dip-001',
+    name: '椅上撐體 (Bench Dip)',
+    description: '雙手撐在訓練椅邊緣，彎曲手肘讓身體下沉，再以手臂後側發力推起。',
+    video_url: 'https://media.giphy.com/media/3o7TKTDn976rzVgky4/giphy.gif',
+    duration_seconds: 40,
+    default_reps: 12,
+    tags: ['goal:增肌', 'goal:塑形', 'difficulty:初階', 'equipment:訓練椅', 'type:肌力', 'muscle:上肢']
+  },
+
+  // === 跳繩 (Jump Rope) ===
+  {
+    id: 'rope-001',
+    name: '跳繩 (Jump Rope)',
+    description: '以手腕帶動跳繩，前腳掌輕輕落地，保持固定節奏。',
+    video_url: 'https://media.giphy.com/media/3o7TKwmnDgQb5jemjK/giphy.gif',
+    duration_seconds: 60,
+    tags: ['goal:減脂', 'difficulty:初階', 'equipment:跳繩', 'type:有氧', 'muscle:全身', 'impact:高']
+  },
+
+  // === 瑜珈墊 (Mat) ===
+  {
+    id: 'deadbug-001',
+    name: '死蟲式 (Dead Bug)',
+    description: '仰躺於墊上，下背貼地，對側手腳交替伸直，全程保持腹部收緊。',
+    video_url: 'https://media.giphy.com/media/3o7TKSjRrfIPjeiVyM/giphy.gif',
+    duration_seconds: 40,
+    relations: [{ type: 'regression_of', exercise_id: 'plank-001' }],
+    tags: ['goal:塑形', 'difficulty:初階', 'equipment:瑜珈墊', 'type:核心', 'muscle:核心']
+  },
+
+  // === 暖身 / 活動度 (Warm-up) ===
+  {
+    id: 'warmup-arm-001',
+    name: '手臂繞環 (Arm Circles)',
+    description: '雙臂側平舉，由小至大向前繞圈，再反向繞圈。保持肩膀放鬆。',
+    video_url: '',
+    duration_seconds: 30,
+    tags: ['goal:柔軟度', 'difficulty:初階', 'equipment:徒手', 'type:暖身', 'intensity:低', 'muscle:上肢']
+  },
+  {
+    id: 'warmup-march-001',
+    name: '原地踏步 (March in Place)',
+    description: '原地抬膝踏步，雙手自然擺動，逐步提高心率。',
+    video_url: '',
+    duration_seconds: 45,
+    tags: ['goal:減脂', 'difficulty:初階', 'equipment:徒手', 'type:暖身', 'intensity:低', 'muscle:下肢']
+  },
+  {
+    id: 'mobility-hip-001',
+    name: '髖關節繞環 (Hip Circles)',
+    description: '雙手叉腰，雙腳與肩同寬，骨盆緩慢畫大圓，順逆時針各半。',
+    video_url: '',
+    duration_seconds: 30,
+    tags: ['goal:柔軟度', 'difficulty:初階', 'equipment:徒手', 'type:活動度', 'intensity:低', 'muscle:下肢']
+  },
+
+  // === 伸展 (Cool-down) ===
+  {
+    id: 'stretch-quad-001',
+    name: '站姿股四頭肌伸展 (Standing Quad Stretch)',
+    description: '單腳站立，手抓同側腳踝拉向臀部，膝蓋朝下。左右各半。',
+    video_url: '',
+    duration_seconds: 40,
+    tags: ['goal:柔軟度', 'difficulty:初階', 'equipment:徒手', 'type:伸展', 'intensity:低', 'muscle:下肢']
+  },
+  {
+    id: 'stretch-hamstring-001',
+    name: '坐姿腿後伸展 (Seated Hamstring Stretch)',
+    description: '坐姿雙腿伸直，背部挺直由髖部前傾，感受大腿後側伸展。',
+    video_url: '',
+    duration_seconds: 40,
+    tags: ['goal:柔軟度', 'difficulty:初階', 'equipment:徒手', 'type:伸展', 'intensity:低', 'muscle:下肢']
+  },
+  {
+    id: 'stretch-child-001',
+    name: '嬰兒式 (Child\'s Pose)',
+    description: '跪姿臀部坐向腳跟，上身前趴、雙手向前延伸，緩慢深呼吸。',
+    video_url: '',
+    duration_seconds: 45,
+    tags: ['goal:柔軟度', 'difficulty:初階', 'equipment:徒手', 'type:伸展', 'intensity:低', 'muscle:全身']
   }
 ];
+
+export const MOCK_EXERCISES: Exercise[] = RAW_EXERCISES.map(normalizeExercise);
@@ -0,0 +1,320 @@
+import {
+  Difficulty,
+  EquipmentId,
+  Exercise,
+  ExerciseGoal,
+  ExerciseType,
+  IntensityLevel,
+  MuscleGroup,
+} from '../../types/db';
+
+/**
+ * 動作結構化資料 (Exercise Metadata)
+ *
+ * 集中管理器材、難度、目標、類型、肌群與強度的 ID 與中文名稱；
+ * 舊版 `key:value` 標籤 (例如 `equipment:啞鈴`) 也以這裡的名稱解析，
+ * 新增器材或類型只需修改此檔案
+ */
+
+/**
+ * 器材名稱 (Equipment Labels)，同時是 `equipment:` 標籤的值
+ */
+export const EQUIPMENT_LABELS: Record<EquipmentId, string> = {
+  bodyweight: '徒手',
+  dumbbell: '啞鈴',
+  band: '彈力帶',
+  kettlebell: '壺鈴',
+  pullup_bar: '單槓',
+  bench: '訓練椅',
+  jump_rope: '跳繩',
+  mat: '瑜珈墊',
+};
+
+/**
+ * 設定畫面的器材選項 (Equipment Options)
+ */
+export const EQUIPMENT_OPTIONS: { id: EquipmentId; label: string; desc: string }[] = [
+  { id: 'bodyweight', label: '徒手 (無器材)', desc: '隨時隨地' },
+  { id: 'dumbbell', label: EQUIPMENT_LABELS.dumbbell, desc: '加強負重' },
+  { id: 'band', label: EQUIPMENT_LABELS.band, desc: '阻力訓練' },
+  { id: 'kettlebell', label: EQUIPMENT_LABELS.kettlebell, desc: '爆發力' },
+  { id: 'pullup_bar', label: EQUIPMENT_LABELS.pullup_bar, desc: '引體與懸吊' },
+  { id: 'bench', label: EQUIPMENT_LABELS.bench, desc: '臥推與撐體' },
+  { id: 'jump_rope', label: EQUIPMENT_LABELS.jump_rope, desc: '心肺耐力' },
+  { id: 'mat', label: EQUIPMENT_LABELS.mat, desc: '地板與核心' },
+];
+
+/**
+ * 難度名稱 (Difficulty Labels)
+ */
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  beginner: '初階',
+  intermediate: '中階',
+  advanced: '高階',
+};
+
+/**
+ * 難度由易到難的順序
+ */
+export const DIFFICULTY_ORDER: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * 訓練目標名稱 (Goal Labels)
+ */
+export const GOAL_LABELS: Record<ExerciseGoal, string> = {
+  'muscle': '增肌',
+  'fat-loss': '減脂',
+  'tone': '塑形',
+  'flexibility': '柔軟度',
+};
+
+/**
+ * 資料庫 training_goals 欄位的舊版目標 ID
+ */
+const GOAL_ALIASES: Record<string, ExerciseGoal> = {
+  muscle_gain: 'muscle',
+  fat_loss: 'fat-loss',
+};
+
+/**
+ * 運動類型名稱 (Exercise Type Labels)
+ */
+export const EXERCISE_TYPE_LABELS: Record<ExerciseType, string> = {
+  strength: '肌力',
+  cardio: '有氧',
+  hiit: '高強度',
+  core: '核心',
+  warmup: '暖身',
+  mobility: '活動度',
+  stretch: '伸展',
+};
+
+/**
+ * 肌群名稱 (Muscle Group Labels)
+ */
+export const MUSCLE_GROUP_LABELS: Record<MuscleGroup, string> = {
+  upper: '上肢',
+  lower: '下肢',
+  core: '核心',
+  full_body: '全身',
+};
+
+/**
+ * 強度 / 衝擊等級名稱
+ */
+export const INTENSITY_LABELS: Record<IntensityLevel, string> = {
+  low: '低',
+  high: '高',
+};
+
+/**
+ * 正規化後的動作資料 (Resolved Exercise Metadata)
+ */
+export interface ExerciseMetadata {
+  /** 全部需具備的器材 */
+  equipment: EquipmentId[];
+  /** 具備其中一種即可的器材 (空陣列表示沒有此條件) */
+  equipment_any: EquipmentId[];
+  difficulty: Difficulty | null;
+  goals: ExerciseGoal[];
+  exercise_type: ExerciseType | null;
+  muscle_groups: MuscleGroup[];
+  impact: IntensityLevel | null;
+  intensity: IntensityLevel | null;
+}
+
+const isId = <T extends string>(labels: Record<T, string>, value: unknown): value is T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value);
+
+const idsOf = <T extends string>(labels: Record<T, string>, values: unknown): T[] =>
+  Array.isArray(values) ? [...new Set(values.filter((value): value is T => isId(labels, value)))] : [];
+
+/**
+ * 取得器材名稱 (Get Equipment Label)
+ * 未知的器材 ID 原樣回傳
+ */
+export const getEquipmentLabel = (id: string): string =>
+  isId(EQUIPMENT_LABELS, id) ? EQUIPMENT_LABELS[id] : id;
+
+/**
+ * 取得訓練目標名稱 (Get Goal Label)
+ * 未知的目標 ID 原樣回傳
+ */
+export const getGoalLabel = (id: string): string => {
+  const goal = GOAL_ALIASES[id] ?? id;
+  return isId(GOAL_LABELS, goal) ? GOAL_LABELS[goal] : id;
+};
+
+/**
+ * 將標籤值 (中文名稱) 轉回 ID
+ */
+const fromLabels = <T extends string>(labels: Record<T, string>, values: string[]): T[] => {
+  const ids = (Object.keys(labels) as T[]);
+  return [...new Set(values.map(value => ids.find(id => labels[id] === value)).filter((id): id is T => id !== undefined))];
+};
+
+/**
+ * 取得指定前綴的所有標籤值 (例如 `muscle:下肢` → '下肢')
+ */
+const tagValues = (tags: string[], prefix: string): string[] =>
+  tags.filter(tag => tag.startsWith(prefix + ':')).map(tag => tag.slice(prefix.length + 1));
+
+/**
+ * 解析舊版標籤 (Parse Legacy Tags)
+ *
+ * @param {string[] | undefined | null} tags - 例如 ['equipment:啞鈴', 'difficulty:初階']
+ * @returns {ExerciseMetadata} 無法辨識的標籤會被忽略；難度、類型等單值欄位取第一個
+ *
+ * @example
+ * parseLegacyTags(['equipment:啞鈴', 'muscle:下肢']).equipment // ['dumbbell']
+ */
+export const parseLegacyTags = (tags: string[] | undefined | null): ExerciseMetadata => {
+  const safeTags = Array.isArray(tags) ? tags : [];
+  const first = <T extends string>(labels: Record<T, string>, prefix: string): T | null =>
+    fromLabels(labels, tagValues(safeTags, prefix).slice(0, 1))[0] ?? null;
+
+  return {
+    equipment: fromLabels(EQUIPMENT_LABELS, tagValues(safeTags, 'equipment')),
+    equipment_any: fromLabels(EQUIPMENT_LABELS, tagValues(safeTags, 'equipment_any')),
+    difficulty: first(DIFFICULTY_LABELS, 'difficulty'),
+    goals: fromLabels(GOAL_LABELS, tagValues(safeTags, 'goal')),
+    exercise_type: first(EXERCISE_TYPE_LABELS, 'type'),
+    muscle_groups: fromLabels(MUSCLE_GROUP_LABELS, tagValues(safeTags, 'muscle')),
+    impact: first(INTENSITY_LABELS, 'impact'),
+    intensity: first(INTENSITY_LABELS, 'intensity'),
+  };
+};
+
+/**
+ * 取得動作的結構化資料 (Get Exercise Metadata)
+ *
+ * 逐欄位優先使用結構化欄位，缺少時從舊版標籤解析；
+ * 完全未標記器材 (包含替代器材) 的動作視為徒手
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @returns {ExerciseMetadata}
+ */
+export const getExerciseMetadata = (exercise: Exercise): ExerciseMetadata => {
+  const parsed = parseLegacyTags(exercise.tags);
+  const equipment = exercise.equipment?.length ? exercise.equipment : parsed.equipment;
+  const equipmentAny = exercise.equipment_any?.length ? exercise.equipment_any : parsed.equipment_any;
+
+  return {
+    equipment: equipment.length > 0 || equipmentAny.length > 0 ? equipment : ['bodyweight'],
+    equipment_any: equipmentAny,
+    difficulty: exercise.difficulty ?? parsed.difficulty,
+    goals: exercise.goals?.length ? exercise.goals : parsed.goals,
+    exercise_type: exercise.exercise_type ?? parsed.exercise_type,
+    muscle_groups: exercise.muscle_groups?.length ? exercise.muscle_groups : parsed.muscle_groups,
+    impact: exercise.impact ?? parsed.impact,
+    intensity: exercise.intensity ?? parsed.intensity,
+  };
+};
+
+/**
+ * 結構化資料轉為舊版標籤 (To Legacy Tags)
+ * 讓以標籤比對的功能 (排除條件、AI 提示詞) 也適用只有結構化欄位的動作
+ */
+export const toLegacyTags = (metadata: ExerciseMetadata): string[] => [
+  ...metadata.goals.map(goal => `goal:${GOAL_LABELS[goal]}`),
+  ...(metadata.difficulty ? [`difficulty:${DIFFICULTY_LABELS[metadata.difficulty]}`] : []),
+  ...metadata.equipment.map(id => `equipment:${EQUIPMENT_LABELS[id]}`),
+  ...metadata.equipment_any.map(id => `equipment_any:${EQUIPMENT_LABELS[id]}`),
+  ...(metadata.exercise_type ? [`type:${EXERCISE_TYPE_LABELS[metadata.exercise_type]}`] : []),
+  ...(metadata.intensity ? [`intensity:${INTENSITY_LABELS[metadata.intensity]}`] : []),
+  ...metadata.muscle_groups.map(group => `muscle:${MUSCLE_GROUP_LABELS[group]}`),
+  ...(metadata.impact ? [`impact:${INTENSITY_LABELS[metadata.impact]}`] : []),
+];
+
+/**
+ * 從資料列挑出有效的結構化欄位 (Pick Structured Fields)
+ *
+ * 無效的值會被忽略 (改由標籤解析)；目標同時接受 training_goals 欄位的舊版 ID
+ *
+ * @param {Record<string, unknown>} row - 資料庫原始資料
+ * @returns {Partial<Exercise>}
+ */
+export const pickStructuredFields = (row: Record<string, unknown>): Partial<Exercise> => {
+  const rawGoals = Array.isArray(row.goals) ? row.goals : Array.isArray(row.training_goals) ? row.training_goals : [];
+  const goals = idsOf(GOAL_LABELS, rawGoals.map(goal => (typeof goal === 'string' ? GOAL_ALIASES[goal] ?? goal : goal)));
+
+  return {
+    equipment: idsOf(EQUIPMENT_LABELS, row.equipment),
+    equipment_any: idsOf(EQUIPMENT_LABELS, row.equipment_any),
+    difficulty: isId(DIFFICULTY_LABELS, row.difficulty) ? row.difficulty : undefined,
+    goals,
+    exercise_type: isId(EXERCISE_TYPE_LABELS, row.exercise_type) ? row.exercise_type : undefined,
+    muscle_groups: idsOf(MUSCLE_GROUP_LABELS, row.muscle_groups),
+    impact: isId(INTENSITY_LABELS, row.impact) ? row.impact : undefined,
+    intensity: isId(INTENSITY_LABELS, row.intensity) ? row.intensity : undefined,
+  };
+};
+
+/**
+ * 正規化動作資料 (Normalize Exercise)
+ *
+ * 補齊所有結構化欄位，並將結構化欄位同步回 tags
+ *
+ * @param {Exercise} exercise - 運動項目 (可只有 tags 或只有結構化欄位)
+ * @returns {Exercise}
+ *
+ * @example
+ * normalizeExercise({ ..., tags: ['equipment:啞鈴'] }).equipment // ['dumbbell']
+ */
+export const normalizeExercise = (exercise: Exercise): Exercise => {
+  const metadata = getExerciseMetadata(exercise);
+  const tags = Array.isArray(exercise.tags) ? exercise.tags : [];
+
+  return {
+    ...exercise,
+    equipment: metadata.equipment,
+    equipment_any: metadata.equipment_any,
+    difficulty: metadata.difficulty ?? undefined,
+    goals: metadata.goals,
+    exercise_type: metadata.exercise_type ?? undefined,
+    muscle_groups: metadata.muscle_groups,
+    impact: metadata.impact ?? undefined,
+    intensity: metadata.intensity ?? undefined,
+    tags: [...new Set([...tags, ...toLegacyTags(metadata)])],
+  };
+};
+
+/**
+ * 器材是否可用 (Is Equipment Available)
+ *
+ * 規則：
+ * - 全部需具備 (equipment)：使用者的器材清單必須包含每一項
+ * - 擇一即可 (equipment_any)：有設定時至少需具備其中一項
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @param {string[]} equipment - 使用者的器材 ID (例如 ['bodyweight', 'dumbbell'])
+ * @returns {boolean}
+ *
+ * @example
+ * // 高腳杯深蹲：equipment_any = ['dumbbell', 'kettlebell']
+ * isEquipmentAvailable(gobletSquat, ['bodyweight', 'kettlebell']) // returns true
+ */
+export const isEquipmentAvailable = (exercise: Exercise, equipment: string[]): boolean => {
+  const metadata = getExerciseMetadata(exercise);
+  return (
+    metadata.equipment.every(id => equipment.includes(id)) &&
+    (metadata.equipment_any.length === 0 || metadata.equipment_any.some(id => equipment.includes(id)))
+  );
+};
+
+/**
+ * 難度是否符合 (Is Difficulty Allowed)
+ *
+ * - 初階：僅初階動作
+ * - 中階：初階與中階 (未標記難度的動作也可)
+ * - 高階：所有難度
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @param {Difficulty} difficulty - 使用者選擇的難度
+ * @returns {boolean}
+ */
+export const isDifficultyAllowed = (exercise: Exercise, difficulty: Difficulty): boolean => {
+  const level = getExerciseMetadata(exercise).difficulty;
+  if (level === null) return difficulty !== 'beginner';
+  return DIFFICULTY_ORDER.indexOf(level) <= DIFFICULTY_ORDER.indexOf(difficulty);
+};
@@ -1,51 +1,165 @@
 
-import { Exercise } from '../../types/db';
-import { UserPreferences, PlanItem } from '../../types/app';
+import { Exercise, ExerciseType, MuscleGroup } from '../../types/db';
+import { UserPreferences, GeneratedPlan } from '../../types/app';
+import { ProgressionProfile } from '../../types/feedback';
 import { getAllExercises } from '../../services/exerciseService';
+import { buildPhaseBlock, getPhaseBudget, isPhaseOnlyExercise } from './phases';
+import { getMuscleBalanceTargets, getMuscleGroup } from './muscleGroups';
+import { DEFAULT_TOLERANCE_SECONDS, sumDuration, toGeneratedPlan } from './fitting';
+import { buildFormatBlock } from './formats';
+import { getRepPrescriber } from './reps';
+import { applyProgression, filterAdjustmentsByPlan } from './progression';
+import { filterExcluded } from './exclusions';
+import { getExerciseMetadata, isDifficultyAllowed, isEquipmentAvailable } from '../exercises/metadata';
+import { createRandom, generateSeed, shuffle } from './random';
 
 /**
- * Fisher-Yates 洗牌演算法 (Fisher-Yates Shuffle Algorithm)
- * 
- * 用於隨機化陣列順序，確保每個元素出現在任何位置的機率相等
- * 
- * 演算法說明 (Algorithm Explanation):
- * 從陣列末端開始，逐一與隨機位置的元素交換
- * 時間複雜度 (Time Complexity): O(n)
- * 空間複雜度 (Space Complexity): O(n) (創建副本)
- * 
- * @template T - 陣列元素型別 (Array element type)
- * @param {T[]} array - 待洗牌的陣列 (Array to shuffle)
- * @returns {T[]} 洗牌後的新陣列 (Shuffled array)
+ * 訓練目標偏好的運動類型 (Goal → Preferred Exercise Types)
+ * 例如減脂偏好有氧與高強度，增肌偏好肌力
  */
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array];
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
+const GOAL_PREFERRED_TYPES: Record<string, ExerciseType[]> = {
+  'muscle': ['strength'],
+  'fat-loss': ['cardio', 'hiit'],
+  'tone': ['core', 'strength'],
+  'flexibility': ['stretch'],
+};
+
+/**
+ * 目標評分設定 (Goal Scoring Options)
+ */
+export interface GoalScoringOptions {
+  /** 動作目標 (goals) 符合時的加權分數 */
+  goalTagWeight: number;
+
+  /** 運動類型 (exercise_type) 符合目標偏好類型時的加權分數 */
+  typeTagWeight: number;
+
+  /** 每份課表中符合目標的動作最低佔比 (0 ~ 1) */
+  minGoalMatchRatio: number;
 }
 
 /**
- * 解析標籤值 (Parse Tag Value)
- * 
- * 從標籤陣列中提取特定前綴的值
- * 例如從 "difficulty:初階" 解析出 "初階"
- * 
- * 增加防呆機制，避免 undefined 導致崩潰
- * 
- * @param {string[] | undefined | null} tags - 標籤陣列 (Tags array)
- * @param {string} prefix - 標籤前綴 (Tag prefix), 例如 "difficulty", "equipment"
- * @returns {string | null} 解析後的值，若無匹配則回傳 null (Parsed value or null)
- * 
+ * 預設目標評分設定
+ */
+export const DEFAULT_GOAL_SCORING: GoalScoringOptions = {
+  goalTagWeight: 2,
+  typeTagWeight: 1,
+  minGoalMatchRatio: 0.6,
+};
+
+/**
+ * 課表生成選項 (Workout Generation Options)
+ */
+export interface GenerateWorkoutOptions {
+  /** 目標評分設定，未提供的欄位使用預設值 */
+  goalScoring?: Partial<GoalScoringOptions>;
+
+  /** 總時長允許誤差 (秒)，預設 DEFAULT_TOLERANCE_SECONDS */
+  toleranceSeconds?: number;
+
+  /** 亂數種子，傳入先前回傳的 seed 可重現完全相同的課表；未提供時自動產生 */
+  seed?: number;
+
+  /** 使用者進程資料 (見 progressionService)，依過往回饋調整動作 */
+  progression?: ProgressionProfile;
+}
+
+/**
+ * 計算動作與訓練目標的契合分數 (Score Exercise Against Goal)
+ *
+ * 分數 = (goals 包含目標 ? goalTagWeight : 0) + (exercise_type 為偏好類型 ? typeTagWeight : 0)
+ * 分數大於 0 即視為「符合目標」的動作
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @param {string} goal - 訓練目標 ID (例如 'fat-loss')
+ * @param {GoalScoringOptions} scoring - 評分設定
+ * @returns {number} 契合分數
+ *
  * @example
- * getTagValue(['difficulty:初階', 'goal:增肌'], 'difficulty') // returns '初階'
- * getTagValue(['equipment:啞鈴'], 'goal') // returns null
+ * scoreExerciseForGoal(jumpingJacks, 'fat-loss', DEFAULT_GOAL_SCORING) // returns 3
  */
-const getTagValue = (tags: string[] | undefined | null, prefix: string): string | null => {
-  if (!tags || !Array.isArray(tags)) return null;
-  const tag = tags.find(t => t.startsWith(prefix + ':'));
-  return tag ? tag.split(':')[1] : null;
+export const scoreExerciseForGoal = (
+  exercise: Exercise,
+  goal: string,
+  scoring: GoalScoringOptions = DEFAULT_GOAL_SCORING
+): number => {
+  const { goals, exercise_type } = getExerciseMetadata(exercise);
+  const preferredTypes = GOAL_PREFERRED_TYPES[goal] ?? [];
+
+  let score = 0;
+  if ((goals as string[]).includes(goal)) score += scoring.goalTagWeight;
+  if (exercise_type && preferredTypes.includes(exercise_type)) score += scoring.typeTagWeight;
+  return score;
+};
+
+/**
+ * 建立符合目標佔比與肌群平衡的動作挑選器 (Create Goal- & Muscle-Aware Exercise Picker)
+ *
+ * 每次挑選依序套用下列規則：
+ * 1. 排除與上一個動作相同肌群的候選 (若全部同肌群則不排除)
+ * 2. 若符合目標的佔比將低於 minGoalMatchRatio，只從符合目標的動作中挑選
+ * 3. 選擇目前訓練量 (秒數) 最低於目標佔比的肌群 (見 getMuscleBalanceTargets)
+ * 4. 取使用次數最少者，同次數時依分數排序 (同分維持洗牌後的隨機順序)
+ * 未標記肌群的動作不參與平衡計算，也不會與其他動作衝突
+ *
+ * @param {Exercise[]} exercises - 已洗牌的候選動作
+ * @param {string} goal - 訓練目標 ID
+ * @param {GoalScoringOptions} scoring - 評分設定
+ * @returns {() => Exercise} 每次呼叫回傳下一個動作
+ */
+const createGoalAwarePicker = (
+  exercises: Exercise[],
+  goal: string,
+  scoring: GoalScoringOptions
+): (() => Exercise) => {
+  // Array.prototype.sort 為穩定排序，同分者保留洗牌順序
+  const ranked = exercises
+    .map(ex => ({ ex, score: scoreExerciseForGoal(ex, goal, scoring), group: getMuscleGroup(ex), uses: 0 }))
+    .sort((a, b) => b.score - a.score);
+  const targets = getMuscleBalanceTargets(
+    goal,
+    ranked.map(item => item.group).filter((group): group is MuscleGroup => group !== null)
+  );
+
+  const groupSeconds: Record<string, number> = {};
+  let taggedSeconds = 0;
+  let previousGroup: MuscleGroup | null = null;
+  let pickedCount = 0;
+  let matchedCount = 0;
+
+  return () => {
+    // 1. 避免連續相同肌群
+    let candidates = ranked.filter(item => item.group === null || item.group !== previousGroup);
+    if (candidates.length === 0) candidates = ranked;
+
+    // 2. 目標佔比不足時只挑符合目標的動作
+    const needsMatch = matchedCount / (pickedCount + 1) < scoring.minGoalMatchRatio;
+    const matching = candidates.filter(item => item.score > 0);
+    if (needsMatch && matching.length > 0) candidates = matching;
+
+    // 3. 挑選訓練量最不足的肌群 (保留未標記肌群的動作)
+    const deficit = (group: string) =>
+      targets[group] - (taggedSeconds > 0 ? (groupSeconds[group] ?? 0) / taggedSeconds : 0);
+    const groups = [...new Set(candidates.map(item => item.group))]
+      .filter((group): group is MuscleGroup => group !== null);
+    if (groups.length > 0) {
+      const targetGroup = groups.reduce((best, group) => (deficit(group) > deficit(best) ? group : best));
+      candidates = candidates.filter(item => item.group === null || item.group === targetGroup);
+    }
+
+    // 4. 使用次數最少者優先 (循環取用)
+    const picked = candidates.reduce((best, item) => (item.uses < best.uses ? item : best));
+
+    picked.uses++;
+    pickedCount++;
+    if (picked.score > 0) matchedCount++;
+    if (picked.group !== null) {
+      groupSeconds[picked.group] = (groupSeconds[picked.group] ?? 0) + picked.ex.duration_seconds;
+      taggedSeconds += picked.ex.duration_seconds;
+    }
+    previousGroup = picked.group;
+    return picked.ex;
+  };
 };
 
 /**
@@ -53,23 +167,64 @@ const getTagValue = (tags: string[] | undefined | null, prefix: string): string
  * 
  * 核心演算法 (Core Algorithm):
  * 1. 從 Supabase 獲取所有運動資料 (Fetch all exercises from Supabase)
- * 2. 根據使用者的器材、難度、目標進行篩選 (Filter by equipment, difficulty, goal)
- * 3. 隨機洗牌篩選後的運動 (Shuffle filtered exercises)
- * 4. 組裝訓練課表，插入休息時間 (Assemble workout plan with rest periods)
+ * 2. 根據使用者的器材、難度進行篩選 (Filter by equipment, difficulty)
+ * 3. 以種子亂數洗牌後依目標契合分數排序 (Seeded shuffle, then rank by goal score)
+ * 4. 組裝訓練課表，確保符合目標的動作佔比與肌群平衡，並插入休息時間 (Assemble workout plan with rest periods)
+ * 5. 在上下限內調整動作與休息時長，使總時長落在目標誤差內 (Fit durations to the target)
+ * 6. 前後加上暖身與緩和伸展區塊 (Prepend warm-up, append cool-down)
  * 
  * 篩選規則 (Filtering Rules):
+ * - 排除條件 (Exclusions): prefs.exclusions 中的動作 ID 或帶有排除標籤的動作一律不使用 (含暖身、緩和與 Fallback)
  * - 器材 (Equipment): 使用者的器材清單必須包含該運動所需器材
  * - 難度 (Difficulty): 
  *   - 初階 (Beginner): 僅顯示初階運動
  *   - 中階 (Intermediate): 顯示初階與中階運動
  *   - 高階 (Advanced): 顯示所有難度的運動
- * - 目標 (Goal): 當前為軟性條件，不強制篩選
+ * - 目標 (Goal): 加權評分條件，不直接排除動作
+ *   - 動作目標符合加 goalTagWeight 分，運動類型為偏好類型加 typeTagWeight 分
+ *   - 符合目標的動作佔比至少為 minGoalMatchRatio (若有符合的動作)
+ * - 肌群 (Muscle Group): 依 muscle_groups 排序
+ *   - 主訓練不會連續安排相同肌群 (候選動作皆為同一肌群時除外)
+ *   - 各肌群訓練量依目標權重分配 (例如增肌以上肢/下肢為主，減脂以全身為主)
+ * 
+ * 訓練階段 (Phases):
+ * - 暖身與緩和各佔總時長約 10% (見 getPhaseBudget)，從活動度/伸展/低強度動作中挑選
+ * - 暖身/伸展類動作僅用於前後階段，不排入主訓練
+ * - 每個項目皆標記 phase (warmup / main / cooldown)
+ * 
+ * 時長調整 (Duration Fitting):
+ * - 不再超過目標才停止，而是比較「拉長現有動作」與「多加一個並縮短」何者較接近目標
+ * - 優先調整動作時長 (見 getDurationBounds)，不足時才調整休息長度 (15 ~ 45 秒)
+ * - 回傳值包含目標時長、實際總時長與允許誤差
+ * 
+ * 訓練形式 (Formats, 見 buildFormatBlock):
+ * - straight: 動作 → 30 秒休息 → 下一個動作
+ * - circuit: 一輪動作重複 prefs.rounds 回合 (預設 3)，回合間休息
+ * - tabata: 20 秒運動 / 10 秒休息 × 8 回合，兩動作交替
+ * - emom: 每分鐘一個動作，剩餘時間休息
+ * - amrap: 固定一輪動作不休息循環至時間結束
+ * - 回合制形式的項目帶有 round / totalRounds，供播放器顯示回合數
+ * 
+ * 次數制 (Sets × Reps, 見 getRepPrescriber):
+ * - 增肌目標且為一般組數時，有建議次數 (default_reps) 的動作改以「組數 × 次數」安排
+ * - 組數依難度決定，項目時長為預估值 (不參與時長調整)
+ * 
+ * 回饋進程 (Progression, 見 applyProgression):
+ * - 持續回報太簡單的動作換成較難的同類動作 (找不到時延長時間 / 增加次數)
+ * - 持續回報太難的動作換成較簡單的同類動作 (找不到時縮短時間 / 減少次數)
+ * - 回傳值的 adjustments 說明實際排入課表的調整
+ * 
+ * 可重現性 (Reproducibility):
+ * - 所有隨機行為使用 options.seed 建立的亂數產生器 (見 createRandom)
+ * - 回傳值包含 seed，以相同偏好與 seed 再次呼叫會得到完全相同的課表
+ * - 依回饋調整過候選動作時 reproducible 為 false (調整取決於當時的回饋紀錄)
  * 
  * Fallback 機制 (Fallback Mechanism):
  * 若篩選後無符合的運動，使用所有徒手運動作為備案
  * 
  * @param {UserPreferences} prefs - 使用者偏好設定 (User preferences)
- * @returns {Promise<PlanItem[]>} 訓練計畫陣列 (Workout plan items)
+ * @param {GenerateWorkoutOptions} [options] - 生成選項 (Generation options)
+ * @returns {Promise<GeneratedPlan>} 訓練計畫與時長資訊 (Workout plan with duration info)
  * 
  * @example
  * const plan = await generateWorkoutPlan({
@@ -79,98 +234,79 @@ const getTagValue = (tags: string[] | undefined | null, prefix: string): string
  *   difficulty: 'intermediate'
  * });
  */
-export const generateWorkoutPlan = async (prefs: UserPreferences): Promise<PlanItem[]> => {
-  // 1. 獲取所有動作 (Service 層已做過清洗，確保 tags 為陣列)
-  const allExercises = await getAllExercises();
+export const generateWorkoutPlan = async (
+  prefs: UserPreferences,
+  options: GenerateWorkoutOptions = {}
+): Promise<GeneratedPlan> => {
+  const scoring: GoalScoringOptions = { ...DEFAULT_GOAL_SCORING, ...options.goalScoring };
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const targetSeconds = prefs.durationMinutes * 60;
+  const seed = options.seed ?? generateSeed();
+  const random = createRandom(seed);
+
+  // 1. 獲取所有動作 (Service 層已正規化結構化欄位，見 normalizeExercise)，先移除使用者排除的動作
+  const allExercises = filterExcluded(await getAllExercises(), prefs.exclusions);
 
   // 2. 過濾動作 (Filter)
-  const filtered = allExercises.filter(ex => {
-    // 雙重保險：確保 tags 存在
-    const safeTags = Array.isArray(ex.tags) ? ex.tags : [];
-
-    // A. 器材檢查 (Equipment)
-    // 規則：使用者的器材清單必須包含該動作所需的器材
-    const eqTag = getTagValue(safeTags, 'equipment'); // e.g., "啞鈴"
-
-    // 將中文標籤轉換為內部 ID (簡單映射)
-    let eqId = 'bodyweight'; // default
-    if (eqTag === '啞鈴') eqId = 'dumbbell';
-    else if (eqTag === '彈力帶') eqId = 'band';
-    else if (eqTag === '壺鈴') eqId = 'kettlebell';
-    else if (eqTag === '徒手') eqId = 'bodyweight';
-
-    if (!prefs.equipment.includes(eqId)) return false;
-
-    // B. 難度檢查 (Difficulty)
-    const diffTag = getTagValue(safeTags, 'difficulty'); // e.g., "初階"
-
-    if (prefs.difficulty === 'beginner') {
-      if (diffTag !== '初階') return false;
-    } else if (prefs.difficulty === 'intermediate') {
-      if (diffTag === '高階') return false;
-    }
-    // Advanced 接受所有難度，不做過濾
+  // A. 器材檢查 (Equipment)
+  const equipmentMatched = allExercises.filter(ex => isEquipmentAvailable(ex, prefs.equipment));
 
-    // C. 目標檢查 (Goal) - 目前僅用來過濾器材與難度，目標作為軟性篩選條件(暫不強制)
-    // 未來可考慮加入目標篩選: safeTags.some(t => t === `goal:${goalMap[prefs.goal]}`)
-
-    return true;
-  });
+  // B. 難度檢查 (Difficulty)，目標 (Goal) 不在此排除，而是於組裝階段作為加權評分
+  const filtered = equipmentMatched.filter(ex => isDifficultyAllowed(ex, prefs.difficulty));
 
   // 若過濾後無動作，回傳空陣列或預設動作 (避免 Crash)
   if (filtered.length === 0) {
     console.warn('沒有符合條件的動作，使用所有徒手動作作為備案');
-    // 從原始資料中撈出徒手動作，同樣確保 tags 安全
-    return allExercises
-      .filter(ex => (Array.isArray(ex.tags) ? ex.tags : []).includes('equipment:徒手'))
+    // 從原始資料中撈出徒手動作
+    const fallbackItems = allExercises
+      .filter(ex => isEquipmentAvailable(ex, ['bodyweight']))
       .slice(0, 5)
       .map(ex => ({
-        type: 'exercise',
+        type: 'exercise' as const,
         duration: ex.duration_seconds,
         exercise: ex,
         title: ex.name
       }));
+    return toGeneratedPlan(fallbackItems, targetSeconds, seed, toleranceSeconds, [], true);
   }
 
-  // 3. 洗牌 (Shuffle)
-  const shuffled = shuffle(filtered);
-
-  // 4. 組裝課表 (Assemble)
-  const plan: PlanItem[] = [];
-  let currentDuration = 0;
-  const targetDurationSeconds = prefs.durationMinutes * 60;
-  const REST_DURATION = 30; // 固定 30 秒休息
-
-  let index = 0;
-  while (currentDuration < targetDurationSeconds) {
-    // 取出動作 (若用完則循環)
-    const exercise = shuffled[index % shuffled.length];
-
-    // 加入動作
-    plan.push({
-      type: 'exercise',
-      duration: exercise.duration_seconds,
-      exercise: exercise,
-      title: exercise.name
-    });
-    currentDuration += exercise.duration_seconds;
-
-    // 檢查是否超過時間，若超過則停止
-    if (currentDuration >= targetDurationSeconds) break;
-
-    // 加入休息 (最後一個動作後不需要休息)
-    if (currentDuration + REST_DURATION < targetDurationSeconds) {
-      plan.push({
-        type: 'rest',
-        duration: REST_DURATION,
-        title: '休息',
-        exercise: undefined
-      });
-      currentDuration += REST_DURATION;
-    }
+  // 3. 洗牌後依目標評分排序 (Shuffle & Rank by Goal)
+  // 暖身/伸展類動作保留給前後階段；若只剩這類動作則仍用於主訓練
+  const mainExercises = filtered.filter(ex => !isPhaseOnlyExercise(ex));
+  // 依過往回饋換成較難/較簡單的動作，或調整時長
+  const { exercises: mainPool, adjustments } = applyProgression(
+    mainExercises.length > 0 ? mainExercises : filtered,
+    equipmentMatched,
+    options.progression,
+    getRepPrescriber(prefs) !== undefined
+  );
+  const pickNext = createGoalAwarePicker(
+    shuffle(mainPool, random),
+    prefs.goal,
+    scoring
+  );
 
-    index++;
-  }
+  // 4. 組裝並調整主訓練 (Assemble & fit main block)
+  const { warmupSeconds, cooldownSeconds } = getPhaseBudget(prefs.durationMinutes);
+  const warmup = buildPhaseBlock(shuffle(filtered, random), 'warmup', warmupSeconds);
+  const cooldown = buildPhaseBlock(shuffle(filtered, random), 'cooldown', cooldownSeconds);
+
+  const mainTargetSeconds = targetSeconds - sumDuration(warmup) - sumDuration(cooldown);
+
+  // 取出動作 (若用完則循環，並維持目標佔比與肌群平衡)，依訓練形式組裝並調整時長
+  const plan = buildFormatBlock(prefs.format ?? 'straight', pickNext, mainTargetSeconds, {
+    rounds: prefs.rounds,
+    toItem: getRepPrescriber(prefs),
+  });
 
-  return plan;
+  // 5. 加上暖身與緩和 (Warm-up & Cool-down)
+  return toGeneratedPlan(
+    [...warmup, ...plan, ...cooldown],
+    targetSeconds,
+    seed,
+    toleranceSeconds,
+    filterAdjustmentsByPlan(adjustments, plan),
+    // 依回饋調整過的候選取決於當時的回饋紀錄，無法只以偏好與種子重現
+    adjustments.length === 0
+  );
 };
@@ -0,0 +1,128 @@
+import { EquipmentProfile, EquipmentProfileSettings } from '../../types/app';
+import { EQUIPMENT_LABELS } from '../exercises/metadata';
+
+/**
+ * 沒有任何器材組合 (Empty Equipment Profiles)
+ */
+export const EMPTY_EQUIPMENT_PROFILES: EquipmentProfileSettings = { profiles: [], defaultProfileId: null };
+
+/**
+ * 組合名稱建議 (Profile Name Suggestions)
+ */
+export const EQUIPMENT_PROFILE_NAME_SUGGESTIONS = ['住家', '辦公室', '飯店'];
+
+/**
+ * 整理器材清單：只保留已知器材、去除重複，並一律包含徒手
+ */
+const normalizeEquipment = (equipment: unknown): string[] => {
+  const known = Array.isArray(equipment)
+    ? equipment.filter((id): id is string => typeof id === 'string' && Object.prototype.hasOwnProperty.call(EQUIPMENT_LABELS, id))
+    : [];
+  return [...new Set(['bodyweight', ...known])];
+};
+
+/**
+ * 兩組器材是否相同 (不計順序)
+ */
+const isSameEquipment = (a: string[], b: string[]): boolean => {
+  const left = normalizeEquipment(a);
+  const right = normalizeEquipment(b);
+  return left.length === right.length && left.every(id => right.includes(id));
+};
+
+/**
+ * 整理器材組合設定 (Normalize Equipment Profiles)
+ * 用於讀取儲存資料，移除格式錯誤的組合；預設組合不存在時改為 null
+ *
+ * @param {unknown} value - 儲存的資料
+ * @returns {EquipmentProfileSettings}
+ */
+export const normalizeEquipmentProfiles = (value: unknown): EquipmentProfileSettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof EquipmentProfileSettings, unknown>>;
+  const profiles = (Array.isArray(raw.profiles) ? raw.profiles : [])
+    .filter((profile): profile is Record<string, unknown> => !!profile && typeof profile === 'object')
+    .filter(profile => typeof profile.id === 'string' && typeof profile.name === 'string' && profile.name.trim() !== '')
+    .map(profile => ({
+      id: profile.id as string,
+      name: (profile.name as string).trim(),
+      equipment: normalizeEquipment(profile.equipment),
+    }));
+  const defaultProfileId = profiles.some(profile => profile.id === raw.defaultProfileId)
+    ? (raw.defaultProfileId as string)
+    : null;
+
+  return { profiles, defaultProfileId };
+};
+
+/**
+ * 儲存器材組合 (Save Equipment Profile)
+ * 名稱相同的組合會被覆寫；第一個組合自動成為預設
+ *
+ * @param {EquipmentProfileSettings} settings - 目前設定
+ * @param {string} name - 組合名稱 (例如「住家」)
+ * @param {string[]} equipment - 器材 ID
+ * @returns {EquipmentProfileSettings} 新的設定 (不修改原物件)
+ *
+ * @example
+ * saveEquipmentProfile(EMPTY_EQUIPMENT_PROFILES, '住家', ['dumbbell']).profiles[0].equipment // ['bodyweight', 'dumbbell']
+ */
+export const saveEquipmentProfile = (
+  settings: EquipmentProfileSettings,
+  name: string,
+  equipment: string[]
+): EquipmentProfileSettings => {
+  const trimmed = name.trim();
+  if (!trimmed) return settings;
+
+  const existing = settings.profiles.find(profile => profile.name === trimmed);
+  const profile: EquipmentProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: trimmed,
+    equipment: normalizeEquipment(equipment),
+  };
+  const profiles = existing
+    ? settings.profiles.map(item => (item.id === existing.id ? profile : item))
+    : [...settings.profiles, profile];
+
+  return { profiles, defaultProfileId: settings.defaultProfileId ?? profile.id };
+};
+
+/**
+ * 刪除器材組合 (Remove Equipment Profile)
+ * 刪除預設組合時不再有預設
+ */
+export const removeEquipmentProfile = (settings: EquipmentProfileSettings, id: string): EquipmentProfileSettings => ({
+  profiles: settings.profiles.filter(profile => profile.id !== id),
+  defaultProfileId: settings.defaultProfileId === id ? null : settings.defaultProfileId,
+});
+
+/**
+ * 設定預設器材組合 (Set Default Equipment Profile)
+ * 傳入 null 取消預設
+ */
+export const setDefaultEquipmentProfile = (
+  settings: EquipmentProfileSettings,
+  id: string | null
+): EquipmentProfileSettings => ({
+  ...settings,
+  defaultProfileId: id !== null && settings.profiles.some(profile => profile.id === id) ? id : null,
+});
+
+/**
+ * 取得預設器材組合 (Get Default Equipment Profile)
+ *
+ * @param {EquipmentProfileSettings} settings - 器材組合設定
+ * @returns {EquipmentProfile | null} 沒有預設時回傳 null
+ */
+export const getDefaultEquipmentProfile = (settings: EquipmentProfileSettings): EquipmentProfile | null =>
+  settings.profiles.find(profile => profile.id === settings.defaultProfileId) ?? null;
+
+/**
+ * 尋找器材完全相同的組合 (Find Matching Equipment Profile)
+ * 用於標示目前選擇對應的組合
+ */
+export const findMatchingEquipmentProfile = (
+  settings: EquipmentProfileSettings,
+  equipment: string[]
+): EquipmentProfile | null =>
+  settings.profiles.find(profile => isSameEquipment(profile.equipment, equipment)) ?? null;
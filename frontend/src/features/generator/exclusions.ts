@@ -0,0 +1,81 @@
+import { Exercise } from '../../types/db';
+import { ExclusionRules } from '../../types/app';
+
+/**
+ * 無排除條件 (Empty Exclusion Rules)
+ */
+export const EMPTY_EXCLUSIONS: ExclusionRules = { exerciseIds: [], tags: [] };
+
+/**
+ * 可排除的標籤選項 (Exclusion Tag Options)
+ * 以常見傷病與限制描述，供設定畫面與個人檔案使用
+ */
+export const EXCLUSION_TAG_OPTIONS: { tag: string; label: string; desc: string }[] = [
+  { tag: 'impact:高', label: '跳躍 / 高衝擊', desc: '膝蓋、腳踝不適或需保持安靜' },
+  { tag: 'muscle:下肢', label: '下肢動作', desc: '膝蓋或髖部受傷' },
+  { tag: 'muscle:上肢', label: '上肢動作', desc: '肩膀或手腕受傷' },
+  { tag: 'muscle:核心', label: '核心動作', desc: '下背不適' },
+  { tag: 'type:高強度', label: '高強度動作', desc: '心肺負荷較大' },
+];
+
+/**
+ * 是否有任何排除條件
+ */
+export const hasExclusions = (rules?: ExclusionRules): boolean =>
+  !!rules && (rules.exerciseIds.length > 0 || rules.tags.length > 0);
+
+/**
+ * 判斷動作是否被排除 (Is Exercise Excluded)
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @param {ExclusionRules} [rules] - 排除條件
+ * @returns {boolean} 動作 ID 被排除，或帶有任一排除標籤時回傳 true
+ *
+ * @example
+ * isExcluded(burpee, { exerciseIds: [], tags: ['impact:高'] }) // returns true
+ */
+export const isExcluded = (exercise: Exercise, rules?: ExclusionRules): boolean => {
+  if (!rules) return false;
+  if (rules.exerciseIds.includes(exercise.id)) return true;
+  const tags = Array.isArray(exercise.tags) ? exercise.tags : [];
+  return tags.some(tag => rules.tags.includes(tag));
+};
+
+/**
+ * 移除被排除的動作 (Filter Excluded Exercises)
+ *
+ * @param {Exercise[]} exercises - 運動項目
+ * @param {ExclusionRules} [rules] - 排除條件
+ * @returns {Exercise[]} 未被排除的動作
+ */
+export const filterExcluded = (exercises: Exercise[], rules?: ExclusionRules): Exercise[] =>
+  hasExclusions(rules) ? exercises.filter(ex => !isExcluded(ex, rules)) : exercises;
+
+/**
+ * 整理排除條件 (Normalize Exclusion Rules)
+ * 用於讀取儲存資料，缺少欄位或格式錯誤時回傳空條件
+ *
+ * @param {unknown} value - 儲存的資料
+ * @returns {ExclusionRules}
+ */
+export const normalizeExclusions = (value: unknown): ExclusionRules => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ExclusionRules, unknown>>;
+  const strings = (list: unknown): string[] =>
+    Array.isArray(list) ? [...new Set(list.filter((item): item is string => typeof item === 'string'))] : [];
+  return { exerciseIds: strings(raw.exerciseIds), tags: strings(raw.tags) };
+};
+
+/**
+ * 排除條件說明文字 (Describe Exclusions)
+ * 用於 AI 提示詞
+ *
+ * @param {ExclusionRules} [rules] - 排除條件
+ * @param {Exercise[]} [exercises] - 用於將動作 ID 轉為名稱
+ * @returns {string[]} 例如 ['跳躍 / 高衝擊', '波比跳 (Burpees)']
+ */
+export const describeExclusions = (rules?: ExclusionRules, exercises: Exercise[] = []): string[] => {
+  if (!rules) return [];
+  const tagLabels = rules.tags.map(tag => EXCLUSION_TAG_OPTIONS.find(option => option.tag === tag)?.label ?? tag);
+  const exerciseNames = rules.exerciseIds.map(id => exercises.find(ex => ex.id === id)?.name ?? id);
+  return [...tagLabels, ...exerciseNames];
+};
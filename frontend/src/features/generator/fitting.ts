@@ -0,0 +1,226 @@
+import { Exercise } from '../../types/db';
+import { GeneratedPlan, PlanItem } from '../../types/app';
+import { ProgressionAdjustment } from '../../types/feedback';
+
+/** 預設休息長度 (秒) */
+export const REST_DURATION = 30;
+
+/** 休息長度可調整範圍 (秒) */
+const REST_BOUNDS = { min: 15, max: 45 };
+
+/** 預設允許誤差 (秒)：最終總時長與目標相差不超過此值 */
+export const DEFAULT_TOLERANCE_SECONDS = 10;
+
+/** 動作未設定上下限時，依建議時長推算的比例 */
+const MIN_DURATION_RATIO = 0.75;
+const MAX_DURATION_RATIO = 1.5;
+
+/** 動作最短時長 (秒) */
+const MIN_EXERCISE_SECONDS = 15;
+
+/** 組裝迴圈的安全上限，避免候選動作異常時無限迴圈 */
+const MAX_ASSEMBLY_STEPS = 500;
+
+/**
+ * 時長上下限 (Duration Bounds)
+ */
+interface DurationBounds {
+  min: number;
+  max: number;
+}
+
+/**
+ * 取得動作的時長上下限 (Get Exercise Duration Bounds)
+ *
+ * 優先使用資料中的 min/max_duration_seconds，
+ * 未設定時依建議時長的 75% ~ 150% 推算 (最短 15 秒)
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @returns {DurationBounds}
+ *
+ * @example
+ * getDurationBounds({ duration_seconds: 40, ... }) // returns { min: 30, max: 60 }
+ */
+export const getDurationBounds = (exercise: Exercise): DurationBounds => {
+  const base = exercise.duration_seconds;
+  const min = exercise.min_duration_seconds
+    ?? Math.max(MIN_EXERCISE_SECONDS, Math.round(base * MIN_DURATION_RATIO));
+  const max = exercise.max_duration_seconds ?? Math.round(base * MAX_DURATION_RATIO);
+  return { min: Math.min(min, base), max: Math.max(max, base) };
+};
+
+/**
+ * 取得課表項目的時長上下限
+ * 次數制項目的時長為預估值，不參與調整
+ */
+const getItemBounds = (item: PlanItem): DurationBounds => {
+  if (item.reps !== undefined) return { min: item.duration, max: item.duration };
+  return item.type === 'exercise' && item.exercise
+    ? getDurationBounds(item.exercise)
+    : REST_BOUNDS;
+};
+
+/**
+ * 計算課表總時長 (秒)
+ *
+ * @param {PlanItem[]} items - 課表項目
+ * @returns {number}
+ */
+export const sumDuration = (items: PlanItem[]): number =>
+  items.reduce((sum, item) => sum + item.duration, 0);
+
+/**
+ * 計算縮放後最接近目標的誤差 (秒)
+ */
+const fitError = (items: PlanItem[], targetSeconds: number): number => {
+  const min = items.reduce((sum, item) => sum + getItemBounds(item).min, 0);
+  const max = items.reduce((sum, item) => sum + getItemBounds(item).max, 0);
+  if (targetSeconds < min) return min - targetSeconds;
+  if (targetSeconds > max) return targetSeconds - max;
+  return 0;
+};
+
+/**
+ * 依比例調整項目時長 (Scale Item Durations)
+ *
+ * 將 amount 秒依各項目可調整空間按比例分配，整數進位後的餘數逐一補上
+ *
+ * @returns {number} 實際調整的秒數
+ */
+const scaleItems = (items: PlanItem[], indices: number[], amount: number): number => {
+  const sign = Math.sign(amount);
+  const capacities = indices.map(i => {
+    const bounds = getItemBounds(items[i]);
+    return sign > 0 ? bounds.max - items[i].duration : items[i].duration - bounds.min;
+  });
+  const totalCapacity = capacities.reduce((sum, cap) => sum + Math.max(0, cap), 0);
+  const applied = Math.min(Math.abs(amount), totalCapacity);
+  if (applied <= 0) return 0;
+
+  const shares = capacities.map(cap => Math.floor((applied * Math.max(0, cap)) / totalCapacity));
+  let leftover = applied - shares.reduce((sum, share) => sum + share, 0);
+  for (let k = 0; leftover > 0 && k < shares.length; k++) {
+    if (shares[k] < capacities[k]) {
+      shares[k]++;
+      leftover--;
+    }
+  }
+
+  indices.forEach((i, k) => {
+    items[i] = { ...items[i], duration: items[i].duration + sign * shares[k] };
+  });
+  return sign * applied;
+};
+
+/**
+ * 調整課表時長以符合目標 (Fit Plan Durations)
+ *
+ * 先在動作上下限內調整動作時長，仍不足時再調整休息長度，
+ * 盡量保留預設的 30 秒休息。超出所有上下限時回傳最接近目標的結果
+ *
+ * @param {PlanItem[]} items - 課表項目
+ * @param {number} targetSeconds - 目標總時長 (秒)
+ * @returns {PlanItem[]} 調整後的新陣列
+ */
+export const fitPlanDurations = (items: PlanItem[], targetSeconds: number): PlanItem[] => {
+  const result = [...items];
+  let diff = targetSeconds - sumDuration(result);
+
+  const exerciseIndices = result.map((item, i) => (item.type === 'exercise' ? i : -1)).filter(i => i !== -1);
+  const restIndices = result.map((item, i) => (item.type === 'rest' ? i : -1)).filter(i => i !== -1);
+
+  for (const indices of [exerciseIndices, restIndices]) {
+    if (diff === 0) break;
+    diff -= scaleItems(result, indices, diff);
+  }
+
+  return result;
+};
+
+/**
+ * 組裝並調整主訓練區塊 (Assemble Fitted Block)
+ *
+ * 1. 依序取用動作並在動作間插入休息，直到下一個動作會超過目標時間
+ * 2. 比較「停在此處並拉長」與「再加一個並縮短」，選擇可調整至最接近目標者
+ * 3. 在上下限內調整動作與休息時長 (見 fitPlanDurations)
+ *
+ * @param {() => Exercise} pickNext - 動作挑選器 (每次呼叫回傳下一個動作)
+ * @param {number} targetSeconds - 目標總時長 (秒)
+ * @param {number} [restSeconds] - 動作間休息 (秒)，0 表示不插入休息
+ * @param {(exercise: Exercise) => PlanItem | null} [toItem] - 自訂項目轉換 (例如次數制)，回傳 null 或超過剩餘時間時使用計時制
+ * @returns {PlanItem[]} 主訓練項目 (phase 皆為 main)
+ */
+export const assembleFittedBlock = (
+  pickNext: () => Exercise,
+  targetSeconds: number,
+  restSeconds: number = REST_DURATION,
+  toItem?: (exercise: Exercise) => PlanItem | null
+): PlanItem[] => {
+  let items: PlanItem[] = [];
+
+  for (let step = 0; step < MAX_ASSEMBLY_STEPS && sumDuration(items) < targetSeconds; step++) {
+    const exercise = pickNext();
+    // 自訂項目 (例如次數制) 時長固定，超過剩餘時間時改用計時制以便調整
+    const customItem = toItem?.(exercise);
+    const remaining = targetSeconds - sumDuration(items) - (items.length > 0 ? restSeconds : 0);
+    const exerciseItem: PlanItem = customItem && customItem.duration <= remaining ? customItem : {
+      type: 'exercise',
+      duration: exercise.duration_seconds,
+      exercise,
+      title: exercise.name,
+      phase: 'main',
+    };
+    const candidate: PlanItem[] = items.length === 0 || restSeconds <= 0
+      ? [...items, exerciseItem]
+      : [...items, { type: 'rest', duration: restSeconds, title: '休息', exercise: undefined, phase: 'main' }, exerciseItem];
+
+    if (items.length === 0 || sumDuration(candidate) <= targetSeconds) {
+      items = candidate;
+      continue;
+    }
+
+    // 下一個動作會超時：選擇調整後誤差較小者，同誤差時選擇需調整秒數較少者
+    const stopError = fitError(items, targetSeconds);
+    const addError = fitError(candidate, targetSeconds);
+    const addIsCloser = addError < stopError
+      || (addError === stopError && sumDuration(candidate) - targetSeconds < targetSeconds - sumDuration(items));
+    if (addIsCloser) items = candidate;
+    break;
+  }
+
+  return fitPlanDurations(items, targetSeconds);
+};
+
+/**
+ * 建立生成結果 (Create Generated Plan)
+ *
+ * 依實際總時長判斷是否落在允許誤差內 (次數制或上下限不足時可能超出)
+ *
+ * @param {PlanItem[]} items - 完整課表 (含暖身與緩和)
+ * @param {number} targetSeconds - 目標總時長 (秒)
+ * @param {number} seed - 生成時使用的亂數種子
+ * @param {number} [toleranceSeconds] - 允許誤差 (秒)
+ * @param {ProgressionAdjustment[]} [adjustments] - 依回饋所做的調整
+ * @param {boolean} [reproducible] - 能否以相同偏好與種子重新生成
+ * @returns {GeneratedPlan}
+ */
+export const toGeneratedPlan = (
+  items: PlanItem[],
+  targetSeconds: number,
+  seed: number,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  adjustments: ProgressionAdjustment[] = [],
+  reproducible: boolean = false
+): GeneratedPlan => {
+  const totalSeconds = sumDuration(items);
+  return {
+    items,
+    seed,
+    reproducible,
+    targetSeconds,
+    totalSeconds,
+    toleranceSeconds,
+    withinTolerance: Math.abs(totalSeconds - targetSeconds) <= toleranceSeconds,
+    adjustments,
+  };
+};
@@ -0,0 +1,269 @@
+import { Exercise } from '../../types/db';
+import { PlanItem, WorkoutFormat } from '../../types/app';
+import { assembleFittedBlock } from './fitting';
+import { getMuscleGroup } from './muscleGroups';
+
+/**
+ * 訓練形式顯示名稱 (Workout Format Labels)
+ */
+export const WORKOUT_FORMAT_LABELS: Record<WorkoutFormat, string> = {
+  straight: '一般組數',
+  circuit: '循環訓練',
+  tabata: 'Tabata',
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+};
+
+/**
+ * 訓練形式說明 (Workout Format Descriptions)
+ * 用於設定畫面與播放器提示
+ */
+export const WORKOUT_FORMAT_CUES: Record<WorkoutFormat, string> = {
+  straight: '完成動作後休息，再進行下一個動作',
+  circuit: '依序完成所有動作為一回合，回合間休息',
+  tabata: '全力 20 秒、休息 10 秒，共 8 回合',
+  emom: '每分鐘開始時完成動作，剩餘時間休息',
+  amrap: '時間內盡可能完成越多回合',
+};
+
+/** 循環訓練預設回合數 */
+export const DEFAULT_CIRCUIT_ROUNDS = 3;
+
+/** 循環訓練回合數上限 */
+const MAX_CIRCUIT_ROUNDS = 10;
+
+/** 循環訓練動作間休息 (秒) */
+const CIRCUIT_REST_SECONDS = 15;
+
+/** 回合間 / Tabata 區塊間休息 (秒) */
+const ROUND_REST_SECONDS = 60;
+
+/** 每回合最短時長 (秒)，不足時減少回合數 */
+const MIN_ROUND_SECONDS = 60;
+
+/** Tabata 設定：運動 / 休息秒數與回合數 */
+const TABATA_WORK_SECONDS = 20;
+const TABATA_REST_SECONDS = 10;
+const TABATA_ROUNDS = 8;
+
+/** Tabata 區塊間休息上下限 (秒) */
+const TABATA_BLOCK_REST_BOUNDS = { min: 30, max: 180 };
+
+/** EMOM 每分鐘的運動秒數上下限 */
+const EMOM_INTERVAL_SECONDS = 60;
+const EMOM_WORK_BOUNDS = { min: 20, max: 40 };
+
+/** AMRAP 每回合動作數 */
+const AMRAP_EXERCISES_PER_ROUND = 4;
+
+/**
+ * 建立運動項目
+ */
+const exerciseItem = (exercise: Exercise, duration: number, extra: Partial<PlanItem>): PlanItem => ({
+  type: 'exercise',
+  duration,
+  exercise,
+  title: exercise.name,
+  phase: 'main',
+  ...extra,
+});
+
+/**
+ * 建立休息項目
+ */
+const restItem = (duration: number, extra: Partial<PlanItem>): PlanItem => ({
+  type: 'rest',
+  duration,
+  title: extra.roundRest ? '回合休息' : '休息',
+  exercise: undefined,
+  phase: 'main',
+  ...extra,
+});
+
+/**
+ * 循環訓練 (Circuit)
+ *
+ * 先依單回合時間組出一輪動作 (動作間休息 15 秒)，再重複 N 回合，回合間休息 60 秒
+ */
+const buildCircuit = (pickNext: () => Exercise, targetSeconds: number, requestedRounds: number): PlanItem[] => {
+  let rounds = Math.min(MAX_CIRCUIT_ROUNDS, Math.max(1, Math.round(requestedRounds)));
+  const roundSeconds = (count: number) =>
+    Math.floor((targetSeconds - (count - 1) * ROUND_REST_SECONDS) / count);
+  while (rounds > 1 && roundSeconds(rounds) < MIN_ROUND_SECONDS) rounds--;
+
+  const round = assembleFittedBlock(pickNext, roundSeconds(rounds), CIRCUIT_REST_SECONDS);
+
+  const items: PlanItem[] = [];
+  for (let r = 1; r <= rounds; r++) {
+    round.forEach(item => items.push({ ...item, format: 'circuit', round: r, totalRounds: rounds }));
+    if (r < rounds) {
+      items.push(restItem(ROUND_REST_SECONDS, { format: 'circuit', round: r, totalRounds: rounds, roundRest: true }));
+    }
+  }
+  return items;
+};
+
+/**
+ * Tabata
+ *
+ * 每個區塊為 20 秒運動 / 10 秒休息 × 8 回合 (兩個動作交替)，
+ * 區塊數依目標時間決定，區塊間休息長度會調整以貼近目標時間
+ */
+const buildTabata = (pickNext: () => Exercise, targetSeconds: number): PlanItem[] => {
+  const interval = TABATA_WORK_SECONDS + TABATA_REST_SECONDS;
+  // 時間很短時減少回合數 (至少 2 回合)
+  const rounds = Math.max(2, Math.min(TABATA_ROUNDS, Math.floor((targetSeconds + TABATA_REST_SECONDS) / interval)));
+  const blockSeconds = rounds * interval - TABATA_REST_SECONDS;
+  const blocks = Math.max(1, Math.floor((targetSeconds + ROUND_REST_SECONDS) / (blockSeconds + ROUND_REST_SECONDS)));
+  const blockRest = blocks > 1
+    ? Math.min(
+      TABATA_BLOCK_REST_BOUNDS.max,
+      Math.max(TABATA_BLOCK_REST_BOUNDS.min, Math.round((targetSeconds - blocks * blockSeconds) / (blocks - 1)))
+    )
+    : 0;
+
+  const items: PlanItem[] = [];
+  for (let b = 0; b < blocks; b++) {
+    const pair = [pickNext(), pickNext()];
+    for (let r = 1; r <= rounds; r++) {
+      items.push(exerciseItem(pair[(r - 1) % 2], TABATA_WORK_SECONDS, { format: 'tabata', round: r, totalRounds: rounds }));
+      if (r < rounds) {
+        items.push(restItem(TABATA_REST_SECONDS, { format: 'tabata', round: r, totalRounds: rounds }));
+      }
+    }
+    if (b < blocks - 1) {
+      items.push(restItem(blockRest, { format: 'tabata', round: rounds, totalRounds: rounds, roundRest: true }));
+    }
+  }
+  return items;
+};
+
+/**
+ * EMOM
+ *
+ * 每分鐘一個動作：運動 20 ~ 40 秒 (依動作建議時長)，該分鐘剩餘時間休息
+ */
+const buildEmom = (pickNext: () => Exercise, targetSeconds: number): PlanItem[] => {
+  const minutes = Math.max(1, Math.round(targetSeconds / EMOM_INTERVAL_SECONDS));
+
+  const items: PlanItem[] = [];
+  for (let m = 1; m <= minutes; m++) {
+    const exercise = pickNext();
+    const work = Math.min(EMOM_WORK_BOUNDS.max, Math.max(EMOM_WORK_BOUNDS.min, exercise.duration_seconds));
+    items.push(exerciseItem(exercise, work, { format: 'emom', round: m, totalRounds: minutes }));
+    items.push(restItem(EMOM_INTERVAL_SECONDS - work, { format: 'emom', round: m, totalRounds: minutes }));
+  }
+  return items;
+};
+
+/**
+ * AMRAP
+ *
+ * 固定一組 4 個動作為一回合，不休息地循環直到時間結束 (回合數無上限，不設定 totalRounds)
+ */
+const buildAmrap = (pickNext: () => Exercise, targetSeconds: number): PlanItem[] => {
+  const roundExercises = Array.from({ length: AMRAP_EXERCISES_PER_ROUND }, () => pickNext());
+
+  // 回合首尾相接，最後一個動作盡量不與第一個同肌群
+  const firstGroup = getMuscleGroup(roundExercises[0]);
+  for (let attempt = 0; attempt < AMRAP_EXERCISES_PER_ROUND && firstGroup !== null; attempt++) {
+    if (getMuscleGroup(roundExercises[roundExercises.length - 1]) !== firstGroup) break;
+    const candidate = pickNext();
+    const candidateGroup = getMuscleGroup(candidate);
+    if (candidateGroup !== firstGroup && candidateGroup !== getMuscleGroup(roundExercises[roundExercises.length - 2])) {
+      roundExercises[roundExercises.length - 1] = candidate;
+    }
+  }
+
+  let cursor = 0;
+  const items = assembleFittedBlock(() => roundExercises[cursor++ % roundExercises.length], targetSeconds, 0);
+  return items.map((item, index) => ({
+    ...item,
+    format: 'amrap',
+    round: Math.floor(index / roundExercises.length) + 1,
+  }));
+};
+
+/**
+ * 依訓練形式建立主訓練區塊 (Build Format Block)
+ *
+ * @param {WorkoutFormat} format - 訓練形式
+ * @param {() => Exercise} pickNext - 動作挑選器 (每次呼叫回傳下一個動作)
+ * @param {number} targetSeconds - 主訓練目標時長 (秒)
+ * @param {object} [options]
+ * @param {number} [options.rounds] - circuit 回合數
+ * @param {(exercise: Exercise) => PlanItem | null} [options.toItem] - 一般組數的項目轉換 (例如次數制，見 getRepPrescriber)
+ * @returns {PlanItem[]} 主訓練項目 (phase 皆為 main)
+ *
+ * @example
+ * buildFormatBlock('tabata', pickNext, 600) // 2 個 Tabata 區塊，區塊間休息
+ */
+export const buildFormatBlock = (
+  format: WorkoutFormat,
+  pickNext: () => Exercise,
+  targetSeconds: number,
+  options: { rounds?: number; toItem?: (exercise: Exercise) => PlanItem | null } = {}
+): PlanItem[] => {
+  switch (format) {
+    case 'circuit':
+      return buildCircuit(pickNext, targetSeconds, options.rounds ?? DEFAULT_CIRCUIT_ROUNDS);
+    case 'tabata':
+      return buildTabata(pickNext, targetSeconds);
+    case 'emom':
+      return buildEmom(pickNext, targetSeconds);
+    case 'amrap':
+      return buildAmrap(pickNext, targetSeconds);
+    case 'straight':
+    default:
+      return assembleFittedBlock(pickNext, targetSeconds, undefined, options.toItem);
+  }
+};
+
+/**
+ * 取得回合顯示文字 (Get Round Label)
+ *
+ * @param {PlanItem} item - 課表項目
+ * @returns {string | null} 例如「第 2 / 3 回合」，非回合制項目回傳 null
+ */
+export const getRoundLabel = (item: PlanItem): string | null => {
+  if (!item.format || item.format === 'straight' || item.round === undefined) return null;
+  const unit = item.format === 'emom' ? '分鐘' : '回合';
+  return item.totalRounds !== undefined
+    ? `第 ${item.round} / ${item.totalRounds} ${unit}`
+    : `第 ${item.round} ${unit}`;
+};
+
+/**
+ * 取得訓練形式提示 (Get Format Cue)
+ *
+ * 播放器在項目開始時顯示並以語音播報；一般組數回傳 null (沿用預設提示)
+ *
+ * @param {PlanItem} item - 目前項目
+ * @param {PlanItem} [previous] - 前一個項目 (用於判斷是否為新回合的開始)
+ * @returns {string | null} 提示文字
+ *
+ * @example
+ * getFormatCue(tabataWorkItem) // returns '全力衝刺！第 3 / 8 回合'
+ */
+export const getFormatCue = (item: PlanItem, previous?: PlanItem): string | null => {
+  const isNewRound = previous?.round !== item.round || previous?.format !== item.format;
+
+  switch (item.format) {
+    case 'circuit':
+      if (item.roundRest) return `回合休息，準備第 ${(item.round ?? 0) + 1} 回合`;
+      return item.type === 'exercise' && isNewRound ? `第 ${item.round} 回合開始，${item.title}` : null;
+    case 'tabata':
+      if (item.roundRest) return '區塊休息，準備下一組 Tabata';
+      return item.type === 'exercise'
+        ? `全力衝刺！第 ${item.round} / ${item.totalRounds} 回合`
+        : `休息 ${item.duration} 秒`;
+    case 'emom':
+      return item.type === 'exercise'
+        ? `第 ${item.round} 分鐘，${item.title}`
+        : '完成！休息到下一分鐘開始';
+    case 'amrap':
+      return item.type === 'exercise' && isNewRound ? `第 ${item.round} 回合，保持節奏` : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,150 @@
+import { Exercise, MuscleGroup } from '../../types/db';
+import { PlanItem } from '../../types/app';
+import { getExerciseMetadata } from '../exercises/metadata';
+
+/**
+ * 各訓練目標的肌群訓練量權重 (Goal → Muscle Group Volume Weights)
+ * 以動作秒數計算，實際比例會依候選動作涵蓋的肌群重新正規化
+ */
+const GOAL_MUSCLE_BALANCE: Record<string, Record<MuscleGroup, number>> = {
+  'muscle': { upper: 4, lower: 4, core: 1, full_body: 1 },
+  'fat-loss': { full_body: 4, lower: 3, upper: 1.5, core: 1.5 },
+  'tone': { upper: 3, lower: 3, core: 3, full_body: 1 },
+  'flexibility': { upper: 1, lower: 1, core: 1, full_body: 1 },
+};
+
+/**
+ * 取得動作的主肌群 (Get Exercise Muscle Group)
+ *
+ * @param {Exercise | undefined} exercise - 運動項目
+ * @returns {MuscleGroup | null} 主肌群 (muscle_groups 的第一個，例如 'lower')，未標記時回傳 null
+ *
+ * @example
+ * getMuscleGroup(squat) // returns 'lower'
+ */
+export const getMuscleGroup = (exercise: Exercise | undefined): MuscleGroup | null =>
+  exercise ? getExerciseMetadata(exercise).muscle_groups[0] ?? null : null;
+
+/**
+ * 計算肌群目標佔比 (Get Muscle Group Volume Targets)
+ *
+ * 僅計算候選動作實際涵蓋的肌群，權重正規化後總和為 1
+ * 未列於目標權重表的肌群給予最低權重 1
+ *
+ * @param {string} goal - 訓練目標 ID
+ * @param {string[]} groups - 候選動作涵蓋的肌群
+ * @returns {Record<string, number>} 肌群 → 目標佔比 (0 ~ 1)
+ */
+export const getMuscleBalanceTargets = (goal: string, groups: string[]): Record<string, number> => {
+  const weights: Record<string, number> = GOAL_MUSCLE_BALANCE[goal] ?? {};
+  const unique = [...new Set(groups)];
+  const total = unique.reduce((sum, group) => sum + (weights[group] ?? 1), 0);
+
+  const targets: Record<string, number> = {};
+  unique.forEach(group => {
+    targets[group] = total > 0 ? (weights[group] ?? 1) / total : 0;
+  });
+  return targets;
+};
+
+/**
+ * 判斷項目是否屬於主訓練 (Is Main-Phase Item)
+ * 暖身與緩和區塊不受肌群規則限制
+ */
+const isMainExerciseItem = (item: PlanItem): boolean =>
+  item.type === 'exercise' && (item.phase === undefined || item.phase === 'main');
+
+/**
+ * 尋找連續相同肌群的位置 (Find Back-to-Back Muscle Group)
+ *
+ * 只檢查主訓練的動作項目，一般休息不會中斷「連續」的判定，回合間休息 (roundRest) 則會；
+ * 未標記肌群的動作不視為衝突
+ *
+ * @param {PlanItem[]} plan - 訓練計畫
+ * @returns {number} 第一個與前一個動作同肌群的項目索引，無衝突時回傳 -1
+ */
+export const findMuscleGroupConflict = (plan: PlanItem[]): number => {
+  let previousGroup: string | null = null;
+
+  for (let i = 0; i < plan.length; i++) {
+    const item = plan[i];
+    if (item.roundRest) previousGroup = null;
+    if (!isMainExerciseItem(item)) continue;
+
+    const group = getMuscleGroup(item.exercise);
+    if (group !== null && group === previousGroup) return i;
+    previousGroup = group;
+  }
+
+  return -1;
+};
+
+/**
+ * 依肌群重新排序 (Arrange By Muscle Group)
+ *
+ * 貪婪演算法：盡量保留原本順序，每次取第一個與上一個不同肌群的項目；
+ * 若某肌群剩餘數量過多 (超過剩餘總數的一半)，則優先排入該肌群以免最後無解
+ * 無法避免時 (例如只有單一肌群) 仍會依原順序排入
+ *
+ * @template T - 項目型別
+ * @param {T[]} items - 待排序項目
+ * @param {(item: T) => string | null} groupOf - 取得項目肌群
+ * @returns {T[]} 排序後的新陣列
+ */
+export function arrangeByMuscleGroup<T>(items: T[], groupOf: (item: T) => string | null): T[] {
+  const remaining = [...items];
+  const result: T[] = [];
+  let previousGroup: string | null = null;
+
+  while (remaining.length > 0) {
+    const counts = new Map<string, number>();
+    remaining.forEach(item => {
+      const group = groupOf(item);
+      if (group !== null) counts.set(group, (counts.get(group) ?? 0) + 1);
+    });
+
+    // 剩餘數量超過一半的肌群必須立即排入 (且不可與上一個相同)
+    let forcedGroup: string | null = null;
+    for (const [group, count] of counts) {
+      if (group !== previousGroup && count > remaining.length / 2) forcedGroup = group;
+    }
+
+    let index = forcedGroup !== null
+      ? remaining.findIndex(item => groupOf(item) === forcedGroup)
+      : remaining.findIndex(item => {
+        const group = groupOf(item);
+        return group === null || group !== previousGroup;
+      });
+    if (index === -1) index = 0;
+
+    const [next] = remaining.splice(index, 1);
+    result.push(next);
+    previousGroup = groupOf(next);
+  }
+
+  return result;
+}
+
+/**
+ * 依肌群重新排列課表動作 (Reorder Plan By Muscle Group)
+ *
+ * 只對調主訓練中動作項目的位置，休息與暖身/緩和項目維持原位，總時長不變
+ *
+ * @param {PlanItem[]} plan - 訓練計畫
+ * @returns {PlanItem[]} 重新排列後的新計畫
+ */
+export const reorderPlanByMuscleGroup = (plan: PlanItem[]): PlanItem[] => {
+  const slots = plan
+    .map((item, index) => (isMainExerciseItem(item) ? index : -1))
+    .filter(index => index !== -1);
+  const arranged = arrangeByMuscleGroup(
+    slots.map(index => plan[index]),
+    item => getMuscleGroup(item.exercise)
+  );
+
+  const result = [...plan];
+  slots.forEach((slot, i) => {
+    result[slot] = arranged[i];
+  });
+  return result;
+};
@@ -0,0 +1,129 @@
+import { Exercise, ExerciseType } from '../../types/db';
+import { PlanItem, PlanPhase } from '../../types/app';
+import { getExerciseMetadata } from '../exercises/metadata';
+
+/**
+ * 訓練階段顯示名稱 (Plan Phase Labels)
+ */
+export const PLAN_PHASE_LABELS: Record<PlanPhase, string> = {
+  warmup: '暖身',
+  main: '主訓練',
+  cooldown: '緩和伸展',
+};
+
+/** 暖身/緩和各佔總時長的比例 */
+const PHASE_RATIO = 0.1;
+
+/** 單一階段的最短與最長秒數 */
+const MIN_PHASE_SECONDS = 60;
+const MAX_PHASE_SECONDS = 300;
+
+/** 單一動作的最短秒數，剩餘時間不足時併入前一個動作 */
+const MIN_ITEM_SECONDS = 15;
+
+/** 總時長低於此分鐘數時不安排暖身與緩和 */
+const MIN_MINUTES_FOR_PHASES = 10;
+
+/** 僅用於暖身的運動類型 */
+const WARMUP_TYPES: ExerciseType[] = ['warmup', 'mobility'];
+
+/** 僅用於緩和的運動類型 */
+const COOLDOWN_TYPES: ExerciseType[] = ['stretch', 'mobility'];
+
+const isLowIntensity = (exercise: Exercise): boolean =>
+  getExerciseMetadata(exercise).intensity === 'low';
+
+/**
+ * 是否為僅供暖身/緩和使用的動作 (Is Phase-only Exercise)
+ *
+ * 活動度、暖身與伸展類動作不會被排入主訓練
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @returns {boolean}
+ */
+export const isPhaseOnlyExercise = (exercise: Exercise): boolean => {
+  const type = getExerciseMetadata(exercise).exercise_type;
+  return type !== null && (WARMUP_TYPES.includes(type) || COOLDOWN_TYPES.includes(type));
+};
+
+/**
+ * 是否適合用於指定階段 (Is Exercise Suitable for Phase)
+ *
+ * - 暖身: 類型為 warmup、mobility，或低強度
+ * - 緩和: 類型為 stretch、mobility，或低強度
+ *
+ * @param {Exercise} exercise - 運動項目
+ * @param {'warmup' | 'cooldown'} phase - 訓練階段
+ * @returns {boolean}
+ */
+export const isPhaseCandidate = (exercise: Exercise, phase: 'warmup' | 'cooldown'): boolean => {
+  const type = getExerciseMetadata(exercise).exercise_type;
+  const types = phase === 'warmup' ? WARMUP_TYPES : COOLDOWN_TYPES;
+  return (type !== null && types.includes(type)) || isLowIntensity(exercise);
+};
+
+/**
+ * 計算暖身與緩和的時間配額 (Get Phase Budget)
+ *
+ * 各佔總時長的 10%，並限制在 60 ~ 300 秒之間；
+ * 總時長低於 10 分鐘時不安排 (回傳 0)
+ *
+ * @param {number} durationMinutes - 總訓練時長 (分鐘)
+ * @returns {{ warmupSeconds: number; cooldownSeconds: number }}
+ *
+ * @example
+ * getPhaseBudget(30) // returns { warmupSeconds: 180, cooldownSeconds: 180 }
+ */
+export const getPhaseBudget = (durationMinutes: number): { warmupSeconds: number; cooldownSeconds: number } => {
+  if (durationMinutes < MIN_MINUTES_FOR_PHASES) {
+    return { warmupSeconds: 0, cooldownSeconds: 0 };
+  }
+  const seconds = Math.min(
+    MAX_PHASE_SECONDS,
+    Math.max(MIN_PHASE_SECONDS, Math.round(durationMinutes * 60 * PHASE_RATIO))
+  );
+  return { warmupSeconds: seconds, cooldownSeconds: seconds };
+};
+
+/**
+ * 建立暖身或緩和區塊 (Build Phase Block)
+ *
+ * 從候選動作中依序取用 (不插入休息)，直到填滿配額；
+ * 最後一個動作會調整長度以剛好符合配額。若無候選動作則回傳空陣列
+ *
+ * @param {Exercise[]} pool - 可用動作 (已依器材、難度篩選)
+ * @param {'warmup' | 'cooldown'} phase - 訓練階段
+ * @param {number} seconds - 時間配額 (秒)
+ * @returns {PlanItem[]} 該階段的課表項目
+ */
+export const buildPhaseBlock = (
+  pool: Exercise[],
+  phase: 'warmup' | 'cooldown',
+  seconds: number
+): PlanItem[] => {
+  const candidates = pool.filter(ex => isPhaseCandidate(ex, phase));
+  if (seconds <= 0 || candidates.length === 0) return [];
+
+  const block: PlanItem[] = [];
+  let remaining = seconds;
+  let index = 0;
+
+  while (remaining > 0) {
+    const exercise = candidates[index % candidates.length];
+    let duration = Math.min(exercise.duration_seconds, remaining);
+    // 剩餘時間過短時直接併入此動作，避免出現數秒的零碎項目
+    if (remaining - duration < MIN_ITEM_SECONDS) duration = remaining;
+
+    block.push({
+      type: 'exercise',
+      duration,
+      exercise,
+      title: exercise.name,
+      phase,
+    });
+    remaining -= duration;
+    index++;
+  }
+
+  return block;
+};
@@ -0,0 +1,247 @@
+import { Exercise } from '../../types/db';
+import { PlanItem, PlanPhase, UserPreferences } from '../../types/app';
+import { getExerciseMetadata, isEquipmentAvailable } from '../exercises/metadata';
+import { REST_DURATION } from './fitting';
+import { isPhaseCandidate, isPhaseOnlyExercise } from './phases';
+import { DEFAULT_TEMPO, estimateRepDuration, getRepPrescriber, isRepBasedItem } from './reps';
+import { findExerciseVariants, swapPlanItemExercise } from './relations';
+
+/** 計時制動作可調整的秒數範圍 */
+export const EDIT_DURATION_BOUNDS = { min: 10, max: 300 };
+
+/** 休息可調整的秒數範圍 (0 表示不休息) */
+export const EDIT_REST_BOUNDS = { min: 0, max: 180 };
+
+/** 次數制動作可調整的次數範圍 */
+export const EDIT_REPS_BOUNDS = { min: 1, max: 50 };
+
+/**
+ * 課表區塊 (Plan Block)
+ * 總覽畫面的編輯單位：一個動作與緊接在後的休息
+ */
+export interface PlanBlock {
+  exercise: PlanItem;
+
+  /** 動作後的休息 (沒有時為 null) */
+  rest: PlanItem | null;
+}
+
+const clamp = (value: number, bounds: { min: number; max: number }): number =>
+  Math.min(bounds.max, Math.max(bounds.min, Math.round(value)));
+
+/**
+ * 將課表拆成區塊 (Plan → Blocks)
+ *
+ * 每個動作與其後的休息為一個區塊；開頭沒有動作的休息會被略過
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @returns {PlanBlock[]}
+ */
+export const toPlanBlocks = (plan: PlanItem[]): PlanBlock[] =>
+  plan.reduce<PlanBlock[]>((blocks, item) => {
+    if (item.type === 'exercise') {
+      blocks.push({ exercise: item, rest: null });
+    } else if (blocks.length > 0) {
+      const last = blocks[blocks.length - 1];
+      // 連續的休息合併為一段
+      last.rest = last.rest ? { ...last.rest, duration: last.rest.duration + item.duration } : item;
+    }
+    return blocks;
+  }, []);
+
+/**
+ * 將區塊組回課表 (Blocks → Plan)
+ *
+ * 最後一個動作後不需要休息，會一併移除
+ *
+ * @param {PlanBlock[]} blocks - 課表區塊
+ * @returns {PlanItem[]}
+ */
+export const fromPlanBlocks = (blocks: PlanBlock[]): PlanItem[] =>
+  blocks.flatMap((block, index) =>
+    block.rest && index < blocks.length - 1 ? [block.exercise, block.rest] : [block.exercise]
+  );
+
+const updateBlocks = (plan: PlanItem[], update: (blocks: PlanBlock[]) => PlanBlock[]): PlanItem[] =>
+  fromPlanBlocks(update(toPlanBlocks(plan)));
+
+/**
+ * 移動動作 (Move Plan Block)
+ * 休息長度留在原位置 (動作間的節奏不變)；移動到其他階段時改為該階段
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} from - 原區塊索引
+ * @param {number} to - 目標區塊索引
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const movePlanBlock = (plan: PlanItem[], from: number, to: number): PlanItem[] =>
+  updateBlocks(plan, blocks => {
+    if (from === to || !blocks[from] || !blocks[to]) return blocks;
+
+    const exercises = blocks.map(block => block.exercise);
+    const [moved] = exercises.splice(from, 1);
+    const phase: PlanPhase = blocks[to].exercise.phase ?? 'main';
+    exercises.splice(to, 0, { ...moved, phase });
+    return exercises.map((exercise, i) => ({ exercise, rest: blocks[i].rest }));
+  });
+
+/**
+ * 移除動作 (Remove Plan Block)
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 區塊索引
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const removePlanBlock = (plan: PlanItem[], index: number): PlanItem[] =>
+  updateBlocks(plan, blocks => blocks.filter((_, i) => i !== index));
+
+/**
+ * 更換動作 (Replace Block Exercise)
+ * 只更換此區塊，次數制項目的處理見 swapPlanItemExercise
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 區塊索引
+ * @param {Exercise} exercise - 新動作
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const replaceBlockExercise = (plan: PlanItem[], index: number, exercise: Exercise): PlanItem[] =>
+  updateBlocks(plan, blocks =>
+    blocks.map((block, i) => (i === index ? { ...block, exercise: swapPlanItemExercise(block.exercise, exercise) } : block))
+  );
+
+/**
+ * 新增動作 (Add Exercise To Plan)
+ *
+ * 加在主訓練最後 (緩和伸展之前)，前一個動作沒有休息時補上預設休息；
+ * 次數制的判斷與生成時相同 (見 getRepPrescriber)，其餘以建議時長計時
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {Exercise} exercise - 新動作
+ * @param {UserPreferences | null} prefs - 使用者偏好 (決定次數制與組數)
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const addExerciseToPlan = (
+  plan: PlanItem[],
+  exercise: Exercise,
+  prefs: UserPreferences | null
+): PlanItem[] =>
+  updateBlocks(plan, blocks => {
+    const item: PlanItem = (prefs && getRepPrescriber(prefs)?.(exercise))
+      ?? { type: 'exercise', duration: exercise.duration_seconds, exercise, title: exercise.name, phase: 'main' };
+
+    const cooldownStart = blocks.findIndex(block => block.exercise.phase === 'cooldown');
+    const insertAt = cooldownStart === -1 ? blocks.length : cooldownStart;
+    const next = blocks.map((block, i) =>
+      i === insertAt - 1 && !block.rest
+        ? { ...block, rest: { type: 'rest' as const, duration: REST_DURATION, title: '休息', phase: block.exercise.phase } }
+        : block
+    );
+    // 與生成結果相同，主訓練與緩和之間不安排休息
+    next.splice(insertAt, 0, { exercise: item, rest: null });
+    return next;
+  });
+
+/**
+ * 調整動作時長 (Set Block Duration)
+ * 次數制項目請改用 setBlockReps
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 區塊索引
+ * @param {number} seconds - 新時長 (秒)，限制於 EDIT_DURATION_BOUNDS
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const setBlockDuration = (plan: PlanItem[], index: number, seconds: number): PlanItem[] =>
+  updateBlocks(plan, blocks =>
+    blocks.map((block, i) =>
+      i === index && !isRepBasedItem(block.exercise)
+        ? { ...block, exercise: { ...block.exercise, duration: clamp(seconds, EDIT_DURATION_BOUNDS) } }
+        : block
+    )
+  );
+
+/**
+ * 調整每組次數 (Set Block Reps)
+ * 重新估算預估時長
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 區塊索引
+ * @param {number} reps - 新次數，限制於 EDIT_REPS_BOUNDS
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const setBlockReps = (plan: PlanItem[], index: number, reps: number): PlanItem[] =>
+  updateBlocks(plan, blocks =>
+    blocks.map((block, i) => {
+      if (i !== index || !isRepBasedItem(block.exercise)) return block;
+      const item = block.exercise;
+      const nextReps = clamp(reps, EDIT_REPS_BOUNDS);
+      return {
+        ...block,
+        exercise: {
+          ...item,
+          reps: nextReps,
+          duration: estimateRepDuration(item.sets ?? 1, nextReps, item.tempo ?? DEFAULT_TEMPO, item.setRestSeconds ?? 0),
+        },
+      };
+    })
+  );
+
+/**
+ * 調整動作後的休息 (Set Block Rest)
+ * 設為 0 時移除休息；原本沒有休息時新增一段
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 區塊索引
+ * @param {number} seconds - 休息秒數，限制於 EDIT_REST_BOUNDS
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const setBlockRest = (plan: PlanItem[], index: number, seconds: number): PlanItem[] =>
+  updateBlocks(plan, blocks =>
+    blocks.map((block, i) => {
+      if (i !== index) return block;
+      const duration = clamp(seconds, EDIT_REST_BOUNDS);
+      if (duration === 0) return { ...block, rest: null };
+      return {
+        ...block,
+        rest: block.rest
+          ? { ...block.rest, duration }
+          : { type: 'rest', duration, title: '休息', phase: block.exercise.phase },
+      };
+    })
+  );
+
+/**
+ * 尋找可替換的動作 (Find Swap Candidates)
+ *
+ * 候選動作需與原動作難度相同，且不需要原動作以外的器材；
+ * 暖身/緩和項目只考慮適合該階段的動作，主訓練則排除僅供暖身/緩和的動作。
+ * 排序：關係圖中的替代動作優先，其次為相同肌群，其餘維持 catalog 順序
+ *
+ * @param {PlanItem} item - 要替換的課表項目
+ * @param {Exercise[]} catalog - 可選的動作 (可先依器材、排除條件篩選)
+ * @returns {Exercise[]}
+ */
+export const findSwapCandidates = (item: PlanItem, catalog: Exercise[]): Exercise[] => {
+  const original = item.exercise;
+  if (!original) return [];
+
+  const metadata = getExerciseMetadata(original);
+  const equipment = ['bodyweight', ...metadata.equipment, ...metadata.equipment_any];
+  const phase = item.phase ?? 'main';
+
+  const candidates = catalog.filter(exercise =>
+    exercise.id !== original.id &&
+    getExerciseMetadata(exercise).difficulty === metadata.difficulty &&
+    isEquipmentAvailable(exercise, equipment) &&
+    (phase === 'main' ? !isPhaseOnlyExercise(exercise) : isPhaseCandidate(exercise, phase))
+  );
+
+  const alternatives = new Set(findExerciseVariants(original, candidates).alternatives.map(exercise => exercise.id));
+  const sharesMuscleGroup = (exercise: Exercise) =>
+    getExerciseMetadata(exercise).muscle_groups.some(group => metadata.muscle_groups.includes(group));
+  const rank = (exercise: Exercise) => (alternatives.has(exercise.id) ? 0 : sharesMuscleGroup(exercise) ? 1 : 2);
+
+  return candidates
+    .map((exercise, index) => ({ exercise, index }))
+    .sort((a, b) => rank(a.exercise) - rank(b.exercise) || a.index - b.index)
+    .map(({ exercise }) => exercise);
+};
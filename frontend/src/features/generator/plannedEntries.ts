@@ -0,0 +1,47 @@
+import { PlanItem } from '../../types/app';
+import { PlannedExerciseEntry } from '../../types/workoutLog';
+
+/**
+ * 取得課表項目的課表動作 (Plan Item → Planned Entry)
+ *
+ * 記錄階段、回合與之後的休息，讓 rebuildPlanFromLog 能還原課表
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} planIndex - 動作項目的索引
+ * @returns {PlannedExerciseEntry}
+ */
+export const toPlannedEntry = (plan: PlanItem[], planIndex: number): PlannedExerciseEntry => {
+  const item = plan[planIndex];
+  return {
+    name: item.title,
+    exerciseId: item.exercise?.id,
+    plannedDuration: item.duration,
+    ...(item.reps !== undefined && { targetReps: item.reps, targetSets: item.sets }),
+    phase: item.phase ?? 'main',
+    ...(item.format !== undefined && { format: item.format }),
+    ...(item.round !== undefined && { round: item.round }),
+    ...(item.totalRounds !== undefined && { totalRounds: item.totalRounds }),
+    restAfterSeconds: plan[planIndex + 1]?.type === 'rest' ? plan[planIndex + 1].duration : 0,
+  };
+};
+
+/**
+ * 將課表轉為課表動作列表 (Plan → Planned Entries)
+ * 用於儲存課表範本
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @returns {PlannedExerciseEntry[]} 依順序的動作 (休息併入 restAfterSeconds)
+ */
+export const toPlannedEntries = (plan: PlanItem[]): PlannedExerciseEntry[] =>
+  plan.flatMap((item, planIndex) => (item.type === 'exercise' ? [toPlannedEntry(plan, planIndex)] : []));
+
+/**
+ * 估算課表動作列表的總時長 (分鐘)：動作與休息秒數加總，至少 1 分鐘
+ *
+ * @param {PlannedExerciseEntry[]} entries - 課表動作
+ * @returns {number}
+ */
+export const estimatePlannedMinutes = (entries: PlannedExerciseEntry[]): number =>
+  Math.max(1, Math.round(
+    entries.reduce((sum, entry) => sum + entry.plannedDuration + (entry.restAfterSeconds ?? 0), 0) / 60
+  ));
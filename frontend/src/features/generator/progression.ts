@@ -0,0 +1,165 @@
+import { Exercise } from '../../types/db';
+import { PlanItem } from '../../types/app';
+import { ProgressionAdjustment, ProgressionProfile } from '../../types/feedback';
+import { getMuscleGroup } from './muscleGroups';
+import { isPhaseOnlyExercise } from './phases';
+import { findExerciseVariants } from './relations';
+import { DIFFICULTY_ORDER, getExerciseMetadata } from '../exercises/metadata';
+
+/** 保留動作時的時長調整比例 */
+const PROGRESS_DURATION_RATIO = 1.25;
+const REGRESS_DURATION_RATIO = 0.8;
+
+/** 次數制動作每次增減的次數與最低次數 */
+const REP_STEP = 2;
+const MIN_REPS = 3;
+
+/**
+ * 難度等級 (依 DIFFICULTY_ORDER，未標記時為 -1)
+ */
+const getLevel = (exercise: Exercise): number => {
+  const difficulty = getExerciseMetadata(exercise).difficulty;
+  return difficulty ? DIFFICULTY_ORDER.indexOf(difficulty) : -1;
+};
+
+/**
+ * 尋找變化動作 (Find Variant)
+ *
+ * 1. 優先依動作關係圖 (見 findExerciseVariants) 取較難 / 較簡單的動作
+ * 2. 沒有宣告關係時，以結構化資料推斷：同肌群、同類型、難度往指定方向最接近的一級
+ * 兩者皆排除目前已在候選動作中的動作
+ *
+ * @returns {Exercise | undefined}
+ */
+const findVariant = (
+  exercise: Exercise,
+  step: 1 | -1,
+  candidates: Exercise[],
+  taken: Set<string>
+): Exercise | undefined => {
+  const available = candidates.filter(candidate => !taken.has(candidate.id) && !isPhaseOnlyExercise(candidate));
+  const related = findExerciseVariants(exercise, available);
+  const laddered = step === 1 ? related.harder : related.easier;
+  if (laddered.length > 0) return laddered[0];
+
+  const level = getLevel(exercise);
+  const group = getMuscleGroup(exercise);
+  if (level === -1 || group === null) return undefined;
+
+  const type = getExerciseMetadata(exercise).exercise_type;
+  const variants = available
+    .filter(candidate =>
+      getMuscleGroup(candidate) === group
+      && getExerciseMetadata(candidate).exercise_type === type
+    )
+    .map(candidate => ({ candidate, diff: (getLevel(candidate) - level) * step }))
+    .filter(({ diff }) => diff > 0)
+    .sort((a, b) => a.diff - b.diff);
+
+  return variants[0]?.candidate;
+};
+
+/**
+ * 調整動作份量 (Scale Exercise Volume)
+ *
+ * 延長時以原建議時長為下限，縮短時以原建議時長為上限，避免時長調整又拉回原本的份量；
+ * 次數制動作同時增減建議次數
+ */
+const scaleExercise = (exercise: Exercise, direction: 'progress' | 'regress'): Exercise => {
+  const base = exercise.duration_seconds;
+  const ratio = direction === 'progress' ? PROGRESS_DURATION_RATIO : REGRESS_DURATION_RATIO;
+  const scaled: Exercise = {
+    ...exercise,
+    duration_seconds: Math.round(base * ratio),
+    ...(direction === 'progress' ? { min_duration_seconds: base } : { max_duration_seconds: base }),
+  };
+  if (exercise.default_reps !== undefined) {
+    scaled.default_reps = direction === 'progress'
+      ? exercise.default_reps + REP_STEP
+      : Math.max(MIN_REPS, exercise.default_reps - REP_STEP);
+  }
+  return scaled;
+};
+
+/**
+ * 依回饋調整候選動作 (Apply Progression)
+ *
+ * 對進程資料中方向為 progress / regress 的動作：
+ * 1. 優先換成較難 / 較簡單的變化動作 (關係圖優先，見 findVariant)
+ * 2. 找不到變化動作時保留原動作，延長 / 縮短時間 (次數制為增減次數)
+ *
+ * 較難的變化動作可超出使用者選擇的難度 (使用者已回報太簡單)，因此從器材符合的所有動作中尋找
+ *
+ * @param {Exercise[]} pool - 主訓練候選動作
+ * @param {Exercise[]} candidates - 可替換的動作 (器材符合，不限難度)
+ * @param {ProgressionProfile} [profile] - 使用者進程資料
+ * @param {boolean} [repBased] - 是否以次數制安排 (見 getRepPrescriber)，影響調整說明的文字
+ * @returns {{ exercises: Exercise[], adjustments: ProgressionAdjustment[] }} 調整後的候選動作與調整說明
+ *
+ * @example
+ * applyProgression(pool, candidates, { 'sq-001': { direction: 'progress', ... } })
+ * // 深蹲換成較難的高腳杯深蹲，或延長深蹲時間
+ */
+export const applyProgression = (
+  pool: Exercise[],
+  candidates: Exercise[],
+  profile?: ProgressionProfile,
+  repBased: boolean = false
+): { exercises: Exercise[]; adjustments: ProgressionAdjustment[] } => {
+  if (!profile) return { exercises: pool, adjustments: [] };
+
+  const taken = new Set(pool.map(ex => ex.id));
+  const adjustments: ProgressionAdjustment[] = [];
+
+  const exercises = pool.map(exercise => {
+    const summary = profile[exercise.id];
+    if (!summary || summary.direction === 'hold') return exercise;
+
+    const isProgress = summary.direction === 'progress';
+    const reason = isProgress ? '最近多次回報「太簡單」' : '最近多次回報「太難」';
+
+    const variant = findVariant(exercise, isProgress ? 1 : -1, candidates, taken);
+    if (variant) {
+      taken.add(variant.id);
+      adjustments.push({
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        kind: isProgress ? 'harder_variant' : 'easier_variant',
+        replacementId: variant.id,
+        replacementName: variant.name,
+        message: `${exercise.name}${reason}，改為${isProgress ? '較難' : '較簡單'}的${variant.name}`,
+      });
+      return variant;
+    }
+
+    const change = repBased && exercise.default_reps !== undefined
+      ? (isProgress ? '增加次數' : '減少次數')
+      : (isProgress ? '延長訓練時間' : '縮短訓練時間');
+    adjustments.push({
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      kind: isProgress ? 'longer' : 'shorter',
+      message: `${exercise.name}${reason}，${change}`,
+    });
+    return scaleExercise(exercise, summary.direction);
+  });
+
+  return { exercises, adjustments };
+};
+
+/**
+ * 只保留實際出現在課表中的調整 (Filter Adjustments By Plan)
+ *
+ * 候選動作不一定都會被排入課表，未排入的調整不需要顯示
+ *
+ * @param {ProgressionAdjustment[]} adjustments - applyProgression 回傳的調整
+ * @param {PlanItem[]} items - 最終課表
+ * @returns {ProgressionAdjustment[]}
+ */
+export const filterAdjustmentsByPlan = (
+  adjustments: ProgressionAdjustment[],
+  items: PlanItem[]
+): ProgressionAdjustment[] => {
+  const used = new Set(items.map(item => item.exercise?.id).filter(Boolean));
+  return adjustments.filter(adjustment => used.has(adjustment.replacementId ?? adjustment.exerciseId));
+};
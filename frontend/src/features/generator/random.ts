@@ -0,0 +1,65 @@
+/**
+ * 可設定種子的亂數產生器 (Seedable Random Number Generator)
+ *
+ * 課表生成的所有隨機行為都應透過此模組，
+ * 相同種子與相同輸入會產生完全相同的課表，方便重現問題或分享「同一份課表」
+ */
+
+/**
+ * 亂數函式，回傳 [0, 1) 之間的浮點數 (與 Math.random 相同介面)
+ */
+export type RandomFn = () => number;
+
+/**
+ * 產生新的隨機種子 (Generate Seed)
+ *
+ * @returns {number} 32-bit 無號整數種子
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/**
+ * 建立可重現的亂數函式 (Create Seeded Random)
+ *
+ * 使用 Mulberry32 演算法：狀態僅 32 bits、速度快，分布品質足以用於洗牌
+ *
+ * @param {number} seed - 種子 (會轉為 32-bit 無號整數)
+ * @returns {RandomFn} 亂數函式
+ *
+ * @example
+ * const random = createRandom(42);
+ * random(); // 每次以 42 建立時，第一個值都相同
+ */
+export const createRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+/**
+ * Fisher-Yates 洗牌演算法 (Fisher-Yates Shuffle Algorithm)
+ * 
+ * 用於隨機化陣列順序，確保每個元素出現在任何位置的機率相等
+ * 
+ * 演算法說明 (Algorithm Explanation):
+ * 從陣列末端開始，逐一與隨機位置的元素交換
+ * 時間複雜度 (Time Complexity): O(n)
+ * 空間複雜度 (Space Complexity): O(n) (創建副本)
+ * 
+ * @template T - 陣列元素型別 (Array element type)
+ * @param {T[]} array - 待洗牌的陣列 (Array to shuffle)
+ * @param {RandomFn} [random] - 亂數函式，傳入種子亂數可重現結果 (Random function)
+ * @returns {T[]} 洗牌後的新陣列 (Shuffled array)
+ */
+export function shuffle<T>(array: T[], random: RandomFn = Math.random): T[] {
+  const arr = [...array];
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
@@ -0,0 +1,94 @@
+import { Exercise, ExerciseRelationType } from '../../types/db';
+import { PlanItem } from '../../types/app';
+import { DEFAULT_TEMPO, estimateRepDuration, isRepBasedItem } from './reps';
+
+/**
+ * 動作變化 (Exercise Variants)
+ * 依關係圖整理出的較簡單 / 較難 / 替代動作
+ */
+export interface ExerciseVariants {
+  easier: Exercise[];
+  harder: Exercise[];
+  alternatives: Exercise[];
+}
+
+/**
+ * 是否宣告了指定關係 (from → to)
+ */
+const hasRelation = (from: Exercise, type: ExerciseRelationType, to: Exercise): boolean =>
+  (from.relations ?? []).some(relation => relation.type === type && relation.exercise_id === to.id);
+
+/**
+ * 尋找動作的變化版本 (Find Exercise Variants)
+ *
+ * 關係只需在其中一個動作上宣告，另一方向自動推得：
+ * - 較難：Y progression_of X，或 X regression_of Y
+ * - 較簡單：Y regression_of X，或 X progression_of Y
+ * - 替代：任一方宣告 alternative_to
+ * 結果維持 catalog 的順序
+ *
+ * @param {Exercise} exercise - 目前動作
+ * @param {Exercise[]} catalog - 可選的動作 (可先依器材、排除條件篩選)
+ * @returns {ExerciseVariants}
+ *
+ * @example
+ * findExerciseVariants(kneePushUp, MOCK_EXERCISES).harder // [標準伏地挺身]
+ */
+export const findExerciseVariants = (exercise: Exercise, catalog: Exercise[]): ExerciseVariants => {
+  const others = catalog.filter(candidate => candidate.id !== exercise.id);
+
+  return {
+    easier: others.filter(candidate =>
+      hasRelation(candidate, 'regression_of', exercise) || hasRelation(exercise, 'progression_of', candidate)
+    ),
+    harder: others.filter(candidate =>
+      hasRelation(candidate, 'progression_of', exercise) || hasRelation(exercise, 'regression_of', candidate)
+    ),
+    alternatives: others.filter(candidate =>
+      hasRelation(candidate, 'alternative_to', exercise) || hasRelation(exercise, 'alternative_to', candidate)
+    ),
+  };
+};
+
+/**
+ * 換成另一個動作的課表項目 (Swap Plan Item Exercise)
+ *
+ * 保留時長、階段與回合資訊；次數制項目改用新動作的建議次數與節奏 (沒有設定時沿用原處方)，
+ * 並重新估算時長
+ *
+ * @param {PlanItem} item - 原課表項目
+ * @param {Exercise} exercise - 新動作
+ * @returns {PlanItem}
+ */
+export const swapPlanItemExercise = (item: PlanItem, exercise: Exercise): PlanItem => {
+  const swapped: PlanItem = { ...item, exercise, title: exercise.name };
+  if (!isRepBasedItem(item)) return swapped;
+
+  const reps = exercise.default_reps ?? item.reps!;
+  const tempo = exercise.tempo ?? item.tempo ?? DEFAULT_TEMPO;
+  return {
+    ...swapped,
+    reps,
+    tempo,
+    duration: estimateRepDuration(item.sets ?? 1, reps, tempo, item.setRestSeconds ?? 0),
+  };
+};
+
+/**
+ * 在課表中換動作 (Swap Exercise In Plan)
+ *
+ * 從 fromIndex 起，所有與該位置相同的動作 (例如循環訓練後續回合) 一併換成新動作
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} fromIndex - 目前項目索引
+ * @param {Exercise} exercise - 新動作
+ * @returns {PlanItem[]} 新的課表 (不修改原陣列)
+ */
+export const swapExerciseInPlan = (plan: PlanItem[], fromIndex: number, exercise: Exercise): PlanItem[] => {
+  const originalId = plan[fromIndex]?.exercise?.id;
+  if (!originalId) return plan;
+
+  return plan.map((item, index) =>
+    index >= fromIndex && item.exercise?.id === originalId ? swapPlanItemExercise(item, exercise) : item
+  );
+};
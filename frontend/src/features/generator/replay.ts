@@ -0,0 +1,113 @@
+import { Exercise } from '../../types/db';
+import { ExclusionRules, GeneratedPlan, PlanItem } from '../../types/app';
+import { PlannedExerciseEntry, WorkoutSettings, settingsToPreferences } from '../../types/workoutLog';
+import { generateWorkoutPlan } from './engine';
+import { toPlannedEntries } from './plannedEntries';
+import { REST_DURATION } from './fitting';
+import { DEFAULT_TEMPO, SET_REST_SECONDS } from './reps';
+
+/**
+ * 重建結果 (Rebuilt Plan)
+ */
+export interface RebuiltPlan {
+  /** 課表項目 */
+  items: PlanItem[];
+
+  /** 找不到動作資料而略過的動作名稱 */
+  missing: string[];
+}
+
+/**
+ * 從訓練紀錄重建課表 (Rebuild Plan From Log)
+ *
+ * 依紀錄順序還原動作、時長、次數處方、階段與回合，並以 exerciseId 對應完整動作資料，
+ * 動作後依紀錄的秒數插入休息 (舊紀錄沒有休息資訊，改用預設休息 30 秒)
+ *
+ * @param {PlannedExerciseEntry[]} entries - 訓練紀錄或課表範本的動作列表
+ * @param {Exercise[]} catalog - 所有動作 (通常為 getAllExercises 的結果)
+ * @returns {RebuiltPlan}
+ *
+ * @example
+ * const { items, missing } = rebuildPlanFromLog(log.exercises, await getAllExercises());
+ */
+export const rebuildPlanFromLog = (entries: PlannedExerciseEntry[], catalog: Exercise[]): RebuiltPlan => {
+  const byId = new Map(catalog.map(exercise => [exercise.id, exercise]));
+  const resolved = entries.filter(entry => entry.exerciseId && byId.has(entry.exerciseId));
+  const missing = entries.filter(entry => !resolved.includes(entry)).map(entry => entry.name);
+
+  const items: PlanItem[] = [];
+  resolved.forEach((entry, index) => {
+    const exercise = byId.get(entry.exerciseId!)!;
+    const phase = entry.phase ?? 'main';
+    const position = {
+      phase,
+      ...(entry.format !== undefined && { format: entry.format }),
+      ...(entry.round !== undefined && { round: entry.round }),
+      ...(entry.totalRounds !== undefined && { totalRounds: entry.totalRounds }),
+    };
+
+    items.push({
+      type: 'exercise',
+      duration: entry.plannedDuration,
+      exercise,
+      title: exercise.name,
+      ...position,
+      ...(entry.targetReps !== undefined && {
+        reps: entry.targetReps,
+        sets: entry.targetSets ?? 1,
+        tempo: exercise.tempo ?? DEFAULT_TEMPO,
+        setRestSeconds: SET_REST_SECONDS,
+      }),
+    });
+
+    const next = resolved[index + 1];
+    const restSeconds = entry.restAfterSeconds ?? REST_DURATION;
+    if (!next || restSeconds <= 0) return;
+
+    const roundRest = entry.round !== undefined && next.round !== undefined && next.round !== entry.round;
+    items.push({
+      type: 'rest',
+      duration: restSeconds,
+      title: roundRest ? '回合休息' : '休息',
+      exercise: undefined,
+      ...position,
+      ...(roundRest && { roundRest }),
+    });
+  });
+
+  return { items, missing };
+};
+
+/** 比對課表是否相同時使用的欄位 (執行紀錄的實際秒數、回饋等不列入) */
+const PLANNED_ENTRY_KEYS: (keyof PlannedExerciseEntry)[] = [
+  'name', 'exerciseId', 'plannedDuration', 'targetReps', 'targetSets',
+  'phase', 'format', 'round', 'totalRounds', 'restAfterSeconds',
+];
+
+const isSamePlan = (a: PlannedExerciseEntry[], b: PlannedExerciseEntry[]): boolean =>
+  a.length === b.length && a.every((entry, index) => PLANNED_ENTRY_KEYS.every(key => entry[key] === b[index][key]));
+
+/**
+ * 以種子重新生成紀錄的課表 (Regenerate Plan From Seed)
+ *
+ * 以紀錄的設定與種子重新執行生成器；動作資料或排除規則改變時結果會與紀錄不同，
+ * 此時回傳 null，由呼叫端改用 rebuildPlanFromLog 依紀錄還原
+ *
+ * @param {WorkoutSettings} settings - 紀錄的設定 (含 seed)
+ * @param {PlannedExerciseEntry[]} entries - 紀錄的動作列表
+ * @param {ExclusionRules} [exclusions] - 使用者目前的排除規則
+ * @returns {Promise<GeneratedPlan | null>} 與紀錄相同的課表；沒有種子或結果不同時為 null
+ *
+ * @example
+ * const plan = await regeneratePlanFromSeed(log.settings, log.exercises, exclusions);
+ */
+export const regeneratePlanFromSeed = async (
+  settings: WorkoutSettings,
+  entries: PlannedExerciseEntry[],
+  exclusions?: ExclusionRules
+): Promise<GeneratedPlan | null> => {
+  if (settings.seed === undefined) return null;
+
+  const plan = await generateWorkoutPlan({ ...settingsToPreferences(settings), exclusions }, { seed: settings.seed });
+  return isSamePlan(toPlannedEntries(plan.items), entries) ? plan : null;
+};
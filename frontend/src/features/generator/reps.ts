@@ -0,0 +1,108 @@
+import { Exercise } from '../../types/db';
+import { PlanItem, UserPreferences } from '../../types/app';
+
+/**
+ * 採用次數制的訓練目標 (Goals Prescribed In Sets × Reps)
+ */
+const REP_BASED_GOALS = ['muscle'];
+
+/** 各難度的預設組數 */
+const DEFAULT_SETS: Record<UserPreferences['difficulty'], number> = {
+  beginner: 2,
+  intermediate: 3,
+  advanced: 4,
+};
+
+/** 預設動作節奏 (離心-停頓-向心) */
+export const DEFAULT_TEMPO = '2-0-2';
+
+/** 組間休息 (秒) */
+export const SET_REST_SECONDS = 60;
+
+/** 節奏無法解析時，每下預估秒數 */
+const FALLBACK_SECONDS_PER_REP = 3;
+
+/**
+ * 計算節奏每下所需秒數 (Tempo → Seconds Per Rep)
+ *
+ * @param {string} tempo - 例如 "2-1-2"
+ * @returns {number} 每下秒數，無法解析時回傳 3
+ *
+ * @example
+ * getSecondsPerRep('3-1-1') // returns 5
+ */
+export const getSecondsPerRep = (tempo: string): number => {
+  const parts = tempo.split('-').map(Number);
+  if (parts.length === 0 || parts.some(part => !Number.isFinite(part) || part < 0)) {
+    return FALLBACK_SECONDS_PER_REP;
+  }
+  const total = parts.reduce((sum, part) => sum + part, 0);
+  return total > 0 ? total : FALLBACK_SECONDS_PER_REP;
+};
+
+/**
+ * 預估次數制項目所需時間 (Estimate Rep Item Duration)
+ * 組數 × 次數 × 每下秒數 + 組間休息
+ *
+ * @returns {number} 預估秒數
+ */
+export const estimateRepDuration = (sets: number, reps: number, tempo: string, setRestSeconds: number): number =>
+  sets * reps * getSecondsPerRep(tempo) + Math.max(0, sets - 1) * setRestSeconds;
+
+/**
+ * 判斷是否為次數制項目
+ */
+export const isRepBasedItem = (item: PlanItem): boolean =>
+  item.type === 'exercise' && item.reps !== undefined;
+
+/**
+ * 建立次數制課表項目 (Create Rep-Based Plan Item)
+ *
+ * @param {Exercise} exercise - 運動項目 (需有 default_reps)
+ * @param {UserPreferences['difficulty']} difficulty - 難度 (決定預設組數)
+ * @returns {PlanItem}
+ */
+export const createRepItem = (exercise: Exercise, difficulty: UserPreferences['difficulty']): PlanItem => {
+  const reps = exercise.default_reps ?? 10;
+  const sets = exercise.default_sets ?? DEFAULT_SETS[difficulty];
+  const tempo = exercise.tempo ?? DEFAULT_TEMPO;
+
+  return {
+    type: 'exercise',
+    duration: estimateRepDuration(sets, reps, tempo, SET_REST_SECONDS),
+    exercise,
+    title: exercise.name,
+    phase: 'main',
+    reps,
+    sets,
+    tempo,
+    setRestSeconds: SET_REST_SECONDS,
+  };
+};
+
+/**
+ * 取得次數制轉換器 (Get Rep Prescriber)
+ *
+ * 肌力目標且為一般組數形式時，有設定 default_reps 的動作改以「組數 × 次數」安排，
+ * 其餘動作維持計時制
+ *
+ * @param {UserPreferences} prefs - 使用者偏好
+ * @returns {((exercise: Exercise) => PlanItem | null) | undefined} 不適用時回傳 undefined
+ */
+export const getRepPrescriber = (
+  prefs: UserPreferences
+): ((exercise: Exercise) => PlanItem | null) | undefined => {
+  if (!REP_BASED_GOALS.includes(prefs.goal)) return undefined;
+  if ((prefs.format ?? 'straight') !== 'straight') return undefined;
+
+  return exercise => (exercise.default_reps !== undefined ? createRepItem(exercise, prefs.difficulty) : null);
+};
+
+/**
+ * 格式化次數制處方 (Format Rep Prescription)
+ *
+ * @example
+ * formatRepPrescription({ sets: 3, reps: 10, ... }) // returns '3 組 × 10 下'
+ */
+export const formatRepPrescription = (item: PlanItem): string =>
+  `${item.sets ?? 1} 組 × ${item.reps} 下`;
@@ -0,0 +1,44 @@
+import { PlannedWorkout, PlannedWorkoutStatus } from '../../types/plannedWorkout';
+import { WorkoutLog } from '../../types/workoutLog';
+
+/**
+ * 日期 → 日曆鍵值 (YYYY-MM-DD，本地時區)
+ *
+ * @param {Date} date - 日期
+ * @returns {string}
+ *
+ * @example
+ * toDateKey(new Date(2026, 0, 5)) // '2026-01-05'
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 取得排程狀態 (Get Planned Workout Status)
+ *
+ * @param {PlannedWorkout} plan - 排程
+ * @param {Date} now - 目前時間 (今天的排程仍視為 planned)
+ * @returns {PlannedWorkoutStatus}
+ */
+export const getPlannedWorkoutStatus = (plan: PlannedWorkout, now: Date = new Date()): PlannedWorkoutStatus => {
+  if (plan.completed_log_id) return 'completed';
+  return plan.date < toDateKey(now) ? 'missed' : 'planned';
+};
+
+/**
+ * 找出訓練紀錄可滿足的排程 (Find Matching Planned Workout)
+ *
+ * 只比對與紀錄同一天 (依開始時間) 且尚未完成的排程，至少完成一個動作才算數；
+ * 目標相同的排程優先，其次為最早建立的排程
+ *
+ * @param {PlannedWorkout[]} plans - 排程列表 (依建立時間排序)
+ * @param {WorkoutLog} log - 剛儲存的訓練紀錄
+ * @returns {PlannedWorkout | null}
+ */
+export const findMatchingPlannedWorkout = (plans: PlannedWorkout[], log: WorkoutLog): PlannedWorkout | null => {
+  if (!log.exercises.some(entry => entry.completed)) return null;
+
+  const date = toDateKey(new Date(log.started_at));
+  const open = plans.filter(plan => plan.date === date && !plan.completed_log_id);
+  return open.find(plan => plan.goal === log.settings.goal) ?? open[0] ?? null;
+};
@@ -0,0 +1,463 @@
+import { PlanItem } from '../../types/app';
+import { PlayerItemRecord, PlayerProgress, WorkoutResult } from '../../types/session';
+import { ExerciseFeedback } from '../../types/workoutLog';
+import { isRepBasedItem } from '../generator/reps';
+import { Stopwatch, createStopwatch, pauseStopwatch, readStopwatch, startStopwatch } from './stopwatch';
+
+/**
+ * 播放器狀態 (Player Engine State)
+ *
+ * 剩餘時間、組間休息與訓練秒數皆由碼錶與 now 推算，不在每秒遞減；
+ * 所有轉換皆為純函式 (傳入目前時間)，由 usePlayerEngine 負責定時更新
+ */
+export interface PlayerEngineState {
+  /** 最後一次更新的時間 (epoch 毫秒)，衍生數值皆以此計算 */
+  now: number;
+
+  currentIndex: number;
+
+  isPaused: boolean;
+
+  /** 最後一個項目已結束 */
+  isFinished: boolean;
+
+  /** 實際訓練時間 (暫停不計) */
+  session: Stopwatch;
+
+  /** 目前項目本次進行的時間 */
+  item: Stopwatch;
+
+  /** 目前項目本次進入的時間 (epoch 毫秒) */
+  itemEnteredAt: number;
+
+  /** 目前項目的時間調整 (毫秒，±15 秒累加) */
+  itemExtraMs: number;
+
+  /** 各項目先前停留的時間 (key 為 plan 索引，不含目前項目本次) */
+  itemTimings: Record<number, PlayerItemTiming>;
+
+  /** 各項目的難度回饋 (key 為 plan 索引) */
+  feedback: Record<number, ExerciseFeedback>;
+
+  /** 已完成的項目索引 (含休息) */
+  completedItems: number[];
+
+  /** 被跳過且之後未完成的動作索引 */
+  skippedExercises: number[];
+
+  /** 次數制：目前第幾組 (0 起算) */
+  setIndex: number;
+
+  /** 次數制：目前這組的次數 */
+  repCount: number;
+
+  /** 次數制：組間休息結束時的項目時間 (毫秒) */
+  setRestEndsAtMs: number;
+
+  /** 次數制動作各組實際次數 (key 為 plan 索引) */
+  repLog: Record<number, number[]>;
+
+  /** 正常結束 (時間到或完成最後一組) 的項目數，用於播放結束音效 */
+  finishedItems: number;
+}
+
+/**
+ * 單一項目的停留時間 (所有進入次數累計)
+ */
+export interface PlayerItemTiming {
+  /** 第一次進入時間 (epoch 毫秒) */
+  firstEnteredAt: number;
+
+  /** 最後一次離開時間 (epoch 毫秒) */
+  lastLeftAt: number;
+
+  /** 實際進行的毫秒數 (暫停不計) */
+  activeMs: number;
+
+  /** 停留的毫秒數 (含暫停) */
+  stayMs: number;
+}
+
+/** 每次調整的秒數 */
+export const PLAYER_TIME_STEP_SECONDS = 15;
+
+/** 狀態轉換 (傳入目前課表與時間) */
+export type PlayerTransition = (state: PlayerEngineState, plan: PlanItem[], now: number) => PlayerEngineState;
+
+const createItemStopwatch = (isPaused: boolean, startedAt: number, elapsedMs: number = 0): Stopwatch =>
+  isPaused ? createStopwatch(elapsedMs) : startStopwatch(createStopwatch(elapsedMs), startedAt);
+
+/**
+ * 建立播放器狀態
+ * 傳入 progress 時從檢查點還原 (回到相同項目與剩餘時間，以暫停狀態開始)
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} now - 目前時間 (epoch 毫秒)
+ * @param {PlayerProgress} [progress] - 檢查點進度
+ * @returns {PlayerEngineState}
+ */
+export const createPlayerEngine = (plan: PlanItem[], now: number, progress?: PlayerProgress): PlayerEngineState => {
+  const currentIndex = progress?.currentIndex ?? 0;
+  const item = plan[currentIndex];
+  const isPaused = !!progress;
+  const isRepItem = isRepBasedItem(item);
+  // 計時項目：由調整後的時長與剩餘時間推算本次已進行的時間
+  const itemExtraMs = progress && !isRepItem ? progress.timeAdjustSeconds * 1000 : 0;
+  const itemElapsedMs = progress && !isRepItem
+    ? Math.max(0, item.duration * 1000 + itemExtraMs - progress.timeLeft * 1000)
+    : 0;
+
+  // 目前項目本次已進行的時間由 item 碼錶接續，紀錄只保留先前的部分
+  const itemTimings: Record<number, PlayerItemTiming> = {};
+  const feedback: Record<number, ExerciseFeedback> = {};
+  progress?.items.forEach(record => {
+    const offsetMs = record.index === currentIndex ? itemElapsedMs : 0;
+    itemTimings[record.index] = {
+      firstEnteredAt: Date.parse(record.startedAt),
+      lastLeftAt: record.endedAt ? Date.parse(record.endedAt) : now,
+      activeMs: Math.max(0, record.activeSeconds * 1000 - offsetMs),
+      stayMs: Math.max(0, (record.activeSeconds + record.pausedSeconds) * 1000 - offsetMs),
+    };
+    if (record.feedback) feedback[record.index] = record.feedback;
+  });
+
+  return {
+    now,
+    currentIndex,
+    isPaused,
+    isFinished: false,
+    session: createItemStopwatch(isPaused, now, (progress?.elapsedSeconds ?? 0) * 1000),
+    item: createItemStopwatch(isPaused, now, itemElapsedMs),
+    itemEnteredAt: now - itemElapsedMs,
+    itemExtraMs,
+    itemTimings,
+    feedback,
+    completedItems: progress?.completedItems ?? [],
+    skippedExercises: progress?.skippedExercises ?? [],
+    setIndex: progress?.setIndex ?? 0,
+    repCount: progress?.repCount ?? item.reps ?? 0,
+    setRestEndsAtMs: progress && isRepItem ? progress.setRestLeft * 1000 : 0,
+    repLog: progress?.repLog ?? {},
+    finishedItems: 0,
+  };
+};
+
+/** 目前項目的時間長度 (毫秒，含調整) */
+const getItemTargetMs = (state: PlayerEngineState, plan: PlanItem[]): number =>
+  plan[state.currentIndex].duration * 1000 + state.itemExtraMs;
+
+/** 將目前項目本次停留的時間計入該項目 */
+const recordItemTime = (state: PlayerEngineState, at: number): Record<number, PlayerItemTiming> => {
+  const previous = state.itemTimings[state.currentIndex];
+  return {
+    ...state.itemTimings,
+    [state.currentIndex]: {
+      firstEnteredAt: previous?.firstEnteredAt ?? state.itemEnteredAt,
+      lastLeftAt: at,
+      activeMs: (previous?.activeMs ?? 0) + readStopwatch(state.item, at),
+      stayMs: (previous?.stayMs ?? 0) + Math.max(0, at - state.itemEnteredAt),
+    },
+  };
+};
+
+/**
+ * 進入指定項目 (重設項目計時與組數)
+ * startedAt 可早於 now：背景期間已結束的項目，超出的時間延續到下一個項目
+ */
+const enterItem = (state: PlayerEngineState, plan: PlanItem[], index: number, startedAt: number): PlayerEngineState => ({
+  ...state,
+  currentIndex: index,
+  itemTimings: recordItemTime(state, startedAt),
+  item: createItemStopwatch(state.isPaused, startedAt),
+  itemEnteredAt: startedAt,
+  itemExtraMs: 0,
+  setIndex: 0,
+  repCount: plan[index].reps ?? 0,
+  setRestEndsAtMs: 0,
+});
+
+/** 進入下一個項目，已是最後一個時結束訓練 */
+const moveToNextItem = (state: PlayerEngineState, plan: PlanItem[], at: number): PlayerEngineState =>
+  state.currentIndex < plan.length - 1
+    ? enterItem(state, plan, state.currentIndex + 1, at)
+    : {
+        ...state,
+        isFinished: true,
+        itemTimings: recordItemTime(state, at),
+        session: pauseStopwatch(state.session, at),
+        item: createStopwatch(),
+      };
+
+/** 目前項目正常結束 (計入完成；先前跳過的動作回頭完成後不再算跳過) */
+const finishItem = (state: PlayerEngineState, plan: PlanItem[], at: number): PlayerEngineState => {
+  const { currentIndex, completedItems, skippedExercises } = state;
+  return moveToNextItem(
+    {
+      ...state,
+      completedItems: completedItems.includes(currentIndex) ? completedItems : [...completedItems, currentIndex],
+      skippedExercises: skippedExercises.filter(index => index !== currentIndex),
+      finishedItems: state.finishedItems + 1,
+    },
+    plan,
+    at
+  );
+};
+
+/**
+ * 更新至目前時間 (Advance)
+ *
+ * 計時項目時間到時進入下一個項目；分頁在背景期間可能已經過多個項目，
+ * 會依各項目實際結束的時間點逐一推進，直到次數制項目 (需使用者操作) 或訓練結束
+ */
+export const advancePlayerEngine: PlayerTransition = (state, plan, now) => {
+  let next = { ...state, now };
+  if (next.isPaused) return next;
+
+  while (!next.isFinished) {
+    const item = plan[next.currentIndex];
+    if (isRepBasedItem(item)) break;
+
+    const overtimeMs = readStopwatch(next.item, now) - getItemTargetMs(next, plan);
+    if (overtimeMs < 0) break;
+    next = finishItem(next, plan, now - overtimeMs);
+  }
+  return next;
+};
+
+/**
+ * 暫停或繼續 (暫停期間不計入訓練時間與項目時間)
+ *
+ * @param {boolean} paused - 是否暫停
+ * @returns {PlayerTransition}
+ */
+export const setPlayerPaused = (paused: boolean): PlayerTransition => (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  if (current.isFinished || current.isPaused === paused) return current;
+
+  const toggle = paused ? pauseStopwatch : startStopwatch;
+  return { ...current, isPaused: paused, session: toggle(current.session, now), item: toggle(current.item, now) };
+};
+
+/** 切換暫停狀態 */
+export const togglePlayerPaused: PlayerTransition = (state, plan, now) =>
+  setPlayerPaused(!state.isPaused)(state, plan, now);
+
+/** 跳過目前項目 (跳過的動作不算完成；已完成的動作回頭後再跳過仍算完成) */
+export const skipPlayerItem: PlayerTransition = (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  if (current.isFinished) return current;
+
+  const { currentIndex, completedItems, skippedExercises } = current;
+  const skipped = plan[currentIndex].type === 'exercise'
+    && !completedItems.includes(currentIndex)
+    && !skippedExercises.includes(currentIndex);
+  return moveToNextItem(
+    { ...current, skippedExercises: skipped ? [...skippedExercises, currentIndex] : skippedExercises },
+    plan,
+    now
+  );
+};
+
+/**
+ * 完成一組 (次數制)：記錄次數並進入組間休息，最後一組完成後進入下一個項目
+ * 組間休息中不可完成
+ */
+export const completePlayerSet: PlayerTransition = (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  const item = plan[current.currentIndex];
+  if (current.isFinished || !isRepBasedItem(item) || getSetRestLeft(current) > 0) return current;
+
+  // 第一組重新記錄 (回頭重做或重新開始時取代先前的紀錄)
+  const previousSets = current.setIndex > 0 ? current.repLog[current.currentIndex] ?? [] : [];
+  const repLog = { ...current.repLog, [current.currentIndex]: [...previousSets, current.repCount] };
+
+  if (current.setIndex < (item.sets ?? 1) - 1) {
+    return {
+      ...current,
+      repLog,
+      setIndex: current.setIndex + 1,
+      repCount: item.reps ?? 0,
+      setRestEndsAtMs: readStopwatch(current.item, now) + (item.setRestSeconds ?? 0) * 1000,
+    };
+  }
+  return finishItem({ ...current, repLog }, plan, now);
+};
+
+/** 提前結束組間休息 */
+export const skipPlayerSetRest: PlayerTransition = (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  return { ...current, setRestEndsAtMs: readStopwatch(current.item, now) };
+};
+
+/**
+ * 設定目前這組的次數 (不小於 0)
+ *
+ * @param {number} count - 次數
+ * @returns {PlayerTransition}
+ */
+export const setPlayerRepCount = (count: number): PlayerTransition => state => ({
+  ...state,
+  repCount: Math.max(0, count),
+});
+
+/**
+ * 記錄項目的難度回饋 (再次選擇相同回饋時取消)
+ *
+ * @param {number} index - plan 索引
+ * @param {ExerciseFeedback} feedback - 難度回饋
+ * @returns {PlayerTransition}
+ */
+export const setPlayerFeedback = (index: number, feedback: ExerciseFeedback): PlayerTransition => state => ({
+  ...state,
+  feedback: { ...state.feedback, [index]: state.feedback[index] === feedback ? null : feedback },
+});
+
+/**
+ * 回到上一個項目 (從頭開始；離開的項目不算完成也不算跳過)
+ * 已是第一個項目時不變
+ */
+export const previousPlayerItem: PlayerTransition = (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  if (current.isFinished || current.currentIndex === 0) return current;
+  return enterItem(current, plan, current.currentIndex - 1, now);
+};
+
+/** 重新開始目前項目 (重新倒數、組數歸零；例如換動作後) */
+export const restartPlayerItem: PlayerTransition = (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  if (current.isFinished) return current;
+  return enterItem(current, plan, current.currentIndex, now);
+};
+
+/**
+ * 調整時間：計時項目 (運動或休息) 增減剩餘時間，次數制項目增減組間休息
+ * 減少到沒有剩餘時間時提前結束該項目，與跳過相同 (不算完成)
+ *
+ * @param {number} seconds - 增減秒數 (負數為減少)
+ * @returns {PlayerTransition}
+ */
+export const adjustPlayerTime = (seconds: number): PlayerTransition => (state, plan, now) => {
+  const current = advancePlayerEngine(state, plan, now);
+  if (current.isFinished) return current;
+
+  const itemElapsedMs = readStopwatch(current.item, now);
+  if (isRepBasedItem(plan[current.currentIndex])) {
+    if (getSetRestLeft(current) === 0) return current;
+    return { ...current, setRestEndsAtMs: Math.max(itemElapsedMs, current.setRestEndsAtMs + seconds * 1000) };
+  }
+
+  const durationMs = plan[current.currentIndex].duration * 1000;
+  const itemExtraMs = current.itemExtraMs + seconds * 1000;
+  if (itemElapsedMs >= durationMs + itemExtraMs) return skipPlayerItem(current, plan, now);
+  return { ...current, itemExtraMs };
+};
+
+/**
+ * 是否可調整時間 (計時項目，或次數制的組間休息中)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @param {PlanItem[]} plan - 課表
+ * @returns {boolean}
+ */
+export const canAdjustPlayerTime = (state: PlayerEngineState, plan: PlanItem[]): boolean =>
+  !state.isFinished && (!isRepBasedItem(plan[state.currentIndex]) || getSetRestLeft(state) > 0);
+
+/**
+ * 目前項目剩餘秒數 (計時制)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @param {PlanItem[]} plan - 課表
+ * @returns {number}
+ */
+export const getTimeLeft = (state: PlayerEngineState, plan: PlanItem[]): number =>
+  Math.max(0, Math.ceil((getItemTargetMs(state, plan) - readStopwatch(state.item, state.now)) / 1000));
+
+/**
+ * 組間休息剩餘秒數 (次數制)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @returns {number}
+ */
+export const getSetRestLeft = (state: PlayerEngineState): number =>
+  Math.max(0, Math.ceil((state.setRestEndsAtMs - readStopwatch(state.item, state.now)) / 1000));
+
+/**
+ * 實際訓練秒數 (暫停不計)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @returns {number}
+ */
+export const getElapsedSeconds = (state: PlayerEngineState): number =>
+  Math.floor(readStopwatch(state.session, state.now) / 1000);
+
+/**
+ * 完成的運動數量 (不含休息與跳過)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @param {PlanItem[]} plan - 課表
+ * @returns {number}
+ */
+export const getCompletedExercises = (state: PlayerEngineState, plan: PlanItem[]): number =>
+  state.completedItems.filter(index => plan[index]?.type === 'exercise').length;
+
+/**
+ * 各項目執行紀錄 (依 plan 索引排序；目前項目視為停留到 now，endedAt 為 null)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @returns {PlayerItemRecord[]}
+ */
+export const getItemRecords = (state: PlayerEngineState): PlayerItemRecord[] => {
+  const timings = state.isFinished ? state.itemTimings : recordItemTime(state, state.now);
+
+  return Object.entries(timings)
+    .map(([key, timing]) => {
+      const index = Number(key);
+      const activeSeconds = Math.round(timing.activeMs / 1000);
+      return {
+        index,
+        startedAt: new Date(timing.firstEnteredAt).toISOString(),
+        endedAt: state.isFinished || index !== state.currentIndex ? new Date(timing.lastLeftAt).toISOString() : null,
+        activeSeconds,
+        pausedSeconds: Math.max(0, Math.round(timing.stayMs / 1000) - activeSeconds),
+        completed: state.completedItems.includes(index),
+        skipped: state.skippedExercises.includes(index),
+        feedback: state.feedback[index] ?? null,
+      };
+    })
+    .sort((a, b) => a.index - b.index);
+};
+
+/**
+ * 轉為訓練結果 (完成或中途離開時)
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @param {PlanItem[]} plan - 課表
+ * @returns {WorkoutResult}
+ */
+export const toWorkoutResult = (state: PlayerEngineState, plan: PlanItem[]): WorkoutResult => ({
+  completedExercises: getCompletedExercises(state, plan),
+  elapsedSeconds: getElapsedSeconds(state),
+  actualReps: state.repLog,
+  items: getItemRecords(state),
+});
+
+/**
+ * 轉為檢查點進度
+ *
+ * @param {PlayerEngineState} state - 播放器狀態
+ * @param {PlanItem[]} plan - 課表
+ * @returns {PlayerProgress}
+ */
+export const toPlayerProgress = (state: PlayerEngineState, plan: PlanItem[]): PlayerProgress => ({
+  currentIndex: state.currentIndex,
+  timeLeft: getTimeLeft(state, plan),
+  timeAdjustSeconds: state.itemExtraMs / 1000,
+  elapsedSeconds: getElapsedSeconds(state),
+  completedItems: state.completedItems,
+  skippedExercises: state.skippedExercises,
+  setIndex: state.setIndex,
+  repCount: state.repCount,
+  setRestLeft: getSetRestLeft(state),
+  repLog: state.repLog,
+  items: getItemRecords(state),
+});
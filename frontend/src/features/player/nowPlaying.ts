@@ -0,0 +1,25 @@
+import { PlanItem } from '../../types/app';
+import { MediaSessionInfo } from '../../utils/mediaSession';
+import { getRoundLabel } from '../generator/formats';
+
+/**
+ * 鎖定畫面顯示的目前項目資訊 (Now Playing Info)
+ *
+ * 標題為目前項目，副標題為下一個項目，第二行為進度 (含回合)
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {number} index - 目前項目索引
+ * @returns {MediaSessionInfo}
+ */
+export const getNowPlayingInfo = (plan: PlanItem[], index: number): MediaSessionInfo => {
+  const item = plan[index];
+  const next = plan[index + 1];
+  const roundLabel = getRoundLabel(item);
+
+  return {
+    title: item.title,
+    artist: next ? `下一個：${next.title}` : '最後一個項目',
+    album: `第 ${index + 1} / ${plan.length} 項${roundLabel ? ` · ${roundLabel}` : ''}`,
+    ...(item.type === 'exercise' && item.exercise?.video_url && { artworkUrl: item.exercise.video_url }),
+  };
+};
@@ -0,0 +1,35 @@
+import { PlanItem } from '../../types/app';
+import { WorkoutResult } from '../../types/session';
+import { ExerciseLogEntry } from '../../types/workoutLog';
+import { toPlannedEntry } from '../generator/plannedEntries';
+
+/**
+ * 將播放器結果轉為動作執行紀錄 (Workout Result → Exercise Log Entries)
+ *
+ * 以逐項執行紀錄為準：跳過的動作不論位置都記為未完成，
+ * actualDuration 為該動作實際進行秒數 (暫停不計，含回頭重做與時間調整)。
+ * 未進入的動作 (中途離開) 記為未完成、0 秒。
+ *
+ * @param {PlanItem[]} plan - 課表
+ * @param {WorkoutResult} result - 播放器結果
+ * @returns {ExerciseLogEntry[]} 依順序的動作 (休息併入 restAfterSeconds)
+ */
+export const buildExerciseLogEntries = (plan: PlanItem[], result: WorkoutResult): ExerciseLogEntry[] =>
+  plan.flatMap((item, planIndex) => {
+    if (item.type !== 'exercise') return [];
+
+    const record = result.items.find(entry => entry.index === planIndex);
+    return [{
+      ...toPlannedEntry(plan, planIndex),
+      actualDuration: record?.activeSeconds ?? 0,
+      completed: record?.completed ?? false,
+      feedback: record?.feedback ?? null,
+      ...(item.reps !== undefined && { actualReps: result.actualReps[planIndex] ?? [] }),
+      ...(record && {
+        startedAt: record.startedAt,
+        ...(record.endedAt && { endedAt: record.endedAt }),
+        pausedSeconds: record.pausedSeconds,
+        skipped: record.skipped,
+      }),
+    }];
+  });
@@ -0,0 +1,49 @@
+/**
+ * 碼錶 (Stopwatch)
+ * 以時間戳記計算經過時間，不依賴計時器觸發次數，因此分頁在背景被節流時也不會漂移
+ */
+export interface Stopwatch {
+  /** 先前各段累計的毫秒數 */
+  accumulatedMs: number;
+
+  /** 本段開始時間 (epoch 毫秒)，暫停時為 null */
+  runningSince: number | null;
+}
+
+/**
+ * 建立暫停中的碼錶
+ *
+ * @param {number} elapsedMs - 已經過的毫秒數 (從檢查點還原時使用)
+ * @returns {Stopwatch}
+ */
+export const createStopwatch = (elapsedMs: number = 0): Stopwatch => ({ accumulatedMs: elapsedMs, runningSince: null });
+
+/**
+ * 開始計時 (已在計時時不變)
+ *
+ * @param {Stopwatch} stopwatch - 碼錶
+ * @param {number} now - 開始時間 (epoch 毫秒)
+ * @returns {Stopwatch}
+ */
+export const startStopwatch = (stopwatch: Stopwatch, now: number): Stopwatch =>
+  stopwatch.runningSince === null ? { ...stopwatch, runningSince: now } : stopwatch;
+
+/**
+ * 讀取經過的毫秒數
+ *
+ * @param {Stopwatch} stopwatch - 碼錶
+ * @param {number} now - 目前時間 (epoch 毫秒)
+ * @returns {number}
+ */
+export const readStopwatch = (stopwatch: Stopwatch, now: number): number =>
+  stopwatch.accumulatedMs + (stopwatch.runningSince === null ? 0 : Math.max(0, now - stopwatch.runningSince));
+
+/**
+ * 暫停計時 (已暫停時不變)
+ *
+ * @param {Stopwatch} stopwatch - 碼錶
+ * @param {number} now - 暫停時間 (epoch 毫秒)
+ * @returns {Stopwatch}
+ */
+export const pauseStopwatch = (stopwatch: Stopwatch, now: number): Stopwatch =>
+  stopwatch.runningSince === null ? stopwatch : { accumulatedMs: readStopwatch(stopwatch, now), runningSince: null };
@@ -0,0 +1,228 @@
+import { Difficulty } from '../../types/db';
+import { WorkoutFormat } from '../../types/app';
+import {
+  ProgramDay,
+  ProgramDefinition,
+  ProgramEnrollment,
+  ProgramSession,
+  ProgramSessionRef,
+  ProgramSessionSettings,
+  ProgramWeekRule,
+} from '../../types/program';
+import { WorkoutLog } from '../../types/workoutLog';
+import { DIFFICULTY_ORDER } from '../exercises/metadata';
+import { WORKOUT_FORMAT_LABELS } from '../generator/formats';
+
+/**
+ * 計畫進度 (Program Progress)
+ */
+export interface ProgramProgress {
+  /** 總課表數 (週數 × 每週天數) */
+  totalSessions: number;
+
+  /** 已完成課表數 */
+  completedSessions: number;
+
+  /** 是否已完成整個計畫 */
+  finished: boolean;
+
+  /** 下一次課表 (完成計畫時為 null) */
+  nextSession: ProgramSession | null;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const positiveInt = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * 整理單次課表設定，忽略格式錯誤的欄位
+ */
+const normalizeSettings = (raw: RawRecord): ProgramSessionSettings => {
+  const difficulty = DIFFICULTY_ORDER.includes(raw.difficulty as Difficulty) ? (raw.difficulty as Difficulty) : undefined;
+  const format = typeof raw.format === 'string' && raw.format in WORKOUT_FORMAT_LABELS ? (raw.format as WorkoutFormat) : undefined;
+  const settings: ProgramSessionSettings = {
+    goal: nonEmptyString(raw.goal),
+    durationMinutes: positiveInt(raw.durationMinutes),
+    difficulty,
+    format,
+    rounds: positiveInt(raw.rounds),
+  };
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * 整理計畫定義 (Normalize Program Definition)
+ *
+ * 用於讀取資料檔，缺少必要欄位 (id、名稱、週數、預設目標 / 時長 / 難度、至少一個訓練日) 時回傳 null；
+ * 格式錯誤的進程規則與訓練日會被略過，進程規則依 fromWeek 排序
+ *
+ * @param {unknown} value - 原始資料
+ * @returns {ProgramDefinition | null}
+ */
+export const normalizeProgramDefinition = (value: unknown): ProgramDefinition | null => {
+  if (!isRecord(value)) return null;
+
+  const id = nonEmptyString(value.id);
+  const name = nonEmptyString(value.name);
+  const weeks = positiveInt(value.weeks);
+  const defaults = isRecord(value.defaults) ? normalizeSettings(value.defaults) : {};
+  const { goal, durationMinutes, difficulty } = defaults;
+
+  const progression = (Array.isArray(value.progression) ? value.progression : [])
+    .filter(isRecord)
+    .map(rule => ({ fromWeek: positiveInt(rule.fromWeek), ...normalizeSettings(rule) }))
+    .filter((rule): rule is ProgramWeekRule => rule.fromWeek !== undefined)
+    .sort((a, b) => a.fromWeek - b.fromWeek);
+
+  const days = (Array.isArray(value.days) ? value.days : [])
+    .filter(isRecord)
+    .map(day => ({ title: nonEmptyString(day.title), ...normalizeSettings(day) }))
+    .filter((day): day is ProgramDay => day.title !== undefined);
+
+  if (!id || !name || !weeks || !goal || !durationMinutes || !difficulty || days.length === 0) return null;
+
+  return {
+    id,
+    name,
+    description: nonEmptyString(value.description) ?? '',
+    weeks,
+    defaults: { ...defaults, goal, durationMinutes, difficulty },
+    progression,
+    days,
+  };
+};
+
+/**
+ * 取得計畫總課表數
+ */
+export const getTotalSessions = (program: ProgramDefinition): number => program.weeks * program.days.length;
+
+/**
+ * 取得計畫中的單次課表 (Get Program Session)
+ *
+ * 設定依序為：計畫預設 → 該週已生效的進程規則 → 訓練日設定
+ *
+ * @param {ProgramDefinition} program - 計畫定義
+ * @param {number} index - 課表索引 (0 起算)，超出範圍時回傳 null
+ * @returns {ProgramSession | null}
+ *
+ * @example
+ * getProgramSession(program, 4) // 每週 3 天時為第 2 週第 2 天
+ */
+export const getProgramSession = (program: ProgramDefinition, index: number): ProgramSession | null => {
+  if (!Number.isInteger(index) || index < 0 || index >= getTotalSessions(program)) return null;
+
+  const week = Math.floor(index / program.days.length) + 1;
+  const day = (index % program.days.length) + 1;
+  const { title, ...dayOverrides } = program.days[day - 1];
+  const weekOverrides = program.progression
+    .filter(rule => rule.fromWeek <= week)
+    .map(({ fromWeek: _fromWeek, ...settings }) => settings);
+  const settings = Object.assign({}, program.defaults, ...weekOverrides, dayOverrides) as ProgramDefinition['defaults'];
+
+  return {
+    programId: program.id,
+    week,
+    day,
+    title,
+    preferences: {
+      goal: settings.goal,
+      durationMinutes: settings.durationMinutes,
+      difficulty: settings.difficulty,
+      format: settings.format ?? 'straight',
+      ...(settings.rounds !== undefined && { rounds: settings.rounds }),
+    },
+  };
+};
+
+/**
+ * 取得計畫進度 (Get Program Progress)
+ *
+ * @param {ProgramDefinition} program - 計畫定義
+ * @param {ProgramEnrollment} enrollment - 參加狀態
+ * @returns {ProgramProgress}
+ */
+export const getProgramProgress = (program: ProgramDefinition, enrollment: ProgramEnrollment): ProgramProgress => {
+  const totalSessions = getTotalSessions(program);
+  const completedSessions = Math.min(enrollment.completedSessions, totalSessions);
+  return {
+    totalSessions,
+    completedSessions,
+    finished: completedSessions >= totalSessions,
+    nextSession: getProgramSession(program, completedSessions),
+  };
+};
+
+/**
+ * 建立參加狀態 (Create Program Enrollment)
+ */
+export const createProgramEnrollment = (programId: string, now: Date = new Date()): ProgramEnrollment => ({
+  programId,
+  startedAt: now.toISOString(),
+  completedSessions: 0,
+  lastCompletedAt: null,
+});
+
+/**
+ * 計畫位置 → 課表索引
+ */
+const getSessionIndex = (program: ProgramDefinition, ref: ProgramSessionRef): number =>
+  (ref.week - 1) * program.days.length + (ref.day - 1);
+
+/**
+ * 依訓練紀錄推進計畫 (Advance Program Enrollment)
+ *
+ * 只有紀錄屬於此計畫的「下一次課表」且至少完成一個動作時才推進，
+ * 重做舊課表或重複儲存同一次課表不會重複計算
+ *
+ * @param {ProgramEnrollment} enrollment - 參加狀態
+ * @param {ProgramDefinition} program - 計畫定義
+ * @param {WorkoutLog} log - 剛儲存的訓練紀錄
+ * @returns {ProgramEnrollment | null} 推進後的狀態，不需推進時回傳 null
+ */
+export const advanceProgramEnrollment = (
+  enrollment: ProgramEnrollment,
+  program: ProgramDefinition,
+  log: WorkoutLog
+): ProgramEnrollment | null => {
+  const ref = log.settings.program;
+  if (!ref || ref.programId !== enrollment.programId || ref.programId !== program.id) return null;
+  if (getSessionIndex(program, ref) !== enrollment.completedSessions) return null;
+  if (!log.exercises.some(entry => entry.completed)) return null;
+
+  return {
+    ...enrollment,
+    completedSessions: enrollment.completedSessions + 1,
+    lastCompletedAt: log.completed_at,
+  };
+};
+
+/**
+ * 整理參加狀態 (Normalize Program Enrollment)
+ * 用於讀取儲存資料，格式錯誤時回傳 null (視為未參加)
+ *
+ * @param {unknown} value - 儲存的資料
+ * @returns {ProgramEnrollment | null}
+ */
+export const normalizeProgramEnrollment = (value: unknown): ProgramEnrollment | null => {
+  if (!isRecord(value)) return null;
+
+  const programId = nonEmptyString(value.programId);
+  const startedAt = nonEmptyString(value.startedAt);
+  if (!programId || !startedAt) return null;
+
+  const completed = value.completedSessions;
+  return {
+    programId,
+    startedAt,
+    completedSessions: typeof completed === 'number' && Number.isInteger(completed) && completed >= 0 ? completed : 0,
+    lastCompletedAt: nonEmptyString(value.lastCompletedAt) ?? null,
+  };
+};
@@ -0,0 +1,89 @@
+import { ReminderSchedule } from '../../types/app';
+
+/**
+ * 預設提醒排程 (Default Reminder Schedule)：未啟用，週一、三、五 晚上 7 點
+ */
+export const DEFAULT_REMINDER_SCHEDULE: ReminderSchedule = { enabled: false, days: [1, 3, 5], time: '19:00' };
+
+/**
+ * 星期名稱 (0 = 週日)
+ */
+export const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * 整理提醒排程 (Normalize Reminder Schedule)
+ * 用於讀取儲存資料，移除無效的星期並排序；時間格式錯誤時改用預設時間
+ *
+ * @param {unknown} value - 儲存的資料
+ * @returns {ReminderSchedule}
+ */
+export const normalizeReminderSchedule = (value: unknown): ReminderSchedule => {
+  if (!value || typeof value !== 'object') return DEFAULT_REMINDER_SCHEDULE;
+
+  const raw = value as Record<string, unknown>;
+  const days = Array.isArray(raw.days)
+    ? [...new Set(raw.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))].sort((a, b) => a - b)
+    : DEFAULT_REMINDER_SCHEDULE.days;
+
+  return {
+    enabled: raw.enabled === true,
+    days,
+    time: typeof raw.time === 'string' && TIME_PATTERN.test(raw.time) ? raw.time : DEFAULT_REMINDER_SCHEDULE.time,
+  };
+};
+
+/**
+ * 取得接下來的提醒時間 (Get Upcoming Reminder Times)
+ *
+ * 從 now 之後 (不含 now) 依序列出，未啟用或沒有選擇星期時回傳空陣列
+ *
+ * @param {ReminderSchedule} schedule - 提醒排程
+ * @param {Date} now - 目前時間
+ * @param {number} count - 最多幾次
+ * @returns {Date[]}
+ *
+ * @example
+ * // 週一 20:00，排程為週一、三 19:00 → [週三 19:00, 下週一 19:00]
+ * getUpcomingReminderTimes({ enabled: true, days: [1, 3], time: '19:00' }, monday8pm, 2)
+ */
+export const getUpcomingReminderTimes = (schedule: ReminderSchedule, now: Date, count: number): Date[] => {
+  const { enabled, days, time } = normalizeReminderSchedule(schedule);
+  if (!enabled || days.length === 0) return [];
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const times: Date[] = [];
+
+  // 最多往後找 count 週 (每週至少一次)，再多一天涵蓋今天已過的提醒
+  for (let offset = 0; times.length < count && offset <= count * 7; offset++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, hours, minutes);
+    if (days.includes(candidate.getDay()) && candidate > now) {
+      times.push(candidate);
+    }
+  }
+
+  return times;
+};
+
+/**
+ * 取得下一次提醒時間 (Get Next Reminder Time)
+ *
+ * @param {ReminderSchedule} schedule - 提醒排程
+ * @param {Date} now - 目前時間
+ * @returns {Date | null} 未啟用或沒有選擇星期時回傳 null
+ */
+export const getNextReminderTime = (schedule: ReminderSchedule, now: Date = new Date()): Date | null =>
+  getUpcomingReminderTimes(schedule, now, 1)[0] ?? null;
+
+/**
+ * 提醒排程摘要，例如「每週一、三、五 19:00」
+ *
+ * @param {ReminderSchedule} schedule - 提醒排程
+ * @returns {string}
+ */
+export const describeReminderSchedule = (schedule: ReminderSchedule): string => {
+  if (!schedule.enabled || schedule.days.length === 0) return '未設定提醒';
+  if (schedule.days.length === 7) return `每天 ${schedule.time}`;
+  return `每週${schedule.days.map(day => WEEKDAY_LABELS[day]).join('、')} ${schedule.time}`;
+};
@@ -0,0 +1,136 @@
+import { PlayerItemRecord, PlayerProgress, WorkoutCheckpoint } from '../../types/session';
+
+/** 檢查點格式版本 (欄位變更時遞增，舊版本的檢查點會被捨棄) */
+export const WORKOUT_CHECKPOINT_VERSION = 1;
+
+/** 預設保留時間：超過 12 小時未更新的訓練不再詢問是否繼續 */
+export const DEFAULT_CHECKPOINT_MAX_AGE_HOURS = 12;
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const FEEDBACK_VALUES = ['too_easy', 'just_right', 'too_hard'];
+
+/** 整理單一項目執行紀錄，無效時回傳 undefined */
+const normalizeItemRecord = (value: unknown, planLength: number): PlayerItemRecord | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const raw = value as Record<string, unknown>;
+  if (!isCount(raw.index) || raw.index >= planLength) return undefined;
+  if (!isCount(raw.activeSeconds) || !isCount(raw.pausedSeconds) || !isTimestamp(raw.startedAt)) return undefined;
+
+  return {
+    index: raw.index,
+    startedAt: raw.startedAt,
+    endedAt: isTimestamp(raw.endedAt) ? raw.endedAt : null,
+    activeSeconds: raw.activeSeconds,
+    pausedSeconds: raw.pausedSeconds,
+    completed: raw.completed === true,
+    skipped: raw.skipped === true,
+    feedback: FEEDBACK_VALUES.includes(raw.feedback as string) ? raw.feedback as PlayerItemRecord['feedback'] : null,
+  };
+};
+
+/** 整理以 plan 索引為 key 的紀錄，只保留通過 normalize 的值 */
+const normalizeIndexRecord = <T>(value: unknown, normalize: (item: unknown) => T | undefined): Record<number, T> => {
+  const record: Record<number, T> = {};
+  if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([index, item]) => {
+      const normalized = normalize(item);
+      if (isCount(Number(index)) && normalized !== undefined) record[Number(index)] = normalized;
+    });
+  }
+  return record;
+};
+
+/**
+ * 整理播放器進度 (Normalize Player Progress)
+ * 索引超出課表範圍或數值無效時回傳 null
+ *
+ * @param {unknown} value - 儲存的資料
+ * @param {number} planLength - 課表項目數
+ * @returns {PlayerProgress | null}
+ */
+const normalizePlayerProgress = (value: unknown, planLength: number): PlayerProgress | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  const counts = [raw.currentIndex, raw.timeLeft, raw.elapsedSeconds, raw.setIndex, raw.repCount, raw.setRestLeft];
+  if (!counts.every(isCount) || (raw.currentIndex as number) >= planLength) return null;
+  if (!Number.isInteger(raw.timeAdjustSeconds)) return null;
+
+  const indexes = (value: unknown) =>
+    Array.isArray(value) ? value.filter((index): index is number => isCount(index) && index < planLength) : [];
+
+  return {
+    currentIndex: raw.currentIndex as number,
+    timeLeft: raw.timeLeft as number,
+    timeAdjustSeconds: raw.timeAdjustSeconds as number,
+    elapsedSeconds: raw.elapsedSeconds as number,
+    completedItems: indexes(raw.completedItems),
+    skippedExercises: indexes(raw.skippedExercises),
+    setIndex: raw.setIndex as number,
+    repCount: raw.repCount as number,
+    setRestLeft: raw.setRestLeft as number,
+    repLog: normalizeIndexRecord(raw.repLog, reps => (Array.isArray(reps) ? reps.filter(isCount) : undefined)),
+    items: Array.isArray(raw.items)
+      ? raw.items
+        .map(item => normalizeItemRecord(item, planLength))
+        .filter((item): item is PlayerItemRecord => item !== undefined)
+      : [],
+  };
+};
+
+/**
+ * 整理訓練檢查點 (Normalize Workout Checkpoint)
+ * 用於讀取儲存資料，版本不符、課表為空或進度無效時回傳 null
+ *
+ * @param {unknown} value - 儲存的資料
+ * @returns {WorkoutCheckpoint | null}
+ */
+export const normalizeWorkoutCheckpoint = (value: unknown): WorkoutCheckpoint | null => {
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  if (raw.version !== WORKOUT_CHECKPOINT_VERSION) return null;
+  if (!Array.isArray(raw.plan) || raw.plan.length === 0) return null;
+  if (!raw.preferences || typeof raw.preferences !== 'object') return null;
+  if (typeof raw.savedAt !== 'string' || Number.isNaN(Date.parse(raw.savedAt))) return null;
+
+  const progress = normalizePlayerProgress(raw.progress, raw.plan.length);
+  if (!progress) return null;
+
+  return {
+    version: WORKOUT_CHECKPOINT_VERSION,
+    savedAt: raw.savedAt,
+    startedAt: typeof raw.startedAt === 'string' ? raw.startedAt : raw.savedAt,
+    plan: raw.plan as WorkoutCheckpoint['plan'],
+    preferences: raw.preferences as WorkoutCheckpoint['preferences'],
+    planSeed: typeof raw.planSeed === 'number' ? raw.planSeed : undefined,
+    planAdjustments: Array.isArray(raw.planAdjustments) ? raw.planAdjustments as WorkoutCheckpoint['planAdjustments'] : [],
+    progress,
+  };
+};
+
+/**
+ * 檢查點是否已過期 (最後更新時間距今超過 maxAgeMs)
+ *
+ * @param {WorkoutCheckpoint} checkpoint - 訓練檢查點
+ * @param {Date} now - 目前時間
+ * @param {number} maxAgeMs - 保留時間 (毫秒)
+ * @returns {boolean}
+ */
+export const isCheckpointExpired = (checkpoint: WorkoutCheckpoint, now: Date, maxAgeMs: number): boolean =>
+  now.getTime() - Date.parse(checkpoint.savedAt) > maxAgeMs;
+
+/**
+ * 繼續訓練提示的摘要，例如「第 5 / 12 項：伏地挺身」
+ *
+ * @param {WorkoutCheckpoint} checkpoint - 訓練檢查點
+ * @returns {string}
+ */
+export const describeCheckpoint = (checkpoint: WorkoutCheckpoint): string => {
+  const { currentIndex } = checkpoint.progress;
+  return `第 ${currentIndex + 1} / ${checkpoint.plan.length} 項：${checkpoint.plan[currentIndex].title}`;
+};
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  MEDIA_SESSION_CONTROLS,
+  MediaSessionAdapter,
+  MediaSessionHandlers,
+  MediaSessionInfo,
+  getMediaSessionAdapter,
+} from '../utils/mediaSession';
+
+interface UseMediaSessionOptions {
+  /** 鎖定畫面資訊 */
+  info: MediaSessionInfo;
+  /** 是否正在進行 (決定顯示播放或暫停按鈕) */
+  isPlaying: boolean;
+  /** 各按鍵的處理函式 (可每次 render 傳入新的函式) */
+  handlers: MediaSessionHandlers;
+  /** Media Session 存取介面 (預設使用瀏覽器的 navigator.mediaSession，不支援時不做任何事) */
+  adapter?: MediaSessionAdapter | null;
+}
+
+/**
+ * useMediaSession Hook
+ * 將播放器狀態同步到鎖定畫面與耳機按鍵，卸載時清除
+ */
+export const useMediaSession = ({ info, isPlaying, handlers, adapter }: UseMediaSessionOptions) => {
+  const [session] = useState(() => (adapter === undefined ? getMediaSessionAdapter() : adapter));
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // 按鍵只註冊一次，觸發時呼叫最新的處理函式
+  const controlsKey = MEDIA_SESSION_CONTROLS.filter(control => handlers[control]).join(',');
+  useEffect(() => {
+    if (!session) return;
+
+    const registered: MediaSessionHandlers = {};
+    MEDIA_SESSION_CONTROLS.forEach(control => {
+      if (handlersRef.current[control]) registered[control] = () => handlersRef.current[control]?.();
+    });
+    session.setHandlers(registered);
+    return () => session.setHandlers({});
+  }, [session, controlsKey]);
+
+  const { title, artist, album, artworkUrl } = info;
+  useEffect(() => {
+    session?.setMetadata({ title, artist, album, artworkUrl });
+  }, [session, title, artist, album, artworkUrl]);
+
+  useEffect(() => {
+    session?.setPlaybackState(isPlaying ? 'playing' : 'paused');
+  }, [session, isPlaying]);
+
+  // 離開播放器時清除鎖定畫面資訊
+  useEffect(() => () => {
+    session?.setMetadata(null);
+    session?.setPlaybackState('none');
+  }, [session]);
+};
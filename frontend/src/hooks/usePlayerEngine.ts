@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PlanItem } from '../types/app';
+import { PlayerProgress, WorkoutResult } from '../types/session';
+import { ExerciseFeedback } from '../types/workoutLog';
+import {
+  PlayerEngineState,
+  PlayerTransition,
+  adjustPlayerTime,
+  advancePlayerEngine,
+  canAdjustPlayerTime,
+  completePlayerSet,
+  createPlayerEngine,
+  getCompletedExercises,
+  getElapsedSeconds,
+  getSetRestLeft,
+  getTimeLeft,
+  previousPlayerItem,
+  restartPlayerItem,
+  setPlayerFeedback,
+  setPlayerPaused,
+  setPlayerRepCount,
+  skipPlayerItem,
+  skipPlayerSetRest,
+  toWorkoutResult,
+  togglePlayerPaused,
+  toPlayerProgress,
+} from '../features/player/engine';
+
+/** 畫面更新間隔 (毫秒)，只影響顯示頻率，時間一律由時間戳記推算 */
+const TICK_INTERVAL_MS = 250;
+
+interface UsePlayerEngineOptions {
+  /** 從檢查點繼續 (以暫停狀態開始) */
+  initialProgress?: PlayerProgress;
+  /** 最後一個項目結束時呼叫一次 */
+  onFinish: (result: WorkoutResult) => void;
+  /** 進度變化時回調 (用於寫入檢查點，約每秒一次) */
+  onProgress?: (progress: PlayerProgress) => void;
+}
+
+/**
+ * usePlayerEngine Hook
+ * 訓練播放器的計時與流程 (項目切換、組數、暫停、跳過、上一個、重新開始、調整時間、難度回饋)
+ *
+ * - 時間由時間戳記推算，分頁在背景被節流或回到前景時會補上實際經過的時間
+ * - 課表目前項目被替換 (換動作) 時重新開始該項目
+ */
+export const usePlayerEngine = (plan: PlanItem[], { initialProgress, onFinish, onProgress }: UsePlayerEngineOptions) => {
+  const [state, setState] = useState<PlayerEngineState>(() => createPlayerEngine(plan, Date.now(), initialProgress));
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const planRef = useRef(plan);
+  planRef.current = plan;
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  const update = useCallback((transition: PlayerTransition) => {
+    const now = Date.now();
+    setState(prev => transition(prev, planRef.current, now));
+  }, []);
+
+  // 計時中定時更新；回到前景時立即更新
+  useEffect(() => {
+    if (state.isPaused || state.isFinished) return;
+
+    const tick = () => update(advancePlayerEngine);
+    const timer = window.setInterval(tick, TICK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [state.isPaused, state.isFinished, update]);
+
+  // 換動作：同一位置的項目被替換時重新開始
+  const itemRef = useRef({ index: state.currentIndex, item: plan[state.currentIndex] });
+  useEffect(() => {
+    const item = plan[state.currentIndex];
+    if (itemRef.current.index === state.currentIndex && itemRef.current.item !== item) {
+      update(restartPlayerItem);
+    }
+    itemRef.current = { index: state.currentIndex, item };
+  }, [plan, state.currentIndex, update]);
+
+  // 訓練結束 (只在 isFinished 變為 true 時呼叫一次)
+  useEffect(() => {
+    if (state.isFinished) {
+      onFinishRef.current(toWorkoutResult(state, planRef.current));
+    }
+  }, [state.isFinished]);
+
+  // 進度變化時回報 (以秒為單位比較，避免每次畫面更新都寫入)
+  const timeLeft = getTimeLeft(state, plan);
+  const setRestLeft = getSetRestLeft(state);
+  const elapsedSeconds = getElapsedSeconds(state);
+  useEffect(() => {
+    if (!state.isFinished) onProgress?.(toPlayerProgress(state, plan));
+  }, [onProgress, plan, state.isFinished, state.currentIndex, timeLeft, setRestLeft, elapsedSeconds,
+    state.completedItems, state.skippedExercises, state.setIndex, state.repCount, state.repLog, state.feedback]);
+
+  const actions = useMemo(() => ({
+    togglePause: () => update(togglePlayerPaused),
+    pause: () => update(setPlayerPaused(true)),
+    resume: () => update(setPlayerPaused(false)),
+    skipItem: () => update(skipPlayerItem),
+    previousItem: () => update(previousPlayerItem),
+    restartItem: () => update(restartPlayerItem),
+    adjustTime: (seconds: number) => update(adjustPlayerTime(seconds)),
+    completeSet: () => update(completePlayerSet),
+    skipSetRest: () => update(skipPlayerSetRest),
+    setRepCount: (count: number) => update(setPlayerRepCount(count)),
+    setFeedback: (index: number, feedback: ExerciseFeedback) => update(setPlayerFeedback(index, feedback)),
+  }), [update]);
+
+  // 以 ref 讀取最新狀態，函式不因每次畫面更新而改變 (避免依賴它的 effect 重新執行)
+  const getResult = useCallback(() => toWorkoutResult(stateRef.current, planRef.current), []);
+
+  return {
+    ...actions,
+    currentIndex: state.currentIndex,
+    isPaused: state.isPaused,
+    isFinished: state.isFinished,
+    timeLeft,
+    setRestLeft,
+    elapsedSeconds,
+    completedExercises: getCompletedExercises(state, plan),
+    completedItems: state.completedItems,
+    skippedExercises: state.skippedExercises,
+    canAdjustTime: canAdjustPlayerTime(state, plan),
+    /** 目前的訓練結果 (中途離開時使用) */
+    getResult,
+    setIndex: state.setIndex,
+    repCount: state.repCount,
+    repLog: state.repLog,
+    finishedItems: state.finishedItems,
+    feedback: state.feedback,
+  };
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './utils/serviceWorker';
 import './index.css';
 
 const container = document.getElementById('root');
@@ -15,3 +16,9 @@ if (container) {
 } else {
   console.error('找不到 root 元素，無法掛載 React 應用程式。');
 }
+
+// 正式環境註冊 Service Worker (離線快取)；開發模式不註冊，避免快取干擾熱更新
+// @ts-ignore - Vite 環境變數存取
+if (import.meta.env?.PROD) {
+  registerServiceWorker();
+}
@@ -12,9 +12,31 @@
  */
 
 import { Exercise } from '../types/db';
-import { UserPreferences, PlanItem } from '../types/app';
+import { UserPreferences, PlanItem, GeneratedPlan } from '../types/app';
+import { ProgressionAdjustment, ProgressionProfile } from '../types/feedback';
 import { getAllExercises } from './exerciseService';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { isOffline } from '../utils/network';
+import { buildPhaseBlock, getPhaseBudget, isPhaseOnlyExercise } from '../features/generator/phases';
+import {
+  arrangeByMuscleGroup,
+  findMuscleGroupConflict,
+  getMuscleGroup,
+  reorderPlanByMuscleGroup,
+} from '../features/generator/muscleGroups';
+import { sumDuration, toGeneratedPlan } from '../features/generator/fitting';
+import { buildFormatBlock, WORKOUT_FORMAT_LABELS } from '../features/generator/formats';
+import { getRepPrescriber } from '../features/generator/reps';
+import { applyProgression, filterAdjustmentsByPlan } from '../features/generator/progression';
+import { describeExclusions, filterExcluded } from '../features/generator/exclusions';
+import { createRandom, generateSeed, shuffle } from '../features/generator/random';
+import { generateWorkoutPlan } from '../features/generator/engine';
+import {
+  DIFFICULTY_LABELS,
+  getEquipmentLabel,
+  isDifficultyAllowed,
+  isEquipmentAvailable,
+} from '../features/exercises/metadata';
 
 /**
  * 檢查是否使用 Edge Function（安全模式）
@@ -55,32 +77,15 @@ const GOAL_LABELS: Record<string, string> = {
   'flexibility': '柔軟度提升',
 };
 
-/**
- * 難度翻譯映射
- */
-const DIFFICULTY_LABELS: Record<string, string> = {
-  'beginner': '初階',
-  'intermediate': '中階',
-  'advanced': '高階',
-};
-
-/**
- * 器材翻譯映射
- */
-const EQUIPMENT_LABELS: Record<string, string> = {
-  'bodyweight': '徒手',
-  'dumbbell': '啞鈴',
-  'band': '彈力帶',
-  'kettlebell': '壺鈴',
-};
-
 /**
  * 透過 Supabase Edge Function 呼叫 AI（安全模式）
  * API Key 存於伺服器端，不會暴露給前端
  */
 async function callEdgeFunction(
   exercises: Array<{ id: string; name: string; duration: number; description: string; tags: string[] }>,
-  preferences: UserPreferences
+  preferences: UserPreferences,
+  progressionNotes: string[],
+  exclusionLabels: string[]
 ): Promise<string[]> {
   if (!isSupabaseConfigured) {
     throw new Error('Supabase 未配置');
@@ -88,7 +93,7 @@ async function callEdgeFunction(
 
   try {
     const { data, error } = await supabase.functions.invoke('generate-workout', {
-      body: { exercises, preferences },
+      body: { exercises, preferences, progressionNotes, exclusionLabels },
     });
 
     if (error) {
@@ -187,30 +192,50 @@ function parseExerciseIds(response: string): string[] {
   return matches ? [...new Set(matches)] : [];
 }
 
+/**
+ * 將進程調整轉為提示詞中的回饋說明
+ */
+function toProgressionNotes(adjustments: ProgressionAdjustment[]): string[] {
+  return adjustments.map(adjustment => adjustment.message);
+}
+
 /**
  * 建構 AI 提示詞
  */
 function buildPrompt(
   exercises: Array<{ id: string; name: string; duration: number; description: string; tags: string[] }>,
-  prefs: UserPreferences
+  prefs: UserPreferences,
+  progressionNotes: string[],
+  exclusionLabels: string[]
 ): string {
+  const feedbackSection = progressionNotes.length > 0
+    ? `
+## 使用者過往回饋
+以下動作已依使用者回饋調整（運動列表中的動作與時長已反映調整），請優先保留：
+${progressionNotes.map(note => `- ${note}`).join('\n')}
+`
+    : '';
+
   return `你是一位專業的健身教練。請根據以下條件，從提供的運動列表中選擇最適合的運動組合來設計一個訓練課表。
 
 ## 使用者需求
 - **訓練目標**: ${GOAL_LABELS[prefs.goal] || prefs.goal}
 - **訓練時長**: ${prefs.durationMinutes} 分鐘
 - **難度等級**: ${DIFFICULTY_LABELS[prefs.difficulty] || prefs.difficulty}
-- **可用器材**: ${prefs.equipment.map(e => EQUIPMENT_LABELS[e] || e).join('、')}
+- **可用器材**: ${prefs.equipment.map(getEquipmentLabel).join('、')}
+- **訓練形式**: ${WORKOUT_FORMAT_LABELS[prefs.format ?? 'straight']}
+- **排除動作**: ${exclusionLabels.length > 0 ? exclusionLabels.join('、') : '無'}
 
 ## 可選運動列表
 ${JSON.stringify(exercises, null, 2)}
-
+${feedbackSection}
 ## 設計要求
 1. 總訓練時間（包含休息）應接近 ${prefs.durationMinutes} 分鐘
-2. 每個運動之間會有 30 秒休息時間
-3. 選擇多樣化的運動，避免連續相同肌群
+2. 休息與回合結構由系統依訓練形式安排，請依建議執行順序挑選動作
+3. 選擇多樣化的運動，不可連續安排相同肌群（依 \`muscle:\` 標籤判斷）
 4. 根據訓練目標選擇最合適的運動
-5. 確保運動順序合理（先暖身、後主訓練）
+5. 暖身與緩和伸展由系統自動安排，請只挑選主訓練動作
+6. 只能使用運動列表中的 ID，不可安排任何排除的動作
 
 ## 回應格式
 請只回傳選中運動的 ID 陣列（JSON 格式），按照建議的執行順序排列。
@@ -227,46 +252,71 @@ ${JSON.stringify(exercises, null, 2)}
  * 2. 根據使用者偏好篩選運動
  * 3. 優先使用 Edge Function（安全模式）呼叫 AI
  * 4. 若 Edge Function 失敗，嘗試直接呼叫（僅開發環境）
- * 5. 若都失敗，使用 Fallback 生成器
+ * 5. 若都失敗，改用本地生成器 (generateWorkoutPlan，以相同種子可重現)
+ * 6. 依 AI 選擇的順序與訓練形式組裝，並調整時長使總時長符合目標 (見 buildFormatBlock)
+ * 7. 驗證 AI 課表沒有連續相同肌群；若有則嘗試重新排序 (僅一般組數)，仍無法修正則改用本地生成器
+ * 8. 前後加上暖身與緩和伸展區塊 (由系統挑選，不經過 AI)
+ * 
+ * 使用者的排除條件 (prefs.exclusions) 在送給 AI 前即套用，AI 回傳的 ID 也會再次驗證
+ * 若提供進程資料，候選動作先依回饋調整 (見 applyProgression)，調整說明一併寫入提示詞
+ * 
+ * AI 回應本身無法以種子重現 (reproducible 為 false，種子只影響暖身/緩和挑選)；
+ * 改用本地生成器時回傳其結果，未依回饋調整時可以相同偏好與種子重現
  * 
  * @param prefs 使用者偏好設定
- * @returns 訓練計畫陣列
+ * @param options.seed 亂數種子 (未提供時自動產生)
+ * @param options.progression 使用者進程資料 (見 progressionService)
+ * @returns 訓練計畫、時長資訊、亂數種子、是否可重現與進程調整說明
  */
-export async function generateAIWorkoutPlan(prefs: UserPreferences): Promise<PlanItem[]> {
+export async function generateAIWorkoutPlan(
+  prefs: UserPreferences,
+  options: { seed?: number; progression?: ProgressionProfile } = {}
+): Promise<GeneratedPlan> {
   console.log('🤖 開始 AI 訓練生成...', prefs);
-
-  // 1. 獲取所有可用運動
-  const allExercises = await getAllExercises();
+  const seed = options.seed ?? generateSeed();
+  const random = createRandom(seed);
+  const generateLocally = () => generateWorkoutPlan(prefs, { seed, progression: options.progression });
+
+  // 1. 獲取所有可用運動，先移除使用者排除的動作
+  const catalog = await getAllExercises();
+  const allExercises = filterExcluded(catalog, prefs.exclusions);
+  const exclusionLabels = describeExclusions(prefs.exclusions, catalog);
   
-  // 2. 根據器材和難度預先篩選
-  const filteredExercises = allExercises.filter(ex => {
-    const tags = Array.isArray(ex.tags) ? ex.tags : [];
-    
-    // 器材檢查
-    const eqTag = tags.find(t => t.startsWith('equipment:'))?.split(':')[1];
-    let eqId = 'bodyweight';
-    if (eqTag === '啞鈴') eqId = 'dumbbell';
-    else if (eqTag === '彈力帶') eqId = 'band';
-    else if (eqTag === '壺鈴') eqId = 'kettlebell';
-    else if (eqTag === '徒手') eqId = 'bodyweight';
-    
-    if (!prefs.equipment.includes(eqId)) return false;
-
-    // 難度檢查
-    const diffTag = tags.find(t => t.startsWith('difficulty:'))?.split(':')[1];
-    if (prefs.difficulty === 'beginner' && diffTag !== '初階') return false;
-    if (prefs.difficulty === 'intermediate' && diffTag === '高階') return false;
-    
-    return true;
-  });
+  // 2. 根據器材和難度預先篩選 (與 generateWorkoutPlan 相同規則)
+  const equipmentMatched = allExercises.filter(ex => isEquipmentAvailable(ex, prefs.equipment));
+  const filteredExercises = equipmentMatched.filter(ex => isDifficultyAllowed(ex, prefs.difficulty));
 
   if (filteredExercises.length === 0) {
-    console.warn('沒有符合條件的運動，使用 fallback');
-    return fallbackGenerate(allExercises, prefs);
+    console.warn('沒有符合條件的運動，使用本地生成');
+    return generateLocally();
   }
 
+  // 暖身/緩和區塊由系統安排 (與 generateWorkoutPlan 相同，從洗牌後的候選挑選)，主訓練只使用其餘時間與動作
+  const { warmupSeconds, cooldownSeconds } = getPhaseBudget(prefs.durationMinutes);
+  const warmup = buildPhaseBlock(shuffle(filteredExercises, random), 'warmup', warmupSeconds);
+  const cooldown = buildPhaseBlock(shuffle(filteredExercises, random), 'cooldown', cooldownSeconds);
+  const targetDurationSeconds = prefs.durationMinutes * 60 - sumDuration(warmup) - sumDuration(cooldown);
+
+  // 依過往回饋調整候選動作 (換成較難/較簡單的動作，或調整時長)
+  const mainExercises = filteredExercises.filter(ex => !isPhaseOnlyExercise(ex));
+  const { exercises: mainPool, adjustments } = applyProgression(
+    mainExercises.length > 0 ? mainExercises : filteredExercises,
+    equipmentMatched,
+    options.progression,
+    getRepPrescriber(prefs) !== undefined
+  );
+  const progressionNotes = toProgressionNotes(adjustments);
+  const withPhases = (main: PlanItem[]): GeneratedPlan =>
+    toGeneratedPlan(
+      [...warmup, ...main, ...cooldown],
+      prefs.durationMinutes * 60,
+      seed,
+      undefined,
+      filterAdjustmentsByPlan(adjustments, main)
+    );
+
   // 3. 準備 AI 所需資料
-  const exerciseListForAI = filteredExercises.map(ex => ({
+  const exerciseListForAI = mainPool.map(ex => ({
     id: ex.id,
     name: ex.name,
     duration: ex.duration_seconds,
@@ -274,6 +324,12 @@ export async function generateAIWorkoutPlan(prefs: UserPreferences): Promise<Pla
     tags: ex.tags,
   }));
 
+  // 離線時無法呼叫 AI，直接使用本地生成
+  if (isOffline()) {
+    console.warn('目前離線，使用本地生成');
+    return generateLocally();
+  }
+
   let selectedIds: string[] = [];
   
   try {
@@ -281,7 +337,7 @@ export async function generateAIWorkoutPlan(prefs: UserPreferences): Promise<Pla
     if (shouldUseEdgeFunction()) {
       console.log('🔒 使用 Edge Function 安全模式呼叫 AI...');
       try {
-        selectedIds = await callEdgeFunction(exerciseListForAI, prefs);
+        selectedIds = await callEdgeFunction(exerciseListForAI, prefs, progressionNotes, exclusionLabels);
         console.log('✅ Edge Function 回傳運動 IDs:', selectedIds);
       } catch (edgeFnError) {
         console.warn('Edge Function 失敗，嘗試備用方案:', edgeFnError);
@@ -290,7 +346,7 @@ export async function generateAIWorkoutPlan(prefs: UserPreferences): Promise<Pla
         const apiKey = getGeminiApiKey();
         if (apiKey) {
           console.log('⚠️ 降級至直接 API 呼叫模式...');
-          const prompt = buildPrompt(exerciseListForAI, prefs);
+          const prompt = buildPrompt(exerciseListForAI, prefs, progressionNotes, exclusionLabels);
           const aiResponse = await callGeminiDirectly(prompt);
           selectedIds = parseExerciseIds(aiResponse);
         } else {
@@ -300,113 +356,73 @@ export async function generateAIWorkoutPlan(prefs: UserPreferences): Promise<Pla
     } else {
       // 直接呼叫模式（開發環境）
       console.log('⚠️ 使用直接 API 呼叫模式（開發環境）...');
-      const prompt = buildPrompt(exerciseListForAI, prefs);
+      const prompt = buildPrompt(exerciseListForAI, prefs, progressionNotes, exclusionLabels);
       const aiResponse = await callGeminiDirectly(prompt);
       console.log('🤖 AI 回應:', aiResponse);
       selectedIds = parseExerciseIds(aiResponse);
     }
     
     if (selectedIds.length === 0) {
-      console.warn('AI 未回傳有效的運動 ID，使用 fallback');
-      return fallbackGenerate(filteredExercises, prefs);
+      console.warn('AI 未回傳有效的運動 ID，使用本地生成');
+      return generateLocally();
     }
 
-    // 6. 根據 AI 選擇的 ID 組裝課表
-    const plan: PlanItem[] = [];
-    const REST_DURATION = 30;
-    let currentDuration = 0;
-    const targetDurationSeconds = prefs.durationMinutes * 60;
-
-    for (const id of selectedIds) {
-      const exercise = filteredExercises.find(ex => ex.id === id);
-      if (!exercise) continue;
+    // 6. 驗證 AI 回傳的 ID：不在候選列表 (不存在或已被排除) 的動作一律捨棄
+    const rejectedIds = selectedIds.filter(id => !mainPool.some(ex => ex.id === id));
+    if (rejectedIds.length > 0) {
+      console.warn('AI 回傳了不在候選列表中的動作 (可能已被排除)，已捨棄:', rejectedIds);
+    }
 
-      // 檢查是否超過目標時間
-      if (currentDuration + exercise.duration_seconds > targetDurationSeconds + 60) {
-        break;
-      }
+    // 根據 AI 選擇的 ID 組裝課表 (依序循環取用，並調整時長符合目標)
+    const selectedExercises = selectedIds
+      .map(id => mainPool.find(ex => ex.id === id))
+      .filter((ex): ex is Exercise => ex !== undefined);
 
-      // 加入運動
-      plan.push({
-        type: 'exercise',
-        duration: exercise.duration_seconds,
-        exercise: exercise,
-        title: exercise.name,
-      });
-      currentDuration += exercise.duration_seconds;
-
-      // 加入休息（最後一個不需要）
-      if (currentDuration + REST_DURATION < targetDurationSeconds) {
-        plan.push({
-          type: 'rest',
-          duration: REST_DURATION,
-          title: '休息',
-          exercise: undefined,
-        });
-        currentDuration += REST_DURATION;
-      }
+    // 若有效動作太少，改用本地生成
+    if (selectedExercises.length < 3) {
+      console.warn('AI 生成的課表太短，使用本地生成');
+      return generateLocally();
     }
 
-    // 若課表太短，補充運動
-    if (plan.filter(p => p.type === 'exercise').length < 3) {
-      console.warn('AI 生成的課表太短，使用 fallback 補充');
-      return fallbackGenerate(filteredExercises, prefs);
+    const plan = buildMainBlock(selectedExercises, targetDurationSeconds, prefs);
+
+    // 驗證肌群規則：AI 排序有連續相同肌群時先嘗試重新排序 (回合制形式重新排序會破壞結構)
+    let validatedPlan = plan;
+    if (findMuscleGroupConflict(validatedPlan) !== -1) {
+      console.warn('AI 課表有連續相同肌群，嘗試重新排序');
+      if (isStraightFormat(prefs)) validatedPlan = reorderPlanByMuscleGroup(validatedPlan);
+
+      if (findMuscleGroupConflict(validatedPlan) !== -1) {
+        console.warn('AI 課表無法避免連續相同肌群，使用本地生成');
+        return generateLocally();
+      }
     }
 
-    console.log('✅ AI 訓練課表生成完成，共', plan.filter(p => p.type === 'exercise').length, '個運動');
-    return plan;
+    console.log('✅ AI 訓練課表生成完成，共', validatedPlan.filter(p => p.type === 'exercise').length, '個運動');
+    return withPhases(validatedPlan);
 
   } catch (error) {
-    console.error('AI 生成失敗，使用 fallback:', error);
-    return fallbackGenerate(filteredExercises, prefs);
+    console.error('AI 生成失敗，使用本地生成:', error);
+    return generateLocally();
   }
 }
 
 /**
- * Fallback 生成器 (當 AI 失敗時使用)
- * 使用簡單的隨機洗牌演算法
+ * 是否為一般組數形式 (未設定時視為 straight)
  */
-function fallbackGenerate(exercises: Exercise[], prefs: UserPreferences): PlanItem[] {
-  console.log('📋 使用 Fallback 生成器...');
-  
-  // Fisher-Yates 洗牌
-  const shuffled = [...exercises];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-
-  const plan: PlanItem[] = [];
-  let currentDuration = 0;
-  const targetDurationSeconds = prefs.durationMinutes * 60;
-  const REST_DURATION = 30;
-
-  let index = 0;
-  while (currentDuration < targetDurationSeconds && index < shuffled.length * 2) {
-    const exercise = shuffled[index % shuffled.length];
-
-    plan.push({
-      type: 'exercise',
-      duration: exercise.duration_seconds,
-      exercise: exercise,
-      title: exercise.name,
-    });
-    currentDuration += exercise.duration_seconds;
-
-    if (currentDuration >= targetDurationSeconds) break;
-
-    if (currentDuration + REST_DURATION < targetDurationSeconds) {
-      plan.push({
-        type: 'rest',
-        duration: REST_DURATION,
-        title: '休息',
-        exercise: undefined,
-      });
-      currentDuration += REST_DURATION;
-    }
-
-    index++;
-  }
+const isStraightFormat = (prefs: UserPreferences): boolean => (prefs.format ?? 'straight') === 'straight';
 
-  return plan;
+/**
+ * 依訓練形式組裝主訓練 (Build Main Block)
+ * 動作先依肌群排序，再依序循環取用
+ */
+function buildMainBlock(exercises: Exercise[], targetDurationSeconds: number, prefs: UserPreferences): PlanItem[] {
+  const ordered = arrangeByMuscleGroup(exercises, getMuscleGroup);
+  let cursor = 0;
+  return buildFormatBlock(
+    prefs.format ?? 'straight',
+    () => ordered[cursor++ % ordered.length],
+    targetDurationSeconds,
+    { rounds: prefs.rounds, toItem: getRepPrescriber(prefs) }
+  );
 }
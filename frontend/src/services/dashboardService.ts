@@ -6,7 +6,7 @@
  */
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { WorkoutLog, WorkoutStats } from '../types/workoutLog';
+import { WorkoutLog, WorkoutSettings, WorkoutStats } from '../types/workoutLog';
 
 /**
  * 日曆視圖的訓練日期資料
@@ -51,6 +51,8 @@ export interface DashboardData {
   calendarData: CalendarWorkoutDay[];
   /** 標籤分佈 */
   tagDistribution: TagDistribution[];
+  /** 最近一次訓練的設定 (快速開始使用)，沒有紀錄時為 null */
+  lastSettings: WorkoutSettings | null;
   /** 最近訓練 */
   recentWorkouts: {
     id: string;
@@ -249,6 +251,7 @@ export async function getDashboardData(
     },
     calendarData: [],
     tagDistribution: [],
+    lastSettings: null,
     recentWorkouts: [],
   };
 
@@ -321,6 +324,7 @@ export async function getDashboardData(
     },
     calendarData: generateCalendarData(logs),
     tagDistribution: calculateTagDistribution(logs),
+    lastSettings: logs[0].settings ?? null,
     recentWorkouts,
   };
 }
@@ -1,7 +1,11 @@
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { Exercise } from '../types/db';
+import { Exercise, ExerciseRelation } from '../types/db';
 import { MOCK_EXERCISES } from '../data/mockExercises';
+import { ExerciseVariants, findExerciseVariants } from '../features/generator/relations';
+import { normalizeExercise, pickStructuredFields } from '../features/exercises/metadata';
+import { isOffline } from '../utils/network';
+import { precacheMedia } from '../utils/serviceWorker';
 
 /**
  * 帶超時的 Promise 包裝器
@@ -22,16 +26,50 @@ let cachedExercises: Exercise[] | null = null;
 let cacheTimestamp: number = 0;
 const CACHE_TTL = 5 * 60 * 1000; // 5 分鐘快取
 
+/**
+ * 離線動作庫的本地儲存鍵名：最近一次成功載入的動作資料，離線或查詢失敗時優先使用
+ */
+const OFFLINE_CATALOG_STORAGE_KEY = 'virtual_coach_exercise_catalog';
+
+/**
+ * 查詢失敗時的動作資料：最近一次成功載入的動作庫，沒有時使用模擬資料
+ * (模擬資料的 ID 與資料庫不同，優先使用已儲存的動作庫才能還原紀錄與範本)
+ */
+const getFallbackExercises = (): Exercise[] => {
+  try {
+    const data = localStorage.getItem(OFFLINE_CATALOG_STORAGE_KEY);
+    const stored = data ? JSON.parse(data) : null;
+    return Array.isArray(stored) && stored.length > 0 ? stored : MOCK_EXERCISES;
+  } catch {
+    return MOCK_EXERCISES;
+  }
+};
+
+/**
+ * 儲存動作庫供離線使用，並請 Service Worker 預先快取示範媒體
+ */
+const saveOfflineCatalog = (exercises: Exercise[]): void => {
+  try {
+    localStorage.setItem(OFFLINE_CATALOG_STORAGE_KEY, JSON.stringify(exercises));
+  } catch (error) {
+    console.warn('⚠️ 無法儲存離線動作庫:', error);
+  }
+  precacheMedia(exercises.map(exercise => exercise.video_url).filter((url): url is string => !!url));
+};
+
 /**
  * 獲取所有運動資料
  * 
  * 策略：
- * 1. 先嘗試從 Supabase 查詢
- * 2. 若查詢失敗或超時，使用模擬資料作為 fallback
- * 3. 使用 5 分鐘快取減少 API 請求
+ * 1. 先嘗試從 Supabase 查詢 (離線時略過)
+ * 2. 若查詢失敗或超時，使用最近一次成功載入的動作庫 (離線動作庫)，沒有時使用模擬資料
+ * 3. 使用 5 分鐘快取減少 API 請求；成功載入後儲存離線動作庫並預先快取示範媒體
  * 
  * 資料庫表結構：
  * - id (uuid), created_at, name, description, video_url, duration_seconds, tags (ARRAY)
+ * - 結構化欄位：equipment, difficulty, training_goals, exercise_type, muscle_groups, impact, intensity
+ *   (缺少或無效時從 tags 解析，並同步回 tags，見 features/exercises/metadata)
+ * - exercise_relations 資料表的關係會附加到 relations 欄位
  * 
  * 注意：若 Supabase RLS 政策未正確設定，將自動使用模擬資料
  * 請在 Supabase Dashboard 執行 database/fix_exercises_rls.sql 修復
@@ -49,6 +87,12 @@ export const getAllExercises = async (): Promise<Exercise[]> => {
     return MOCK_EXERCISES;
   }
 
+  // 離線時不查詢 (必定失敗)，直接使用離線動作庫
+  if (isOffline()) {
+    console.warn('⚠️ 目前離線，使用離線動作庫');
+    return getFallbackExercises();
+  }
+
   try {
     // 嘗試從資料庫查詢（3 秒超時）
     // 資料庫結構：id, created_at, name, description, video_url, duration_seconds, tags
@@ -60,8 +104,8 @@ export const getAllExercises = async (): Promise<Exercise[]> => {
     );
 
     if (error) {
-      console.warn('⚠️ 資料庫查詢失敗，使用模擬資料:', error.message);
-      return MOCK_EXERCISES;
+      console.warn('⚠️ 資料庫查詢失敗，使用離線動作庫:', error.message);
+      return getFallbackExercises();
     }
 
     if (!data || data.length === 0) {
@@ -69,30 +113,94 @@ export const getAllExercises = async (): Promise<Exercise[]> => {
       return MOCK_EXERCISES;
     }
 
-    // 直接使用資料庫資料（tags 已是陣列格式）
-    const exercises = data.map((item: any) => ({
+    // 正規化結構化欄位與舊版標籤（tags 已是陣列格式）
+    const exercises = data.map((item: any) => normalizeExercise({
       id: item.id,
       created_at: item.created_at,
       name: item.name,
       description: item.description || '',
       video_url: item.video_url,
       duration_seconds: item.duration_seconds,
-      tags: Array.isArray(item.tags) ? item.tags : []
+      min_duration_seconds: item.min_duration_seconds ?? undefined,
+      max_duration_seconds: item.max_duration_seconds ?? undefined,
+      default_reps: item.default_reps ?? undefined,
+      default_sets: item.default_sets ?? undefined,
+      tempo: item.tempo ?? undefined,
+      tags: Array.isArray(item.tags) ? item.tags : [],
+      ...pickStructuredFields(item),
     }));
 
+    // 附加動作關係 (進階 / 退階 / 替代)，讀取失敗時不影響動作資料
+    const relations = await getExerciseRelations();
+    exercises.forEach((exercise: Exercise) => {
+      if (relations[exercise.id]) exercise.relations = relations[exercise.id];
+    });
+
     cachedExercises = exercises;
     cacheTimestamp = now;
+    saveOfflineCatalog(exercises);
     console.log(`✅ 從資料庫載入 ${exercises.length} 個運動`);
 
     return exercises;
 
   } catch (error) {
-    // 超時或其他錯誤，使用模擬資料
-    console.warn('⚠️ 查詢超時或發生錯誤，使用模擬資料');
-    return MOCK_EXERCISES;
+    // 超時或其他錯誤，使用離線動作庫
+    console.warn('⚠️ 查詢超時或發生錯誤，使用離線動作庫');
+    return getFallbackExercises();
   }
 };
 
+/**
+ * 讀取動作關係 (exercise_relations 資料表)
+ *
+ * @returns 以 exercise_id 分組的關係，查詢失敗時回傳空物件
+ */
+const getExerciseRelations = async (): Promise<Record<string, ExerciseRelation[]>> => {
+  try {
+    const { data, error } = await withTimeout(
+      Promise.resolve(
+        supabase
+          .from('exercise_relations')
+          .select('exercise_id, related_exercise_id, relation_type')
+      ),
+      3000
+    );
+
+    if (error || !data) {
+      console.warn('⚠️ 動作關係查詢失敗，略過關係資料:', error?.message);
+      return {};
+    }
+
+    return data.reduce<Record<string, ExerciseRelation[]>>((grouped, row) => {
+      (grouped[row.exercise_id] ??= []).push({ type: row.relation_type, exercise_id: row.related_exercise_id });
+      return grouped;
+    }, {});
+  } catch {
+    console.warn('⚠️ 動作關係查詢超時，略過關係資料');
+    return {};
+  }
+};
+
+/**
+ * 獲取動作的變化版本 (Get Exercise Variants)
+ *
+ * 依動作關係圖找出較簡單 / 較難 / 替代動作，供播放器「換動作」使用
+ *
+ * @param exerciseId - 動作 ID
+ * @param isAllowed - 額外篩選條件 (例如器材與排除條件)
+ * @returns 找不到動作時回傳空的變化清單
+ */
+export const getExerciseVariants = async (
+  exerciseId: string,
+  isAllowed: (exercise: Exercise) => boolean = () => true
+): Promise<ExerciseVariants> => {
+  const exercises = await getAllExercises();
+  const exercise = exercises.find(ex => ex.id === exerciseId);
+  if (!exercise) return { easier: [], harder: [], alternatives: [] };
+
+  return findExerciseVariants(exercise, exercises.filter(isAllowed));
+};
+
 /**
  * 清除運動資料快取
  * 可在需要強制重新載入時呼叫
@@ -100,4 +208,5 @@ export const getAllExercises = async (): Promise<Exercise[]> => {
 export const clearExerciseCache = (): void => {
   cachedExercises = null;
   cacheTimestamp = 0;
+  localStorage.removeItem(OFFLINE_CATALOG_STORAGE_KEY);
 };
@@ -0,0 +1,250 @@
+/**
+ * 訓練排程服務 (Planned Workout Service)
+ *
+ * 負責日曆上未來訓練的排程：
+ * - 會員：儲存於 Supabase planned_workouts 資料表
+ * - 訪客：儲存於本地儲存 (localStorage)
+ *
+ * 訓練紀錄儲存後以 satisfyPlannedWorkout 標記同一天相符的排程為已完成
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { CreatePlannedWorkoutInput, PlannedWorkout } from '../types/plannedWorkout';
+import { WorkoutLog } from '../types/workoutLog';
+import { findMatchingPlannedWorkout, toDateKey } from '../features/planner/planner';
+
+/**
+ * 本地儲存鍵名 (用於訪客模式)
+ */
+const LOCAL_STORAGE_KEY = 'virtual_coach_planned_workouts';
+
+/**
+ * 從本地儲存讀取排程 (訪客模式，依建立時間排序)
+ */
+function getLocalPlans(): PlannedWorkout[] {
+  try {
+    const data = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 儲存排程至本地儲存 (訪客模式)
+ */
+function saveLocalPlans(plans: PlannedWorkout[]): boolean {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(plans));
+    return true;
+  } catch (error) {
+    console.error('無法儲存至本地儲存:', error);
+    return false;
+  }
+}
+
+/**
+ * 生成唯一 ID (訪客模式使用)
+ */
+function generateLocalId(): string {
+  return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 取得日期區間內的排程 (Get Planned Workouts)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @param fromDate - 起始日期 (YYYY-MM-DD，含)
+ * @param toDate - 結束日期 (YYYY-MM-DD，含)
+ * @returns 排程列表 (依日期、建立時間排序)
+ */
+export async function getPlannedWorkouts(
+  userId: string | null,
+  fromDate: string,
+  toDate: string
+): Promise<PlannedWorkout[]> {
+  // 訪客模式：從本地篩選
+  if (!userId) {
+    return getLocalPlans()
+      .filter(plan => plan.date >= fromDate && plan.date <= toDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  if (!isSupabaseConfigured) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('planned_workouts')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('date', fromDate)
+      .lte('date', toDate)
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('取得訓練排程失敗:', error);
+      return [];
+    }
+
+    return (data || []) as PlannedWorkout[];
+  } catch (error) {
+    console.error('取得訓練排程錯誤:', error);
+    return [];
+  }
+}
+
+/**
+ * 取得指定月份的排程 (Get Month Planned Workouts)
+ *
+ * @param userId - 使用者 ID
+ * @param year - 年份
+ * @param month - 月份 (1-12)
+ */
+export async function getMonthPlannedWorkouts(
+  userId: string | null,
+  year: number,
+  month: number
+): Promise<PlannedWorkout[]> {
+  return getPlannedWorkouts(userId, toDateKey(new Date(year, month - 1, 1)), toDateKey(new Date(year, month, 0)));
+}
+
+/**
+ * 新增排程 (Create Planned Workout)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param input - 排程資料
+ * @returns 新建的排程
+ */
+export async function createPlannedWorkout(
+  userId: string | null,
+  input: CreatePlannedWorkoutInput
+): Promise<PlannedWorkout | null> {
+  const row = {
+    date: input.date,
+    goal: input.goal,
+    duration_minutes: input.duration_minutes,
+    template_id: input.template_id ?? null,
+    template_name: input.template_name ?? null,
+    completed_log_id: null,
+  };
+
+  // 訪客模式：儲存至本地
+  if (!userId) {
+    const localPlan: PlannedWorkout = {
+      id: generateLocalId(),
+      user_id: 'guest',
+      ...row,
+      created_at: new Date().toISOString(),
+    };
+    return saveLocalPlans([...getLocalPlans(), localPlan]) ? localPlan : null;
+  }
+
+  // 會員模式：儲存至 Supabase
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('planned_workouts')
+      .insert({ user_id: userId, ...row })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('新增訓練排程失敗:', error);
+      return null;
+    }
+
+    return data as PlannedWorkout;
+  } catch (error) {
+    console.error('新增訓練排程錯誤:', error);
+    return null;
+  }
+}
+
+/**
+ * 刪除排程 (Delete Planned Workout)
+ *
+ * @param planId - 排程 ID
+ * @param userId - 使用者 ID
+ * @returns 是否刪除成功
+ */
+export async function deletePlannedWorkout(planId: string, userId: string | null): Promise<boolean> {
+  // 訪客模式：刪除本地排程
+  if (!userId || planId.startsWith('local_')) {
+    return saveLocalPlans(getLocalPlans().filter(plan => plan.id !== planId));
+  }
+
+  // 會員模式：從 Supabase 刪除
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('planned_workouts')
+      .delete()
+      .eq('id', planId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('刪除訓練排程失敗:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('刪除訓練排程錯誤:', error);
+    return false;
+  }
+}
+
+/**
+ * 以訓練紀錄滿足排程 (Satisfy Planned Workout)
+ * 訓練紀錄儲存後呼叫，將同一天相符且尚未完成的排程標記為已完成
+ *
+ * @param userId - 使用者 ID (若為 null 則使用本地)
+ * @param log - 剛儲存的訓練紀錄
+ * @returns 被滿足的排程，沒有相符排程時回傳 null
+ */
+export async function satisfyPlannedWorkout(
+  userId: string | null,
+  log: WorkoutLog
+): Promise<PlannedWorkout | null> {
+  const date = toDateKey(new Date(log.started_at));
+  const match = findMatchingPlannedWorkout(await getPlannedWorkouts(userId, date, date), log);
+  if (!match) return null;
+
+  const satisfied: PlannedWorkout = { ...match, completed_log_id: log.id };
+
+  // 訪客模式：更新本地排程
+  if (!userId || match.id.startsWith('local_')) {
+    const saved = saveLocalPlans(getLocalPlans().map(plan => (plan.id === match.id ? satisfied : plan)));
+    return saved ? satisfied : null;
+  }
+
+  // 會員模式：getPlannedWorkouts 已確認 Supabase 設定
+  try {
+    const { error } = await supabase
+      .from('planned_workouts')
+      .update({ completed_log_id: log.id })
+      .eq('id', match.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('更新訓練排程失敗:', error);
+      return null;
+    }
+
+    return satisfied;
+  } catch (error) {
+    console.error('更新訓練排程錯誤:', error);
+    return null;
+  }
+}
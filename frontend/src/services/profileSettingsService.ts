@@ -0,0 +1,254 @@
+/**
+ * 個人設定服務 (Profile Settings Service)
+ *
+ * 負責讀寫跟著使用者帳號走的訓練設定：
+ * - 會員：儲存於 Supabase user_profiles 資料表
+ * - 訪客：儲存於本地儲存 (localStorage)
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { EquipmentProfileSettings, ExclusionRules, ReminderSchedule } from '../types/app';
+import { EMPTY_EXCLUSIONS, normalizeExclusions } from '../features/generator/exclusions';
+import { EMPTY_EQUIPMENT_PROFILES, normalizeEquipmentProfiles } from '../features/generator/equipmentProfiles';
+import { ProgramEnrollment } from '../types/program';
+import { normalizeProgramEnrollment } from '../features/programs/programs';
+import { DEFAULT_REMINDER_SCHEDULE, normalizeReminderSchedule } from '../features/reminders/reminders';
+
+/**
+ * 本地儲存鍵名 (用於訪客模式)
+ */
+const EXCLUSIONS_STORAGE_KEY = 'vca__exclusion_rules';
+const EQUIPMENT_PROFILES_STORAGE_KEY = 'vca__equipment_profiles';
+const PROGRAM_ENROLLMENT_STORAGE_KEY = 'vca__program_enrollment';
+const REMINDER_SCHEDULE_STORAGE_KEY = 'vca__reminder_schedule';
+
+/**
+ * 個人設定欄位 (Setting Definition)
+ */
+interface ProfileSetting<T> {
+  /** user_profiles 欄位名稱 */
+  column: string;
+
+  /** 訪客模式的本地儲存鍵名 */
+  storageKey: string;
+
+  /** 讀取失敗時的預設值 */
+  fallback: T;
+
+  /** 整理儲存資料 */
+  normalize: (value: unknown) => T;
+
+  /** 錯誤訊息用的名稱 */
+  label: string;
+}
+
+const EXCLUSIONS_SETTING: ProfileSetting<ExclusionRules> = {
+  column: 'exclusion_rules',
+  storageKey: EXCLUSIONS_STORAGE_KEY,
+  fallback: EMPTY_EXCLUSIONS,
+  normalize: normalizeExclusions,
+  label: '排除條件',
+};
+
+const EQUIPMENT_PROFILES_SETTING: ProfileSetting<EquipmentProfileSettings> = {
+  column: 'equipment_profiles',
+  storageKey: EQUIPMENT_PROFILES_STORAGE_KEY,
+  fallback: EMPTY_EQUIPMENT_PROFILES,
+  normalize: normalizeEquipmentProfiles,
+  label: '器材組合',
+};
+
+const PROGRAM_ENROLLMENT_SETTING: ProfileSetting<ProgramEnrollment | null> = {
+  column: 'program_enrollment',
+  storageKey: PROGRAM_ENROLLMENT_STORAGE_KEY,
+  fallback: null,
+  normalize: normalizeProgramEnrollment,
+  label: '訓練計畫',
+};
+
+const REMINDER_SCHEDULE_SETTING: ProfileSetting<ReminderSchedule> = {
+  column: 'reminder_schedule',
+  storageKey: REMINDER_SCHEDULE_STORAGE_KEY,
+  fallback: DEFAULT_REMINDER_SCHEDULE,
+  normalize: normalizeReminderSchedule,
+  label: '訓練提醒',
+};
+
+/**
+ * 讀取個人設定
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @param setting - 設定欄位
+ * @returns 設定值，讀取失敗時回傳預設值
+ */
+async function readSetting<T>(userId: string | null, setting: ProfileSetting<T>): Promise<T> {
+  // 訪客模式：從本地讀取
+  if (!userId) {
+    try {
+      const data = localStorage.getItem(setting.storageKey);
+      return data ? setting.normalize(JSON.parse(data)) : setting.fallback;
+    } catch {
+      return setting.fallback;
+    }
+  }
+
+  if (!isSupabaseConfigured) {
+    return setting.fallback;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select(setting.column)
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error(`讀取${setting.label}失敗:`, error);
+      return setting.fallback;
+    }
+
+    return setting.normalize((data as unknown as Record<string, unknown> | null)?.[setting.column]);
+  } catch (error) {
+    console.error(`讀取${setting.label}錯誤:`, error);
+    return setting.fallback;
+  }
+}
+
+/**
+ * 儲存個人設定
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param setting - 設定欄位
+ * @param value - 設定值
+ * @returns 是否儲存成功
+ */
+async function writeSetting<T>(userId: string | null, setting: ProfileSetting<T>, value: T): Promise<boolean> {
+  const normalized = setting.normalize(value);
+
+  // 訪客模式：儲存至本地
+  if (!userId) {
+    try {
+      localStorage.setItem(setting.storageKey, JSON.stringify(normalized));
+      return true;
+    } catch (error) {
+      console.error('無法儲存至本地儲存:', error);
+      return false;
+    }
+  }
+
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ [setting.column]: normalized })
+      .eq('id', userId);
+
+    if (error) {
+      console.error(`儲存${setting.label}失敗:`, error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`儲存${setting.label}錯誤:`, error);
+    return false;
+  }
+}
+
+/**
+ * 讀取排除條件 (Get Exclusion Rules)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @returns 排除條件，讀取失敗時回傳空條件
+ */
+export async function getExclusionRules(userId: string | null): Promise<ExclusionRules> {
+  return readSetting(userId, EXCLUSIONS_SETTING);
+}
+
+/**
+ * 儲存排除條件 (Save Exclusion Rules)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param rules - 排除條件
+ * @returns 是否儲存成功
+ */
+export async function saveExclusionRules(
+  userId: string | null,
+  rules: ExclusionRules
+): Promise<boolean> {
+  return writeSetting(userId, EXCLUSIONS_SETTING, rules);
+}
+
+/**
+ * 讀取器材組合 (Get Equipment Profiles)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @returns 器材組合設定，讀取失敗時回傳空設定
+ */
+export async function getEquipmentProfiles(userId: string | null): Promise<EquipmentProfileSettings> {
+  return readSetting(userId, EQUIPMENT_PROFILES_SETTING);
+}
+
+/**
+ * 儲存器材組合 (Save Equipment Profiles)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param settings - 器材組合設定
+ * @returns 是否儲存成功
+ */
+export async function saveEquipmentProfiles(
+  userId: string | null,
+  settings: EquipmentProfileSettings
+): Promise<boolean> {
+  return writeSetting(userId, EQUIPMENT_PROFILES_SETTING, settings);
+}
+
+/**
+ * 讀取訓練計畫參加狀態 (Get Program Enrollment)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @returns 參加狀態，未參加或讀取失敗時回傳 null
+ */
+export async function getProgramEnrollment(userId: string | null): Promise<ProgramEnrollment | null> {
+  return readSetting(userId, PROGRAM_ENROLLMENT_SETTING);
+}
+
+/**
+ * 儲存訓練計畫參加狀態 (Save Program Enrollment)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param enrollment - 參加狀態 (null 表示退出計畫)
+ * @returns 是否儲存成功
+ */
+export async function saveProgramEnrollment(
+  userId: string | null,
+  enrollment: ProgramEnrollment | null
+): Promise<boolean> {
+  return writeSetting(userId, PROGRAM_ENROLLMENT_SETTING, enrollment);
+}
+
+/**
+ * 讀取訓練提醒排程 (Get Reminder Schedule)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @returns 提醒排程，未設定或讀取失敗時回傳預設值 (未啟用)
+ */
+export async function getReminderSchedule(userId: string | null): Promise<ReminderSchedule> {
+  return readSetting(userId, REMINDER_SCHEDULE_SETTING);
+}
+
+/**
+ * 儲存訓練提醒排程 (Save Reminder Schedule)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param schedule - 提醒排程
+ * @returns 是否儲存成功
+ */
+export async function saveReminderSchedule(userId: string | null, schedule: ReminderSchedule): Promise<boolean> {
+  return writeSetting(userId, REMINDER_SCHEDULE_SETTING, schedule);
+}
@@ -0,0 +1,87 @@
+/**
+ * 訓練計畫服務 (Program Service)
+ *
+ * 計畫定義來自資料檔 (data/programs.json)，新增或調整計畫不需修改程式；
+ * 參加狀態跟著使用者保存，見 profileSettingsService
+ */
+
+import PROGRAM_DATA from '../data/programs.json';
+import { ProgramDefinition, ProgramEnrollment } from '../types/program';
+import { WorkoutLog } from '../types/workoutLog';
+import {
+  advanceProgramEnrollment,
+  createProgramEnrollment,
+  normalizeProgramDefinition,
+} from '../features/programs/programs';
+import { getProgramEnrollment, saveProgramEnrollment } from './profileSettingsService';
+
+/**
+ * 取得所有訓練計畫 (Get Programs)
+ * 格式錯誤的定義會被略過
+ *
+ * @returns 計畫定義列表 (依資料檔順序)
+ */
+export async function getPrograms(): Promise<ProgramDefinition[]> {
+  return (PROGRAM_DATA as unknown[])
+    .map(normalizeProgramDefinition)
+    .filter((program): program is ProgramDefinition => program !== null);
+}
+
+/**
+ * 取得單一訓練計畫 (Get Program By ID)
+ *
+ * @param programId - 計畫 ID
+ * @returns 計畫定義，找不到時回傳 null
+ */
+export async function getProgramById(programId: string): Promise<ProgramDefinition | null> {
+  return (await getPrograms()).find(program => program.id === programId) ?? null;
+}
+
+/**
+ * 參加訓練計畫 (Enroll In Program)
+ * 已參加其他計畫時會取代原本的進度
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param programId - 計畫 ID
+ * @returns 新的參加狀態，儲存失敗時回傳 null
+ */
+export async function enrollInProgram(userId: string | null, programId: string): Promise<ProgramEnrollment | null> {
+  const enrollment = createProgramEnrollment(programId);
+  return (await saveProgramEnrollment(userId, enrollment)) ? enrollment : null;
+}
+
+/**
+ * 退出訓練計畫 (Leave Program)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @returns 是否儲存成功
+ */
+export async function leaveProgram(userId: string | null): Promise<boolean> {
+  return saveProgramEnrollment(userId, null);
+}
+
+/**
+ * 記錄完成的計畫課表 (Record Program Session)
+ * 訓練紀錄儲存後呼叫，紀錄屬於目前計畫的下一次課表時推進進度
+ *
+ * @param userId - 使用者 ID (若為 null 則使用本地)
+ * @param log - 剛儲存的訓練紀錄
+ * @returns 推進後的參加狀態，不需推進時回傳 null
+ */
+export async function recordProgramSession(
+  userId: string | null,
+  log: WorkoutLog
+): Promise<ProgramEnrollment | null> {
+  if (!log.settings.program) return null;
+
+  const enrollment = await getProgramEnrollment(userId);
+  if (!enrollment) return null;
+
+  const program = await getProgramById(enrollment.programId);
+  if (!program) return null;
+
+  const advanced = advanceProgramEnrollment(enrollment, program, log);
+  if (!advanced) return null;
+
+  return (await saveProgramEnrollment(userId, advanced)) ? advanced : null;
+}
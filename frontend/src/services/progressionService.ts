@@ -0,0 +1,150 @@
+/**
+ * 訓練進程服務 (Progression Service)
+ *
+ * 彙整使用者過往對各動作的組間回饋 (太簡單 / 剛剛好 / 太難)，
+ * 產生進程資料供課表生成器與 AI 提示詞使用
+ *
+ * 資料來源:
+ * - 訓練紀錄 (workout_logs.exercises[].feedback)
+ * - 本地回饋紀錄 (utils/feedbackStorage)
+ */
+
+import { getRecentWorkoutLogs } from './workoutLogService';
+import { getWorkoutFeedbacks } from '../utils/feedbackStorage';
+import type {
+  DifficultyRating,
+  ExerciseFeedbackSummary,
+  ProgressionDirection,
+  ProgressionProfile,
+} from '../types/feedback';
+
+/**
+ * 讀取的訓練紀錄筆數
+ */
+const RECENT_LOG_LIMIT = 10;
+
+/**
+ * 每個動作只統計最近幾次評分
+ */
+const RECENT_RATINGS_PER_EXERCISE = 5;
+
+/**
+ * 判定進程方向所需的最少評分次數
+ */
+const MIN_RATINGS = 2;
+
+/**
+ * 判定為「持續」太簡單 / 太難的比例門檻
+ */
+const CONSISTENT_RATIO = 0.6;
+
+/**
+ * 單筆評分 (Feedback Rating Entry)
+ */
+export interface FeedbackRatingEntry {
+  exerciseId: string;
+  exerciseName: string;
+  rating: DifficultyRating;
+  /** 評分時間 (ISO 8601) */
+  ratedAt: string;
+}
+
+/**
+ * 判定進程方向 (Get Progression Direction)
+ *
+ * 評分至少 MIN_RATINGS 次，且太簡單 / 太難佔比達 CONSISTENT_RATIO 才調整
+ *
+ * @param counts - 各評分次數
+ * @returns 進程方向
+ */
+export function getProgressionDirection(
+  counts: Pick<ExerciseFeedbackSummary, 'tooEasy' | 'justRight' | 'tooHard'>
+): ProgressionDirection {
+  const total = counts.tooEasy + counts.justRight + counts.tooHard;
+  if (total < MIN_RATINGS) return 'hold';
+  if (counts.tooEasy / total >= CONSISTENT_RATIO) return 'progress';
+  if (counts.tooHard / total >= CONSISTENT_RATIO) return 'regress';
+  return 'hold';
+}
+
+/**
+ * 彙整評分為進程資料 (Build Progression Profile)
+ *
+ * @param entries - 評分紀錄 (順序不拘)
+ * @returns 動作 ID → 回饋彙整
+ *
+ * @example
+ * buildProgressionProfile([
+ *   { exerciseId: 'sq-001', exerciseName: '深蹲', rating: 'too_easy', ratedAt: '...' },
+ *   { exerciseId: 'sq-001', exerciseName: '深蹲', rating: 'too_easy', ratedAt: '...' },
+ * ])
+ * // returns { 'sq-001': { tooEasy: 2, ..., direction: 'progress' } }
+ */
+export function buildProgressionProfile(entries: FeedbackRatingEntry[]): ProgressionProfile {
+  const byExercise = new Map<string, FeedbackRatingEntry[]>();
+  [...entries]
+    .sort((a, b) => b.ratedAt.localeCompare(a.ratedAt))
+    .forEach(entry => {
+      const list = byExercise.get(entry.exerciseId) ?? [];
+      if (list.length < RECENT_RATINGS_PER_EXERCISE) list.push(entry);
+      byExercise.set(entry.exerciseId, list);
+    });
+
+  const profile: ProgressionProfile = {};
+  byExercise.forEach((list, exerciseId) => {
+    const counts = {
+      tooEasy: list.filter(entry => entry.rating === 'too_easy').length,
+      justRight: list.filter(entry => entry.rating === 'just_right').length,
+      tooHard: list.filter(entry => entry.rating === 'too_hard').length,
+    };
+    profile[exerciseId] = {
+      exerciseId,
+      exerciseName: list[0].exerciseName,
+      ...counts,
+      direction: getProgressionDirection(counts),
+    };
+  });
+  return profile;
+}
+
+/**
+ * 取得使用者進程資料 (Get Progression Profile)
+ *
+ * @param userId - 使用者 ID (若為 null 則只讀取本地紀錄)
+ * @returns 動作 ID → 回饋彙整；讀取失敗時回傳空物件
+ */
+export async function getProgressionProfile(userId: string | null): Promise<ProgressionProfile> {
+  try {
+    const logs = await getRecentWorkoutLogs(userId, RECENT_LOG_LIMIT);
+
+    const entries: FeedbackRatingEntry[] = [];
+    logs.forEach(log => {
+      (Array.isArray(log.exercises) ? log.exercises : []).forEach(entry => {
+        if (!entry.exerciseId || !entry.feedback) return;
+        entries.push({
+          exerciseId: entry.exerciseId,
+          exerciseName: entry.name,
+          rating: entry.feedback,
+          ratedAt: log.started_at,
+        });
+      });
+    });
+
+    getWorkoutFeedbacks().forEach(feedback => {
+      feedback.exercises.forEach(exercise => {
+        if (!exercise.exerciseId || !exercise.difficulty) return;
+        entries.push({
+          exerciseId: exercise.exerciseId,
+          exerciseName: exercise.exerciseName,
+          rating: exercise.difficulty,
+          ratedAt: feedback.timestamp,
+        });
+      });
+    });
+
+    return buildProgressionProfile(entries);
+  } catch (error) {
+    console.error('取得進程資料錯誤:', error);
+    return {};
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * 訓練提醒服務 (Reminder Service)
+ *
+ * 以 Service Worker + Notifications API 在排定的時間提醒使用者訓練：
+ * - 排程本身 (星期、時間) 存於個人設定，見 profileSettingsService
+ * - 提醒時間由 features/reminders 計算，這裡只負責權限與交給 Service Worker 排程
+ */
+
+import { ReminderSchedule } from '../types/app';
+import { getUpcomingReminderTimes } from '../features/reminders/reminders';
+import { isServiceWorkerSupported, registerServiceWorker } from '../utils/serviceWorker';
+
+/** 一次交給 Service Worker 的提醒數 (約兩週，每次開啟應用程式會重新排程) */
+const SCHEDULED_REMINDER_COUNT = 14;
+
+const REMINDER_CONTENT = {
+  title: '該訓練囉！',
+  body: '今天的訓練還沒開始，花幾分鐘動一動吧 💪',
+};
+
+/**
+ * 提醒權限狀態，不支援時為 unsupported
+ */
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+/**
+ * 瀏覽器是否支援訓練提醒
+ */
+export function isReminderSupported(): boolean {
+  return isServiceWorkerSupported() && typeof Notification !== 'undefined';
+}
+
+/**
+ * 取得目前的通知權限
+ */
+export function getReminderPermission(): ReminderPermission {
+  return isReminderSupported() ? Notification.permission : 'unsupported';
+}
+
+/**
+ * 請求通知權限 (需由使用者操作觸發)
+ *
+ * @returns 是否已取得權限
+ */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!isReminderSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+
+  try {
+    return (await Notification.requestPermission()) === 'granted';
+  } catch (error) {
+    console.error('請求通知權限失敗:', error);
+    return false;
+  }
+}
+
+/**
+ * 套用提醒排程 (Apply Reminder Schedule)
+ * 未啟用時取消已排程的提醒；沒有通知權限時不排程
+ *
+ * @param schedule - 提醒排程
+ * @param now - 目前時間
+ * @returns 是否已交給 Service Worker 排程
+ */
+export async function applyReminderSchedule(schedule: ReminderSchedule, now: Date = new Date()): Promise<boolean> {
+  if (!isReminderSupported()) return false;
+
+  const times = Notification.permission === 'granted'
+    ? getUpcomingReminderTimes(schedule, now, SCHEDULED_REMINDER_COUNT)
+    : [];
+
+  // 沒有要排程的提醒時，只有已註冊過才需要清除
+  const registration = times.length > 0
+    ? await registerServiceWorker()
+    : await navigator.serviceWorker.getRegistration();
+  const worker = registration?.active;
+  if (!worker) return false;
+
+  if (times.length === 0) {
+    worker.postMessage({ type: 'CLEAR_REMINDERS' });
+    return false;
+  }
+
+  worker.postMessage({
+    type: 'SCHEDULE_REMINDERS',
+    times: times.map(time => time.getTime()),
+    ...REMINDER_CONTENT,
+  });
+  return true;
+}
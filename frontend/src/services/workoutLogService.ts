@@ -234,6 +234,48 @@ export async function getWorkoutLogs(
   }
 }
 
+/**
+ * 取得最近的完整訓練紀錄 (Get Recent Workout Logs)
+ * 包含動作執行紀錄，供進程分析使用
+ * 
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @param limit - 最大筆數 (預設 10)
+ * @returns 訓練紀錄 (新到舊)
+ */
+export async function getRecentWorkoutLogs(
+  userId: string | null,
+  limit: number = 10
+): Promise<WorkoutLog[]> {
+  // 訪客模式：本地紀錄已依新到舊排列
+  if (!userId) {
+    return getLocalWorkoutLogs().slice(0, limit);
+  }
+
+  // 會員模式
+  if (!isSupabaseConfigured) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('workout_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('取得最近訓練紀錄失敗:', error);
+      return [];
+    }
+
+    return (data || []) as WorkoutLog[];
+  } catch (error) {
+    console.error('取得最近訓練紀錄錯誤:', error);
+    return [];
+  }
+}
+
 /**
  * 取得單筆訓練紀錄詳情 (Get Workout Log Detail)
  * 
@@ -0,0 +1,245 @@
+/**
+ * 課表範本服務 (Workout Template Service)
+ *
+ * 負責課表範本的 CRUD 操作：
+ * - 會員：儲存於 Supabase workout_templates 資料表
+ * - 訪客：儲存於本地儲存 (localStorage)
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  WorkoutTemplate,
+  CreateWorkoutTemplateInput,
+  UpdateWorkoutTemplateInput,
+} from '../types/workoutTemplate';
+
+/**
+ * 本地儲存鍵名 (用於訪客模式)
+ */
+const LOCAL_STORAGE_KEY = 'virtual_coach_workout_templates';
+
+/**
+ * 從本地儲存讀取範本 (訪客模式)
+ */
+function getLocalTemplates(): WorkoutTemplate[] {
+  try {
+    const data = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 儲存範本至本地儲存 (訪客模式)
+ */
+function saveLocalTemplates(templates: WorkoutTemplate[]): boolean {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(templates));
+    return true;
+  } catch (error) {
+    console.error('無法儲存至本地儲存:', error);
+    return false;
+  }
+}
+
+/**
+ * 生成唯一 ID (訪客模式使用)
+ */
+function generateLocalId(): string {
+  return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 取得使用者的課表範本 (Get Workout Templates)
+ *
+ * @param userId - 使用者 ID (若為 null 則從本地讀取)
+ * @returns 範本列表 (最近更新的在前)
+ */
+export async function getWorkoutTemplates(userId: string | null): Promise<WorkoutTemplate[]> {
+  // 訪客模式：本地範本已依新到舊排列
+  if (!userId) {
+    return getLocalTemplates();
+  }
+
+  if (!isSupabaseConfigured) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('workout_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('取得課表範本失敗:', error);
+      return [];
+    }
+
+    return (data || []) as WorkoutTemplate[];
+  } catch (error) {
+    console.error('取得課表範本錯誤:', error);
+    return [];
+  }
+}
+
+/**
+ * 新增課表範本 (Create Workout Template)
+ *
+ * @param userId - 使用者 ID (若為 null 則存至本地)
+ * @param input - 範本資料
+ * @returns 新建的範本
+ */
+export async function createWorkoutTemplate(
+  userId: string | null,
+  input: CreateWorkoutTemplateInput
+): Promise<WorkoutTemplate | null> {
+  const name = input.name.trim();
+
+  // 訪客模式：儲存至本地
+  if (!userId) {
+    const now = new Date().toISOString();
+    const localTemplate: WorkoutTemplate = {
+      id: generateLocalId(),
+      user_id: 'guest',
+      ...input,
+      name,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const templates = getLocalTemplates();
+    templates.unshift(localTemplate);
+    return saveLocalTemplates(templates) ? localTemplate : null;
+  }
+
+  // 會員模式：儲存至 Supabase
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('workout_templates')
+      .insert({
+        user_id: userId,
+        name,
+        settings: input.settings,
+        exercises: input.exercises,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('新增課表範本失敗:', error);
+      return null;
+    }
+
+    return data as WorkoutTemplate;
+  } catch (error) {
+    console.error('新增課表範本錯誤:', error);
+    return null;
+  }
+}
+
+/**
+ * 更新課表範本 (Update Workout Template)
+ * 例如重新命名，或以目前的課表覆蓋
+ *
+ * @param templateId - 範本 ID
+ * @param userId - 使用者 ID
+ * @param input - 更新資料
+ * @returns 更新後的範本
+ */
+export async function updateWorkoutTemplate(
+  templateId: string,
+  userId: string | null,
+  input: UpdateWorkoutTemplateInput
+): Promise<WorkoutTemplate | null> {
+  const changes = input.name !== undefined ? { ...input, name: input.name.trim() } : input;
+
+  // 訪客模式：更新本地範本 (移到最前面)
+  if (!userId || templateId.startsWith('local_')) {
+    const templates = getLocalTemplates();
+    const existing = templates.find(template => template.id === templateId);
+    if (!existing) return null;
+
+    const updated: WorkoutTemplate = { ...existing, ...changes, updated_at: new Date().toISOString() };
+    const saved = saveLocalTemplates([updated, ...templates.filter(template => template.id !== templateId)]);
+    return saved ? updated : null;
+  }
+
+  // 會員模式：更新 Supabase
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('workout_templates')
+      .update({
+        ...changes,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', templateId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('更新課表範本失敗:', error);
+      return null;
+    }
+
+    return data as WorkoutTemplate;
+  } catch (error) {
+    console.error('更新課表範本錯誤:', error);
+    return null;
+  }
+}
+
+/**
+ * 刪除課表範本 (Delete Workout Template)
+ *
+ * @param templateId - 範本 ID
+ * @param userId - 使用者 ID
+ * @returns 是否刪除成功
+ */
+export async function deleteWorkoutTemplate(
+  templateId: string,
+  userId: string | null
+): Promise<boolean> {
+  // 訪客模式：刪除本地範本
+  if (!userId || templateId.startsWith('local_')) {
+    const templates = getLocalTemplates();
+    return saveLocalTemplates(templates.filter(template => template.id !== templateId));
+  }
+
+  // 會員模式：從 Supabase 刪除
+  if (!isSupabaseConfigured) {
+    console.error('Supabase 未設定');
+    return false;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('workout_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('刪除課表範本失敗:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('刪除課表範本錯誤:', error);
+    return false;
+  }
+}
@@ -1,4 +1,6 @@
-import { Exercise } from './db';
+import { Difficulty, Exercise } from './db';
+import { ProgressionAdjustment } from './feedback';
+import { ProgramSessionRef } from './program';
 
 /**
  * 使用者偏好設定 (User Preferences)
@@ -15,9 +17,83 @@ export interface UserPreferences {
   durationMinutes: number;
 
   /** 難度偏好 (初階, 中階, 高階) */
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  difficulty: Difficulty;
+
+  /** 訓練形式 (未設定時為 straight) */
+  format?: WorkoutFormat;
+
+  /** 循環訓練的回合數 (僅 circuit 使用) */
+  rounds?: number;
+
+  /** 排除條件 (傷病或不想做的動作)，生成器不會安排符合條件的動作 */
+  exclusions?: ExclusionRules;
+
+  /** 所屬訓練計畫的課表 (從計畫開始時設定，完成後推進計畫) */
+  program?: ProgramSessionRef;
+}
+
+/**
+ * 排除條件 (Exclusion Rules)
+ * 儲存於使用者個人資料 (訪客存於本地)，見 profileSettingsService
+ */
+export interface ExclusionRules {
+  /** 排除的動作 ID */
+  exerciseIds: string[];
+
+  /** 排除的標籤 (例如 `impact:高`、`muscle:下肢`)，動作帶有任一標籤即排除 */
+  tags: string[];
 }
 
+/**
+ * 器材組合 (Equipment Profile)
+ * 例如「住家」、「辦公室」、「飯店」，在設定畫面一鍵套用
+ */
+export interface EquipmentProfile {
+  id: string;
+
+  /** 組合名稱 */
+  name: string;
+
+  /** 器材 ID (一律包含 bodyweight) */
+  equipment: string[];
+}
+
+/**
+ * 使用者的器材組合設定
+ * 儲存於使用者個人資料 (訪客存於本地)，見 profileSettingsService
+ */
+export interface EquipmentProfileSettings {
+  profiles: EquipmentProfile[];
+
+  /** 預設組合 (設定畫面預先套用，也是快速開始的器材) */
+  defaultProfileId: string | null;
+}
+
+/**
+ * 訓練提醒排程 (Reminder Schedule)
+ * 儲存於使用者個人資料 (訪客存於本地)，見 profileSettingsService
+ */
+export interface ReminderSchedule {
+  /** 是否啟用提醒 */
+  enabled: boolean;
+
+  /** 提醒的星期 (0 = 週日 … 6 = 週六) */
+  days: number[];
+
+  /** 提醒時間 (HH:mm，本地時區) */
+  time: string;
+}
+
+/**
+ * 訓練形式 (Workout Format)
+ * - straight: 一般組數 (動作 → 休息 → 下一個動作)
+ * - circuit: 循環訓練，N 個回合，回合間休息
+ * - tabata: 20 秒運動 / 10 秒休息 × 8 回合
+ * - emom: 每分鐘開始時做動作 (Every Minute On the Minute)
+ * - amrap: 時間內盡可能完成越多回合 (As Many Rounds As Possible)
+ */
+export type WorkoutFormat = 'straight' | 'circuit' | 'tabata' | 'emom' | 'amrap';
+
 /**
  * 應用程式畫面狀態 (App Screen State)
  * 用於簡單的狀態路由 (MVP 不需複雜的 React Router)
@@ -44,6 +120,14 @@ export type AppScreen =
  */
 export type PlanItemType = 'exercise' | 'rest';
 
+/**
+ * 訓練階段 (Plan Phase)
+ * - warmup: 暖身
+ * - main: 主訓練
+ * - cooldown: 緩和伸展
+ */
+export type PlanPhase = 'warmup' | 'main' | 'cooldown';
+
 /**
  * 訓練計畫項目 (Workout Plan Item)
  * 課表中的單一項目，可能是運動或休息
@@ -56,4 +140,44 @@ export interface PlanItem {
   exercise?: Exercise;
   /** 用於顯示的標題 (例如: "休息", "伏地挺身") */
   title: string;
-}
\ No newline at end of file
+  /** 所屬訓練階段 (未設定時視為 main) */
+  phase?: PlanPhase;
+  /** 所屬訓練形式 (未設定時視為 straight) */
+  format?: WorkoutFormat;
+  /** 第幾回合 (1 起算，僅回合制形式) */
+  round?: number;
+  /** 總回合數 (AMRAP 無上限時不設定) */
+  totalRounds?: number;
+  /** 是否為回合間休息 (肌群規則不跨回合檢查) */
+  roundRest?: boolean;
+  /** 每組次數 (設定時為次數制，播放器改為「完成後點擊」模式；duration 為預估時間) */
+  reps?: number;
+  /** 組數 (次數制使用，預設 1) */
+  sets?: number;
+  /** 動作節奏，例如 "2-1-2" */
+  tempo?: string;
+  /** 組間休息 (秒，次數制使用) */
+  setRestSeconds?: number;
+}
+/**
+ * 生成結果 (Generated Plan)
+ * 課表項目與時長資訊，供 UI 顯示實際總時長
+ */
+export interface GeneratedPlan {
+  /** 完整課表 (含暖身與緩和) */
+  items: PlanItem[];
+  /** 亂數種子 (生成時的隨機行為) */
+  seed: number;
+  /** 能否以相同偏好與種子重新生成相同課表 (本地生成器且未依回饋調整時為 true，AI 課表為 false) */
+  reproducible: boolean;
+  /** 目標總時長 (秒) */
+  targetSeconds: number;
+  /** 調整後的實際總時長 (秒) */
+  totalSeconds: number;
+  /** 允許誤差 (秒)，totalSeconds 應落在 targetSeconds ± toleranceSeconds 內 */
+  toleranceSeconds: number;
+  /** totalSeconds 是否落在 targetSeconds ± toleranceSeconds 內 (動作上下限不足以調整至目標時為 false) */
+  withinTolerance: boolean;
+  /** 依過往回饋所做的調整 (見 progressionService)，沒有調整時為空陣列 */
+  adjustments: ProgressionAdjustment[];
+}
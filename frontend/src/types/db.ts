@@ -3,6 +3,64 @@
  * 對應 Supabase 中的 Table 結構
  */
 
+/**
+ * 器材 ID (Equipment ID)
+ * 顯示名稱與舊版標籤對應見 features/exercises/metadata
+ */
+export type EquipmentId =
+  | 'bodyweight'
+  | 'dumbbell'
+  | 'band'
+  | 'kettlebell'
+  | 'pullup_bar'
+  | 'bench'
+  | 'jump_rope'
+  | 'mat';
+
+/**
+ * 難度 (Difficulty)
+ */
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * 訓練目標 (Exercise Goal)，與 UserPreferences.goal 相同的 ID
+ */
+export type ExerciseGoal = 'muscle' | 'fat-loss' | 'tone' | 'flexibility';
+
+/**
+ * 運動類型 (Exercise Type)
+ */
+export type ExerciseType = 'strength' | 'cardio' | 'hiit' | 'core' | 'warmup' | 'mobility' | 'stretch';
+
+/**
+ * 肌群 (Muscle Group)
+ */
+export type MuscleGroup = 'upper' | 'lower' | 'core' | 'full_body';
+
+/**
+ * 強度 / 衝擊等級 (Intensity Level)
+ */
+export type IntensityLevel = 'low' | 'high';
+
+/**
+ * 動作關係類型 (Exercise Relation Type)
+ * - regression_of: 此動作是目標動作的較簡單版本
+ * - progression_of: 此動作是目標動作的較難版本
+ * - alternative_to: 此動作可替代目標動作 (難度相近)
+ */
+export type ExerciseRelationType = 'regression_of' | 'progression_of' | 'alternative_to';
+
+/**
+ * 動作關係 (Exercise Relation)
+ * 對應 exercise_relations 資料表，由 exerciseService 附加到 Exercise.relations
+ */
+export interface ExerciseRelation {
+  type: ExerciseRelationType;
+
+  /** 目標動作 ID */
+  exercise_id: string;
+}
+
 /**
  * 運動項目 (Exercise)
  * 對應 PRD F-1.1: 運動資料表結構
@@ -22,9 +80,51 @@ export interface Exercise {
   
   /** 建議持續時間 (秒) */
   duration_seconds: number;
+
+  /** 最短持續時間 (秒)，生成器調整時長時的下限；未設定時依建議時長推算 */
+  min_duration_seconds?: number;
+
+  /** 最長持續時間 (秒)，生成器調整時長時的上限；未設定時依建議時長推算 */
+  max_duration_seconds?: number;
+
+  /** 建議次數 (每組)，有設定的動作可改以「組數 × 次數」安排 */
+  default_reps?: number;
+
+  /** 建議組數，未設定時依難度決定 */
+  default_sets?: number;
+
+  /** 動作節奏 (離心-停頓-向心 秒數)，例如 "2-1-2" */
+  tempo?: string;
+
+  /** 與其他動作的變化關係 (進階 / 退階 / 替代)，見 features/generator/relations */
+  relations?: ExerciseRelation[];
+  
+  /** 所需器材 (全部需具備)；exerciseService 會從舊版 `equipment:` 標籤補齊 */
+  equipment?: EquipmentId[];
+
+  /** 可互相替代的器材 (具備其中一種即可)，例如啞鈴或壺鈴；對應舊版 `equipment_any:` 標籤 */
+  equipment_any?: EquipmentId[];
+
+  /** 難度 */
+  difficulty?: Difficulty;
+
+  /** 適合的訓練目標 */
+  goals?: ExerciseGoal[];
+
+  /** 運動類型 */
+  exercise_type?: ExerciseType;
+
+  /** 主要肌群 (第一個為主肌群，用於肌群平衡) */
+  muscle_groups?: MuscleGroup[];
+
+  /** 衝擊程度 (跳躍類動作為 high) */
+  impact?: IntensityLevel;
+
+  /** 強度 (low 的動作可用於暖身與緩和) */
+  intensity?: IntensityLevel;
   
   /** 
-   * 標籤陣列，用於篩選
+   * 標籤陣列 (舊版格式)，結構化欄位缺少時由此解析，排除條件也以標籤比對
    * 格式範例: ["goal:增肌", "difficulty:初階", "equipment:啞鈴", "type:肌力"]
    */
   tags: string[];
@@ -66,3 +66,67 @@ export interface WorkoutFeedback {
     /** 整體評分 (Overall Rating) */
     rating: WorkoutRating;
 }
+
+/**
+ * 進程方向 (Progression Direction)
+ *
+ * - progress: 多次回報太簡單，安排較難的變化或延長時間
+ * - regress: 多次回報太難，安排較簡單的變化或縮短時間
+ * - hold: 維持不變
+ */
+export type ProgressionDirection = 'progress' | 'regress' | 'hold';
+
+/**
+ * 單一動作的回饋彙整 (Exercise Feedback Summary)
+ *
+ * 只統計最近幾次的評分，避免太久以前的回饋影響目前的課表
+ */
+export interface ExerciseFeedbackSummary {
+    /** 動作 ID (Exercise ID) */
+    exerciseId: string;
+
+    /** 動作名稱 (Exercise Name) */
+    exerciseName: string;
+
+    /** 各評分次數 (Rating Counts) */
+    tooEasy: number;
+    justRight: number;
+    tooHard: number;
+
+    /** 建議的進程方向 (Suggested Direction) */
+    direction: ProgressionDirection;
+}
+
+/**
+ * 使用者進程資料 (Progression Profile)
+ *
+ * 動作 ID → 回饋彙整
+ */
+export type ProgressionProfile = Record<string, ExerciseFeedbackSummary>;
+
+/**
+ * 課表調整說明 (Progression Adjustment)
+ *
+ * 生成器依進程資料調整課表時產生，於課表總覽顯示「我們調整了 X，因為…」
+ */
+export interface ProgressionAdjustment {
+    /** 原動作 ID (Original Exercise ID) */
+    exerciseId: string;
+
+    /** 原動作名稱 (Original Exercise Name) */
+    exerciseName: string;
+
+    /**
+     * 調整方式 (Adjustment Kind)
+     * - harder_variant / easier_variant: 換成較難 / 較簡單的同類動作
+     * - longer / shorter: 保留動作，延長 / 縮短時間 (次數制為增減次數)
+     */
+    kind: 'harder_variant' | 'easier_variant' | 'longer' | 'shorter';
+
+    /** 替換後的動作 (僅換動作時) */
+    replacementId?: string;
+    replacementName?: string;
+
+    /** 顯示文字 (Display Message) */
+    message: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * 訓練排程型別定義 (Planned Workout Type Definitions)
+ */
+
+/**
+ * 排定的訓練 (Planned Workout)
+ * 對應資料庫 planned_workouts 資料表，訪客存於本地
+ */
+export interface PlannedWorkout {
+  /** 排程 ID */
+  id: string;
+
+  /** 使用者 ID */
+  user_id: string;
+
+  /** 排定日期 (YYYY-MM-DD，本地時區) */
+  date: string;
+
+  /** 目標 (選用範本時沿用範本的目標) */
+  goal: string;
+
+  /** 預計時長 (分鐘) */
+  duration_minutes: number;
+
+  /** 使用的範本 ID (未指定範本時為 null) */
+  template_id: string | null;
+
+  /** 範本名稱 (顯示用，範本刪除後仍保留) */
+  template_name: string | null;
+
+  /** 滿足此排程的訓練紀錄 ID (尚未完成時為 null) */
+  completed_log_id: string | null;
+
+  /** 建立時間 */
+  created_at?: string;
+}
+
+/**
+ * 新增排程的輸入資料 (不含自動產生欄位)
+ */
+export interface CreatePlannedWorkoutInput {
+  date: string;
+  goal: string;
+  duration_minutes: number;
+  template_id?: string | null;
+  template_name?: string | null;
+}
+
+/**
+ * 排程狀態 (Planned Workout Status)
+ * - completed: 已有訓練紀錄滿足
+ * - planned: 今天或之後，尚未完成
+ * - missed: 已過期且未完成
+ */
+export type PlannedWorkoutStatus = 'completed' | 'planned' | 'missed';
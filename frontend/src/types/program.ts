@@ -0,0 +1,108 @@
+/**
+ * 訓練計畫型別定義 (Training Program Type Definitions)
+ * 計畫內容為資料驅動 (見 data/programs.json)，新增計畫不需修改程式
+ */
+
+import { Difficulty } from './db';
+import { UserPreferences, WorkoutFormat } from './app';
+
+/**
+ * 單次課表的設定 (Program Session Settings)
+ * 計畫預設值、每週進程規則與單日設定皆使用此格式，後者覆蓋前者
+ */
+export interface ProgramSessionSettings {
+  /** 運動目標 (例如 muscle, fat-loss, tone) */
+  goal?: string;
+
+  /** 總訓練時長 (分鐘) */
+  durationMinutes?: number;
+
+  difficulty?: Difficulty;
+
+  format?: WorkoutFormat;
+
+  /** 循環訓練的回合數 */
+  rounds?: number;
+}
+
+/**
+ * 每週進程規則 (Weekly Progression Rule)
+ * 自 fromWeek 起套用 (依序累加)，例如第 3 週起改為循環訓練
+ */
+export interface ProgramWeekRule extends ProgramSessionSettings {
+  /** 從第幾週開始套用 (1 起算) */
+  fromWeek: number;
+}
+
+/**
+ * 每週中的某一天 (Program Day)
+ */
+export interface ProgramDay extends ProgramSessionSettings {
+  /** 顯示名稱，例如「下肢與核心」 */
+  title: string;
+}
+
+/**
+ * 訓練計畫定義 (Program Definition)
+ */
+export interface ProgramDefinition {
+  id: string;
+
+  /** 計畫名稱 */
+  name: string;
+
+  /** 計畫說明 */
+  description: string;
+
+  /** 總週數 */
+  weeks: number;
+
+  /** 預設設定 (需包含 goal、durationMinutes、difficulty) */
+  defaults: Required<Pick<ProgramSessionSettings, 'goal' | 'durationMinutes' | 'difficulty'>> & ProgramSessionSettings;
+
+  /** 每週進程規則 */
+  progression: ProgramWeekRule[];
+
+  /** 每週的訓練日 (長度即每週次數) */
+  days: ProgramDay[];
+}
+
+/**
+ * 課表所屬的計畫位置 (Program Session Reference)
+ * 寫入訓練紀錄，完成後用於推進計畫
+ */
+export interface ProgramSessionRef {
+  programId: string;
+
+  /** 第幾週 / 第幾天 (皆 1 起算) */
+  week: number;
+  day: number;
+}
+
+/**
+ * 計畫中的單次課表 (Program Session)
+ */
+export interface ProgramSession extends ProgramSessionRef {
+  /** 單日名稱 */
+  title: string;
+
+  /** 生成課表用的偏好設定 (不含器材與排除條件) */
+  preferences: Omit<UserPreferences, 'equipment' | 'exclusions'>;
+}
+
+/**
+ * 計畫參加狀態 (Program Enrollment)
+ * 儲存於使用者個人資料 (訪客存於本地)，見 profileSettingsService
+ */
+export interface ProgramEnrollment {
+  programId: string;
+
+  /** 參加時間 */
+  startedAt: string;
+
+  /** 已完成的課表數 (即下一次課表的索引) */
+  completedSessions: number;
+
+  /** 最近完成時間 */
+  lastCompletedAt: string | null;
+}
@@ -0,0 +1,122 @@
+/**
+ * 訓練進行中狀態型別定義 (Workout Session Type Definitions)
+ * 播放器每次狀態變化都會寫入本地檢查點，當機或關閉分頁後可從相同位置繼續
+ */
+
+import { PlanItem, UserPreferences } from './app';
+import { ProgressionAdjustment } from './feedback';
+import { ExerciseFeedback } from './workoutLog';
+
+/**
+ * 單一項目執行紀錄 (Player Item Record)
+ * 播放器進入過的項目才有紀錄；回到上一個或重新開始時累計在同一筆
+ */
+export interface PlayerItemRecord {
+  /** plan 索引 */
+  index: number;
+
+  /** 第一次開始時間 (ISO 8601) */
+  startedAt: string;
+
+  /** 最後一次離開時間 (ISO 8601)，仍在進行中時為 null */
+  endedAt: string | null;
+
+  /** 實際進行秒數 (暫停不計，含重做與時間調整) */
+  activeSeconds: number;
+
+  /** 停留期間的暫停秒數 */
+  pausedSeconds: number;
+
+  /** 是否完成 (時間到或完成最後一組) */
+  completed: boolean;
+
+  /** 是否被跳過且之後未完成 */
+  skipped: boolean;
+
+  /** 使用者的難度回饋 */
+  feedback: ExerciseFeedback;
+}
+
+/**
+ * 播放器進度 (Player Progress)
+ * 足以讓播放器回到相同項目與剩餘時間
+ */
+export interface PlayerProgress {
+  /** 目前項目索引 */
+  currentIndex: number;
+
+  /** 目前項目剩餘秒數 (計時制，含 ±15 秒調整) */
+  timeLeft: number;
+
+  /** 目前項目的時間調整 (秒，計時制 ±15 秒累加，可為負數) */
+  timeAdjustSeconds: number;
+
+  /** 實際訓練秒數 */
+  elapsedSeconds: number;
+
+  /** 已完成的項目索引 (含休息) */
+  completedItems: number[];
+
+  /** 被跳過且之後未完成的動作索引 */
+  skippedExercises: number[];
+
+  /** 次數制：目前第幾組 (0 起算) */
+  setIndex: number;
+
+  /** 次數制：目前這組的次數 */
+  repCount: number;
+
+  /** 次數制：組間休息剩餘秒數 */
+  setRestLeft: number;
+
+  /** 次數制動作各組實際次數 (key 為 plan 索引) */
+  repLog: Record<number, number[]>;
+
+  /** 各項目執行紀錄 (含目前項目) */
+  items: PlayerItemRecord[];
+}
+
+/**
+ * 訓練結果 (Workout Result)
+ * 播放器完成或中途離開時回傳，用於建立訓練紀錄
+ */
+export interface WorkoutResult {
+  /** 完成的運動數量 (不含休息與跳過) */
+  completedExercises: number;
+
+  /** 實際訓練秒數 (暫停不計) */
+  elapsedSeconds: number;
+
+  /** 次數制動作各組實際次數 (key 為 plan 索引) */
+  actualReps: Record<number, number[]>;
+
+  /** 各項目執行紀錄 (依 plan 索引排序，未進入的項目沒有紀錄) */
+  items: PlayerItemRecord[];
+}
+
+/**
+ * 訓練檢查點 (Workout Checkpoint)
+ * 課表與進度一併儲存，繼續訓練時不需重新生成
+ */
+export interface WorkoutCheckpoint {
+  /** 格式版本，不符時捨棄 */
+  version: number;
+
+  /** 最後寫入時間 (ISO 8601)，用於判斷是否過期 */
+  savedAt: string;
+
+  /** 訓練開始時間 (ISO 8601) */
+  startedAt: string;
+
+  plan: PlanItem[];
+
+  preferences: UserPreferences;
+
+  /** 課表亂數種子 */
+  planSeed?: number;
+
+  /** 依過往回饋所做的調整 */
+  planAdjustments: ProgressionAdjustment[];
+
+  progress: PlayerProgress;
+}
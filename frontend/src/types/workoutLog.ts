@@ -3,7 +3,8 @@
  * Phase 2: 資料持久化模組
  */
 
-import { UserPreferences } from './app';
+import { PlanPhase, UserPreferences, WorkoutFormat } from './app';
+import { ProgramSessionRef } from './program';
 
 /**
  * 組間回饋類型 (Inter-set Feedback)
@@ -33,8 +34,58 @@ export interface ExerciseLogEntry {
   
   /** 組間回饋 */
   feedback: ExerciseFeedback;
+
+  /** 計畫每組次數 (次數制動作) */
+  targetReps?: number;
+
+  /** 計畫組數 (次數制動作) */
+  targetSets?: number;
+
+  /** 各組實際完成次數 (次數制動作，未完成的組不記錄) */
+  actualReps?: number[];
+
+  /** 訓練階段 (用於「重做一次」重建課表，舊紀錄無此欄位) */
+  phase?: PlanPhase;
+
+  /** 所屬訓練形式 (未設定時為 straight) */
+  format?: WorkoutFormat;
+
+  /** 目前回合 / 總回合數 (循環、Tabata 等形式) */
+  round?: number;
+  totalRounds?: number;
+
+  /** 此動作後的休息秒數 (0 表示沒有休息，舊紀錄無此欄位) */
+  restAfterSeconds?: number;
+
+  /** 第一次開始 / 最後一次離開時間 (ISO 8601，未進入的動作與舊紀錄無此欄位) */
+  startedAt?: string;
+  endedAt?: string;
+
+  /** 進行期間的暫停秒數 */
+  pausedSeconds?: number;
+
+  /** 是否被跳過 (未進入的動作為 false) */
+  skipped?: boolean;
 }
 
+/**
+ * 課表動作 (Planned Exercise Entry)
+ * 動作紀錄中描述課表本身的欄位 (不含執行結果)，用於重建課表與課表範本
+ */
+export type PlannedExerciseEntry = Pick<
+  ExerciseLogEntry,
+  | 'name'
+  | 'exerciseId'
+  | 'plannedDuration'
+  | 'targetReps'
+  | 'targetSets'
+  | 'phase'
+  | 'format'
+  | 'round'
+  | 'totalRounds'
+  | 'restAfterSeconds'
+>;
+
 /**
  * 訓練設定快照 (Workout Settings Snapshot)
  * 記錄當次訓練的偏好設定
@@ -51,6 +102,18 @@ export interface WorkoutSettings {
   
   /** 計畫總時長 (分鐘) */
   plannedDuration: number;
+
+  /** 訓練形式 (舊紀錄無此欄位，視為 straight) */
+  format?: WorkoutFormat;
+
+  /** 循環訓練的回合數 */
+  rounds?: number;
+
+  /** 生成課表時的亂數種子 (可用於重現同一份課表，舊紀錄無此欄位) */
+  seed?: number;
+
+  /** 所屬訓練計畫的課表 (完成後推進計畫進度) */
+  program?: ProgramSessionRef;
 }
 
 /**
@@ -147,12 +210,32 @@ export interface WorkoutStats {
 
 /**
  * 將 UserPreferences 轉換為 WorkoutSettings
+ * 若提供課表的亂數種子則一併記錄
  */
-export function preferencesToSettings(prefs: UserPreferences): WorkoutSettings {
+export function preferencesToSettings(prefs: UserPreferences, seed?: number): WorkoutSettings {
   return {
     goal: prefs.goal,
     difficulty: prefs.difficulty,
     equipment: prefs.equipment,
     plannedDuration: prefs.durationMinutes,
+    ...(prefs.format !== undefined && { format: prefs.format }),
+    ...(prefs.rounds !== undefined && { rounds: prefs.rounds }),
+    ...(seed !== undefined && { seed }),
+    ...(prefs.program !== undefined && { program: prefs.program }),
+  };
+}
+
+/**
+ * 將 WorkoutSettings 轉換回 UserPreferences (用於快速開始)
+ * 排除條件不在紀錄中，需另外讀取；不沿用訓練計畫 (重做不算計畫進度)
+ */
+export function settingsToPreferences(settings: WorkoutSettings): UserPreferences {
+  return {
+    goal: settings.goal,
+    difficulty: settings.difficulty,
+    equipment: settings.equipment,
+    durationMinutes: settings.plannedDuration,
+    format: settings.format ?? 'straight',
+    ...(settings.rounds !== undefined && { rounds: settings.rounds }),
   };
 }
@@ -0,0 +1,50 @@
+/**
+ * 課表範本型別定義 (Workout Template Type Definitions)
+ */
+
+import { PlannedExerciseEntry, WorkoutSettings } from './workoutLog';
+
+/**
+ * 課表範本 (Workout Template)
+ * 對應資料庫 workout_templates 資料表，訪客存於本地
+ */
+export interface WorkoutTemplate {
+  /** 範本 ID */
+  id: string;
+
+  /** 使用者 ID */
+  user_id: string;
+
+  /** 範本名稱 */
+  name: string;
+
+  /** 建立範本時的訓練設定 */
+  settings: WorkoutSettings;
+
+  /** 課表動作 (依順序，含休息與回合資訊) */
+  exercises: PlannedExerciseEntry[];
+
+  /** 建立時間 */
+  created_at?: string;
+
+  /** 更新時間 */
+  updated_at?: string;
+}
+
+/**
+ * 新增範本的輸入資料 (不含自動產生欄位)
+ */
+export interface CreateWorkoutTemplateInput {
+  name: string;
+  settings: WorkoutSettings;
+  exercises: PlannedExerciseEntry[];
+}
+
+/**
+ * 更新範本的輸入資料
+ */
+export interface UpdateWorkoutTemplateInput {
+  name?: string;
+  settings?: WorkoutSettings;
+  exercises?: PlannedExerciseEntry[];
+}
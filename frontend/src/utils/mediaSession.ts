@@ -0,0 +1,98 @@
+/**
+ * Media Session 工具 (Media Session Utility)
+ * 讓鎖定畫面、通知列與耳機按鍵可以暫停 / 繼續 / 切換項目
+ *
+ * 透過 MediaSessionAdapter 存取，測試時可傳入假的 session (jsdom 沒有 navigator.mediaSession)。
+ * 瀏覽器通常只在頁面正在播放聲音 (語音提示、嗶聲) 時顯示這些控制項。
+ */
+
+/**
+ * 顯示在鎖定畫面的資訊
+ */
+export interface MediaSessionInfo {
+  /** 標題 (目前項目) */
+  title: string;
+
+  /** 副標題 (下一個項目) */
+  artist: string;
+
+  /** 第二行副標題 (進度) */
+  album: string;
+
+  /** 封面圖片 (動作示範圖) */
+  artworkUrl?: string;
+}
+
+/** 支援的控制按鍵 */
+export type MediaSessionControl = 'play' | 'pause' | 'nexttrack' | 'previoustrack';
+
+export const MEDIA_SESSION_CONTROLS: MediaSessionControl[] = ['play', 'pause', 'nexttrack', 'previoustrack'];
+
+/** 各按鍵的處理函式 (未提供的按鍵不顯示) */
+export type MediaSessionHandlers = Partial<Record<MediaSessionControl, () => void>>;
+
+/**
+ * Media Session 存取介面
+ */
+export interface MediaSessionAdapter {
+  /** 更新鎖定畫面資訊 (null 表示清除) */
+  setMetadata: (info: MediaSessionInfo | null) => void;
+
+  /** 更新播放狀態 (決定顯示播放或暫停按鈕) */
+  setPlaybackState: (state: MediaSessionPlaybackState) => void;
+
+  /** 設定所有按鍵的處理函式 (未提供的按鍵會被移除) */
+  setHandlers: (handlers: MediaSessionHandlers) => void;
+}
+
+/**
+ * 瀏覽器是否支援 Media Session API
+ */
+export const isMediaSessionSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator && typeof MediaMetadata !== 'undefined';
+
+/**
+ * 建立 Media Session 存取介面
+ *
+ * @param session - Media Session (瀏覽器中為 navigator.mediaSession)
+ * @param createMetadata - 建立 MediaMetadata (預設使用瀏覽器的建構子)
+ * @returns {MediaSessionAdapter}
+ */
+export const createMediaSessionAdapter = (
+  session: MediaSession,
+  createMetadata: (init: MediaMetadataInit) => MediaMetadata = init => new MediaMetadata(init),
+): MediaSessionAdapter => ({
+  setMetadata: info => {
+    session.metadata = info
+      ? createMetadata({
+        title: info.title,
+        artist: info.artist,
+        album: info.album,
+        artwork: info.artworkUrl ? [{ src: info.artworkUrl }] : [],
+      })
+      : null;
+  },
+
+  setPlaybackState: state => {
+    session.playbackState = state;
+  },
+
+  setHandlers: handlers => {
+    MEDIA_SESSION_CONTROLS.forEach(control => {
+      try {
+        session.setActionHandler(control, handlers[control] ? () => handlers[control]?.() : null);
+      } catch (error) {
+        // 部分瀏覽器不支援某些按鍵，設定時會丟出錯誤
+        console.warn(`不支援的 Media Session 按鍵: ${control}`, error);
+      }
+    });
+  },
+});
+
+/**
+ * 取得瀏覽器的 Media Session 存取介面
+ *
+ * @returns 不支援時回傳 null
+ */
+export const getMediaSessionAdapter = (): MediaSessionAdapter | null =>
+  isMediaSessionSupported() ? createMediaSessionAdapter(navigator.mediaSession) : null;
@@ -0,0 +1,10 @@
+/**
+ * 網路狀態工具 (Network Utility)
+ */
+
+/**
+ * 瀏覽器是否確定處於離線狀態
+ * navigator.onLine 為 true 不保證能連線，因此只用於提早略過必定失敗的請求
+ */
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
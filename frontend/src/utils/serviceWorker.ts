@@ -0,0 +1,47 @@
+/**
+ * Service Worker 工具 (Service Worker Utility)
+ * 註冊 public/sw.js，整個應用程式共用同一個註冊結果
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+/**
+ * 瀏覽器是否支援 Service Worker
+ */
+export const isServiceWorkerSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/**
+ * 註冊 Service Worker 並等待啟用 (重複呼叫只會註冊一次)
+ *
+ * @returns 註冊結果，不支援或註冊失敗時回傳 null
+ */
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isServiceWorkerSupported()) return Promise.resolve(null);
+
+  if (!registration) {
+    registration = navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .catch(error => {
+        console.error('註冊 Service Worker 失敗:', error);
+        registration = null;
+        return null;
+      });
+  }
+
+  return registration;
+};
+
+/**
+ * 請 Service Worker 預先快取媒體 (例如動作示範 GIF)，供離線使用
+ * Service Worker 尚未啟用時略過，下次載入動作庫時會再次請求
+ *
+ * @param urls - 媒體網址
+ */
+export const precacheMedia = (urls: string[]): void => {
+  if (!isServiceWorkerSupported() || urls.length === 0) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'CACHE_MEDIA', urls: [...new Set(urls)] });
+};
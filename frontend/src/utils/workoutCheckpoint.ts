@@ -0,0 +1,78 @@
+/**
+ * 訓練檢查點儲存 (Workout Checkpoint Storage)
+ *
+ * 播放器每次狀態變化時同步寫入 localStorage (會員與訪客相同，不上傳雲端)，
+ * 應用程式啟動時讀取，詢問是否繼續未完成的訓練
+ */
+
+import { WorkoutCheckpoint } from '../types/session';
+import {
+  DEFAULT_CHECKPOINT_MAX_AGE_HOURS,
+  isCheckpointExpired,
+  normalizeWorkoutCheckpoint,
+} from '../features/session/checkpoint';
+
+const WORKOUT_CHECKPOINT_KEY = 'virtual_coach_active_session';
+
+/**
+ * 取得檢查點保留時間 (毫秒)
+ * 可用環境變數 VITE_SESSION_RESUME_HOURS 調整，未設定或無效時為 12 小時
+ */
+export const getCheckpointMaxAgeMs = (): number => {
+  // @ts-ignore - Vite 環境變數存取
+  const hours = Number(import.meta.env?.VITE_SESSION_RESUME_HOURS);
+  return (hours > 0 ? hours : DEFAULT_CHECKPOINT_MAX_AGE_HOURS) * 60 * 60 * 1000;
+};
+
+/**
+ * 儲存訓練檢查點 (覆蓋上一筆)
+ *
+ * @param checkpoint - 訓練檢查點 (savedAt 由此處填入)
+ */
+export const saveWorkoutCheckpoint = (checkpoint: Omit<WorkoutCheckpoint, 'savedAt'>): void => {
+  try {
+    localStorage.setItem(WORKOUT_CHECKPOINT_KEY, JSON.stringify({ ...checkpoint, savedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.error('儲存訓練進度失敗:', error);
+  }
+};
+
+/**
+ * 讀取未完成的訓練檢查點
+ * 過期或格式無效的檢查點會一併清除
+ *
+ * @param now - 目前時間
+ * @param maxAgeMs - 保留時間 (毫秒)
+ * @returns WorkoutCheckpoint | null
+ */
+export const loadWorkoutCheckpoint = (
+  now: Date = new Date(),
+  maxAgeMs: number = getCheckpointMaxAgeMs()
+): WorkoutCheckpoint | null => {
+  try {
+    const stored = localStorage.getItem(WORKOUT_CHECKPOINT_KEY);
+    if (!stored) return null;
+
+    const checkpoint = normalizeWorkoutCheckpoint(JSON.parse(stored));
+    if (!checkpoint || isCheckpointExpired(checkpoint, now, maxAgeMs)) {
+      clearWorkoutCheckpoint();
+      return null;
+    }
+    return checkpoint;
+  } catch (error) {
+    console.error('讀取訓練進度失敗:', error);
+    clearWorkoutCheckpoint();
+    return null;
+  }
+};
+
+/**
+ * 清除訓練檢查點 (訓練完成、結束或放棄繼續時)
+ */
+export const clearWorkoutCheckpoint = (): void => {
+  try {
+    localStorage.removeItem(WORKOUT_CHECKPOINT_KEY);
+  } catch (error) {
+    console.error('清除訓練進度失敗:', error);
+  }
+};
@@ -133,5 +133,57 @@ describe('exerciseService', () => {
       expect(result[0].tags).toContain('equipment:徒手');
       expect(Array.isArray(result[0].tags)).toBe(true);
     });
+
+    it('應該附加 exercise_relations 的動作關係', async () => {
+      const rows: Record<string, unknown[]> = {
+        exercises: [
+          { id: '1', name: '跪姿伏地挺身', video_url: '', duration_seconds: 30, tags: [] },
+          { id: '2', name: '伏地挺身', video_url: '', duration_seconds: 30, tags: [] },
+        ],
+        exercise_relations: [
+          { exercise_id: '1', related_exercise_id: '2', relation_type: 'regression_of' },
+        ],
+      };
+      vi.mocked(supabase.from).mockImplementation((table: string) => ({
+        select: vi.fn().mockResolvedValue({ data: rows[table], error: null }),
+      }) as any);
+
+      const result = await getAllExercises();
+
+      expect(result[0].relations).toEqual([{ type: 'regression_of', exercise_id: '2' }]);
+      expect(result[1].relations).toBeUndefined();
+      expect(supabase.from).toHaveBeenCalledWith('exercise_relations');
+    });
+
+    it('查詢失敗時應優先使用上次成功載入的動作庫', async () => {
+      vi.mocked(supabase.from).mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [{ id: 'db-1', name: '深蹲', video_url: '', duration_seconds: 40, tags: [] }],
+          error: null,
+        }),
+      } as any);
+      await getAllExercises();
+
+      // 模擬快取過期後查詢失敗 (只清除記憶體快取)
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 10 * 60 * 1000);
+      vi.mocked(supabase.from).mockReturnValue({
+        select: vi.fn().mockResolvedValue({ data: null, error: { message: 'Network error', name: 'Error' } }),
+      } as any);
+
+      const result = await getAllExercises();
+
+      expect(result.map((exercise: { id: string }) => exercise.id)).toEqual(['db-1']);
+      vi.restoreAllMocks();
+    });
+
+    it('離線時不查詢資料庫', async () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      const result = await getAllExercises();
+
+      expect(result).toEqual(MOCK_EXERCISES);
+      expect(supabase.from).not.toHaveBeenCalled();
+      onLine.mockRestore();
+    });
   });
 });
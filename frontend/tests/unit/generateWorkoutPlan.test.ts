@@ -1,8 +1,51 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { generateWorkoutPlan } from '@/features/generator/engine';
-import { UserPreferences } from '@/types/app';
+import { generateWorkoutPlan, scoreExerciseForGoal, DEFAULT_GOAL_SCORING } from '@/features/generator/engine';
+import { getPhaseBudget } from '@/features/generator/phases';
+import {
+  DEFAULT_TOLERANCE_SECONDS,
+  fitPlanDurations,
+  getDurationBounds,
+} from '@/features/generator/fitting';
+import { MOCK_EXERCISES } from '@/data/mockExercises';
+import { createRandom } from '@/features/generator/random';
+import { getFormatCue, getRoundLabel } from '@/features/generator/formats';
+import { estimateRepDuration, getSecondsPerRep } from '@/features/generator/reps';
+import { preferencesToSettings } from '@/types/workoutLog';
+import { describeExclusions, normalizeExclusions } from '@/features/generator/exclusions';
+import {
+  EMPTY_EQUIPMENT_PROFILES,
+  findMatchingEquipmentProfile,
+  getDefaultEquipmentProfile,
+  normalizeEquipmentProfiles,
+  removeEquipmentProfile,
+  saveEquipmentProfile,
+} from '@/features/generator/equipmentProfiles';
+import { findExerciseVariants, swapExerciseInPlan } from '@/features/generator/relations';
+import {
+  isDifficultyAllowed,
+  isEquipmentAvailable,
+  normalizeExercise,
+  parseLegacyTags,
+  pickStructuredFields,
+} from '@/features/exercises/metadata';
+import {
+  findMuscleGroupConflict,
+  getMuscleGroup,
+  reorderPlanByMuscleGroup,
+} from '@/features/generator/muscleGroups';
+import { UserPreferences, PlanItem } from '@/types/app';
+import { ExerciseFeedbackSummary, ProgressionProfile } from '@/types/feedback';
+import { Exercise } from '@/types/db';
 import * as exerciseService from '@/services/exerciseService';
 
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
 // Mock exerciseService
 vi.mock('@/services/exerciseService');
 
@@ -62,7 +105,8 @@ describe('generateWorkoutPlan', () => {
   ];
 
   beforeEach(() => {
-    vi.mocked(exerciseService.getAllExercises).mockResolvedValue(mockExercises);
+    // 舊版資料庫格式的測試資料 (difficulty 等欄位為字串)
+    vi.mocked(exerciseService.getAllExercises).mockResolvedValue(mockExercises as Exercise[]);
   });
 
   it('應該根據使用者偏好生成訓練課表', async () => {
@@ -73,7 +117,7 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'beginner',
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
 
     expect(plan.length).toBeGreaterThan(0);
     expect(plan.every(item => item.duration > 0)).toBe(true);
@@ -88,7 +132,7 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'beginner',
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
     const restItems = plan.filter(item => item.type === 'rest');
 
     expect(restItems.length).toBeGreaterThan(0);
@@ -103,7 +147,7 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'beginner',
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
     const exercises = plan.filter(item => item.type === 'exercise');
 
     // 所有運動都應該是徒手運動
@@ -123,7 +167,7 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'beginner', // 只要初階
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
     const exercises = plan.filter(item => item.type === 'exercise');
 
     exercises.forEach(item => {
@@ -142,7 +186,7 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'advanced',
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
 
     // 應該回傳徒手運動作為 Fallback
     expect(plan.length).toBeGreaterThan(0);
@@ -156,10 +200,818 @@ describe('generateWorkoutPlan', () => {
       difficulty: 'beginner',
     };
 
-    const plan = await generateWorkoutPlan(prefs);
+    const { items: plan } = await generateWorkoutPlan(prefs);
     const totalDuration = plan.reduce((sum, item) => sum + item.duration, 0);
 
     // 總時長應該接近目標時間 (誤差在 60 秒內)
     expect(Math.abs(totalDuration - 180)).toBeLessThan(60);
   });
+
+  describe('目標導向選擇 (Goal-aware selection)', () => {
+    const makeExercise = (id: string, tags: string[]): Exercise => ({
+      id,
+      name: `動作-${id}`,
+      description: '',
+      video_url: '',
+      duration_seconds: 30,
+      tags: ['equipment:徒手', 'difficulty:初階', ...tags],
+    });
+
+    // 3 個減脂/有氧動作 + 3 個增肌/肌力動作
+    const goalExercises: Exercise[] = [
+      makeExercise('cardio-1', ['goal:減脂', 'type:有氧']),
+      makeExercise('cardio-2', ['goal:減脂', 'type:有氧']),
+      makeExercise('hiit-1', ['goal:減脂', 'type:高強度']),
+      makeExercise('strength-1', ['goal:增肌', 'type:肌力']),
+      makeExercise('strength-2', ['goal:增肌', 'type:肌力']),
+      makeExercise('strength-3', ['goal:增肌', 'type:肌力']),
+    ];
+
+    const basePrefs: Omit<UserPreferences, 'goal'> = {
+      equipment: ['bodyweight'],
+      durationMinutes: 10,
+      difficulty: 'beginner',
+    };
+
+    const exerciseIds = (plan: PlanItem[]) =>
+      plan.filter(item => item.type === 'exercise').map(item => item.exercise!.id);
+
+    const matchRatio = (plan: PlanItem[], goal: string) => {
+      const exercises = plan.filter(item => item.type === 'exercise');
+      const matched = exercises.filter(item => scoreExerciseForGoal(item.exercise!, goal) > 0);
+      return matched.length / exercises.length;
+    };
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(goalExercises);
+    });
+
+    it('應該依 goal 與 type 標籤計算契合分數', () => {
+      const [cardio, , , strength] = goalExercises;
+
+      expect(scoreExerciseForGoal(cardio, 'fat-loss')).toBe(
+        DEFAULT_GOAL_SCORING.goalTagWeight + DEFAULT_GOAL_SCORING.typeTagWeight
+      );
+      expect(scoreExerciseForGoal(strength, 'fat-loss')).toBe(0);
+      expect(scoreExerciseForGoal(strength, 'muscle')).toBeGreaterThan(0);
+    });
+
+    it('減脂目標的課表應以有氧動作為主', async () => {
+      const { items: plan } = await generateWorkoutPlan({ ...basePrefs, goal: 'fat-loss' });
+
+      expect(matchRatio(plan, 'fat-loss')).toBeGreaterThanOrEqual(DEFAULT_GOAL_SCORING.minGoalMatchRatio);
+      // 前三個動作應全部為符合目標的動作 (分數排序)
+      expect(exerciseIds(plan).slice(0, 3).every(id => !id.startsWith('strength'))).toBe(true);
+    });
+
+    it('不同目標應產生不同的動作組成', async () => {
+      const { items: fatLossPlan } = await generateWorkoutPlan({ ...basePrefs, goal: 'fat-loss' });
+      const { items: musclePlan } = await generateWorkoutPlan({ ...basePrefs, goal: 'muscle' });
+
+      const strengthShare = (plan: PlanItem[]) => {
+        const ids = exerciseIds(plan);
+        return ids.filter(id => id.startsWith('strength')).length / ids.length;
+      };
+
+      expect(strengthShare(musclePlan)).toBeGreaterThan(strengthShare(fatLossPlan));
+      expect(matchRatio(musclePlan, 'muscle')).toBeGreaterThanOrEqual(DEFAULT_GOAL_SCORING.minGoalMatchRatio);
+    });
+
+    it('應該遵守自訂的最低目標佔比', async () => {
+      const { items: plan } = await generateWorkoutPlan(
+        { ...basePrefs, goal: 'fat-loss', durationMinutes: 20 },
+        { goalScoring: { minGoalMatchRatio: 1 } }
+      );
+
+      expect(matchRatio(plan, 'fat-loss')).toBe(1);
+    });
+  });
+
+  describe('暖身與緩和階段 (Warm-up & cool-down phases)', () => {
+    const phaseExercises: Exercise[] = [
+      {
+        id: '1',
+        name: '伏地挺身',
+        description: '鍛鍊胸肌',
+        video_url: 'https://example.com/pushup.mp4',
+        duration_seconds: 30,
+        difficulty: 'beginner',
+        equipment: [],
+        tags: ['equipment:徒手', 'difficulty:初階', 'goal:增肌'],
+      },
+      {
+        id: '2',
+        name: '深蹲',
+        description: '鍛鍊腿部',
+        video_url: 'https://example.com/squat.mp4',
+        duration_seconds: 45,
+        difficulty: 'beginner',
+        equipment: [],
+        tags: ['equipment:徒手', 'difficulty:初階', 'goal:增肌'],
+      },
+      {
+        id: 'warmup-1',
+        name: '手臂繞環',
+        description: '',
+        video_url: '',
+        duration_seconds: 30,
+        tags: ['equipment:徒手', 'difficulty:初階', 'type:暖身', 'intensity:低'],
+      },
+      {
+        id: 'stretch-1',
+        name: '腿後伸展',
+        description: '',
+        video_url: '',
+        duration_seconds: 40,
+        tags: ['equipment:徒手', 'difficulty:初階', 'type:伸展', 'intensity:低'],
+      },
+    ];
+
+    const prefs: UserPreferences = {
+      goal: 'muscle',
+      equipment: ['bodyweight'],
+      durationMinutes: 20,
+      difficulty: 'beginner',
+    };
+
+    const phaseSeconds = (plan: PlanItem[], phase: string) =>
+      plan.filter(item => item.phase === phase).reduce((sum, item) => sum + item.duration, 0);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(phaseExercises);
+    });
+
+    it('應該依總時長比例計算暖身與緩和時間', () => {
+      expect(getPhaseBudget(5)).toEqual({ warmupSeconds: 0, cooldownSeconds: 0 });
+      expect(getPhaseBudget(20)).toEqual({ warmupSeconds: 120, cooldownSeconds: 120 });
+      expect(getPhaseBudget(60).warmupSeconds).toBe(300);
+    });
+
+    it('應該在課表前後加上暖身與緩和區塊', async () => {
+      const { items: plan } = await generateWorkoutPlan(prefs);
+      const budget = getPhaseBudget(prefs.durationMinutes);
+
+      expect(plan[0].phase).toBe('warmup');
+      expect(plan[plan.length - 1].phase).toBe('cooldown');
+      expect(phaseSeconds(plan, 'warmup')).toBe(budget.warmupSeconds);
+      expect(phaseSeconds(plan, 'cooldown')).toBe(budget.cooldownSeconds);
+      expect(plan.every(item => item.phase !== undefined)).toBe(true);
+    });
+
+    it('暖身/伸展動作不應排入主訓練', async () => {
+      const { items: plan } = await generateWorkoutPlan(prefs);
+      const mainIds = plan
+        .filter(item => item.phase === 'main' && item.type === 'exercise')
+        .map(item => item.exercise!.id);
+
+      expect(mainIds.length).toBeGreaterThan(0);
+      expect(mainIds).not.toContain('warmup-1');
+      expect(mainIds).not.toContain('stretch-1');
+    });
+
+    it('短時間課表不應安排暖身與緩和', async () => {
+      const { items: plan } = await generateWorkoutPlan({ ...prefs, durationMinutes: 3 });
+
+      expect(plan.every(item => item.phase === 'main')).toBe(true);
+    });
+  });
+
+  describe('肌群平衡 (Muscle-group balancing)', () => {
+    const makeExercise = (id: string, muscle: string, tags: string[] = []): Exercise => ({
+      id,
+      name: `動作-${id}`,
+      description: '',
+      video_url: '',
+      duration_seconds: 30,
+      tags: ['equipment:徒手', 'difficulty:初階', `muscle:${muscle}`, ...tags],
+    });
+
+    // 下肢動作較多，純洗牌很容易連續出現
+    const muscleExercises: Exercise[] = [
+      makeExercise('leg-1', '下肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('leg-2', '下肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('leg-3', '下肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('leg-4', '下肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('arm-1', '上肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('arm-2', '上肢', ['goal:增肌', 'type:肌力']),
+      makeExercise('core-1', '核心', ['goal:塑形', 'type:核心']),
+      makeExercise('full-1', '全身', ['goal:減脂', 'type:有氧']),
+    ];
+
+    const prefs: UserPreferences = {
+      goal: 'muscle',
+      equipment: ['bodyweight'],
+      durationMinutes: 30,
+      difficulty: 'beginner',
+    };
+
+    const groupSeconds = (plan: PlanItem[]) => {
+      const seconds: Record<string, number> = {};
+      plan
+        .filter(item => item.type === 'exercise' && item.phase === 'main')
+        .forEach(item => {
+          const group = getMuscleGroup(item.exercise)!;
+          seconds[group] = (seconds[group] ?? 0) + item.duration;
+        });
+      return seconds;
+    };
+
+    const toPlan = (exercises: Exercise[]): PlanItem[] =>
+      exercises.flatMap(ex => [
+        { type: 'exercise' as const, duration: ex.duration_seconds, exercise: ex, title: ex.name, phase: 'main' as const },
+        { type: 'rest' as const, duration: 30, title: '休息', phase: 'main' as const },
+      ]);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(muscleExercises);
+    });
+
+    it('應該從 muscle 標籤解析肌群', () => {
+      expect(getMuscleGroup(muscleExercises[0])).toBe('lower');
+      expect(getMuscleGroup({ ...muscleExercises[0], muscle_groups: undefined, tags: ['equipment:徒手'] })).toBeNull();
+    });
+
+    it('生成的課表不應連續安排相同肌群', async () => {
+      for (let i = 0; i < 5; i++) {
+        const { items: plan } = await generateWorkoutPlan(prefs);
+        expect(findMuscleGroupConflict(plan)).toBe(-1);
+      }
+    });
+
+    it('應該依目標分配各肌群訓練量', async () => {
+      const muscleSeconds = groupSeconds((await generateWorkoutPlan(prefs)).items);
+      const fatLossSeconds = groupSeconds((await generateWorkoutPlan({ ...prefs, goal: 'fat-loss' })).items);
+
+      // 增肌以上肢/下肢為主，減脂以全身為主
+      expect(muscleSeconds.lower).toBeGreaterThan(muscleSeconds.core);
+      expect(muscleSeconds.upper).toBeGreaterThan(muscleSeconds.full_body);
+      expect(fatLossSeconds.full_body).toBeGreaterThan(muscleSeconds.full_body);
+    });
+
+    it('應該偵測並修正連續相同肌群 (用於驗證 AI 課表)', () => {
+      const [leg1, leg2, leg3, , arm1, arm2] = muscleExercises;
+      const plan = toPlan([leg1, leg2, leg3, arm1, arm2]);
+
+      expect(findMuscleGroupConflict(plan)).toBe(2);
+
+      const reordered = reorderPlanByMuscleGroup(plan);
+      expect(findMuscleGroupConflict(reordered)).toBe(-1);
+      // 只調換動作位置，休息與總時長不變
+      expect(reordered.map(item => item.type)).toEqual(plan.map(item => item.type));
+      expect(reordered.reduce((sum, item) => sum + item.duration, 0))
+        .toBe(plan.reduce((sum, item) => sum + item.duration, 0));
+    });
+
+    it('只有單一肌群時無法避免連續，應回報衝突', () => {
+      const [leg1, leg2] = muscleExercises;
+      expect(findMuscleGroupConflict(reorderPlanByMuscleGroup(toPlan([leg1, leg2])))).not.toBe(-1);
+    });
+  });
+
+  describe('精準時長調整 (Exact-duration fitting)', () => {
+    const prefs: UserPreferences = {
+      goal: 'muscle',
+      equipment: ['bodyweight', 'dumbbell', 'band'],
+      durationMinutes: 30,
+      difficulty: 'advanced',
+    };
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('總時長應落在目標誤差內且不超過太多', async () => {
+      for (const durationMinutes of [5, 15, 30, 45]) {
+        const result = await generateWorkoutPlan({ ...prefs, durationMinutes });
+
+        expect(result.targetSeconds).toBe(durationMinutes * 60);
+        expect(result.toleranceSeconds).toBe(DEFAULT_TOLERANCE_SECONDS);
+        expect(result.totalSeconds).toBe(result.items.reduce((sum, item) => sum + item.duration, 0));
+        expect(Math.abs(result.totalSeconds - result.targetSeconds)).toBeLessThanOrEqual(result.toleranceSeconds);
+        expect(result.withinTolerance).toBe(true);
+      }
+    });
+
+    it('應該回傳自訂的允許誤差', async () => {
+      const result = await generateWorkoutPlan(prefs, { toleranceSeconds: 30 });
+
+      expect(result.toleranceSeconds).toBe(30);
+    });
+
+    it('無法調整到允許誤差內時應回報 withinTolerance 為 false', async () => {
+      // 唯一的動作時長固定為 90 秒，目標 1 分鐘無法達成
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue([{
+        ...MOCK_EXERCISES.find(ex => ex.id === 'sq-001')!,
+        default_reps: undefined,
+        duration_seconds: 90,
+        min_duration_seconds: 90,
+        max_duration_seconds: 90,
+      }]);
+      const result = await generateWorkoutPlan({ ...prefs, durationMinutes: 1 }, { seed: 1 });
+
+      expect(result.totalSeconds).toBe(90);
+      expect(result.toleranceSeconds).toBe(DEFAULT_TOLERANCE_SECONDS);
+      expect(result.withinTolerance).toBe(false);
+    });
+
+    it('調整後的動作時長應在上下限內', async () => {
+      const { items } = await generateWorkoutPlan(prefs);
+
+      items
+        .filter(item => item.type === 'exercise' && item.phase === 'main' && item.reps === undefined)
+        .forEach(item => {
+          const { min, max } = getDurationBounds(item.exercise!);
+          expect(item.duration).toBeGreaterThanOrEqual(min);
+          expect(item.duration).toBeLessThanOrEqual(max);
+        });
+    });
+
+    it('應該優先使用資料設定的上下限', () => {
+      const exercise: Exercise = {
+        ...MOCK_EXERCISES[0],
+        duration_seconds: 40,
+        min_duration_seconds: 20,
+        max_duration_seconds: 90,
+      };
+
+      expect(getDurationBounds(exercise)).toEqual({ min: 20, max: 90 });
+      expect(getDurationBounds({ ...exercise, min_duration_seconds: undefined, max_duration_seconds: undefined }))
+        .toEqual({ min: 30, max: 60 });
+    });
+
+    it('應該優先調整動作時長，動作無法吸收時才調整休息', () => {
+      const exercise = { ...MOCK_EXERCISES[0], duration_seconds: 40 };
+      const items: PlanItem[] = [
+        { type: 'exercise', duration: 40, exercise, title: exercise.name },
+        { type: 'rest', duration: 30, title: '休息' },
+        { type: 'exercise', duration: 40, exercise, title: exercise.name },
+      ];
+
+      const stretched = fitPlanDurations(items, 130);
+      expect(stretched.map(item => item.duration)).toEqual([50, 30, 50]);
+
+      // 動作上限 60 秒，剩餘 10 秒由休息吸收
+      const maxed = fitPlanDurations(items, 160);
+      expect(maxed.map(item => item.duration)).toEqual([60, 40, 60]);
+    });
+  });
+
+  describe('種子重現 (Seeded generation)', () => {
+    const prefs: UserPreferences = {
+      goal: 'fat-loss',
+      equipment: ['bodyweight', 'dumbbell'],
+      durationMinutes: 20,
+      difficulty: 'advanced',
+    };
+
+    const summarize = (items: PlanItem[]) =>
+      items.map(item => `${item.type}:${item.exercise?.id ?? '-'}:${item.duration}`);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('相同種子的亂數序列應相同', () => {
+      const a = createRandom(123);
+      const b = createRandom(123);
+      const sequence = Array.from({ length: 5 }, () => a());
+
+      expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+      expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it('應該回傳生成時使用的種子', async () => {
+      const result = await generateWorkoutPlan(prefs, { seed: 42 });
+
+      expect(result.seed).toBe(42);
+      expect(Number.isInteger((await generateWorkoutPlan(prefs)).seed)).toBe(true);
+    });
+
+    it('以回傳的種子重新生成應得到完全相同的課表', async () => {
+      const first = await generateWorkoutPlan(prefs);
+      const replay = await generateWorkoutPlan(prefs, { seed: first.seed });
+
+      expect(summarize(replay.items)).toEqual(summarize(first.items));
+    });
+
+    it('不同種子應產生不同的課表', async () => {
+      const plans = await Promise.all([1, 2, 3, 4, 5].map(seed => generateWorkoutPlan(prefs, { seed })));
+      const distinct = new Set(plans.map(plan => summarize(plan.items).join('|')));
+
+      expect(distinct.size).toBeGreaterThan(1);
+    });
+
+    it('種子應寫入訓練紀錄的設定', () => {
+      expect(preferencesToSettings(prefs, 42).seed).toBe(42);
+      expect(preferencesToSettings(prefs)).not.toHaveProperty('seed');
+    });
+  });
+
+  describe('訓練形式 (Workout formats)', () => {
+    const prefs: UserPreferences = {
+      goal: 'fat-loss',
+      equipment: ['bodyweight', 'dumbbell'],
+      durationMinutes: 20,
+      difficulty: 'advanced',
+    };
+
+    const mainItems = (items: PlanItem[]) => items.filter(item => item.phase === 'main');
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('未指定形式時應維持一般組數 (不含回合資訊)', async () => {
+      const { items } = await generateWorkoutPlan(prefs);
+
+      expect(mainItems(items).every(item => item.round === undefined)).toBe(true);
+    });
+
+    it('循環訓練應重複相同動作 N 回合並插入回合休息', async () => {
+      const { items, totalSeconds, targetSeconds, toleranceSeconds } = await generateWorkoutPlan(
+        { ...prefs, format: 'circuit', rounds: 3 },
+        { seed: 7 }
+      );
+      const main = mainItems(items);
+      const roundIds = (round: number) =>
+        main.filter(item => item.round === round && item.type === 'exercise').map(item => item.exercise!.id);
+
+      expect(main.every(item => item.format === 'circuit' && item.totalRounds === 3)).toBe(true);
+      expect(main.filter(item => item.roundRest)).toHaveLength(2);
+      expect(roundIds(2)).toEqual(roundIds(1));
+      expect(roundIds(3)).toEqual(roundIds(1));
+      expect(Math.abs(totalSeconds - targetSeconds)).toBeLessThanOrEqual(toleranceSeconds);
+      expect(findMuscleGroupConflict(items)).toBe(-1);
+    });
+
+    it('Tabata 應為 20 秒運動 / 10 秒休息 × 8 回合', async () => {
+      const { items } = await generateWorkoutPlan({ ...prefs, format: 'tabata' }, { seed: 7 });
+      const main = mainItems(items);
+      const firstBlock = main.slice(0, main.findIndex(item => item.roundRest));
+
+      expect(firstBlock.filter(item => item.type === 'exercise').every(item => item.duration === 20)).toBe(true);
+      expect(firstBlock.filter(item => item.type === 'rest').every(item => item.duration === 10)).toBe(true);
+      expect(firstBlock.filter(item => item.type === 'exercise').map(item => item.round))
+        .toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('EMOM 每分鐘 (動作 + 休息) 應剛好 60 秒', async () => {
+      const { items } = await generateWorkoutPlan({ ...prefs, format: 'emom' }, { seed: 7 });
+      const main = mainItems(items);
+      const minutes = new Set(main.map(item => item.round));
+
+      minutes.forEach(minute => {
+        const seconds = main.filter(item => item.round === minute).reduce((sum, item) => sum + item.duration, 0);
+        expect(seconds).toBe(60);
+      });
+      expect(main[0].totalRounds).toBe(minutes.size);
+    });
+
+    it('AMRAP 應不休息地循環同一組動作且回合數遞增', async () => {
+      const { items } = await generateWorkoutPlan({ ...prefs, format: 'amrap' }, { seed: 7 });
+      const main = mainItems(items);
+
+      expect(main.every(item => item.type === 'exercise')).toBe(true);
+      expect(main.every(item => item.totalRounds === undefined)).toBe(true);
+      expect(main[4].exercise!.id).toBe(main[0].exercise!.id);
+      expect(main[4].round).toBe(2);
+    });
+
+    it('應該提供回合數與形式提示文字', () => {
+      const exercise = MOCK_EXERCISES[0];
+      const work: PlanItem = {
+        type: 'exercise', duration: 20, exercise, title: exercise.name, format: 'tabata', round: 3, totalRounds: 8,
+      };
+
+      expect(getRoundLabel(work)).toBe('第 3 / 8 回合');
+      expect(getFormatCue(work)).toContain('第 3 / 8 回合');
+      expect(getRoundLabel({ ...work, format: 'amrap', totalRounds: undefined })).toBe('第 3 回合');
+      expect(getRoundLabel({ ...work, format: 'straight' })).toBeNull();
+      expect(getFormatCue({ ...work, format: undefined })).toBeNull();
+    });
+  });
+
+  describe('次數制 (Rep-based)', () => {
+    const prefs: UserPreferences = {
+      goal: 'muscle',
+      equipment: ['bodyweight', 'dumbbell'],
+      durationMinutes: 20,
+      difficulty: 'intermediate',
+    };
+
+    const repItems = (items: PlanItem[]) => items.filter(item => item.reps !== undefined);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('增肌目標應以組數 × 次數安排有建議次數的動作', async () => {
+      const { items } = await generateWorkoutPlan(prefs, { seed: 11 });
+      const reps = repItems(items);
+
+      expect(reps.length).toBeGreaterThan(0);
+      reps.forEach(item => {
+        expect(item.exercise!.default_reps).toBe(item.reps);
+        expect(item.sets).toBe(3);
+        expect(item.phase).toBe('main');
+      });
+    });
+
+    it('次數制項目時長應為預估值，不受時長調整影響', async () => {
+      const { items } = await generateWorkoutPlan(prefs, { seed: 11 });
+
+      repItems(items).forEach(item => {
+        expect(item.duration).toBe(estimateRepDuration(item.sets!, item.reps!, item.tempo!, item.setRestSeconds!));
+      });
+    });
+
+    it('非增肌目標或非一般組數形式時應維持計時制', async () => {
+      const { items: fatLoss } = await generateWorkoutPlan({ ...prefs, goal: 'fat-loss' }, { seed: 11 });
+      const { items: circuit } = await generateWorkoutPlan({ ...prefs, format: 'circuit' }, { seed: 11 });
+
+      expect(repItems(fatLoss)).toHaveLength(0);
+      expect(repItems(circuit)).toHaveLength(0);
+    });
+
+    it('應該依節奏計算每下秒數', () => {
+      expect(getSecondsPerRep('3-1-1')).toBe(5);
+      expect(getSecondsPerRep('x-0-2')).toBe(3);
+      expect(estimateRepDuration(3, 10, '2-0-2', 60)).toBe(3 * 10 * 4 + 2 * 60);
+    });
+  });
+
+  describe('回饋進程 (Progression)', () => {
+    const prefs: UserPreferences = {
+      goal: 'muscle',
+      equipment: ['bodyweight'],
+      durationMinutes: 20,
+      difficulty: 'beginner',
+    };
+
+    const summary = (exerciseId: string, direction: ExerciseFeedbackSummary['direction']): ExerciseFeedbackSummary => ({
+      exerciseId,
+      exerciseName: exerciseId,
+      tooEasy: direction === 'progress' ? 3 : 0,
+      justRight: 0,
+      tooHard: direction === 'regress' ? 3 : 0,
+      direction,
+    });
+
+    const mainIds = (items: PlanItem[]) =>
+      items.filter(item => item.type === 'exercise' && item.phase === 'main').map(item => item.exercise!.id);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('沒有進程資料時不應有調整', async () => {
+      const { adjustments, reproducible } = await generateWorkoutPlan(prefs, { seed: 5 });
+
+      expect(adjustments).toEqual([]);
+      expect(reproducible).toBe(true);
+    });
+
+    it('持續太簡單的動作應換成較難的同肌群動作 (可超出選擇的難度)', async () => {
+      const progression: ProgressionProfile = { 'pu-001': summary('pu-001', 'progress') };
+      const { items, adjustments, reproducible } = await generateWorkoutPlan(prefs, { seed: 5, progression });
+
+      // 調整結果取決於回饋紀錄，無法只以偏好與種子重現
+      expect(reproducible).toBe(false);
+      expect(mainIds(items)).toContain('pu-002');
+      expect(mainIds(items)).not.toContain('pu-001');
+      expect(adjustments).toEqual([
+        expect.objectContaining({ exerciseId: 'pu-001', kind: 'harder_variant', replacementId: 'pu-002' }),
+      ]);
+    });
+
+    it('找不到變化動作時應延長或縮短時間', async () => {
+      const progression: ProgressionProfile = {
+        'plank-001': summary('plank-001', 'progress'),
+        'sq-001': summary('sq-001', 'regress'),
+      };
+      const { items, adjustments } = await generateWorkoutPlan({ ...prefs, goal: 'tone' }, { seed: 5, progression });
+
+      const kinds = Object.fromEntries(adjustments.map(adjustment => [adjustment.exerciseId, adjustment.kind]));
+      expect(kinds).toEqual({ 'plank-001': 'longer', 'sq-001': 'shorter' });
+
+      const main = items.filter(item => item.phase === 'main' && item.type === 'exercise');
+      main.filter(item => item.exercise!.id === 'plank-001').forEach(item => expect(item.duration).toBeGreaterThanOrEqual(30));
+      main.filter(item => item.exercise!.id === 'sq-001').forEach(item => expect(item.duration).toBeLessThanOrEqual(45));
+    });
+  });
+
+  describe('排除條件 (Exclusions)', () => {
+    const prefs: UserPreferences = {
+      goal: 'fat-loss',
+      equipment: ['bodyweight', 'dumbbell'],
+      durationMinutes: 20,
+      difficulty: 'advanced',
+    };
+
+    const exerciseIds = (items: PlanItem[]) =>
+      items.filter(item => item.type === 'exercise').map(item => item.exercise!.id);
+
+    beforeEach(() => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    });
+
+    it('被排除的動作 ID 不應出現在課表中', async () => {
+      const excluded = ['burpee-001', 'jj-001', 'sq-001'];
+      for (const seed of [1, 2, 3]) {
+        const { items } = await generateWorkoutPlan(
+          { ...prefs, exclusions: { exerciseIds: excluded, tags: [] } },
+          { seed }
+        );
+        expect(exerciseIds(items).some(id => excluded.includes(id))).toBe(false);
+      }
+    });
+
+    it('帶有排除標籤的動作不應出現在任何階段 (含暖身與緩和)', async () => {
+      const { items } = await generateWorkoutPlan(
+        { ...prefs, exclusions: { exerciseIds: [], tags: ['muscle:下肢', 'impact:高'] } },
+        { seed: 4 }
+      );
+
+      const excludedIds = MOCK_EXERCISES
+        .filter(ex => ex.tags.includes('muscle:下肢') || ex.tags.includes('impact:高'))
+        .map(ex => ex.id);
+      expect(exerciseIds(items).length).toBeGreaterThan(0);
+      expect(exerciseIds(items).some(id => excludedIds.includes(id))).toBe(false);
+    });
+
+    it('應該整理儲存的排除條件並產生說明文字', () => {
+      expect(normalizeExclusions(null)).toEqual({ exerciseIds: [], tags: [] });
+      expect(normalizeExclusions({ exerciseIds: ['sq-001', 'sq-001', 3], tags: 'impact:高' }))
+        .toEqual({ exerciseIds: ['sq-001'], tags: [] });
+      expect(describeExclusions({ exerciseIds: ['sq-001'], tags: ['impact:高'] }, MOCK_EXERCISES))
+        .toEqual(['跳躍 / 高衝擊', MOCK_EXERCISES.find(ex => ex.id === 'sq-001')!.name]);
+    });
+  });
+
+  describe('動作關係 (Exercise relations)', () => {
+    const byId = (id: string) => MOCK_EXERCISES.find(ex => ex.id === id)!;
+    const ids = (exercises: Exercise[]) => exercises.map(ex => ex.id);
+
+    it('關係只需宣告一次即可雙向查詢', () => {
+      expect(ids(findExerciseVariants(byId('pu-001'), MOCK_EXERCISES).harder)).toEqual(['pu-002']);
+      expect(ids(findExerciseVariants(byId('pu-002'), MOCK_EXERCISES).easier)).toEqual(['pu-001']);
+      expect(ids(findExerciseVariants(byId('sq-001'), MOCK_EXERCISES).harder)).toEqual(['lunge-001', 'db-goblet-001']);
+      expect(ids(findExerciseVariants(byId('lunge-001'), MOCK_EXERCISES).alternatives)).toEqual(['db-goblet-001']);
+    });
+
+    it('只從提供的候選動作中尋找', () => {
+      const bodyweightOnly = MOCK_EXERCISES.filter(ex => ex.tags.includes('equipment:徒手'));
+
+      expect(ids(findExerciseVariants(byId('sq-001'), bodyweightOnly).harder)).toEqual(['lunge-001']);
+    });
+
+    it('回饋進程應優先沿著關係圖換動作', async () => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+      const progression: ProgressionProfile = {
+        'sq-001': { exerciseId: 'sq-001', exerciseName: 'sq-001', tooEasy: 3, justRight: 0, tooHard: 0, direction: 'progress' },
+      };
+
+      const { adjustments } = await generateWorkoutPlan(
+        { goal: 'tone', equipment: ['bodyweight'], durationMinutes: 20, difficulty: 'beginner' },
+        { seed: 5, progression }
+      );
+
+      expect(adjustments).toEqual([
+        expect.objectContaining({ exerciseId: 'sq-001', kind: 'harder_variant', replacementId: 'lunge-001' }),
+      ]);
+    });
+
+    it('換動作應替換後續回合的同一動作並保留時長', () => {
+      const squat = byId('sq-001');
+      const lunge = byId('lunge-001');
+      const work = (exercise: Exercise, round: number): PlanItem => ({
+        type: 'exercise', duration: 40, exercise, title: exercise.name, format: 'circuit', round, totalRounds: 2,
+      });
+      const plan = [work(squat, 1), work(byId('pu-001'), 1), work(squat, 2)];
+
+      const swapped = swapExerciseInPlan(plan, 0, lunge);
+
+      expect(swapped.map(item => item.exercise!.id)).toEqual(['lunge-001', 'pu-001', 'lunge-001']);
+      expect(swapped[2]).toMatchObject({ title: lunge.name, duration: 40, round: 2 });
+      expect(plan[0].exercise!.id).toBe('sq-001');
+    });
+  });
+
+  describe('動作結構化資料 (Exercise metadata)', () => {
+    const base: Exercise = {
+      id: 'meta-1', name: 'meta-1', description: '', video_url: '', duration_seconds: 30, tags: [],
+    };
+
+    it('應該從舊版標籤解析結構化欄位', () => {
+      expect(parseLegacyTags(['equipment:啞鈴', 'difficulty:中階', 'type:肌力', 'muscle:下肢', 'impact:高', 'goal:增肌'])).toEqual({
+        equipment: ['dumbbell'],
+        equipment_any: [],
+        difficulty: 'intermediate',
+        goals: ['muscle'],
+        exercise_type: 'strength',
+        muscle_groups: ['lower'],
+        impact: 'high',
+        intensity: null,
+      });
+      expect(parseLegacyTags(['equipment:槓鈴', 'foo'])).toMatchObject({ equipment: [], difficulty: null });
+    });
+
+    it('正規化時結構化欄位優先，並同步回標籤', () => {
+      const exercise = normalizeExercise({ ...base, difficulty: 'advanced', tags: ['difficulty:初階', 'muscle:上肢'] });
+
+      expect(exercise).toMatchObject({ difficulty: 'advanced', equipment: ['bodyweight'], muscle_groups: ['upper'] });
+      expect(exercise.tags).toEqual(expect.arrayContaining(['difficulty:高階', 'equipment:徒手', 'muscle:上肢']));
+    });
+
+    it('應該接受資料庫的 training_goals 並忽略無效值', () => {
+      expect(pickStructuredFields({ training_goals: ['muscle_gain', 'fat_loss', 'unknown'], difficulty: 'expert' })).toMatchObject({
+        goals: ['muscle', 'fat-loss'],
+        difficulty: undefined,
+      });
+    });
+
+    it('器材與難度篩選應使用結構化欄位', () => {
+      const dumbbellLunge: Exercise = { ...base, equipment: ['dumbbell'], difficulty: 'intermediate' };
+
+      expect(isEquipmentAvailable(dumbbellLunge, ['bodyweight'])).toBe(false);
+      expect(isEquipmentAvailable(dumbbellLunge, ['bodyweight', 'dumbbell'])).toBe(true);
+      expect(isEquipmentAvailable(base, ['bodyweight'])).toBe(true);
+      expect(isDifficultyAllowed(dumbbellLunge, 'beginner')).toBe(false);
+      expect(isDifficultyAllowed(dumbbellLunge, 'advanced')).toBe(true);
+    });
+
+    it('應該支援「全部需具備」與「擇一即可」的器材組合', () => {
+      const benchPress = normalizeExercise({ ...base, tags: ['equipment:啞鈴', 'equipment:訓練椅'] });
+      const goblet = normalizeExercise({ ...base, tags: ['equipment_any:啞鈴', 'equipment_any:壺鈴'] });
+      const bandSwing: Exercise = { ...base, equipment: ['band'], equipment_any: ['dumbbell', 'kettlebell'] };
+
+      expect(benchPress.equipment).toEqual(['dumbbell', 'bench']);
+      expect(isEquipmentAvailable(benchPress, ['bodyweight', 'dumbbell'])).toBe(false);
+      expect(isEquipmentAvailable(benchPress, ['bodyweight', 'dumbbell', 'bench'])).toBe(true);
+
+      expect(goblet).toMatchObject({ equipment: [], equipment_any: ['dumbbell', 'kettlebell'] });
+      expect(isEquipmentAvailable(goblet, ['bodyweight'])).toBe(false);
+      expect(isEquipmentAvailable(goblet, ['bodyweight', 'kettlebell'])).toBe(true);
+
+      expect(isEquipmentAvailable(bandSwing, ['kettlebell'])).toBe(false);
+      expect(isEquipmentAvailable(bandSwing, ['band', 'kettlebell'])).toBe(true);
+    });
+
+    it('生成課表時只選擇器材齊全的動作', async () => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+      const prefs: UserPreferences = { goal: 'muscle', equipment: ['bodyweight', 'kettlebell'], durationMinutes: 30, difficulty: 'advanced' };
+
+      for (let seed = 1; seed <= 5; seed++) {
+        const { items } = await generateWorkoutPlan(prefs, { seed });
+        const ids = items.filter(item => item.exercise).map(item => item.exercise!.id);
+
+        expect(ids).not.toContain('db-bench-press-001');
+        items.filter(item => item.exercise).forEach(item => {
+          expect(isEquipmentAvailable(item.exercise!, prefs.equipment)).toBe(true);
+        });
+      }
+    });
+
+    it('模擬資料應已正規化', () => {
+      MOCK_EXERCISES.forEach(exercise => {
+        expect([...exercise.equipment!, ...exercise.equipment_any!].length).toBeGreaterThan(0);
+        expect(exercise.difficulty).toBeDefined();
+        expect(exercise.exercise_type).toBeDefined();
+      });
+    });
+  });
+
+  describe('器材組合 (Equipment profiles)', () => {
+    it('儲存組合時應包含徒手，第一個組合成為預設', () => {
+      const settings = saveEquipmentProfile(EMPTY_EQUIPMENT_PROFILES, ' 住家 ', ['dumbbell', 'bench']);
+
+      expect(settings.profiles).toEqual([{ id: expect.any(String), name: '住家', equipment: ['bodyweight', 'dumbbell', 'bench'] }]);
+      expect(getDefaultEquipmentProfile(settings)?.name).toBe('住家');
+    });
+
+    it('同名組合應覆寫，刪除預設組合後不再有預設', () => {
+      let settings = saveEquipmentProfile(EMPTY_EQUIPMENT_PROFILES, '住家', ['dumbbell']);
+      settings = saveEquipmentProfile(settings, '飯店', []);
+      settings = saveEquipmentProfile(settings, '住家', ['kettlebell']);
+
+      expect(settings.profiles.map(profile => profile.name)).toEqual(['住家', '飯店']);
+      expect(findMatchingEquipmentProfile(settings, ['kettlebell', 'bodyweight'])?.name).toBe('住家');
+      expect(findMatchingEquipmentProfile(settings, ['bodyweight'])?.name).toBe('飯店');
+
+      const removed = removeEquipmentProfile(settings, settings.defaultProfileId!);
+      expect(removed.profiles.map(profile => profile.name)).toEqual(['飯店']);
+      expect(getDefaultEquipmentProfile(removed)).toBeNull();
+    });
+
+    it('讀取儲存資料時應忽略格式錯誤的組合', () => {
+      expect(normalizeEquipmentProfiles({
+        profiles: [{ id: 'a', name: '辦公室', equipment: ['band', 'barbell'] }, { id: 'b', name: '' }, null],
+        defaultProfileId: 'b',
+      })).toEqual({
+        profiles: [{ id: 'a', name: '辦公室', equipment: ['bodyweight', 'band'] }],
+        defaultProfileId: null,
+      });
+      expect(normalizeEquipmentProfiles(undefined)).toEqual(EMPTY_EQUIPMENT_PROFILES);
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateWorkoutPlan } from '@/features/generator/engine';
+import { isPhaseCandidate } from '@/features/generator/phases';
+import { sumDuration } from '@/features/generator/fitting';
+import { estimateRepDuration } from '@/features/generator/reps';
+import {
+  addExerciseToPlan,
+  findSwapCandidates,
+  fromPlanBlocks,
+  movePlanBlock,
+  removePlanBlock,
+  replaceBlockExercise,
+  setBlockDuration,
+  setBlockReps,
+  setBlockRest,
+  toPlanBlocks,
+} from '@/features/generator/planEditing';
+import { MOCK_EXERCISES } from '@/data/mockExercises';
+import { UserPreferences, PlanItem } from '@/types/app';
+import * as exerciseService from '@/services/exerciseService';
+
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
+// Mock exerciseService
+vi.mock('@/services/exerciseService');
+
+describe('編輯課表 (Plan editing)', () => {
+  const byId = (id: string) => MOCK_EXERCISES.find(ex => ex.id === id)!;
+  const exerciseItem = (id: string, duration: number, phase: PlanItem['phase'] = 'main'): PlanItem =>
+    ({ type: 'exercise', duration, exercise: byId(id), title: byId(id).name, phase });
+  const rest = (duration: number, phase: PlanItem['phase'] = 'main'): PlanItem =>
+    ({ type: 'rest', duration, title: '休息', phase });
+
+  // 暖身 1 個、主訓練 3 個 (動作間休息 20 / 40 秒)、緩和 1 個
+  const plan: PlanItem[] = [
+    exerciseItem('warmup-march-001', 60, 'warmup'),
+    exerciseItem('sq-001', 45),
+    rest(20),
+    exerciseItem('pu-001', 40),
+    rest(40),
+    exerciseItem('plank-001', 30),
+    exerciseItem('stretch-quad-001', 60, 'cooldown'),
+  ];
+  const ids = (items: PlanItem[]) => items.map(item => item.exercise?.id ?? `rest:${item.duration}`);
+
+  it('拆成區塊再組回應與原課表相同', async () => {
+    vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    const { items } = await generateWorkoutPlan(
+      { goal: 'muscle', equipment: ['bodyweight', 'dumbbell'], durationMinutes: 30, difficulty: 'advanced', format: 'circuit' },
+      { seed: 5 }
+    );
+
+    expect(fromPlanBlocks(toPlanBlocks(items))).toEqual(items);
+    expect(toPlanBlocks(plan).map(block => block.rest?.duration ?? 0)).toEqual([0, 20, 40, 0, 0]);
+  });
+
+  it('移動動作時休息留在原位置，跨階段時改為該階段', () => {
+    const moved = movePlanBlock(plan, 3, 1);
+
+    expect(ids(moved)).toEqual(['warmup-march-001', 'plank-001', 'rest:20', 'sq-001', 'rest:40', 'pu-001', 'stretch-quad-001']);
+    expect(sumDuration(moved)).toBe(sumDuration(plan));
+
+    const intoWarmup = movePlanBlock(plan, 2, 0);
+    expect(intoWarmup[0]).toMatchObject({ exercise: byId('pu-001'), phase: 'warmup' });
+    expect(movePlanBlock(plan, 0, 9)).toEqual(plan);
+  });
+
+  it('移除動作時一併移除其後的休息', () => {
+    expect(ids(removePlanBlock(plan, 1))).toEqual(['warmup-march-001', 'pu-001', 'rest:40', 'plank-001', 'stretch-quad-001']);
+    expect(ids(removePlanBlock(plan, 4)).at(-1)).toBe('plank-001');
+    expect(plan).toHaveLength(7);
+  });
+
+  it('調整時長與休息應限制在範圍內，休息設為 0 時移除', () => {
+    expect(setBlockDuration(plan, 1, 55)[1].duration).toBe(55);
+    expect(setBlockDuration(plan, 1, 1)[1].duration).toBe(10);
+    expect(ids(setBlockRest(plan, 1, 0))).toEqual(['warmup-march-001', 'sq-001', 'pu-001', 'rest:40', 'plank-001', 'stretch-quad-001']);
+    expect(ids(setBlockRest(plan, 0, 15)).slice(0, 3)).toEqual(['warmup-march-001', 'rest:15', 'sq-001']);
+    expect(setBlockRest(plan, 2, 500)[4].duration).toBe(180);
+  });
+
+  it('次數制項目應調整次數並重新估算時長', () => {
+    const repPlan: PlanItem[] = [
+      { ...exerciseItem('pu-001', 0), reps: 10, sets: 3, tempo: '2-0-2', setRestSeconds: 60 },
+    ];
+    const edited = setBlockReps(repPlan, 0, 12);
+
+    expect(edited[0]).toMatchObject({ reps: 12, duration: estimateRepDuration(3, 12, '2-0-2', 60) });
+    expect(setBlockDuration(repPlan, 0, 90)).toEqual(repPlan);
+  });
+
+  it('新增動作應加在緩和之前並補上休息', () => {
+    const added = addExerciseToPlan(plan, byId('lunge-001'), null);
+    expect(ids(added)).toEqual([
+      'warmup-march-001', 'sq-001', 'rest:20', 'pu-001', 'rest:40', 'plank-001', 'rest:30', 'lunge-001', 'stretch-quad-001',
+    ]);
+    expect(added[7]).toMatchObject({ duration: byId('lunge-001').duration_seconds, phase: 'main' });
+
+    // 肌力目標的一般組數形式以次數制安排
+    const muscle: UserPreferences = { goal: 'muscle', equipment: ['bodyweight'], durationMinutes: 20, difficulty: 'intermediate' };
+    const repAdded = addExerciseToPlan([exerciseItem('sq-001', 45)], byId('pu-001'), muscle);
+    expect(ids(repAdded)).toEqual(['sq-001', 'rest:30', 'pu-001']);
+    expect(repAdded[2].reps).toBe(byId('pu-001').default_reps);
+  });
+
+  it('換動作候選應為相同難度與器材，替代動作與相同肌群優先', () => {
+    const candidates = findSwapCandidates(exerciseItem('db-row-001', 40), MOCK_EXERCISES).map(ex => ex.id);
+
+    expect(candidates).not.toContain('db-row-001');
+    expect(candidates).not.toContain('db-bench-press-001'); // 需要訓練椅
+    expect(candidates).not.toContain('band-pull-001'); // 難度不同
+    expect(candidates.indexOf('db-press-001')).toBeLessThan(candidates.indexOf('lunge-001'));
+
+    const swapped = replaceBlockExercise(plan, 1, byId(candidates[0]));
+    expect(swapped[1]).toMatchObject({ exercise: byId(candidates[0]), duration: 45, phase: 'main' });
+
+    // 暖身項目只考慮適合暖身的動作
+    const warmupCandidates = findSwapCandidates(plan[0], MOCK_EXERCISES);
+    expect(warmupCandidates.length).toBeGreaterThan(0);
+    expect(warmupCandidates.every(ex => isPhaseCandidate(ex, 'warmup'))).toBe(true);
+  });
+});
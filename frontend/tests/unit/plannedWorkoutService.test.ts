@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createPlannedWorkout,
+  deletePlannedWorkout,
+  getMonthPlannedWorkouts,
+  satisfyPlannedWorkout,
+} from '@/services/plannedWorkoutService';
+import { findMatchingPlannedWorkout, getPlannedWorkoutStatus, toDateKey } from '@/features/planner/planner';
+import { PlannedWorkout } from '@/types/plannedWorkout';
+import { WorkoutLog } from '@/types/workoutLog';
+
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
+const log = (id: string, startedAt: Date, goal: string): WorkoutLog => ({
+  id,
+  user_id: 'guest',
+  started_at: startedAt.toISOString(),
+  completed_at: startedAt.toISOString(),
+  duration_minutes: 30,
+  settings: { goal, difficulty: 'beginner', equipment: ['bodyweight'], plannedDuration: 30 },
+  exercises: [{ name: '深蹲', plannedDuration: 40, actualDuration: 40, completed: true, feedback: null }],
+  rating: null,
+  notes: null,
+});
+
+describe('plannedWorkoutService (訪客模式)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('應只取得指定月份的排程，依日期排序', async () => {
+    await createPlannedWorkout(null, { date: '2026-02-10', goal: 'tone', duration_minutes: 30 });
+    await createPlannedWorkout(null, { date: '2026-01-20', goal: 'muscle', duration_minutes: 45 });
+    await createPlannedWorkout(null, { date: '2026-01-03', goal: 'tone', duration_minutes: 15 });
+
+    const plans = await getMonthPlannedWorkouts(null, 2026, 1);
+
+    expect(plans.map(plan => plan.date)).toEqual(['2026-01-03', '2026-01-20']);
+    expect(plans[0]).toMatchObject({ user_id: 'guest', template_id: null, completed_log_id: null });
+  });
+
+  it('完成訓練後應滿足當天的排程，且不會重複滿足', async () => {
+    const plan = await createPlannedWorkout(null, { date: '2026-01-05', goal: 'tone', duration_minutes: 30 });
+
+    expect(await satisfyPlannedWorkout(null, log('log-1', new Date(2026, 0, 5, 8), 'tone'))).toMatchObject({
+      id: plan!.id,
+      completed_log_id: 'log-1',
+    });
+    expect(await satisfyPlannedWorkout(null, log('log-2', new Date(2026, 0, 5, 18), 'tone'))).toBeNull();
+    expect((await getMonthPlannedWorkouts(null, 2026, 1))[0].completed_log_id).toBe('log-1');
+  });
+
+  it('刪除排程', async () => {
+    const plan = await createPlannedWorkout(null, { date: '2026-01-05', goal: 'tone', duration_minutes: 30 });
+
+    expect(await deletePlannedWorkout(plan!.id, null)).toBe(true);
+    expect(await getMonthPlannedWorkouts(null, 2026, 1)).toEqual([]);
+  });
+});
+
+describe('訓練排程 (Planner)', () => {
+  const plan = (id: string, date: string, goal: string, completed_log_id: string | null = null): PlannedWorkout => ({
+    id,
+    user_id: 'guest',
+    date,
+    goal,
+    duration_minutes: 30,
+    template_id: null,
+    template_name: null,
+    completed_log_id,
+  });
+
+  const log = (startedAt: Date, goal: string, completed = true): WorkoutLog => ({
+    id: 'log-1',
+    user_id: 'guest',
+    started_at: startedAt.toISOString(),
+    completed_at: startedAt.toISOString(),
+    duration_minutes: 30,
+    settings: { goal, difficulty: 'beginner', equipment: ['bodyweight'], plannedDuration: 30 },
+    exercises: [{ name: '深蹲', plannedDuration: 40, actualDuration: completed ? 40 : 0, completed, feedback: null }],
+    rating: null,
+    notes: null,
+  });
+
+  it('日期鍵值應使用本地日期', () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+
+  it('排程狀態：已完成、今天起為已排程、過期為未完成', () => {
+    const now = new Date(2026, 0, 5, 12);
+    expect(getPlannedWorkoutStatus(plan('a', '2026-01-04', 'tone', 'log-0'), now)).toBe('completed');
+    expect(getPlannedWorkoutStatus(plan('a', '2026-01-05', 'tone'), now)).toBe('planned');
+    expect(getPlannedWorkoutStatus(plan('a', '2026-01-04', 'tone'), now)).toBe('missed');
+  });
+
+  it('訓練紀錄應滿足同一天尚未完成的排程，目標相同者優先', () => {
+    const plans = [
+      plan('done', '2026-01-05', 'muscle', 'log-0'),
+      plan('tone', '2026-01-05', 'tone'),
+      plan('muscle', '2026-01-05', 'muscle'),
+      plan('other-day', '2026-01-06', 'muscle'),
+    ];
+    const morning = new Date(2026, 0, 5, 8);
+
+    expect(findMatchingPlannedWorkout(plans, log(morning, 'muscle'))?.id).toBe('muscle');
+    expect(findMatchingPlannedWorkout(plans, log(morning, 'fat-loss'))?.id).toBe('tone');
+    expect(findMatchingPlannedWorkout(plans, log(new Date(2026, 0, 7, 8), 'muscle'))).toBeNull();
+    expect(findMatchingPlannedWorkout(plans, log(morning, 'muscle', false))).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustPlayerTime,
+  advancePlayerEngine,
+  completePlayerSet,
+  createPlayerEngine,
+  getCompletedExercises,
+  getElapsedSeconds,
+  getItemRecords,
+  getSetRestLeft,
+  getTimeLeft,
+  previousPlayerItem,
+  restartPlayerItem,
+  setPlayerFeedback,
+  setPlayerPaused,
+  skipPlayerItem,
+  toPlayerProgress,
+  toWorkoutResult,
+} from '@/features/player/engine';
+import { PlanItem } from '@/types/app';
+
+describe('播放器計時 (Player Engine)', () => {
+  const plan: PlanItem[] = [
+    { type: 'exercise', duration: 30, title: '開合跳' },
+    { type: 'rest', duration: 10, title: '休息' },
+    { type: 'exercise', duration: 40, title: '深蹲', reps: 10, sets: 2, setRestSeconds: 20 },
+    { type: 'exercise', duration: 30, title: '棒式' },
+  ];
+  const start = 1_000_000;
+
+  it('剩餘時間與訓練秒數應由時間戳記推算', () => {
+    const state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 12_400);
+    expect(getTimeLeft(state, plan)).toBe(18);
+    expect(getElapsedSeconds(state)).toBe(12);
+  });
+
+  it('暫停期間不計時', () => {
+    let state = createPlayerEngine(plan, start);
+    state = setPlayerPaused(true)(state, plan, start + 5_000);
+    state = advancePlayerEngine(state, plan, start + 65_000);
+    expect(getTimeLeft(state, plan)).toBe(25);
+    state = setPlayerPaused(false)(state, plan, start + 65_000);
+    state = advancePlayerEngine(state, plan, start + 70_000);
+    expect(getTimeLeft(state, plan)).toBe(20);
+    expect(getElapsedSeconds(state)).toBe(10);
+  });
+
+  it('長時間在背景時應依實際經過時間推進多個項目，停在次數制項目', () => {
+    const state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 45_000);
+    expect(state.currentIndex).toBe(2);
+    expect(getCompletedExercises(state, plan)).toBe(1);
+    expect(state.finishedItems).toBe(2);
+    expect(getElapsedSeconds(state)).toBe(45);
+  });
+
+  it('次數制：完成一組後進入組間休息，最後一組完成後進入下一個項目', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 40_000);
+    state = completePlayerSet(state, plan, start + 60_000);
+    expect(state.setIndex).toBe(1);
+    expect(getSetRestLeft(state)).toBe(20);
+    // 組間休息中不可完成
+    expect(completePlayerSet(state, plan, start + 70_000).setIndex).toBe(1);
+    state = completePlayerSet(state, plan, start + 90_000);
+    expect(state.currentIndex).toBe(3);
+    expect(state.repLog).toEqual({ 2: [10, 10] });
+    expect(getCompletedExercises(state, plan)).toBe(2);
+  });
+
+  it('跳過的動作不算完成，最後一個項目結束時訓練結束', () => {
+    let state = createPlayerEngine(plan, start);
+    state = skipPlayerItem(state, plan, start + 1_000);
+    expect(state.skippedExercises).toEqual([0]);
+    state = skipPlayerItem(skipPlayerItem(state, plan, start + 2_000), plan, start + 3_000);
+    state = advancePlayerEngine(state, plan, start + 40_000);
+    expect(state.isFinished).toBe(true);
+    expect(getCompletedExercises(state, plan)).toBe(1);
+    expect(getElapsedSeconds(state)).toBe(33);
+  });
+
+  it('從檢查點還原時應回到相同項目與剩餘時間，並以暫停狀態開始', () => {
+    const saved = toPlayerProgress(advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 8_000), plan);
+    const restored = createPlayerEngine(plan, start + 600_000, saved);
+    expect(restored.isPaused).toBe(true);
+    expect(toPlayerProgress(restored, plan)).toEqual(saved);
+    expect(getTimeLeft(restored, plan)).toBe(22);
+  });
+
+  it('從檢查點還原時應保留時間調整，減少的時間不計入已進行時間', () => {
+    let state = adjustPlayerTime(-15)(createPlayerEngine(plan, start), plan, start + 2_000);
+    state = advancePlayerEngine(state, plan, start + 5_000);
+    const saved = toPlayerProgress(state, plan);
+    expect(saved).toMatchObject({ timeLeft: 10, timeAdjustSeconds: -15 });
+
+    const restored = createPlayerEngine(plan, start + 600_000, saved);
+    expect(toPlayerProgress(restored, plan)).toEqual(saved);
+    expect(getTimeLeft(restored, plan)).toBe(10);
+    // 繼續後剩餘 10 秒結束，實際進行 15 秒 (還原前 5 秒 + 還原後 10 秒)
+    const finished = advancePlayerEngine(setPlayerPaused(false)(restored, plan, start + 600_000), plan, start + 610_000);
+    expect(finished.currentIndex).toBe(1);
+    expect(getItemRecords(finished)[0]).toMatchObject({ activeSeconds: 15, completed: true });
+  });
+
+  it('回到上一個項目時從頭開始，離開的項目不算完成也不算跳過', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 35_000);
+    state = previousPlayerItem(state, plan, start + 35_000);
+    expect(state.currentIndex).toBe(0);
+    expect(getTimeLeft(state, plan)).toBe(30);
+    expect(state.skippedExercises).toEqual([]);
+    // 已完成的動作回頭後再跳過仍算完成
+    state = skipPlayerItem(state, plan, start + 40_000);
+    expect(state.skippedExercises).toEqual([]);
+    expect(getCompletedExercises(state, plan)).toBe(1);
+    // 第一個項目不能再往前
+    expect(previousPlayerItem(createPlayerEngine(plan, start), plan, start).currentIndex).toBe(0);
+  });
+
+  it('跳過的動作回頭完成後改為完成', () => {
+    let state = skipPlayerItem(createPlayerEngine(plan, start), plan, start + 2_000);
+    expect(state.skippedExercises).toEqual([0]);
+    state = previousPlayerItem(state, plan, start + 3_000);
+    state = advancePlayerEngine(state, plan, start + 33_000);
+    expect(state.currentIndex).toBe(1);
+    expect(state.skippedExercises).toEqual([]);
+    expect(state.completedItems).toEqual([0]);
+  });
+
+  it('重新開始與回頭重做時，實際秒數累計每次進行的時間', () => {
+    let state = restartPlayerItem(createPlayerEngine(plan, start), plan, start + 10_000);
+    expect(getTimeLeft(state, plan)).toBe(30);
+    state = advancePlayerEngine(state, plan, start + 45_000);
+    const result = toWorkoutResult(state, plan);
+    expect(result.items.map(({ index, activeSeconds }) => [index, activeSeconds])).toEqual([[0, 40], [1, 5]]);
+    expect(result.items.filter(item => item.completed).map(item => item.index)).toEqual([0]);
+  });
+
+  it('±15 秒：調整計時項目的剩餘時間，減少超過剩餘時間時提前結束', () => {
+    let state = adjustPlayerTime(15)(createPlayerEngine(plan, start), plan, start + 5_000);
+    expect(getTimeLeft(state, plan)).toBe(40);
+    state = advancePlayerEngine(state, plan, start + 44_000);
+    expect(state.currentIndex).toBe(0);
+    state = advancePlayerEngine(state, plan, start + 45_000);
+    expect(state.currentIndex).toBe(1);
+
+    // 休息剩 5 秒時減少 15 秒 → 立即進入下一個項目，不把多減的時間算到下一個項目
+    state = adjustPlayerTime(-15)(state, plan, start + 50_000);
+    expect(state.currentIndex).toBe(2);
+    expect(toWorkoutResult(state, plan).items.map(item => item.activeSeconds)).toEqual([45, 5, 0]);
+  });
+
+  it('±15 秒：減少超過剩餘時間的動作視為跳過，不算完成', () => {
+    let state = adjustPlayerTime(-15)(createPlayerEngine(plan, start), plan, start + 10_000);
+    expect(state.currentIndex).toBe(0);
+    expect(getTimeLeft(state, plan)).toBe(5);
+
+    state = adjustPlayerTime(-15)(state, plan, start + 12_000);
+    expect(state.currentIndex).toBe(1);
+    expect(state.completedItems).toEqual([]);
+    expect(state.skippedExercises).toEqual([0]);
+    expect(state.finishedItems).toBe(0);
+    expect(getCompletedExercises(state, plan)).toBe(0);
+    expect(getItemRecords(state)[0]).toMatchObject({ activeSeconds: 12, completed: false, skipped: true });
+  });
+
+  it('±15 秒：次數制只在組間休息中調整', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 40_000);
+    expect(adjustPlayerTime(15)(state, plan, start + 41_000).setRestEndsAtMs).toBe(0);
+    state = completePlayerSet(state, plan, start + 50_000);
+    state = adjustPlayerTime(15)(state, plan, start + 50_000);
+    expect(getSetRestLeft(state)).toBe(35);
+    state = adjustPlayerTime(-60)(state, plan, start + 50_000);
+    expect(getSetRestLeft(state)).toBe(0);
+  });
+
+  it('回頭重做次數制動作時，重新記錄各組次數', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 40_000);
+    state = completePlayerSet(state, plan, start + 50_000);
+    state = restartPlayerItem(state, plan, start + 55_000);
+    state = completePlayerSet(state, plan, start + 60_000);
+    expect(state.repLog).toEqual({ 2: [10] });
+  });
+
+  it('項目紀錄應包含開始、結束時間與暫停秒數，目前項目尚未結束', () => {
+    let state = setPlayerPaused(true)(createPlayerEngine(plan, start), plan, start + 5_000);
+    state = setPlayerPaused(false)(state, plan, start + 65_000);
+    state = advancePlayerEngine(state, plan, start + 93_000);
+
+    const [first, rest] = getItemRecords(state);
+    expect(first).toEqual({
+      index: 0,
+      startedAt: new Date(start).toISOString(),
+      endedAt: new Date(start + 90_000).toISOString(),
+      activeSeconds: 30,
+      pausedSeconds: 60,
+      completed: true,
+      skipped: false,
+      feedback: null,
+    });
+    expect(rest).toMatchObject({ index: 1, endedAt: null, activeSeconds: 3, pausedSeconds: 0, completed: false });
+  });
+
+  it('難度回饋記錄在對應項目，再次選擇相同回饋時取消', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 32_000);
+    state = setPlayerFeedback(0, 'too_hard')(state, plan, start + 32_000);
+    expect(getItemRecords(state)[0].feedback).toBe('too_hard');
+    state = setPlayerFeedback(0, 'too_hard')(state, plan, start + 33_000);
+    expect(getItemRecords(state)[0].feedback).toBeNull();
+  });
+
+  it('從檢查點還原時保留先前項目的紀錄與回饋', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 35_000);
+    state = setPlayerFeedback(0, 'just_right')(state, plan, start + 35_000);
+    const saved = toPlayerProgress(state, plan);
+
+    const restored = createPlayerEngine(plan, start + 600_000, saved);
+    expect(toPlayerProgress(restored, plan)).toEqual(saved);
+    // 還原後暫停的時間計入目前項目的暫停秒數
+    const resumed = setPlayerPaused(false)(restored, plan, start + 660_000);
+    expect(getItemRecords(resumed)[1]).toMatchObject({ activeSeconds: 5, pausedSeconds: 60 });
+  });
+});
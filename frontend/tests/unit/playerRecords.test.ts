@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advancePlayerEngine,
+  createPlayerEngine,
+  skipPlayerItem,
+  toWorkoutResult,
+} from '@/features/player/engine';
+import { buildExerciseLogEntries } from '@/features/player/records';
+import { PlanItem } from '@/types/app';
+
+describe('動作執行紀錄 (Exercise log entries)', () => {
+  const plan: PlanItem[] = [
+    { type: 'exercise', duration: 30, title: '開合跳' },
+    { type: 'rest', duration: 10, title: '休息' },
+    { type: 'exercise', duration: 40, title: '深蹲', reps: 10, sets: 2 },
+    { type: 'exercise', duration: 30, title: '棒式' },
+    { type: 'exercise', duration: 30, title: '登山者' },
+  ];
+  const start = 1_000_000;
+
+  it('中間跳過的動作記為未完成，之後的動作依實際秒數記錄', () => {
+    let state = advancePlayerEngine(createPlayerEngine(plan, start), plan, start + 40_000);
+    state = skipPlayerItem(state, plan, start + 45_000);
+    state = advancePlayerEngine(state, plan, start + 75_000);
+    state = skipPlayerItem(state, plan, start + 75_000);
+
+    const entries = buildExerciseLogEntries(plan, toWorkoutResult(state, plan));
+    expect(entries.map(entry => entry.name)).toEqual(['開合跳', '深蹲', '棒式', '登山者']);
+    expect(entries.map(entry => entry.completed)).toEqual([true, false, true, false]);
+    expect(entries.map(entry => entry.actualDuration)).toEqual([30, 5, 30, 0]);
+    expect(entries[1]).toMatchObject({ skipped: true, actualReps: [], restAfterSeconds: 0 });
+    expect(entries[2]).toMatchObject({
+      skipped: false,
+      startedAt: new Date(start + 45_000).toISOString(),
+      endedAt: new Date(start + 75_000).toISOString(),
+      pausedSeconds: 0,
+    });
+  });
+
+  it('未進入的動作沒有時間戳記', () => {
+    const state = createPlayerEngine(plan, start);
+    const [, squat] = buildExerciseLogEntries(plan, toWorkoutResult(state, plan));
+    expect(squat).toEqual(expect.objectContaining({ actualDuration: 0, completed: false, feedback: null }));
+    expect(squat.startedAt).toBeUndefined();
+    expect(squat.skipped).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceProgramEnrollment,
+  createProgramEnrollment,
+  getProgramProgress,
+  getProgramSession,
+  getTotalSessions,
+  normalizeProgramDefinition,
+  normalizeProgramEnrollment,
+} from '@/features/programs/programs';
+import PROGRAM_DATA from '@/data/programs.json';
+import { WorkoutLog } from '@/types/workoutLog';
+
+describe('訓練計畫 (Programs)', () => {
+  const program = normalizeProgramDefinition({
+    id: 'test',
+    name: '測試計畫',
+    weeks: 3,
+    defaults: { goal: 'tone', durationMinutes: 15, difficulty: 'beginner' },
+    progression: [
+      { fromWeek: 3, durationMinutes: 25, format: 'circuit', rounds: 2 },
+      { fromWeek: 2, durationMinutes: 20 },
+      { durationMinutes: 99 },
+    ],
+    days: [{ title: '全身' }, { title: '燃脂', goal: 'fat-loss', format: 'tabata' }, { goal: 'tone' }],
+  })!;
+
+  const logFor = (week: number, day: number, completed = true): WorkoutLog => ({
+    id: 'log-1',
+    user_id: 'guest',
+    started_at: '2026-01-05T08:00:00.000Z',
+    completed_at: '2026-01-05T08:20:00.000Z',
+    duration_minutes: 20,
+    settings: {
+      goal: 'tone',
+      difficulty: 'beginner',
+      equipment: ['bodyweight'],
+      plannedDuration: 15,
+      program: { programId: 'test', week, day },
+    },
+    exercises: [{ name: '深蹲', plannedDuration: 40, actualDuration: completed ? 40 : 0, completed, feedback: null }],
+    rating: null,
+    notes: null,
+    created_at: '2026-01-05T08:20:00.000Z',
+  });
+
+  it('內建計畫定義應全部有效', () => {
+    const definitions = (PROGRAM_DATA as unknown[]).map(normalizeProgramDefinition);
+    expect(definitions.every(Boolean)).toBe(true);
+    expect(new Set(definitions.map(definition => definition!.id)).size).toBe(definitions.length);
+  });
+
+  it('應略過格式錯誤的進程規則與訓練日，缺少必要欄位時回傳 null', () => {
+    expect(program.progression.map(rule => rule.fromWeek)).toEqual([2, 3]);
+    expect(program.days.map(day => day.title)).toEqual(['全身', '燃脂']);
+    expect(getTotalSessions(program)).toBe(6);
+
+    expect(normalizeProgramDefinition({ id: 'x', name: 'X', weeks: 2, defaults: { goal: 'tone' }, days: [{ title: 'A' }] })).toBeNull();
+    expect(normalizeProgramDefinition({ id: 'x', name: 'X', weeks: 2, defaults: { goal: 'tone', durationMinutes: 10, difficulty: 'beginner' }, days: [] })).toBeNull();
+  });
+
+  it('課表設定應依序疊加預設、該週進程與訓練日', () => {
+    expect(getProgramSession(program, 0)).toMatchObject({
+      week: 1,
+      day: 1,
+      title: '全身',
+      preferences: { goal: 'tone', durationMinutes: 15, difficulty: 'beginner', format: 'straight' },
+    });
+    expect(getProgramSession(program, 3)).toMatchObject({
+      week: 2,
+      day: 2,
+      preferences: { goal: 'fat-loss', durationMinutes: 20, format: 'tabata' },
+    });
+    expect(getProgramSession(program, 4)!.preferences).toMatchObject({ durationMinutes: 25, format: 'circuit', rounds: 2 });
+    expect(getProgramSession(program, 6)).toBeNull();
+  });
+
+  it('只有完成計畫的下一次課表才推進進度', () => {
+    const enrollment = { ...createProgramEnrollment('test', new Date('2026-01-01T00:00:00Z')), completedSessions: 2 };
+
+    expect(advanceProgramEnrollment(enrollment, program, logFor(2, 1))).toMatchObject({
+      completedSessions: 3,
+      lastCompletedAt: '2026-01-05T08:20:00.000Z',
+    });
+    expect(advanceProgramEnrollment(enrollment, program, logFor(1, 2))).toBeNull();
+    expect(advanceProgramEnrollment(enrollment, program, logFor(2, 1, false))).toBeNull();
+    expect(advanceProgramEnrollment({ ...enrollment, programId: 'other' }, program, logFor(2, 1))).toBeNull();
+  });
+
+  it('完成所有課表後應標示為已完成', () => {
+    const enrollment = { ...createProgramEnrollment('test'), completedSessions: 8 };
+    expect(getProgramProgress(program, enrollment)).toEqual({
+      totalSessions: 6,
+      completedSessions: 6,
+      finished: true,
+      nextSession: null,
+    });
+  });
+
+  it('參加狀態格式錯誤時視為未參加', () => {
+    expect(normalizeProgramEnrollment(null)).toBeNull();
+    expect(normalizeProgramEnrollment({ programId: 'test' })).toBeNull();
+    expect(normalizeProgramEnrollment({ programId: 'test', startedAt: '2026-01-01', completedSessions: -1 })).toEqual({
+      programId: 'test',
+      startedAt: '2026-01-01',
+      completedSessions: 0,
+      lastCompletedAt: null,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildProgressionProfile,
+  getProgressionDirection,
+  getProgressionProfile,
+  FeedbackRatingEntry,
+} from '@/services/progressionService';
+import { DifficultyRating } from '@/types/feedback';
+
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
+const rating = (exerciseId: string, value: DifficultyRating, day: number): FeedbackRatingEntry => ({
+  exerciseId,
+  exerciseName: exerciseId,
+  rating: value,
+  ratedAt: `2026-01-${String(day).padStart(2, '0')}T08:00:00.000Z`,
+});
+
+describe('progressionService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('getProgressionDirection', () => {
+    it('評分次數不足時應維持不變', () => {
+      expect(getProgressionDirection({ tooEasy: 1, justRight: 0, tooHard: 0 })).toBe('hold');
+    });
+
+    it('持續太簡單 / 太難時應調整方向', () => {
+      expect(getProgressionDirection({ tooEasy: 3, justRight: 1, tooHard: 0 })).toBe('progress');
+      expect(getProgressionDirection({ tooEasy: 0, justRight: 1, tooHard: 2 })).toBe('regress');
+      expect(getProgressionDirection({ tooEasy: 1, justRight: 1, tooHard: 1 })).toBe('hold');
+    });
+  });
+
+  describe('buildProgressionProfile', () => {
+    it('應該依動作彙整評分次數', () => {
+      const profile = buildProgressionProfile([
+        rating('sq-001', 'too_easy', 1),
+        rating('sq-001', 'too_easy', 2),
+        rating('pu-001', 'too_hard', 2),
+      ]);
+
+      expect(profile['sq-001']).toMatchObject({ tooEasy: 2, justRight: 0, tooHard: 0, direction: 'progress' });
+      expect(profile['pu-001']).toMatchObject({ tooHard: 1, direction: 'hold' });
+    });
+
+    it('只統計最近 5 次評分', () => {
+      const profile = buildProgressionProfile([
+        rating('sq-001', 'too_hard', 1),
+        rating('sq-001', 'too_hard', 2),
+        rating('sq-001', 'too_hard', 3),
+        ...[4, 5, 6, 7, 8].map(day => rating('sq-001', 'too_easy', day)),
+      ]);
+
+      expect(profile['sq-001']).toMatchObject({ tooEasy: 5, tooHard: 0, direction: 'progress' });
+    });
+  });
+
+  describe('getProgressionProfile', () => {
+    it('訪客模式應從本地訓練紀錄與回饋紀錄讀取', async () => {
+      const logEntry = (feedback: DifficultyRating | null) => ({
+        name: '深蹲', exerciseId: 'sq-001', plannedDuration: 45, actualDuration: 45, completed: true, feedback,
+      });
+      localStorage.setItem('virtual_coach_workout_logs', JSON.stringify([
+        { id: 'local_2', started_at: '2026-01-02T08:00:00.000Z', exercises: [logEntry('too_easy')] },
+        { id: 'local_1', started_at: '2026-01-01T08:00:00.000Z', exercises: [logEntry(null), { ...logEntry('too_easy'), exerciseId: undefined }] },
+      ]));
+      localStorage.setItem('vca__workout_feedback', JSON.stringify([
+        {
+          workoutId: '1', timestamp: '2026-01-03T08:00:00.000Z', durationMinutes: 20,
+          exercises: [{ exerciseId: 'sq-001', exerciseName: '深蹲', difficulty: 'too_easy', actualDuration: 45 }],
+          rating: { stars: 4, comment: '' },
+        },
+      ]));
+
+      const profile = await getProgressionProfile(null);
+
+      expect(Object.keys(profile)).toEqual(['sq-001']);
+      expect(profile['sq-001']).toMatchObject({ exerciseName: '深蹲', tooEasy: 2, direction: 'progress' });
+    });
+  });
+});
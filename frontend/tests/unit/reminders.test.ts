@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REMINDER_SCHEDULE,
+  describeReminderSchedule,
+  getNextReminderTime,
+  getUpcomingReminderTimes,
+  normalizeReminderSchedule,
+} from '@/features/reminders/reminders';
+
+describe('訓練提醒 (Reminders)', () => {
+  // 2026-01-05 為週一
+  const monday = (hours: number, minutes = 0) => new Date(2026, 0, 5, hours, minutes);
+  const schedule = { enabled: true, days: [1, 3], time: '19:00' };
+
+  it('今天的提醒時間未到時，下次提醒為今天', () => {
+    expect(getNextReminderTime(schedule, monday(8))).toEqual(monday(19));
+  });
+
+  it('今天的提醒時間已過 (含剛好等於) 時，下次提醒為下一個選擇的日子', () => {
+    expect(getNextReminderTime(schedule, monday(19))).toEqual(new Date(2026, 0, 7, 19, 0));
+    expect(getNextReminderTime(schedule, new Date(2026, 0, 7, 20))).toEqual(new Date(2026, 0, 12, 19, 0));
+  });
+
+  it('應依序列出接下來的提醒，跨週與跨月', () => {
+    const times = getUpcomingReminderTimes({ enabled: true, days: [6], time: '07:30' }, new Date(2026, 0, 25, 12), 2);
+    expect(times).toEqual([new Date(2026, 0, 31, 7, 30), new Date(2026, 1, 7, 7, 30)]);
+  });
+
+  it('未啟用或沒有選擇星期時沒有提醒', () => {
+    expect(getNextReminderTime({ ...schedule, enabled: false }, monday(8))).toBeNull();
+    expect(getNextReminderTime({ ...schedule, days: [] }, monday(8))).toBeNull();
+  });
+
+  it('應整理儲存的排程', () => {
+    expect(normalizeReminderSchedule(null)).toEqual(DEFAULT_REMINDER_SCHEDULE);
+    expect(normalizeReminderSchedule({ enabled: true, days: [5, 1, 1, 9, 'x'], time: '25:00' })).toEqual({
+      enabled: true,
+      days: [1, 5],
+      time: DEFAULT_REMINDER_SCHEDULE.time,
+    });
+    expect(describeReminderSchedule({ enabled: true, days: [1, 3, 5], time: '19:00' })).toBe('每週一、三、五 19:00');
+    expect(describeReminderSchedule({ ...schedule, enabled: false })).toBe('未設定提醒');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateWorkoutPlan } from '@/features/generator/engine';
+import { rebuildPlanFromLog, regeneratePlanFromSeed } from '@/features/generator/replay';
+import { toPlannedEntries } from '@/features/generator/plannedEntries';
+import { generateAIWorkoutPlan } from '@/services/aiGeneratorService';
+import { setBlockRest } from '@/features/generator/planEditing';
+import { MOCK_EXERCISES } from '@/data/mockExercises';
+import { ExerciseLogEntry, preferencesToSettings, settingsToPreferences } from '@/types/workoutLog';
+import { UserPreferences, PlanItem } from '@/types/app';
+import * as exerciseService from '@/services/exerciseService';
+
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
+// Mock exerciseService
+vi.mock('@/services/exerciseService');
+
+describe('重做一次 (Repeat workout)', () => {
+  const byId = (id: string) => MOCK_EXERCISES.find(ex => ex.id === id)!;
+
+  // 模擬 CompletedScreen 寫入紀錄的方式
+  const toLogEntries = (plan: PlanItem[]): ExerciseLogEntry[] =>
+    plan
+      .map((item, planIndex) => ({ item, planIndex }))
+      .filter(({ item }) => item.type === 'exercise')
+      .map(({ item, planIndex }) => ({
+        name: item.title,
+        exerciseId: item.exercise?.id,
+        plannedDuration: item.duration,
+        actualDuration: item.duration,
+        completed: true,
+        feedback: null,
+        ...(item.reps !== undefined && { targetReps: item.reps, targetSets: item.sets, actualReps: [] }),
+        phase: item.phase ?? 'main',
+        ...(item.format !== undefined && { format: item.format }),
+        ...(item.round !== undefined && { round: item.round }),
+        ...(item.totalRounds !== undefined && { totalRounds: item.totalRounds }),
+        restAfterSeconds: plan[planIndex + 1]?.type === 'rest' ? plan[planIndex + 1].duration : 0,
+      }));
+
+  const summarize = (items: PlanItem[]) =>
+    items.map(item => [item.type, item.exercise?.id, item.duration, item.phase, item.round, item.reps].join(':'));
+
+  it('訓練設定應保留訓練形式並可轉回偏好設定', () => {
+    const prefs: UserPreferences = {
+      goal: 'tone', equipment: ['bodyweight'], durationMinutes: 20, difficulty: 'intermediate', format: 'circuit', rounds: 4,
+    };
+
+    expect(preferencesToSettings(prefs)).toMatchObject({ format: 'circuit', rounds: 4 });
+    expect(settingsToPreferences(preferencesToSettings(prefs, 7))).toEqual(prefs);
+    expect(settingsToPreferences({ goal: 'tone', difficulty: 'beginner', equipment: [], plannedDuration: 15 }).format).toBe('straight');
+  });
+
+  it('應該從紀錄還原完全相同的課表', async () => {
+    vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    for (const format of ['straight', 'circuit', 'tabata'] as const) {
+      const { items } = await generateWorkoutPlan(
+        { goal: 'muscle', equipment: ['bodyweight', 'dumbbell'], durationMinutes: 30, difficulty: 'advanced', format },
+        { seed: 11 }
+      );
+      const rebuilt = rebuildPlanFromLog(toLogEntries(items), MOCK_EXERCISES);
+
+      expect(rebuilt.missing).toEqual([]);
+      expect(summarize(rebuilt.items)).toEqual(summarize(items));
+    }
+  });
+
+  it('課表範本 (toPlannedEntries) 應還原相同課表，包含編輯過的休息', async () => {
+    vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+    const { items } = await generateWorkoutPlan(
+      { goal: 'muscle', equipment: ['bodyweight'], durationMinutes: 20, difficulty: 'intermediate' },
+      { seed: 3 }
+    );
+    const edited = setBlockRest(items, 1, 0);
+    const entries = toPlannedEntries(edited);
+
+    expect(entries).toEqual(toLogEntries(edited).map(({ actualDuration, completed, feedback, actualReps, ...planned }) => planned));
+    expect(summarize(rebuildPlanFromLog(entries, MOCK_EXERCISES).items)).toEqual(summarize(edited));
+  });
+
+  it('找不到的動作應略過，舊紀錄以預設休息銜接', () => {
+    const entries: ExerciseLogEntry[] = [
+      { name: '深蹲', exerciseId: 'sq-001', plannedDuration: 45, actualDuration: 45, completed: true, feedback: null },
+      { name: '已刪除動作', exerciseId: 'gone-001', plannedDuration: 30, actualDuration: 30, completed: true, feedback: null },
+      { name: '伏地挺身', exerciseId: 'pu-001', plannedDuration: 40, actualDuration: 0, completed: false, feedback: null },
+    ];
+
+    const { items, missing } = rebuildPlanFromLog(entries, MOCK_EXERCISES);
+
+    expect(missing).toEqual(['已刪除動作']);
+    expect(items.map(item => item.type)).toEqual(['exercise', 'rest', 'exercise']);
+    expect(items[0]).toMatchObject({ exercise: byId('sq-001'), duration: 45, phase: 'main' });
+    expect(items[1].duration).toBe(30);
+  });
+
+  describe('以種子重現 (Seeded replay)', () => {
+    const prefs: UserPreferences = {
+      goal: 'fat-loss', equipment: ['bodyweight'], durationMinutes: 20, difficulty: 'intermediate', format: 'circuit', rounds: 3,
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // 與 App 相同的路徑：generateAIWorkoutPlan 生成 (離線時改用本地生成器)，完成後以 preferencesToSettings 記錄種子
+    const generateAsApp = async (seed: number) => {
+      vi.mocked(exerciseService.getAllExercises).mockResolvedValue(MOCK_EXERCISES);
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      return generateAIWorkoutPlan(prefs, { seed });
+    };
+
+    it('相同設定與種子應重新生成相同課表', async () => {
+      const plan = await generateAsApp(21);
+      expect(plan.reproducible).toBe(true);
+
+      const regenerated = await regeneratePlanFromSeed(preferencesToSettings(prefs, plan.seed), toLogEntries(plan.items));
+
+      expect(regenerated).not.toBeNull();
+      expect(regenerated!.items).toEqual(plan.items);
+    });
+
+    it('沒有種子或重新生成的結果與紀錄不同時應回傳 null', async () => {
+      const plan = await generateAsApp(21);
+      const entries = toLogEntries(plan.items);
+      const edited = entries.map((entry, index) => (index === 0 ? { ...entry, plannedDuration: entry.plannedDuration + 5 } : entry));
+
+      expect(await regeneratePlanFromSeed(preferencesToSettings(prefs), entries)).toBeNull();
+      expect(await regeneratePlanFromSeed(preferencesToSettings(prefs, plan.seed), edited)).toBeNull();
+      expect(await regeneratePlanFromSeed(preferencesToSettings(prefs, plan.seed), entries, {
+        exerciseIds: [entries[entries.length - 1].exerciseId!], tags: [],
+      })).toBeNull();
+    });
+  });
+});
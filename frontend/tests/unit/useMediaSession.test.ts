@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { getNowPlayingInfo } from '@/features/player/nowPlaying';
+import { PlanItem } from '@/types/app';
+import { MediaSessionAdapter, MediaSessionHandlers, createMediaSessionAdapter } from '@/utils/mediaSession';
+
+const info = { title: '開合跳', artist: '下一個：休息', album: '第 1 / 3 項' };
+
+const createFakeSession = () => {
+  const handlers = new Map<string, (() => void) | null>();
+  const session = {
+    metadata: null as unknown,
+    playbackState: 'none',
+    setActionHandler: vi.fn((action: string, handler: (() => void) | null) => {
+      if (action === 'previoustrack') throw new TypeError('not supported');
+      handlers.set(action, handler);
+    }),
+  };
+  return { session, handlers };
+};
+
+const createFakeAdapter = () => {
+  let handlers: MediaSessionHandlers = {};
+  const adapter = {
+    setMetadata: vi.fn(),
+    setPlaybackState: vi.fn(),
+    setHandlers: vi.fn((next: MediaSessionHandlers) => { handlers = next; }),
+  } satisfies MediaSessionAdapter;
+  return { adapter, press: (control: keyof MediaSessionHandlers) => handlers[control]?.() };
+};
+
+describe('createMediaSessionAdapter', () => {
+  it('應將資訊轉為 MediaMetadata 並設定播放狀態', () => {
+    const { session } = createFakeSession();
+    const adapter = createMediaSessionAdapter(session as unknown as MediaSession, init => init as MediaMetadata);
+
+    adapter.setMetadata({ ...info, artworkUrl: 'https://example.com/jumping-jacks.gif' });
+    expect(session.metadata).toEqual({ ...info, artwork: [{ src: 'https://example.com/jumping-jacks.gif' }] });
+    adapter.setPlaybackState('paused');
+    expect(session.playbackState).toBe('paused');
+    adapter.setMetadata(null);
+    expect(session.metadata).toBeNull();
+  });
+
+  it('未提供的按鍵應移除，瀏覽器不支援的按鍵應略過', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { session, handlers } = createFakeSession();
+    const adapter = createMediaSessionAdapter(session as unknown as MediaSession, init => init as MediaMetadata);
+    const play = vi.fn();
+
+    adapter.setHandlers({ play, previoustrack: vi.fn() });
+    handlers.get('play')?.();
+    expect(play).toHaveBeenCalledTimes(1);
+    expect(handlers.get('pause')).toBeNull();
+    expect(handlers.has('previoustrack')).toBe(false);
+  });
+});
+
+describe('useMediaSession', () => {
+  it('應同步資訊與播放狀態，卸載時清除', () => {
+    const { adapter } = createFakeAdapter();
+    const { rerender, unmount } = renderHook(
+      ({ isPlaying, title }) => useMediaSession({ info: { ...info, title }, isPlaying, handlers: {}, adapter }),
+      { initialProps: { isPlaying: true, title: '開合跳' } },
+    );
+    expect(adapter.setMetadata).toHaveBeenLastCalledWith(expect.objectContaining({ title: '開合跳' }));
+    expect(adapter.setPlaybackState).toHaveBeenLastCalledWith('playing');
+
+    rerender({ isPlaying: false, title: '休息' });
+    expect(adapter.setMetadata).toHaveBeenLastCalledWith(expect.objectContaining({ title: '休息' }));
+    expect(adapter.setPlaybackState).toHaveBeenLastCalledWith('paused');
+
+    unmount();
+    expect(adapter.setMetadata).toHaveBeenLastCalledWith(null);
+    expect(adapter.setPlaybackState).toHaveBeenLastCalledWith('none');
+    expect(adapter.setHandlers).toHaveBeenLastCalledWith({});
+  });
+
+  it('按鍵應呼叫最新的處理函式，且不因每次 render 重新註冊', () => {
+    const { adapter, press } = createFakeAdapter();
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = renderHook(
+      ({ next }) => useMediaSession({ info, isPlaying: true, handlers: { nexttrack: next }, adapter }),
+      { initialProps: { next: first } },
+    );
+    const registrations = adapter.setHandlers.mock.calls.length;
+
+    rerender({ next: second });
+    press('nexttrack');
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(adapter.setHandlers).toHaveBeenCalledTimes(registrations);
+  });
+
+  it('不支援 Media Session 時不做任何事', () => {
+    expect(() => renderHook(() => useMediaSession({ info, isPlaying: true, handlers: {}, adapter: null }))).not.toThrow();
+  });
+});
+
+describe('鎖定畫面資訊 (Now playing)', () => {
+  const plan: PlanItem[] = [
+    {
+      type: 'exercise', duration: 20, title: '開合跳', format: 'tabata', round: 2, totalRounds: 8,
+      exercise: { id: 'ex-1', name: '開合跳', description: '', duration_seconds: 20, video_url: 'https://example.com/jj.gif', tags: [] },
+    },
+    { type: 'rest', duration: 10, title: '休息' },
+  ];
+
+  it('標題為目前項目，副標題為下一個項目，並附上進度與回合', () => {
+    expect(getNowPlayingInfo(plan, 0)).toEqual({
+      title: '開合跳',
+      artist: '下一個：休息',
+      album: '第 1 / 2 項 · 第 2 / 8 回合',
+      artworkUrl: 'https://example.com/jj.gif',
+    });
+  });
+
+  it('最後一個項目沒有下一個', () => {
+    expect(getNowPlayingInfo(plan, 1)).toEqual({ title: '休息', artist: '最後一個項目', album: '第 2 / 2 項' });
+  });
+});
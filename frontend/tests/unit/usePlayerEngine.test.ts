@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { usePlayerEngine } from '@/hooks/usePlayerEngine';
+import { PlanItem } from '@/types/app';
+
+const plan: PlanItem[] = [
+  { type: 'exercise', duration: 5, title: '開合跳' },
+  { type: 'rest', duration: 3, title: '休息' },
+  { type: 'exercise', duration: 5, title: '棒式' },
+];
+
+describe('usePlayerEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('應隨時間倒數並自動進入下一個項目', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => usePlayerEngine(plan, { onFinish }));
+
+    expect(result.current.timeLeft).toBe(5);
+    act(() => { vi.advanceTimersByTime(2_000); });
+    expect(result.current.timeLeft).toBe(3);
+    expect(result.current.elapsedSeconds).toBe(2);
+
+    act(() => { vi.advanceTimersByTime(3_000); });
+    expect(result.current.currentIndex).toBe(1);
+    expect(result.current.timeLeft).toBe(3);
+    expect(result.current.completedExercises).toBe(1);
+  });
+
+  it('getResult 不因畫面更新而改變，且回傳最新的結果', () => {
+    const { result } = renderHook(() => usePlayerEngine(plan, { onFinish: vi.fn() }));
+    const { getResult } = result.current;
+
+    act(() => { vi.advanceTimersByTime(2_000); });
+    expect(result.current.getResult).toBe(getResult);
+    expect(getResult().elapsedSeconds).toBe(2);
+  });
+
+  it('計時器被節流 (長時間未觸發) 時仍以實際經過時間計算', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => usePlayerEngine(plan, { onFinish }));
+
+    // 模擬分頁在背景：時間經過 7 秒，但計時器沒有觸發
+    act(() => {
+      vi.setSystemTime(Date.now() + 7_000);
+      vi.advanceTimersToNextTimer();
+    });
+    expect(result.current.currentIndex).toBe(1);
+    expect(result.current.timeLeft).toBe(1);
+    expect(result.current.elapsedSeconds).toBe(7);
+  });
+
+  it('暫停期間不計時，繼續後接續倒數', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => usePlayerEngine(plan, { onFinish }));
+
+    act(() => { vi.advanceTimersByTime(1_000); });
+    act(() => { result.current.togglePause(); });
+    act(() => { vi.advanceTimersByTime(60_000); });
+    expect(result.current.isPaused).toBe(true);
+    expect(result.current.timeLeft).toBe(4);
+
+    act(() => { result.current.togglePause(); });
+    act(() => { vi.advanceTimersByTime(1_000); });
+    expect(result.current.timeLeft).toBe(3);
+    expect(result.current.elapsedSeconds).toBe(2);
+  });
+
+  it('最後一個項目結束時只呼叫一次 onFinish', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => usePlayerEngine(plan, { onFinish }));
+
+    act(() => { result.current.skipItem(); });
+    act(() => { vi.advanceTimersByTime(20_000); });
+
+    expect(result.current.isFinished).toBe(true);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({
+      completedExercises: 1,
+      elapsedSeconds: 8,
+      items: [
+        expect.objectContaining({ index: 0, activeSeconds: 0, completed: false, skipped: true }),
+        expect.objectContaining({ index: 1, activeSeconds: 3, completed: true, skipped: false }),
+        expect.objectContaining({ index: 2, activeSeconds: 5, completed: true, skipped: false }),
+      ],
+    }));
+  });
+
+  it('目前項目被替換 (換動作) 時重新開始該項目', () => {
+    const onFinish = vi.fn();
+    const { result, rerender } = renderHook(({ items }) => usePlayerEngine(items, { onFinish }), {
+      initialProps: { items: plan },
+    });
+
+    act(() => { vi.advanceTimersByTime(3_000); });
+    expect(result.current.timeLeft).toBe(2);
+
+    rerender({ items: [{ ...plan[0], title: '登山者' }, ...plan.slice(1)] });
+    expect(result.current.currentIndex).toBe(0);
+    expect(result.current.timeLeft).toBe(5);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  WORKOUT_CHECKPOINT_VERSION,
+  describeCheckpoint,
+  isCheckpointExpired,
+  normalizeWorkoutCheckpoint,
+} from '@/features/session/checkpoint';
+import {
+  clearWorkoutCheckpoint,
+  getCheckpointMaxAgeMs,
+  loadWorkoutCheckpoint,
+  saveWorkoutCheckpoint,
+} from '@/utils/workoutCheckpoint';
+
+const STORAGE_KEY = 'virtual_coach_active_session';
+const HOUR = 60 * 60 * 1000;
+
+const checkpoint = {
+  version: WORKOUT_CHECKPOINT_VERSION,
+  savedAt: '2026-01-05T10:00:00.000Z',
+  startedAt: '2026-01-05T09:50:00.000Z',
+  plan: [
+    { type: 'exercise', duration: 30, title: '開合跳' },
+    { type: 'rest', duration: 15, title: '休息' },
+    { type: 'exercise', duration: 45, title: '伏地挺身', reps: 10, sets: 3 },
+  ],
+  preferences: { goal: 'muscle', equipment: ['bodyweight'], durationMinutes: 15, difficulty: '初階' },
+  planSeed: 42,
+  planAdjustments: [],
+  progress: {
+    currentIndex: 2,
+    timeLeft: 45,
+    timeAdjustSeconds: -15,
+    elapsedSeconds: 50,
+    completedItems: [0, 1],
+    skippedExercises: [],
+    setIndex: 1,
+    repCount: 8,
+    setRestLeft: 12,
+    repLog: { 2: [10] },
+    items: [
+      {
+        index: 0, startedAt: '2026-01-05T09:50:00.000Z', endedAt: '2026-01-05T09:50:30.000Z',
+        activeSeconds: 30, pausedSeconds: 0, completed: true, skipped: false, feedback: 'just_right',
+      },
+      {
+        index: 1, startedAt: '2026-01-05T09:50:30.000Z', endedAt: '2026-01-05T09:50:45.000Z',
+        activeSeconds: 15, pausedSeconds: 0, completed: true, skipped: false, feedback: null,
+      },
+      {
+        index: 2, startedAt: '2026-01-05T09:50:45.000Z', endedAt: null,
+        activeSeconds: 5, pausedSeconds: 0, completed: false, skipped: false, feedback: null,
+      },
+    ],
+  },
+};
+
+describe('訓練檢查點 (Workout Checkpoint)', () => {
+  it('應保留項目索引、剩餘時間與組數', () => {
+    const normalized = normalizeWorkoutCheckpoint(JSON.parse(JSON.stringify(checkpoint)));
+    expect(normalized?.progress).toEqual(checkpoint.progress);
+    expect(normalized?.planSeed).toBe(42);
+    expect(describeCheckpoint(normalized!)).toBe('第 3 / 3 項：伏地挺身');
+  });
+
+  it('版本不符、課表為空或索引超出課表時應捨棄', () => {
+    expect(normalizeWorkoutCheckpoint(null)).toBeNull();
+    expect(normalizeWorkoutCheckpoint({ ...checkpoint, version: 0 })).toBeNull();
+    expect(normalizeWorkoutCheckpoint({ ...checkpoint, plan: [] })).toBeNull();
+    expect(normalizeWorkoutCheckpoint({ ...checkpoint, progress: { ...checkpoint.progress, currentIndex: 3 } })).toBeNull();
+    expect(normalizeWorkoutCheckpoint({ ...checkpoint, progress: { ...checkpoint.progress, timeLeft: -1 } })).toBeNull();
+  });
+
+  it('無效的項目紀錄應略過', () => {
+    const items = [
+      ...checkpoint.progress.items,
+      { ...checkpoint.progress.items[0], index: 3 },
+      { ...checkpoint.progress.items[0], startedAt: 'not a date' },
+      { ...checkpoint.progress.items[0], activeSeconds: -1 },
+    ];
+    const normalized = normalizeWorkoutCheckpoint({ ...checkpoint, progress: { ...checkpoint.progress, items } });
+    expect(normalized?.progress.items).toEqual(checkpoint.progress.items);
+  });
+
+  it('超過保留時間的檢查點應過期', () => {
+    const normalized = normalizeWorkoutCheckpoint(checkpoint)!;
+    const hour = 60 * 60 * 1000;
+    expect(isCheckpointExpired(normalized, new Date('2026-01-05T21:00:00.000Z'), 12 * hour)).toBe(false);
+    expect(isCheckpointExpired(normalized, new Date('2026-01-05T22:00:01.000Z'), 12 * hour)).toBe(true);
+    expect(isCheckpointExpired(normalized, new Date('2026-01-05T11:00:01.000Z'), hour)).toBe(true);
+  });
+});
+
+describe('workoutCheckpoint (本地儲存)', () => {
+  const { savedAt, ...unsaved } = checkpoint;
+  const saveRaw = (value: unknown) => localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(savedAt));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('儲存時填入寫入時間，讀取時還原相同的檢查點', () => {
+    saveWorkoutCheckpoint(unsaved as Parameters<typeof saveWorkoutCheckpoint>[0]);
+    expect(loadWorkoutCheckpoint()).toEqual(checkpoint);
+  });
+
+  it('超過預設 12 小時的檢查點應清除', () => {
+    saveRaw(checkpoint);
+    expect(loadWorkoutCheckpoint(new Date(Date.parse(savedAt) + 11 * HOUR))).not.toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).not.toBeNull();
+
+    expect(loadWorkoutCheckpoint(new Date(Date.parse(savedAt) + 12 * HOUR + 1_000))).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('保留時間可用環境變數調整，無效時使用預設值', () => {
+    expect(getCheckpointMaxAgeMs()).toBe(12 * HOUR);
+    vi.stubEnv('VITE_SESSION_RESUME_HOURS', '2');
+    expect(getCheckpointMaxAgeMs()).toBe(2 * HOUR);
+    vi.stubEnv('VITE_SESSION_RESUME_HOURS', 'abc');
+    expect(getCheckpointMaxAgeMs()).toBe(12 * HOUR);
+  });
+
+  it('版本不符的檢查點應清除', () => {
+    saveRaw({ ...checkpoint, version: WORKOUT_CHECKPOINT_VERSION - 1 });
+    expect(loadWorkoutCheckpoint()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('無法解析的資料應清除', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, '{not json');
+    expect(loadWorkoutCheckpoint()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it('清除後沒有未完成的訓練', () => {
+    saveRaw(checkpoint);
+    clearWorkoutCheckpoint();
+    expect(loadWorkoutCheckpoint()).toBeNull();
+  });
+});
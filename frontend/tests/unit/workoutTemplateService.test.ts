@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createWorkoutTemplate,
+  deleteWorkoutTemplate,
+  getWorkoutTemplates,
+  updateWorkoutTemplate,
+} from '@/services/workoutTemplateService';
+import { CreateWorkoutTemplateInput } from '@/types/workoutTemplate';
+
+// Mock Supabase (避免載入時檢查環境變數)
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: true,
+}));
+
+const input = (name: string): CreateWorkoutTemplateInput => ({
+  name,
+  settings: { goal: 'tone', difficulty: 'beginner', equipment: ['bodyweight'], plannedDuration: 15, format: 'straight' },
+  exercises: [
+    { name: '深蹲', exerciseId: 'sq-001', plannedDuration: 45, phase: 'main', restAfterSeconds: 30 },
+    { name: '伏地挺身', exerciseId: 'pu-001', plannedDuration: 40, phase: 'main', restAfterSeconds: 0 },
+  ],
+});
+
+describe('workoutTemplateService (訪客模式)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('新增的範本應存於本地，最新的在前', async () => {
+    const first = await createWorkoutTemplate(null, input('  早晨 15 分鐘 '));
+    const second = await createWorkoutTemplate(null, input('下班核心'));
+
+    expect(first).toMatchObject({ name: '早晨 15 分鐘', user_id: 'guest' });
+    expect(first!.id.startsWith('local_')).toBe(true);
+    expect((await getWorkoutTemplates(null)).map(template => template.id)).toEqual([second!.id, first!.id]);
+  });
+
+  it('更新範本後應移到最前面', async () => {
+    const first = await createWorkoutTemplate(null, input('A'));
+    await createWorkoutTemplate(null, input('B'));
+
+    const updated = await updateWorkoutTemplate(first!.id, null, { name: ' A2 ' });
+
+    expect(updated).toMatchObject({ id: first!.id, name: 'A2', exercises: input('A').exercises });
+    expect((await getWorkoutTemplates(null)).map(template => template.name)).toEqual(['A2', 'B']);
+    expect(await updateWorkoutTemplate('local_missing', null, { name: 'X' })).toBeNull();
+  });
+
+  it('刪除範本', async () => {
+    const template = await createWorkoutTemplate(null, input('A'));
+
+    expect(await deleteWorkoutTemplate(template!.id, null)).toBe(true);
+    expect(await getWorkoutTemplates(null)).toEqual([]);
+  });
+
+  it('本地資料損毀時回傳空列表', async () => {
+    localStorage.setItem('virtual_coach_workout_templates', '{not json');
+    expect(await getWorkoutTemplates(null)).toEqual([]);
+  });
+});
@@ -36,7 +36,13 @@ interface GenerateRequest {
     durationMinutes: number;
     difficulty: string;
     equipment: string[];
+    format?: string;
+    rounds?: number;
   };
+  /** 依使用者過往回饋所做的調整說明 (可選) */
+  progressionNotes?: string[];
+  /** 使用者排除的動作與條件說明 (可選，運動列表已事先排除) */
+  exclusionLabels?: string[];
 }
 
 serve(async (req: Request) => {
@@ -65,7 +71,7 @@ serve(async (req: Request) => {
     }
 
     // 解析請求
-    const { exercises, preferences }: GenerateRequest = await req.json();
+    const { exercises, preferences, progressionNotes = [], exclusionLabels = [] }: GenerateRequest = await req.json();
 
     if (!exercises || !preferences) {
       return new Response(
@@ -95,8 +101,30 @@ serve(async (req: Request) => {
       'dumbbell': '啞鈴',
       'band': '彈力帶',
       'kettlebell': '壺鈴',
+      'pullup_bar': '單槓',
+      'bench': '訓練椅',
+      'jump_rope': '跳繩',
+      'mat': '瑜珈墊',
     };
 
+    // 訓練形式翻譯映射
+    const FORMAT_LABELS: Record<string, string> = {
+      'straight': '一般組數',
+      'circuit': '循環訓練',
+      'tabata': 'Tabata',
+      'emom': 'EMOM',
+      'amrap': 'AMRAP',
+    };
+
+    // 使用者過往回饋 (前端已依回饋調整運動列表)
+    const feedbackSection = progressionNotes.length > 0
+      ? `
+## 使用者過往回饋
+以下動作已依使用者回饋調整（運動列表中的動作與時長已反映調整），請優先保留：
+${progressionNotes.map(note => `- ${note}`).join('\n')}
+`
+      : '';
+
     // 建構 AI 提示詞
     const prompt = `你是一位專業的健身教練。請根據以下條件，從提供的運動列表中選擇最適合的運動組合來設計一個訓練課表。
 
@@ -105,16 +133,19 @@ serve(async (req: Request) => {
 - **訓練時長**: ${preferences.durationMinutes} 分鐘
 - **難度等級**: ${DIFFICULTY_LABELS[preferences.difficulty] || preferences.difficulty}
 - **可用器材**: ${preferences.equipment.map(e => EQUIPMENT_LABELS[e] || e).join('、')}
+- **訓練形式**: ${FORMAT_LABELS[preferences.format ?? 'straight'] || preferences.format}
+- **排除動作**: ${exclusionLabels.length > 0 ? exclusionLabels.join('、') : '無'}
 
 ## 可選運動列表
 ${JSON.stringify(exercises, null, 2)}
-
+${feedbackSection}
 ## 設計要求
 1. 總訓練時間（包含休息）應接近 ${preferences.durationMinutes} 分鐘
-2. 每個運動之間會有 30 秒休息時間
-3. 選擇多樣化的運動，避免連續相同肌群
+2. 休息與回合結構由系統依訓練形式安排，請依建議執行順序挑選動作
+3. 選擇多樣化的運動，不可連續安排相同肌群（依 \`muscle:\` 標籤判斷）
 4. 根據訓練目標選擇最合適的運動
-5. 確保運動順序合理（先暖身、後主訓練）
+5. 暖身與緩和伸展由系統自動安排，請只挑選主訓練動作
+6. 只能使用運動列表中的 ID，不可安排任何排除的動作
 
 ## 回應格式
 請只回傳選中運動的 ID 陣列（JSON 格式），按照建議的執行順序排列。